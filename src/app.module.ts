@@ -19,6 +19,13 @@ import { AuthModule } from './modules/auth/auth.module';
 import { ConfigModule } from '@nestjs/config';
 import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
 import { CommonModule } from './common';
+import { ExecutionOutputModule } from './modules/execution-output/execution-output.module';
+import { TaskSchedulesModule } from './modules/task-schedules/task-schedules.module';
+import { WorkflowsModule } from './modules/workflows/workflows.module';
+import { EncryptionModule } from './modules/encryption/encryption.module';
+import { CredentialsModule } from './modules/credentials/credentials.module';
+import { FilesModule } from './modules/files/files.module';
+import { NotificationsModule } from './modules/notifications/notifications.module';
 
 @Module({
   imports: [
@@ -34,8 +41,11 @@ import { CommonModule } from './common';
     PrismaModule,
     // 注册通用模块
     CommonModule,
+    // 注册加密模块
+    EncryptionModule,
     // 注册业务模块
     ServersModule,
+    CredentialsModule,
     TasksModule,
     QueueModule,
     SshModule,
@@ -44,6 +54,11 @@ import { CommonModule } from './common';
     DashboardModule,
     TaskExecutionsModule,
     CommandMonitorsModule,
+    ExecutionOutputModule,
+    TaskSchedulesModule,
+    WorkflowsModule,
+    FilesModule,
+    NotificationsModule,
     // 注册用户和认证模块
     UsersModule,
     AuthModule,
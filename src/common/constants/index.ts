@@ -18,11 +18,81 @@ export const TaskExecutionStatus = {
   COMPLETED: 'completed',
   FAILED: 'failed',
   CANCELLED: 'cancelled',
+  TIMEOUT: 'timeout',
 } as const;
 
 export type TaskExecutionStatusType =
   (typeof TaskExecutionStatus)[keyof typeof TaskExecutionStatus];
 
+// 命令退出码常量
+export const CommandExitCode = {
+  SUCCESS: 0,
+  // 超时退出码，与 GNU timeout 保持一致
+  TIMEOUT: 124,
+  // 取消退出码，即 128 + SIGTERM
+  CANCELLED: 143,
+} as const;
+
+// 任务参数类型常量
+export const TaskParameterType = {
+  STRING: 'string',
+  NUMBER: 'number',
+  ENUM: 'enum',
+} as const;
+
+export type TaskParameterTypeType =
+  (typeof TaskParameterType)[keyof typeof TaskParameterType];
+
+// 定时任务重叠策略常量
+export const ScheduleOverlapPolicy = {
+  // 上一次运行尚未结束时跳过本次触发
+  SKIP: 'skip',
+  // 本次触发入队，待上一次运行结束后再开始
+  QUEUE: 'queue',
+  // 允许与上一次运行并行
+  ALLOW: 'allow',
+} as const;
+
+export type ScheduleOverlapPolicyType =
+  (typeof ScheduleOverlapPolicy)[keyof typeof ScheduleOverlapPolicy];
+
+// 工作流步骤执行条件常量
+export const WorkflowStepCondition = {
+  // 之前执行的步骤全部成功时运行
+  SUCCESS: 'success',
+  // 之前执行的步骤有失败时运行
+  FAILURE: 'failure',
+  // 总是运行
+  ALWAYS: 'always',
+} as const;
+
+export type WorkflowStepConditionType =
+  (typeof WorkflowStepCondition)[keyof typeof WorkflowStepCondition];
+
+// 工作流运行状态常量
+export const WorkflowRunStatus = {
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+} as const;
+
+export type WorkflowRunStatusType =
+  (typeof WorkflowRunStatus)[keyof typeof WorkflowRunStatus];
+
+// 工作流运行步骤状态常量
+export const WorkflowRunStepStatus = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  SKIPPED: 'skipped',
+  CANCELLED: 'cancelled',
+} as const;
+
+export type WorkflowRunStepStatusType =
+  (typeof WorkflowRunStepStatus)[keyof typeof WorkflowRunStepStatus];
+
 // 服务器状态常量
 export const ServerStatus = {
   ONLINE: 'online',
@@ -41,6 +111,16 @@ export const ConnectionType = {
 export type ConnectionTypeType =
   (typeof ConnectionType)[keyof typeof ConnectionType];
 
+// 共享凭据类型常量
+export const CredentialType = {
+  PASSWORD: 'password',
+  KEY: 'key',
+  KEY_PASSPHRASE: 'key_passphrase',
+} as const;
+
+export type CredentialTypeType =
+  (typeof CredentialType)[keyof typeof CredentialType];
+
 // 用户角色常量
 export const UserRole = {
   ADMIN: 'admin',
@@ -57,6 +137,198 @@ export const ProxyStatus = {
 
 export type ProxyStatusType = (typeof ProxyStatus)[keyof typeof ProxyStatus];
 
+// 文件分发状态常量
+export const FileDistributionStatus = {
+  RUNNING: 'running',
+  // 所有服务器均传输成功
+  COMPLETED: 'completed',
+  // 至少一台服务器传输失败
+  FAILED: 'failed',
+} as const;
+
+export type FileDistributionStatusType =
+  (typeof FileDistributionStatus)[keyof typeof FileDistributionStatus];
+
+// 单台服务器的文件传输状态常量
+export const FileTransferStatus = {
+  PENDING: 'pending',
+  RUNNING: 'running',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+} as const;
+
+export type FileTransferStatusType =
+  (typeof FileTransferStatus)[keyof typeof FileTransferStatus];
+
+// 文件传输默认配置
+export const FileTransferDefaults = {
+  MAX_FILE_SIZE: 50 * 1024 * 1024, // 上传和下载的最大文件大小（字节）
+  STORAGE_DIR: './data/artifacts', // 制品存储目录，可通过 FILE_STORAGE_DIR 覆盖
+  DISTRIBUTION_CONCURRENCY: 10, // 单次分发同时传输的服务器数
+  PROXY_TIMEOUT_MS: 5 * 60 * 1000, // 通过代理传输单个文件的超时时间
+  // Socket.IO 单条消息的最大字节数，需容纳 base64 编码后的最大文件。
+  // 同一路径上的网关共用一个 Socket.IO 服务器，由最先初始化的网关创建，因此各网关需配置相同的值
+  SOCKET_MAX_BUFFER_SIZE: 70 * 1024 * 1024,
+  MAX_READ_LENGTH: 1024 * 1024, // 文件浏览单次读取的最大字节数
+} as const;
+
+// 终端录像状态常量
+export const TerminalRecordingStatus = {
+  RECORDING: 'recording',
+  COMPLETED: 'completed',
+  INTERRUPTED: 'interrupted', // 服务重启时仍在录制
+} as const;
+
+export type TerminalRecordingStatusType =
+  (typeof TerminalRecordingStatus)[keyof typeof TerminalRecordingStatus];
+
+// 终端录像默认配置
+export const TerminalRecordingDefaults = {
+  STORAGE_DIR: './data/recordings', // 录像存储目录，可通过 TERMINAL_RECORDING_DIR 覆盖
+  RETENTION_DAYS: 90, // 录像保留天数，可通过 TERMINAL_RECORDING_RETENTION_DAYS 覆盖，0 表示永久保留
+  TERM: 'xterm-color',
+  COLS: 80,
+  ROWS: 24,
+} as const;
+
+// 交互式终端会话限制
+export const TerminalSessionDefaults = {
+  IDLE_TIMEOUT_MS: 30 * 60 * 1000, // 无输入自动断开的时间，可通过 TERMINAL_IDLE_TIMEOUT_MS 覆盖，0 表示不限制
+  MAX_DURATION_MS: 8 * 60 * 60 * 1000, // 会话最长持续时间，可通过 TERMINAL_MAX_DURATION_MS 覆盖，0 表示不限制
+  SWEEP_INTERVAL_MS: 30 * 1000, // 检查会话是否超时的间隔
+} as const;
+
+// 命令监控状态常量
+export const CommandMonitorStatus = {
+  ACTIVE: 'active',
+  SUSPENDED: 'suspended', // 修复次数超过限制，需要重新启用
+} as const;
+
+export type CommandMonitorStatusType =
+  (typeof CommandMonitorStatus)[keyof typeof CommandMonitorStatus];
+
+// 命令监控默认配置，需要与 prisma/schema.prisma 中的字段默认值保持一致
+export const CommandMonitorDefaults = {
+  SCHEDULER_TICK_MS: 5000, // 调度器查找到期监控的间隔，也是检查间隔的最小值
+  INTERVAL_SECONDS: 10, // 检查间隔
+  COOLDOWN_SECONDS: 300, // 执行修复命令后的冷却时间，期间只检查不修复
+  MAX_REMEDIATIONS: 3, // 时间窗口内允许的最大修复次数，0 表示不限制
+  REMEDIATION_WINDOW_SECONDS: 3600, // 统计修复次数的时间窗口
+  MAX_CONCURRENT_SERVERS: 10, // 单个监控同时检查的服务器数量
+  VERIFY_DELAY_SECONDS: 30, // 执行修复命令后等待多久进行恢复验证
+} as const;
+
+// 命令监控在单台服务器上的状态常量
+export const CommandMonitorState = {
+  HEALTHY: 'healthy',
+  FAILING: 'failing', // 检查失败，尚未执行修复命令
+  REMEDIATING: 'remediating', // 已执行修复命令，等待恢复验证
+  RECOVERED: 'recovered', // 恢复验证通过
+  FAILED_TO_RECOVER: 'failed_to_recover', // 恢复验证仍然失败
+} as const;
+
+export type CommandMonitorStateType =
+  (typeof CommandMonitorState)[keyof typeof CommandMonitorState];
+
+// 命令监控检查条件类型常量，任一条件成立时检查视为失败
+export const CheckConditionType = {
+  MATCH: 'match', // 检查命令的标准输出匹配正则
+  NOT_MATCH: 'not_match', // 检查命令的标准输出不匹配正则
+  THRESHOLD: 'threshold', // 从标准输出解析出的数值满足比较条件
+  OUTPUT_CHANGED: 'output_changed', // 检查命令的输出与上一次检查不同
+  DURATION_EXCEEDED: 'duration_exceeded', // 检查命令的耗时超过限制
+} as const;
+
+export type CheckConditionTypeType =
+  (typeof CheckConditionType)[keyof typeof CheckConditionType];
+
+// 数值阈值条件的比较运算符常量
+export const CheckConditionOperator = {
+  GT: 'gt',
+  GTE: 'gte',
+  LT: 'lt',
+  LTE: 'lte',
+  EQ: 'eq',
+  NE: 'ne',
+} as const;
+
+export type CheckConditionOperatorType =
+  (typeof CheckConditionOperator)[keyof typeof CheckConditionOperator];
+
+// 通知事件类型常量
+export const NotificationEventType = {
+  COMMAND_MONITOR_FIRED: 'command_monitor_fired', // 命令监控检查失败或恢复验证失败
+  TASK_EXECUTION_FAILED: 'task_execution_failed', // 任务执行失败或超时
+  SERVER_OFFLINE: 'server_offline', // 服务器状态检查变为离线
+  PROXY_DISCONNECTED: 'proxy_disconnected', // 代理断开连接
+  TEST: 'test', // 渠道测试通知，不经过路由规则
+} as const;
+
+export type NotificationEventTypeType =
+  (typeof NotificationEventType)[keyof typeof NotificationEventType];
+
+// 通知严重程度常量，按严重程度从低到高排列
+export const NotificationSeverity = {
+  INFO: 'info',
+  WARNING: 'warning',
+  CRITICAL: 'critical',
+} as const;
+
+export type NotificationSeverityType =
+  (typeof NotificationSeverity)[keyof typeof NotificationSeverity];
+
+// 通知渠道类型常量
+export const NotificationChannelType = {
+  WEBHOOK: 'webhook', // 通用 Webhook，请求体使用 HMAC-SHA256 签名
+  EMAIL: 'email', // SMTP 邮件
+  SLACK: 'slack', // Slack 兼容的 Incoming Webhook
+} as const;
+
+export type NotificationChannelTypeType =
+  (typeof NotificationChannelType)[keyof typeof NotificationChannelType];
+
+// 通知发送状态常量
+export const NotificationDeliveryStatus = {
+  PENDING: 'pending', // 等待发送或等待重试
+  SENT: 'sent',
+  FAILED: 'failed', // 重试次数用尽
+  SUPPRESSED: 'suppressed', // 因去重或频率限制未发送
+} as const;
+
+export type NotificationDeliveryStatusType =
+  (typeof NotificationDeliveryStatus)[keyof typeof NotificationDeliveryStatus];
+
+// 通知默认配置，需要与 prisma/schema.prisma 中的字段默认值保持一致
+export const NotificationDefaults = {
+  DEDUP_WINDOW_SECONDS: 300, // 相同去重键的通知在此时间内只发送一次
+  RATE_LIMIT_PER_HOUR: 60, // 每个渠道每小时最多发送的通知数量
+  MAX_ATTEMPTS: 5, // 最多发送次数，包括首次发送
+  RETRY_BASE_DELAY_MS: 30 * 1000, // 首次重试的等待时间，之后每次翻倍
+  RETRY_SWEEP_INTERVAL_MS: 15 * 1000, // 查找待重试通知的间隔
+  REQUEST_TIMEOUT_MS: 10 * 1000, // 发送单条通知的超时时间
+  SIGNATURE_HEADER: 'X-Signature-256', // Webhook 签名请求头，值为 sha256=<十六进制签名>
+} as const;
+
+// 文件浏览读写内容的编码常量
+export const RemoteFileEncoding = {
+  UTF8: 'utf8',
+  BASE64: 'base64',
+} as const;
+
+export type RemoteFileEncodingType =
+  (typeof RemoteFileEncoding)[keyof typeof RemoteFileEncoding];
+
+// 文件浏览的文件类型常量
+export const RemoteFileType = {
+  FILE: 'file',
+  DIRECTORY: 'directory',
+  SYMLINK: 'symlink',
+  OTHER: 'other',
+} as const;
+
+export type RemoteFileTypeType =
+  (typeof RemoteFileType)[keyof typeof RemoteFileType];
+
 // 分页默认值常量
 export const PaginationDefaults = {
   PAGE: 1,
@@ -64,6 +336,17 @@ export const PaginationDefaults = {
   MAX_PAGE_SIZE: 100,
 } as const;
 
+// SSH连接池默认配置，可通过同名的 SSH_POOL_* 环境变量覆盖
+export const SshPoolDefaults = {
+  MAX_CONNECTIONS: 50, // 全局最大连接数
+  MAX_CHANNELS_PER_SERVER: 8, // 每台服务器同时执行的最大通道数
+  IDLE_TIMEOUT_MS: 10 * 60 * 1000, // 空闲连接的回收时间
+  ACQUIRE_TIMEOUT_MS: 60 * 1000, // 等待空闲通道的最长时间
+  KEEPALIVE_INTERVAL_MS: 15 * 1000, // keepalive 探测间隔
+  KEEPALIVE_COUNT_MAX: 3, // 连续无响应的 keepalive 次数上限，超过后断开
+  SWEEP_INTERVAL_MS: 30 * 1000, // 后台巡检间隔
+} as const;
+
 // 日期字段常量
 export const DateField = {
   CREATED_AT: 'createdAt',
@@ -20,6 +20,7 @@ export * from './types/utility-types';
 export * from './utils/error-handler.util';
 export * from './utils/cleanup.util';
 export * from './utils/loop-run.util';
+export * from './utils/shell.util';
 
 // 导出模块
 export * from './common.module';
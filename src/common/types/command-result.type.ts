@@ -6,6 +6,8 @@ export interface CommandResult {
   stdout: string;
   stderr: string;
   exitCode: number;
+  timedOut?: boolean; // 是否因超时被终止
+  cancelled?: boolean; // 是否因取消被终止
 }
 
 /**
@@ -0,0 +1,28 @@
+import { execFileSync } from 'child_process';
+import { shellQuote } from './shell.util';
+
+describe('shellQuote', () => {
+  it('应使用单引号包裹并转义值中的单引号', () => {
+    expect(shellQuote('/var/www')).toBe(`'/var/www'`);
+    expect(shellQuote(`it's`)).toBe(`'it'\\''s'`);
+    expect(shellQuote('')).toBe(`''`);
+  });
+
+  it.each([
+    'plain',
+    'with space',
+    `it's "quoted"`,
+    '$(id) `id` $HOME',
+    'a; rm -rf ~ && echo \\ | cat > /dev/null',
+    "''",
+    '-n',
+    '*',
+    'line1\nline2',
+  ])('shell 应将 %j 原样解析为单个参数', (value) => {
+    const output = execFileSync('sh', [
+      '-c',
+      `printf '%s|' ${shellQuote(value)}`,
+    ]).toString();
+    expect(output).toBe(`${value}|`);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * 转义为单引号包裹的shell参数，值中的任何字符都不会被shell解释
+ * @param value 原始值
+ * @returns 可直接拼接到命令中的单个参数
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -23,8 +23,18 @@ async function bootstrap() {
     .setDescription('服务器批量管理、任务下发和监控API')
     .setVersion('1.0')
     .addTag('servers', '服务器管理')
+    .addTag('server-groups', '服务器分组')
+    .addTag('terminal-recordings', '终端录像')
+    .addTag('terminal-sessions', '终端会话')
+    .addTag('credentials', '凭据')
     .addTag('tasks', '任务管理')
     .addTag('executions', '任务执行')
+    .addTag('task-schedules', '定时任务')
+    .addTag('workflows', '工作流')
+    .addTag('files', '文件传输')
+    .addTag('notification-channels', '通知渠道')
+    .addTag('notification-rules', '通知规则')
+    .addTag('notification-deliveries', '通知发送记录')
     .addTag('dashboard', '仪表盘')
     .addTag('proxies', '代理管理')
     .addTag('proxy-websocket', '[WS] 中介代理WebSocket接口')
@@ -1,19 +1,48 @@
-import { Injectable, Logger, Inject, forwardRef } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleDestroy,
+  forwardRef,
+} from '@nestjs/common';
 import { Interval } from '@nestjs/schedule';
 import { CommandMonitorsService } from './services/command-monitors.service';
 import { SshService } from '../ssh/ssh.service';
+import {
+  CheckConditionType,
+  CommandMonitorDefaults,
+  CommandMonitorState,
+  CommandMonitorStatus,
+} from '../../common/constants';
+import {
+  CheckConditionDto,
+  CheckConditionResultDto,
+} from './dto/check-condition.dto';
+import { evaluateCheckConditions } from './utils/check-condition.util';
 
 interface CacheEntry<T> {
   value: T;
   timestamp: number;
 }
 
+// 一次检查的结果
+interface CheckOutcome {
+  output: string;
+  exitCode: number;
+  durationMs: number;
+  conditionResults: CheckConditionResultDto[];
+  failed: boolean; // 退出码非0或任一检查条件成立
+  reason: string; // 检查失败的原因
+}
+
 @Injectable()
-export class CommandMonitorService {
+export class CommandMonitorService implements OnModuleDestroy {
   private readonly logger = new Logger(CommandMonitorService.name);
   private isProcessing = false;
   private runningMonitors = new Set<number>(); // 用于追踪正在处理的监控器ID
   private maxConcurrentMonitors = 10; // 最大并发处理的监控器数量
+  private lastCheckedAt = new Map<number, number>(); // 各监控器上次开始检查的时间，用于按检查间隔调度
+  private verificationTimers = new Map<string, NodeJS.Timeout>(); // 等待恢复验证的定时器，键为 监控ID:服务器ID
 
   // 缓存实现
   private monitorsCache: CacheEntry<any[]> | null = null;
@@ -25,7 +54,14 @@ export class CommandMonitorService {
     private readonly sshService: SshService,
   ) {}
 
-  @Interval(10000) // 每10秒执行一次
+  onModuleDestroy(): void {
+    for (const timer of this.verificationTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.verificationTimers.clear();
+  }
+
+  @Interval(CommandMonitorDefaults.SCHEDULER_TICK_MS)
   async checkCommands() {
     if (this.isProcessing) {
       return;
@@ -48,6 +84,14 @@ export class CommandMonitorService {
 
       this.logger.log(`找到 ${monitors.length} 个启用的命令监控`);
 
+      // 移除已删除或已停用监控器的检查时间
+      const monitorIds = new Set(monitors.map((monitor) => monitor.id));
+      for (const id of this.lastCheckedAt.keys()) {
+        if (!monitorIds.has(id)) {
+          this.lastCheckedAt.delete(id);
+        }
+      }
+
       // 创建Promise数组但限制并发数量
       const promises: Promise<void>[] = [];
       let currentlyRunning = 0;
@@ -62,7 +106,14 @@ export class CommandMonitorService {
           continue;
         }
 
+        // 未到检查间隔的监控器留到之后的调度
+        const lastCheckedAt = this.lastCheckedAt.get(monitor.id) ?? 0;
+        if (Date.now() - lastCheckedAt < monitor.intervalSeconds * 1000) {
+          continue;
+        }
+
         // 标记该监控器为正在处理
+        this.lastCheckedAt.set(monitor.id, Date.now());
         this.runningMonitors.add(monitor.id);
         currentlyRunning++;
 
@@ -115,7 +166,7 @@ export class CommandMonitorService {
   }
 
   /**
-   * 处理单个监控器
+   * 处理单个监控器，分批检查其所有目标服务器
    */
   private async processMonitor(monitor: any): Promise<void> {
     try {
@@ -129,25 +180,76 @@ export class CommandMonitorService {
         return;
       }
 
-      // 执行检查命令
-      const checkResult = await this.sshService.executeCommand(
-        monitor.serverId,
-        monitor.checkCommand,
+      // 分组和标签选择器在每次检查时重新解析
+      let serverIds: number[];
+      try {
+        serverIds =
+          await this.commandMonitorsService.resolveTargetServerIds(monitor);
+      } catch (error) {
+        this.logger.warn(
+          `命令监控 "${monitor.name}" 的目标服务器解析失败，跳过处理: ${error.message}`,
+        );
+        return;
+      }
+
+      // 移除不再是目标的服务器上的状态
+      await this.commandMonitorsService.pruneStates(monitor.id, serverIds);
+
+      const batchSize = CommandMonitorDefaults.MAX_CONCURRENT_SERVERS;
+      for (let i = 0; i < serverIds.length; i += batchSize) {
+        await Promise.all(
+          serverIds
+            .slice(i, i + batchSize)
+            .map((serverId) => this.processServer(monitor, serverId)),
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `处理命令监控 "${monitor.name}" 时出错: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * 在单台服务器上执行检查命令，必要时执行执行命令并安排恢复验证
+   */
+  private async processServer(monitor: any, serverId: number): Promise<void> {
+    // 等待恢复验证期间不再检查该服务器
+    if (
+      this.verificationTimers.has(this.verificationKey(monitor.id, serverId))
+    ) {
+      return;
+    }
+
+    try {
+      const current = await this.commandMonitorsService.getState(
+        monitor.id,
+        serverId,
       );
+      // 服务重启前安排的恢复验证尚未到期，到期后由下一次检查完成验证
+      const verifying = current?.state === CommandMonitorState.REMEDIATING;
+      if (verifying && current.verifyAt && current.verifyAt > new Date()) {
+        return;
+      }
+
+      // 执行检查命令并求值检查条件
+      const check = await this.runCheck(monitor, serverId);
 
       // 记录检查结果
-      const executed = checkResult.exitCode !== 0;
+      // 如果检查失败，且不在冷却期、未超过执行次数限制，则执行执行命令
+      const executed =
+        check.failed && (await this.canRemediate(monitor, serverId));
       let executeOutput: string | undefined;
       let executeExitCode: number | undefined;
 
-      // 如果检查命令返回非0，则执行执行命令
       if (executed) {
         this.logger.log(
-          `服务器 ${monitor.serverId} 上的命令监控 "${monitor.name}" 检测到命令未运行，开始执行命令`,
+          `服务器 ${serverId} 上的命令监控 "${monitor.name}" 检查失败（${check.reason}），开始执行命令`,
         );
 
         const executeResult = await this.sshService.executeCommand(
-          monitor.serverId,
+          serverId,
           monitor.executeCommand,
         );
 
@@ -155,7 +257,7 @@ export class CommandMonitorService {
         executeExitCode = executeResult.exitCode;
 
         this.logger.log(
-          `服务器 ${monitor.serverId} 上的命令监控 "${monitor.name}" 执行完成，退出码: ${executeExitCode}`,
+          `服务器 ${serverId} 上的命令监控 "${monitor.name}" 执行完成，退出码: ${executeExitCode}`,
         );
       }
 
@@ -172,21 +274,229 @@ export class CommandMonitorService {
       // 记录执行结果
       await this.commandMonitorsService.recordExecution(
         monitor.id,
-        monitor.serverId,
-        checkResult.stdout + '\n' + checkResult.stderr,
-        checkResult.exitCode,
+        serverId,
+        check.output,
+        check.exitCode,
         executed,
         executeOutput,
         executeExitCode,
+        check.durationMs,
+        check.conditionResults,
       );
+
+      // 更新服务器状态
+      if (!check.failed) {
+        await this.commandMonitorsService.transition(
+          monitor.id,
+          serverId,
+          verifying
+            ? CommandMonitorState.RECOVERED
+            : CommandMonitorState.HEALTHY,
+          verifying ? '恢复验证通过' : '检查命令执行成功',
+        );
+        return;
+      }
+
+      if (verifying) {
+        await this.commandMonitorsService.transition(
+          monitor.id,
+          serverId,
+          CommandMonitorState.FAILED_TO_RECOVER,
+          `恢复验证失败，${check.reason}`,
+        );
+      } else if (
+        current?.state !== CommandMonitorState.FAILING &&
+        current?.state !== CommandMonitorState.FAILED_TO_RECOVER
+      ) {
+        await this.commandMonitorsService.transition(
+          monitor.id,
+          serverId,
+          CommandMonitorState.FAILING,
+          check.reason,
+        );
+      }
+
+      if (executed) {
+        await this.commandMonitorsService.transition(
+          monitor.id,
+          serverId,
+          CommandMonitorState.REMEDIATING,
+          `已执行执行命令，退出码: ${executeExitCode}`,
+          new Date(Date.now() + monitor.verifyDelaySeconds * 1000),
+        );
+        this.scheduleVerification(monitor, serverId);
+      }
     } catch (error) {
       this.logger.error(
-        `处理命令监控 "${monitor.name}" 时出错: ${error.message}`,
+        `处理服务器 ${serverId} 上的命令监控 "${monitor.name}" 时出错: ${error.message}`,
         error.stack,
       );
     }
   }
 
+  /**
+   * 在验证延迟后再次执行检查命令，验证服务器是否恢复
+   */
+  private scheduleVerification(monitor: any, serverId: number): void {
+    const key = this.verificationKey(monitor.id, serverId);
+    const timer = setTimeout(() => {
+      this.verificationTimers.delete(key);
+      void this.verifyRecovery(monitor, serverId);
+    }, monitor.verifyDelaySeconds * 1000);
+    this.verificationTimers.set(key, timer);
+  }
+
+  /**
+   * 执行恢复验证，检查成功时进入 recovered 状态，否则进入 failed_to_recover 状态
+   * 验证失败不会立即再次执行执行命令，由之后的检查按冷却期和执行次数限制处理
+   */
+  private async verifyRecovery(monitor: any, serverId: number): Promise<void> {
+    try {
+      const check = await this.runCheck(monitor, serverId);
+
+      // 验证监控是否仍然存在（可能在等待期间被删除）
+      try {
+        await this.commandMonitorsService.findOne(monitor.id);
+      } catch (error) {
+        this.invalidateCache();
+        this.logger.warn(`命令监控 ID ${monitor.id} 不存在，跳过恢复验证`);
+        return;
+      }
+
+      await this.commandMonitorsService.recordExecution(
+        monitor.id,
+        serverId,
+        check.output,
+        check.exitCode,
+        false,
+        undefined,
+        undefined,
+        check.durationMs,
+        check.conditionResults,
+      );
+
+      const recovered = !check.failed;
+      await this.commandMonitorsService.transition(
+        monitor.id,
+        serverId,
+        recovered
+          ? CommandMonitorState.RECOVERED
+          : CommandMonitorState.FAILED_TO_RECOVER,
+        recovered ? '恢复验证通过' : `恢复验证失败，${check.reason}`,
+      );
+      this.logger.log(
+        `服务器 ${serverId} 上的命令监控 "${monitor.name}" 恢复验证${recovered ? '通过' : '失败'}`,
+      );
+    } catch (error) {
+      // 状态保持为 remediating，由之后的检查完成恢复验证
+      this.logger.error(
+        `验证服务器 ${serverId} 上的命令监控 "${monitor.name}" 是否恢复时出错: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * 执行检查命令并求值检查条件，检查命令返回非0或任一条件成立时检查失败
+   */
+  private async runCheck(
+    monitor: any,
+    serverId: number,
+  ): Promise<CheckOutcome> {
+    const startedAt = Date.now();
+    const checkResult = await this.sshService.executeCommand(
+      serverId,
+      monitor.checkCommand,
+    );
+    const durationMs = Date.now() - startedAt;
+    const output = checkResult.stdout + '\n' + checkResult.stderr;
+
+    const conditions: CheckConditionDto[] = monitor.conditions ?? [];
+    // 只有输出变化条件需要查询上一次检查的输出
+    const previousOutput = conditions.some(
+      (condition) => condition.type === CheckConditionType.OUTPUT_CHANGED,
+    )
+      ? await this.commandMonitorsService.getLastCheckOutput(
+          monitor.id,
+          serverId,
+        )
+      : undefined;
+    const conditionResults = evaluateCheckConditions(conditions, {
+      stdout: checkResult.stdout,
+      output,
+      durationMs,
+      previousOutput,
+    });
+
+    const triggered = conditionResults
+      .filter((result) => result.triggered)
+      .map((result) => result.type);
+    const reasons = [
+      ...(checkResult.exitCode !== 0
+        ? [`检查命令退出码: ${checkResult.exitCode}`]
+        : []),
+      ...(triggered.length > 0
+        ? [`检查条件成立: ${triggered.join(', ')}`]
+        : []),
+    ];
+
+    return {
+      output,
+      exitCode: checkResult.exitCode,
+      durationMs,
+      conditionResults,
+      failed: reasons.length > 0,
+      reason: reasons.join('，'),
+    };
+  }
+
+  private verificationKey(monitorId: number, serverId: number): string {
+    return `${monitorId}:${serverId}`;
+  }
+
+  /**
+   * 判断检查失败后是否可以在服务器上执行执行命令
+   * 冷却期和执行次数按服务器分别统计；冷却期内只记录检查结果，
+   * 任一服务器在时间窗口内的执行次数达到上限时挂起整个监控，
+   * 避免反复重启一个崩溃循环的服务
+   */
+  private async canRemediate(monitor: any, serverId: number): Promise<boolean> {
+    // 同一轮检查中已被其他服务器触发挂起
+    if (monitor.status === CommandMonitorStatus.SUSPENDED) {
+      return false;
+    }
+
+    const now = Date.now();
+    const { count, lastExecutedAt } =
+      await this.commandMonitorsService.getRemediationStats(
+        monitor.id,
+        serverId,
+        new Date(now - monitor.remediationWindowSeconds * 1000),
+      );
+
+    if (
+      lastExecutedAt &&
+      now - lastExecutedAt.getTime() < monitor.cooldownSeconds * 1000
+    ) {
+      this.logger.log(
+        `服务器 ${serverId} 上的命令监控 "${monitor.name}" 处于冷却期，跳过执行命令`,
+      );
+      return false;
+    }
+
+    if (monitor.maxRemediations > 0 && count >= monitor.maxRemediations) {
+      monitor.status = CommandMonitorStatus.SUSPENDED;
+      await this.commandMonitorsService.suspend(monitor.id);
+      this.invalidateCache();
+      this.logger.warn(
+        `服务器 ${serverId} 上的命令监控 "${monitor.name}" 在 ${monitor.remediationWindowSeconds} 秒内已执行 ${count} 次，已挂起`,
+      );
+      return false;
+    }
+
+    return true;
+  }
+
   /**
    * 清除缓存
    */
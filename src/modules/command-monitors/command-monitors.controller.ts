@@ -14,6 +14,7 @@ import { CreateCommandMonitorDto } from './dto/create-command-monitor.dto';
 import { UpdateCommandMonitorDto } from './dto/update-command-monitor.dto';
 import { CommandMonitorQueryDto } from './dto/command-monitor-query.dto';
 import { CommandMonitorExecutionQueryDto } from './dto/command-monitor-execution-query.dto';
+import { CommandMonitorTransitionQueryDto } from './dto/command-monitor-transition-query.dto';
 import {
   ApiTags,
   ApiOperation,
@@ -53,7 +54,10 @@ export class CommandMonitorsController {
   }
 
   @Get()
-  @ApiOperation({ summary: '分页获取命令监控列表' })
+  @ApiOperation({
+    summary: '分页获取命令监控列表',
+    description: '返回结果包含命令监控及其在各目标服务器上的当前状态',
+  })
   @ApiResponse({
     status: 200,
     description: '返回分页的命令监控列表',
@@ -76,7 +80,10 @@ export class CommandMonitorsController {
   }
 
   @Get(':id')
-  @ApiOperation({ summary: '获取指定命令监控' })
+  @ApiOperation({
+    summary: '获取指定命令监控',
+    description: '返回结果包含命令监控及其在各目标服务器上的当前状态',
+  })
   @ApiParam({ name: 'id', description: '命令监控ID' })
   @ApiResponse({
     status: 200,
@@ -115,7 +122,10 @@ export class CommandMonitorsController {
   }
 
   @Post(':id/enable')
-  @ApiOperation({ summary: '启用命令监控' })
+  @ApiOperation({
+    summary: '启用命令监控',
+    description: '同时解除因执行次数超过限制而产生的挂起状态',
+  })
   @ApiParam({ name: 'id', description: '命令监控ID' })
   @ApiResponse({
     status: 200,
@@ -167,6 +177,36 @@ export class CommandMonitorsController {
     return this.commandMonitorsService.getExecutions(id, params);
   }
 
+  @Get(':id/transitions')
+  @ApiOperation({ summary: '分页获取命令监控状态变化历史' })
+  @ApiParam({ name: 'id', description: '命令监控ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的命令监控状态变化历史',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/CommandMonitorStateTransitionEntity',
+              },
+            },
+          },
+        },
+      ],
+    },
+  })
+  @ApiResponse({ status: 404, description: '命令监控不存在' })
+  getTransitions(
+    @Param('id', ParseIntPipe) id: number,
+    @Query(ParsePaginationPipe) params: CommandMonitorTransitionQueryDto,
+  ) {
+    return this.commandMonitorsService.getTransitions(id, params);
+  }
+
   @Post(':id/executions/cleanup')
   @ApiOperation({ summary: '根据日期范围清理命令监控执行历史' })
   @ApiParam({ name: 'id', description: '命令监控ID' })
@@ -2,6 +2,7 @@ import { Module, forwardRef } from '@nestjs/common';
 import { CommandMonitorsService } from './services/command-monitors.service';
 import { BaseCommandMonitorService } from './services/base-command-monitor.service';
 import { ExecutionService } from './services/execution.service';
+import { MonitorStateService } from './services/monitor-state.service';
 import { CommandMonitorsController } from './command-monitors.controller';
 import { CommandMonitorService } from './command-monitor.service';
 import { SshModule } from '../ssh/ssh.module';
@@ -18,6 +19,7 @@ import { CommonModule } from '../../common';
   providers: [
     BaseCommandMonitorService,
     ExecutionService,
+    MonitorStateService,
     CommandMonitorsService,
     CommandMonitorService,
   ],
@@ -0,0 +1,95 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import {
+  CheckConditionOperator,
+  CheckConditionOperatorType,
+  CheckConditionType,
+  CheckConditionTypeType,
+} from '../../../common';
+
+/**
+ * 命令监控检查条件DTO
+ * 检查命令退出码非0或任一条件成立时，检查视为失败
+ */
+export class CheckConditionDto {
+  @ApiProperty({
+    description:
+      '条件类型：match 标准输出匹配正则、not_match 标准输出不匹配正则、threshold 解析出的数值满足比较条件、output_changed 输出与上一次检查不同、duration_exceeded 检查耗时超过限制',
+    enum: Object.values(CheckConditionType),
+    example: CheckConditionType.THRESHOLD,
+  })
+  @IsIn(Object.values(CheckConditionType))
+  type: CheckConditionTypeType;
+
+  @ApiPropertyOptional({
+    description:
+      '正则表达式（match、not_match 类型必填）；threshold 类型可选，取第一个捕获组作为数值，未提供时取输出中的第一个数字',
+    example: '(\\d+)%',
+  })
+  @ValidateIf(
+    (o: CheckConditionDto) =>
+      o.type === CheckConditionType.MATCH ||
+      o.type === CheckConditionType.NOT_MATCH ||
+      o.pattern !== undefined,
+  )
+  @IsString()
+  @IsNotEmpty()
+  pattern?: string;
+
+  @ApiPropertyOptional({
+    description: '比较运算符（threshold 类型必填）',
+    enum: Object.values(CheckConditionOperator),
+    example: CheckConditionOperator.GT,
+  })
+  @ValidateIf((o: CheckConditionDto) => o.type === CheckConditionType.THRESHOLD)
+  @IsIn(Object.values(CheckConditionOperator))
+  operator?: CheckConditionOperatorType;
+
+  @ApiPropertyOptional({
+    description: '阈值（threshold 类型必填）',
+    example: 90,
+  })
+  @ValidateIf((o: CheckConditionDto) => o.type === CheckConditionType.THRESHOLD)
+  @IsNumber()
+  threshold?: number;
+
+  @ApiPropertyOptional({
+    description: '检查命令的最长耗时（毫秒，duration_exceeded 类型必填）',
+    example: 5000,
+  })
+  @ValidateIf(
+    (o: CheckConditionDto) => o.type === CheckConditionType.DURATION_EXCEEDED,
+  )
+  @IsInt()
+  @Min(1)
+  maxDurationMs?: number;
+}
+
+/**
+ * 检查条件的求值结果
+ */
+export class CheckConditionResultDto {
+  @ApiProperty({
+    description: '条件类型',
+    enum: Object.values(CheckConditionType),
+  })
+  type: CheckConditionTypeType;
+
+  @ApiPropertyOptional({
+    description:
+      '求值得到的值：threshold 为解析出的数值，duration_exceeded 为耗时（毫秒），match、not_match 为匹配到的文本，output_changed 为输出是否变化（没有上一次输出时为空）',
+    oneOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }],
+  })
+  value: string | number | boolean | null;
+
+  @ApiProperty({ description: '条件是否成立，成立时检查视为失败' })
+  triggered: boolean;
+}
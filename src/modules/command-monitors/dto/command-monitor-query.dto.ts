@@ -1,7 +1,20 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsBoolean, IsInt, IsPositive } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsBoolean,
+  IsInt,
+  IsPositive,
+  IsIn,
+  Matches,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import { TAG_SELECTOR_PATTERN } from '../../servers/utils/server-tags.util';
+import {
+  CommandMonitorStatus,
+  CommandMonitorStatusType,
+} from '../../../common/constants';
 
 /**
  * 命令监控查询参数DTO
@@ -19,10 +32,38 @@ export class CommandMonitorQueryDto extends PaginationParamsDto {
   @Type(() => Boolean)
   enabled?: boolean;
 
-  @ApiPropertyOptional({ description: '服务器ID' })
+  @ApiPropertyOptional({
+    description: '监控状态',
+    enum: Object.values(CommandMonitorStatus),
+  })
+  @IsOptional()
+  @IsIn(Object.values(CommandMonitorStatus))
+  status?: CommandMonitorStatusType;
+
+  @ApiPropertyOptional({
+    description: '服务器ID，筛选在服务器ID列表中直接指定该服务器的监控',
+  })
   @IsOptional()
   @IsInt()
   @IsPositive()
   @Type(() => Number)
   serverId?: number;
+
+  @ApiPropertyOptional({
+    description: '服务器分组ID，筛选以该分组为目标的监控',
+  })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  groupId?: number;
+
+  @ApiPropertyOptional({
+    description: '标签选择器，筛选使用该标签选择器的监控',
+    example: 'env=prod,role=web',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(TAG_SELECTOR_PATTERN, { message: '标签选择器格式无效' })
+  tag?: string;
 }
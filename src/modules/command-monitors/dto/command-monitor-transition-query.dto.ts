@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsInt, IsPositive, IsIn } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import {
+  CommandMonitorState,
+  CommandMonitorStateType,
+} from '../../../common/constants';
+
+/**
+ * 命令监控状态变化历史查询参数DTO
+ */
+export class CommandMonitorTransitionQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '服务器ID（精确匹配）' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  serverId?: number;
+
+  @ApiPropertyOptional({
+    description: '变化后的状态',
+    enum: Object.values(CommandMonitorState),
+  })
+  @IsOptional()
+  @IsIn(Object.values(CommandMonitorState))
+  toState?: CommandMonitorStateType;
+}
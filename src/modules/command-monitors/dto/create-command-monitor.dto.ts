@@ -1,7 +1,15 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsInt, IsBoolean, IsOptional, IsNotEmpty, IsPositive } from 'class-validator';
+import { IsString, IsInt, IsBoolean, IsOptional, IsNotEmpty, IsPositive, Min, IsArray, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CommandMonitorDefaults } from '../../../common/constants';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+import { CheckConditionDto } from './check-condition.dto';
 
-export class CreateCommandMonitorDto {
+/**
+ * 创建命令监控DTO
+ * 目标服务器为服务器ID列表、分组和标签选择器的并集，分组和标签选择器在每次检查时重新解析
+ */
+export class CreateCommandMonitorDto extends ServerTargetDto {
   @ApiProperty({ description: '命令监控名称' })
   @IsString()
   @IsNotEmpty()
@@ -22,13 +30,73 @@ export class CreateCommandMonitorDto {
   @IsNotEmpty()
   executeCommand: string;
 
+  @ApiPropertyOptional({
+    description: '检查条件，检查命令返回非0或任一条件成立时视为检查失败',
+    type: [CheckConditionDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => CheckConditionDto)
+  @IsOptional()
+  conditions?: CheckConditionDto[];
+
   @ApiPropertyOptional({ description: '是否启用此监控', default: true })
   @IsBoolean()
   @IsOptional()
   enabled?: boolean = true;
 
-  @ApiProperty({ description: '服务器ID' })
+  @ApiPropertyOptional({
+    description: '检查间隔（秒）',
+    default: CommandMonitorDefaults.INTERVAL_SECONDS,
+    minimum: CommandMonitorDefaults.SCHEDULER_TICK_MS / 1000,
+  })
+  @IsInt()
+  @Min(CommandMonitorDefaults.SCHEDULER_TICK_MS / 1000)
+  @IsOptional()
+  intervalSeconds?: number;
+
+  @ApiPropertyOptional({
+    description: '执行命令后的冷却时间（秒），期间检查失败也不会再次执行',
+    default: CommandMonitorDefaults.COOLDOWN_SECONDS,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  cooldownSeconds?: number;
+
+  @ApiPropertyOptional({
+    description: '时间窗口内允许的最大执行次数，超过后监控被挂起，0 表示不限制',
+    default: CommandMonitorDefaults.MAX_REMEDIATIONS,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  maxRemediations?: number;
+
+  @ApiPropertyOptional({
+    description: '统计执行次数的时间窗口（秒）',
+    default: CommandMonitorDefaults.REMEDIATION_WINDOW_SECONDS,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  remediationWindowSeconds?: number;
+
+  @ApiPropertyOptional({
+    description: '执行命令后等待多久再次执行检查命令，以验证是否恢复（秒）',
+    default: CommandMonitorDefaults.VERIFY_DELAY_SECONDS,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  verifyDelaySeconds?: number;
+
+  @ApiPropertyOptional({
+    description: '单个服务器ID，兼容旧版本，等同于只包含该服务器的 serverIds',
+    deprecated: true,
+  })
   @IsInt()
   @IsPositive()
-  serverId: number;
+  @IsOptional()
+  serverId?: number;
 }
@@ -1,7 +1,10 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { CommandMonitorExecution } from '@prisma/client';
+import { CheckConditionResultDto } from '../dto/check-condition.dto';
 
-export class CommandMonitorExecutionEntity implements CommandMonitorExecution {
+export class CommandMonitorExecutionEntity
+  implements Omit<CommandMonitorExecution, 'conditionResults'>
+{
   @ApiProperty({ description: '执行记录ID' })
   id: number;
 
@@ -11,6 +14,15 @@ export class CommandMonitorExecutionEntity implements CommandMonitorExecution {
   @ApiProperty({ description: '检查命令的退出码' })
   checkExitCode: number;
 
+  @ApiPropertyOptional({ description: '检查命令耗时（毫秒）' })
+  checkDurationMs: number | null;
+
+  @ApiPropertyOptional({
+    description: '各检查条件的求值结果，未配置检查条件时为空',
+    type: [CheckConditionResultDto],
+  })
+  conditionResults: CheckConditionResultDto[] | null;
+
   @ApiProperty({ description: '是否执行了执行命令' })
   executed: boolean;
 
@@ -0,0 +1,19 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CommandMonitorState } from '../../../common/constants';
+
+export class CommandMonitorServerStateEntity {
+  @ApiProperty({ description: '服务器ID' })
+  serverId: number;
+
+  @ApiProperty({
+    description: '命令监控在该服务器上的状态',
+    enum: Object.values(CommandMonitorState),
+  })
+  state: string;
+
+  @ApiProperty({ description: '进入当前状态的时间' })
+  changedAt: Date;
+
+  @ApiPropertyOptional({ description: '计划进行恢复验证的时间' })
+  verifyAt: Date | null;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CommandMonitorStateTransition } from '@prisma/client';
+import { CommandMonitorState } from '../../../common/constants';
+
+export class CommandMonitorStateTransitionEntity
+  implements CommandMonitorStateTransition
+{
+  @ApiProperty({ description: '状态变化记录ID' })
+  id: number;
+
+  @ApiProperty({
+    description: '变化前的状态',
+    enum: Object.values(CommandMonitorState),
+  })
+  fromState: string;
+
+  @ApiProperty({
+    description: '变化后的状态',
+    enum: Object.values(CommandMonitorState),
+  })
+  toState: string;
+
+  @ApiPropertyOptional({ description: '状态变化的原因' })
+  reason: string | null;
+
+  @ApiProperty({ description: '状态变化时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '命令监控ID' })
+  monitorId: number;
+
+  @ApiProperty({ description: '服务器ID' })
+  serverId: number;
+}
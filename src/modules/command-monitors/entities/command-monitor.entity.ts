@@ -1,7 +1,12 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { CommandMonitor } from '@prisma/client';
+import { CommandMonitorState } from '../../../common/constants';
+import { CommandMonitorServerStateEntity } from './command-monitor-server-state.entity';
+import { CheckConditionDto } from '../dto/check-condition.dto';
 
-export class CommandMonitorEntity implements CommandMonitor {
+export class CommandMonitorEntity
+  implements Omit<CommandMonitor, 'serverId' | 'serverIds' | 'conditions'>
+{
   @ApiProperty({ description: '命令监控ID' })
   id: number;
 
@@ -17,15 +22,66 @@ export class CommandMonitorEntity implements CommandMonitor {
   @ApiProperty({ description: '如果检查命令返回非0，则执行此命令' })
   executeCommand: string;
 
+  @ApiProperty({
+    description: '检查条件，检查命令返回非0或任一条件成立时视为检查失败',
+    type: [CheckConditionDto],
+  })
+  conditions: CheckConditionDto[];
+
   @ApiProperty({ description: '是否启用此监控' })
   enabled: boolean;
 
+  @ApiProperty({ description: '检查间隔（秒）' })
+  intervalSeconds: number;
+
+  @ApiProperty({ description: '执行命令后的冷却时间（秒）' })
+  cooldownSeconds: number;
+
+  @ApiProperty({
+    description: '时间窗口内允许的最大执行次数，0 表示不限制',
+  })
+  maxRemediations: number;
+
+  @ApiProperty({ description: '统计执行次数的时间窗口（秒）' })
+  remediationWindowSeconds: number;
+
+  @ApiProperty({ description: '执行命令后等待多久进行恢复验证（秒）' })
+  verifyDelaySeconds: number;
+
+  @ApiProperty({
+    description: '监控状态，执行次数超过限制时为 suspended，重新启用后恢复',
+    enum: ['active', 'suspended'],
+  })
+  status: string;
+
+  @ApiPropertyOptional({ description: '被挂起的时间' })
+  suspendedAt: Date | null;
+
+  @ApiProperty({
+    description:
+      '命令监控的当前状态，取各目标服务器中最严重的状态，尚未检查时为 healthy',
+    enum: Object.values(CommandMonitorState),
+  })
+  state: string;
+
+  @ApiProperty({
+    description: '命令监控在各目标服务器上的当前状态',
+    type: [CommandMonitorServerStateEntity],
+  })
+  serverStates: CommandMonitorServerStateEntity[];
+
   @ApiProperty({ description: '创建时间' })
   createdAt: Date;
 
   @ApiProperty({ description: '更新时间' })
   updatedAt: Date;
 
-  @ApiProperty({ description: '服务器ID' })
-  serverId: number;
+  @ApiProperty({ description: '目标服务器ID列表', type: [Number] })
+  serverIds: number[];
+
+  @ApiPropertyOptional({ description: '目标服务器分组ID' })
+  groupId: number | null;
+
+  @ApiPropertyOptional({ description: '目标服务器标签选择器' })
+  tagSelector: string | null;
 }
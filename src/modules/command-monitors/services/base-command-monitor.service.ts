@@ -1,11 +1,42 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { CommandMonitor, CommandMonitorServerState } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { CreateCommandMonitorDto } from '../dto/create-command-monitor.dto';
 import { UpdateCommandMonitorDto } from '../dto/update-command-monitor.dto';
 import { CommandMonitorEntity } from '../entities/command-monitor.entity';
 import { CommandMonitorQueryDto } from '../dto/command-monitor-query.dto';
 import { ServersService } from '../../servers/servers.service';
-import { PaginationResultDto, PaginationService } from '../../../common';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+import {
+  CommandMonitorState,
+  CommandMonitorStateType,
+  CommandMonitorStatus,
+  PaginationResultDto,
+  PaginationService,
+} from '../../../common';
+import { PrismaModel } from '../../../common/types/utility-types';
+import {
+  parseCheckConditions,
+  validateCheckConditions,
+} from '../utils/check-condition.util';
+
+type CommandMonitorWithStates = CommandMonitor & {
+  serverStates?: CommandMonitorServerState[];
+};
+
+// 汇总各服务器状态时的优先级，取最严重的状态作为监控的状态
+const STATE_SEVERITY: Record<CommandMonitorStateType, number> = {
+  [CommandMonitorState.HEALTHY]: 0,
+  [CommandMonitorState.RECOVERED]: 1,
+  [CommandMonitorState.FAILING]: 2,
+  [CommandMonitorState.REMEDIATING]: 3,
+  [CommandMonitorState.FAILED_TO_RECOVER]: 4,
+};
 
 /**
  * 命令监控基础服务
@@ -29,12 +60,25 @@ export class BaseCommandMonitorService {
   async create(
     createCommandMonitorDto: CreateCommandMonitorDto,
   ): Promise<CommandMonitorEntity> {
-    // 验证服务器是否存在
-    await this.serversService.findOne(createCommandMonitorDto.serverId);
+    const { serverId, serverIds, conditions, ...data } =
+      createCommandMonitorDto;
+    validateCheckConditions(conditions);
+    const target: ServerTargetDto = {
+      serverIds: this.mergeServerIds(serverIds, serverId),
+      groupId: data.groupId,
+      tagSelector: data.tagSelector,
+    };
+    // 验证目标服务器是否存在
+    await this.serversService.resolveTargetServerIds(target);
 
-    return this.prisma.commandMonitor.create({
-      data: createCommandMonitorDto,
+    const monitor = await this.prisma.commandMonitor.create({
+      data: {
+        ...data,
+        serverIds: target.serverIds?.length ? target.serverIds.join(',') : null,
+        conditions: conditions?.length ? JSON.stringify(conditions) : null,
+      },
     });
+    return this.toEntity(monitor);
   }
 
   /**
@@ -59,18 +103,47 @@ export class BaseCommandMonitorService {
       where.enabled = params.enabled;
     }
 
+    if (params.status) {
+      where.status = params.status;
+    }
+
+    // 按直接指定的目标服务器筛选，服务器ID列表以逗号分隔存储
     if (params.serverId) {
-      where.serverId = params.serverId;
+      const id = String(params.serverId);
+      where.OR = [
+        { serverId: params.serverId },
+        { serverIds: id },
+        { serverIds: { startsWith: `${id},` } },
+        { serverIds: { contains: `,${id},` } },
+        { serverIds: { endsWith: `,${id}` } },
+      ];
+    }
+
+    // 按目标分组或标签选择器筛选
+    if (params.groupId) {
+      where.groupId = params.groupId;
+    }
+
+    if (params.tag) {
+      where.tagSelector = params.tag;
     }
 
     // 使用分页服务进行查询
-    return this.paginationService.paginateByLimit<CommandMonitorEntity, any>(
-      this.prisma.commandMonitor,
+    const result = await this.paginationService.paginateByLimit<
+      CommandMonitorWithStates,
+      any
+    >(
+      this.prisma
+        .commandMonitor as unknown as PrismaModel<CommandMonitorWithStates>,
       params,
       where, // where
       { createdAt: 'desc' }, // orderBy
-      {}, // include
+      { serverStates: true }, // include
     );
+    return {
+      ...result,
+      items: result.items.map((monitor) => this.toEntity(monitor)),
+    };
   }
 
   /**
@@ -89,15 +162,7 @@ export class BaseCommandMonitorService {
    * @returns 命令监控实体
    */
   async findOne(id: number): Promise<CommandMonitorEntity> {
-    const monitor = await this.prisma.commandMonitor.findUnique({
-      where: { id },
-    });
-
-    if (!monitor) {
-      throw new NotFoundException(`命令监控ID ${id} 不存在`);
-    }
-
-    return monitor;
+    return this.toEntity(await this.getMonitor(id));
   }
 
   /**
@@ -111,17 +176,54 @@ export class BaseCommandMonitorService {
     updateCommandMonitorDto: UpdateCommandMonitorDto,
   ): Promise<CommandMonitorEntity> {
     try {
-      // 如果更新了服务器ID，验证服务器是否存在
-      if (updateCommandMonitorDto.serverId) {
-        await this.serversService.findOne(updateCommandMonitorDto.serverId);
+      const existing = await this.getMonitor(id);
+      const { serverId, serverIds, conditions, ...data } =
+        updateCommandMonitorDto;
+      validateCheckConditions(conditions);
+
+      // 更新了目标时，结合现有目标验证服务器是否存在，旧版本的单服务器目标一并转换为服务器ID列表
+      const targetChanged =
+        serverId !== undefined ||
+        serverIds !== undefined ||
+        data.groupId !== undefined ||
+        data.tagSelector !== undefined;
+      let targetServerIds: number[] | undefined;
+      if (targetChanged) {
+        const existingTarget = this.toTarget(existing);
+        targetServerIds = this.mergeServerIds(
+          serverIds !== undefined ? serverIds : existingTarget.serverIds,
+          serverId,
+        );
+        await this.serversService.resolveTargetServerIds({
+          serverIds: targetServerIds,
+          groupId:
+            data.groupId !== undefined ? data.groupId : existingTarget.groupId,
+          tagSelector:
+            data.tagSelector !== undefined
+              ? data.tagSelector
+              : existingTarget.tagSelector,
+        });
       }
 
-      return await this.prisma.commandMonitor.update({
+      const monitor = await this.prisma.commandMonitor.update({
         where: { id },
-        data: updateCommandMonitorDto,
+        data: {
+          ...data,
+          ...(targetChanged && {
+            serverIds: targetServerIds?.length
+              ? targetServerIds.join(',')
+              : null,
+            serverId: null,
+          }),
+          ...(conditions !== undefined && {
+            conditions: conditions.length ? JSON.stringify(conditions) : null,
+          }),
+        },
+        include: { serverStates: true },
       });
+      return this.toEntity(monitor);
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (error instanceof HttpException) {
         throw error;
       }
       throw new NotFoundException(`命令监控ID ${id} 不存在`);
@@ -147,10 +249,20 @@ export class BaseCommandMonitorService {
 
         this.logger.log(`已删除命令监控ID ${id} 的 ${count} 条执行历史记录`);
 
-        // 2. 删除命令监控
-        return await tx.commandMonitor.delete({
-          where: { id },
+        // 2. 删除命令监控在各服务器上的状态和状态变化历史
+        await tx.commandMonitorServerState.deleteMany({
+          where: { monitorId: id },
+        });
+        await tx.commandMonitorStateTransition.deleteMany({
+          where: { monitorId: id },
         });
+
+        // 3. 删除命令监控
+        return this.toEntity(
+          await tx.commandMonitor.delete({
+            where: { id },
+          }),
+        );
       });
     } catch (error) {
       if (error instanceof NotFoundException) {
@@ -163,16 +275,22 @@ export class BaseCommandMonitorService {
   }
 
   /**
-   * 启用命令监控
+   * 启用命令监控，同时解除挂起状态
    * @param id 命令监控ID
    * @returns 启用后的命令监控实体
    */
   async enable(id: number): Promise<CommandMonitorEntity> {
     try {
-      return await this.prisma.commandMonitor.update({
+      const monitor = await this.prisma.commandMonitor.update({
         where: { id },
-        data: { enabled: true },
+        data: {
+          enabled: true,
+          status: CommandMonitorStatus.ACTIVE,
+          suspendedAt: null,
+        },
+        include: { serverStates: true },
       });
+      return this.toEntity(monitor);
     } catch (error) {
       throw new NotFoundException(`命令监控ID ${id} 不存在`);
     }
@@ -185,22 +303,144 @@ export class BaseCommandMonitorService {
    */
   async disable(id: number): Promise<CommandMonitorEntity> {
     try {
-      return await this.prisma.commandMonitor.update({
+      const monitor = await this.prisma.commandMonitor.update({
         where: { id },
         data: { enabled: false },
+        include: { serverStates: true },
+      });
+      return this.toEntity(monitor);
+    } catch (error) {
+      throw new NotFoundException(`命令监控ID ${id} 不存在`);
+    }
+  }
+
+  /**
+   * 挂起命令监控，挂起后不再检查，重新启用后恢复
+   * @param id 命令监控ID
+   * @returns 挂起后的命令监控实体
+   */
+  async suspend(id: number): Promise<CommandMonitorEntity> {
+    try {
+      const monitor = await this.prisma.commandMonitor.update({
+        where: { id },
+        data: {
+          status: CommandMonitorStatus.SUSPENDED,
+          suspendedAt: new Date(),
+        },
+        include: { serverStates: true },
       });
+      return this.toEntity(monitor);
     } catch (error) {
       throw new NotFoundException(`命令监控ID ${id} 不存在`);
     }
   }
 
   /**
-   * 获取所有启用的命令监控
+   * 获取所有启用且未被挂起的命令监控
    * @returns 启用的命令监控实体列表
    */
   async getAllEnabledMonitors(): Promise<CommandMonitorEntity[]> {
-    return this.prisma.commandMonitor.findMany({
-      where: { enabled: true },
+    const monitors = await this.prisma.commandMonitor.findMany({
+      where: { enabled: true, status: CommandMonitorStatus.ACTIVE },
+    });
+    return monitors.map((monitor) => this.toEntity(monitor));
+  }
+
+  /**
+   * 解析命令监控当前的目标服务器
+   * @param monitor 命令监控实体
+   * @returns 服务器ID列表
+   */
+  async resolveTargetServerIds(
+    monitor: CommandMonitorEntity,
+  ): Promise<number[]> {
+    return this.serversService.resolveTargetServerIds({
+      serverIds: monitor.serverIds,
+      groupId: monitor.groupId ?? undefined,
+      tagSelector: monitor.tagSelector ?? undefined,
+    });
+  }
+
+  private async getMonitor(id: number): Promise<CommandMonitorWithStates> {
+    const monitor = await this.prisma.commandMonitor.findUnique({
+      where: { id },
+      include: { serverStates: true },
     });
+
+    if (!monitor) {
+      throw new NotFoundException(`命令监控ID ${id} 不存在`);
+    }
+
+    return monitor;
+  }
+
+  /**
+   * 合并服务器ID列表和旧版本的单服务器ID
+   */
+  private mergeServerIds(
+    serverIds?: number[],
+    serverId?: number | null,
+  ): number[] | undefined {
+    const merged = new Set([
+      ...(serverIds ?? []),
+      ...(serverId ? [serverId] : []),
+    ]);
+    return merged.size > 0 ? [...merged] : undefined;
+  }
+
+  /**
+   * 从数据库记录中提取目标
+   */
+  private toTarget(monitor: CommandMonitor): ServerTargetDto {
+    return {
+      serverIds: this.mergeServerIds(
+        monitor.serverIds?.split(',').map(Number),
+        monitor.serverId,
+      ),
+      groupId: monitor.groupId ?? undefined,
+      tagSelector: monitor.tagSelector ?? undefined,
+    };
+  }
+
+  private toEntity(monitor: CommandMonitorWithStates): CommandMonitorEntity {
+    const serverStates = (monitor.serverStates ?? [])
+      .map((state) => ({
+        serverId: state.serverId,
+        state: state.state,
+        changedAt: state.changedAt,
+        verifyAt: state.verifyAt,
+      }))
+      .sort((a, b) => a.serverId - b.serverId);
+
+    return {
+      id: monitor.id,
+      name: monitor.name,
+      description: monitor.description,
+      checkCommand: monitor.checkCommand,
+      executeCommand: monitor.executeCommand,
+      conditions: parseCheckConditions(monitor.conditions),
+      enabled: monitor.enabled,
+      intervalSeconds: monitor.intervalSeconds,
+      cooldownSeconds: monitor.cooldownSeconds,
+      maxRemediations: monitor.maxRemediations,
+      remediationWindowSeconds: monitor.remediationWindowSeconds,
+      verifyDelaySeconds: monitor.verifyDelaySeconds,
+      status: monitor.status,
+      state: serverStates.reduce<string>(
+        (worst, { state }) =>
+          STATE_SEVERITY[state as CommandMonitorStateType] >
+          STATE_SEVERITY[worst as CommandMonitorStateType]
+            ? state
+            : worst,
+        CommandMonitorState.HEALTHY,
+      ),
+      serverStates,
+      suspendedAt: monitor.suspendedAt,
+      serverIds: this.toTarget(monitor).serverIds ?? [],
+      groupId: monitor.groupId,
+      tagSelector: monitor.tagSelector,
+      createdAt: monitor.createdAt,
+      updatedAt: monitor.updatedAt,
+    };
   }
 }
@@ -1,22 +1,31 @@
 import { Injectable, Inject, forwardRef } from '@nestjs/common';
+import { CommandMonitorServerState } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { CreateCommandMonitorDto } from '../dto/create-command-monitor.dto';
 import { UpdateCommandMonitorDto } from '../dto/update-command-monitor.dto';
 import { CommandMonitorEntity } from '../entities/command-monitor.entity';
 import { CommandMonitorExecutionEntity } from '../entities/command-monitor-execution.entity';
+import { CommandMonitorStateTransitionEntity } from '../entities/command-monitor-state-transition.entity';
 import { CommandMonitorQueryDto } from '../dto/command-monitor-query.dto';
 import { CommandMonitorExecutionQueryDto } from '../dto/command-monitor-execution-query.dto';
+import { CommandMonitorTransitionQueryDto } from '../dto/command-monitor-transition-query.dto';
 import { ServersService } from '../../servers/servers.service';
 import { CleanupByDateDto } from '../dto/cleanup-by-date.dto';
 import { CleanupResultDto } from '../dto/cleanup-result.dto';
-import { PaginationResultDto, PaginationService } from '../../../common';
+import { CheckConditionResultDto } from '../dto/check-condition.dto';
+import {
+  CommandMonitorStateType,
+  PaginationResultDto,
+  PaginationService,
+} from '../../../common';
 import { BaseCommandMonitorService } from './base-command-monitor.service';
 import { ExecutionService } from './execution.service';
+import { MonitorStateService } from './monitor-state.service';
 import { CommandMonitorService } from '../command-monitor.service';
 
 /**
  * 命令监控服务
- * 整合基础服务和执行记录服务
+ * 整合基础服务、执行记录服务和状态服务
  */
 @Injectable()
 export class CommandMonitorsService {
@@ -26,6 +35,7 @@ export class CommandMonitorsService {
     private readonly paginationService: PaginationService,
     private readonly baseService: BaseCommandMonitorService,
     private readonly executionService: ExecutionService,
+    private readonly monitorStateService: MonitorStateService,
     @Inject(forwardRef(() => CommandMonitorService))
     private readonly commandMonitorService: CommandMonitorService,
   ) {}
@@ -76,10 +86,20 @@ export class CommandMonitorsService {
     return this.baseService.disable(id);
   }
 
+  async suspend(id: number): Promise<CommandMonitorEntity> {
+    return this.baseService.suspend(id);
+  }
+
   async getAllEnabledMonitors(): Promise<CommandMonitorEntity[]> {
     return this.baseService.getAllEnabledMonitors();
   }
 
+  async resolveTargetServerIds(
+    monitor: CommandMonitorEntity,
+  ): Promise<number[]> {
+    return this.baseService.resolveTargetServerIds(monitor);
+  }
+
   // 执行记录操作，委托给执行记录服务
 
   async getExecutions(
@@ -116,6 +136,8 @@ export class CommandMonitorsService {
     executed: boolean,
     executeOutput?: string,
     executeExitCode?: number,
+    checkDurationMs?: number,
+    conditionResults?: CheckConditionResultDto[],
   ): Promise<CommandMonitorExecutionEntity> {
     return this.executionService.recordExecution(
       monitorId,
@@ -125,6 +147,27 @@ export class CommandMonitorsService {
       executed,
       executeOutput,
       executeExitCode,
+      checkDurationMs,
+      conditionResults,
+    );
+  }
+
+  async getLastCheckOutput(
+    monitorId: number,
+    serverId: number,
+  ): Promise<string | null> {
+    return this.executionService.getLastCheckOutput(monitorId, serverId);
+  }
+
+  async getRemediationStats(
+    monitorId: number,
+    serverId: number,
+    since: Date,
+  ): Promise<{ count: number; lastExecutedAt: Date | null }> {
+    return this.executionService.getRemediationStats(
+      monitorId,
+      serverId,
+      since,
     );
   }
 
@@ -133,4 +176,40 @@ export class CommandMonitorsService {
   ): Promise<PaginationResultDto<CommandMonitorExecutionEntity>> {
     return this.executionService.getAllExecutions(params);
   }
+
+  // 状态操作，委托给状态服务
+
+  async getState(
+    monitorId: number,
+    serverId: number,
+  ): Promise<CommandMonitorServerState | null> {
+    return this.monitorStateService.getState(monitorId, serverId);
+  }
+
+  async transition(
+    monitorId: number,
+    serverId: number,
+    toState: CommandMonitorStateType,
+    reason?: string,
+    verifyAt?: Date,
+  ): Promise<CommandMonitorServerState> {
+    return this.monitorStateService.transition(
+      monitorId,
+      serverId,
+      toState,
+      reason,
+      verifyAt,
+    );
+  }
+
+  async pruneStates(monitorId: number, serverIds: number[]): Promise<void> {
+    return this.monitorStateService.pruneStates(monitorId, serverIds);
+  }
+
+  async getTransitions(
+    monitorId: number,
+    params: CommandMonitorTransitionQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<CommandMonitorStateTransitionEntity>> {
+    return this.monitorStateService.getTransitions(monitorId, params);
+  }
 }
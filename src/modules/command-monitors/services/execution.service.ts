@@ -1,9 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { CommandMonitorExecution } from '@prisma/client';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { CommandMonitorExecutionEntity } from '../entities/command-monitor-execution.entity';
 import { CommandMonitorExecutionQueryDto } from '../dto/command-monitor-execution-query.dto';
 import { CleanupByDateDto } from '../dto/cleanup-by-date.dto';
 import { CleanupResultDto } from '../dto/cleanup-result.dto';
+import { CheckConditionResultDto } from '../dto/check-condition.dto';
 import {
   PaginationResultDto,
   PaginationService,
@@ -14,6 +16,7 @@ import {
 } from '../../../common';
 import { BaseCommandMonitorService } from './base-command-monitor.service';
 import { ServersService } from '../../servers/servers.service';
+import { parseCheckConditionResults } from '../utils/check-condition.util';
 
 /**
  * 命令监控执行记录服务
@@ -64,12 +67,16 @@ export class ExecutionService {
       );
     }
 
-    return this.paginationService.paginateByLimit<CommandMonitorExecutionEntity, any>(
+    const result = await this.paginationService.paginateByLimit<CommandMonitorExecution, any>(
       this.prisma.commandMonitorExecution,
       params,
       where, // where
       { executedAt: 'desc' }, // orderBy
     );
+    return {
+      ...result,
+      items: result.items.map((execution) => this.toEntity(execution)),
+    };
   }
 
   /**
@@ -200,6 +207,8 @@ export class ExecutionService {
    * @param executed 是否执行
    * @param executeOutput 执行输出
    * @param executeExitCode 执行退出码
+   * @param checkDurationMs 检查命令耗时（毫秒）
+   * @param conditionResults 检查条件的求值结果
    * @returns 执行记录实体
    */
   async recordExecution(
@@ -210,18 +219,73 @@ export class ExecutionService {
     executed: boolean,
     executeOutput?: string,
     executeExitCode?: number,
+    checkDurationMs?: number,
+    conditionResults?: CheckConditionResultDto[],
   ): Promise<CommandMonitorExecutionEntity> {
-    return this.prisma.commandMonitorExecution.create({
+    const execution = await this.prisma.commandMonitorExecution.create({
       data: {
         monitorId,
         serverId,
         checkOutput,
         checkExitCode,
+        checkDurationMs,
+        conditionResults: conditionResults?.length
+          ? JSON.stringify(conditionResults)
+          : null,
         executed,
         executeOutput,
         executeExitCode,
       },
     });
+    return this.toEntity(execution);
+  }
+
+  /**
+   * 获取监控在某台服务器上最近一次检查的输出
+   * @param monitorId 监控ID
+   * @param serverId 服务器ID
+   * @returns 检查输出，尚未检查过时返回 null
+   */
+  async getLastCheckOutput(
+    monitorId: number,
+    serverId: number,
+  ): Promise<string | null> {
+    const last = await this.prisma.commandMonitorExecution.findFirst({
+      where: { monitorId, serverId },
+      orderBy: { executedAt: 'desc' },
+      select: { checkOutput: true },
+    });
+    return last?.checkOutput ?? null;
+  }
+
+  /**
+   * 统计监控在某台服务器上执行过执行命令的情况
+   * @param monitorId 监控ID
+   * @param serverId 服务器ID
+   * @param since 统计执行次数的起始时间
+   * @returns 起始时间之后的执行次数和最近一次执行时间
+   */
+  async getRemediationStats(
+    monitorId: number,
+    serverId: number,
+    since: Date,
+  ): Promise<{ count: number; lastExecutedAt: Date | null }> {
+    const [count, last] = await Promise.all([
+      this.prisma.commandMonitorExecution.count({
+        where: {
+          monitorId,
+          serverId,
+          executed: true,
+          executedAt: { gte: since },
+        },
+      }),
+      this.prisma.commandMonitorExecution.findFirst({
+        where: { monitorId, serverId, executed: true },
+        orderBy: { executedAt: 'desc' },
+        select: { executedAt: true },
+      }),
+    ]);
+    return { count, lastExecutedAt: last?.executedAt ?? null };
   }
 
   /**
@@ -257,11 +321,24 @@ export class ExecutionService {
       );
     }
 
-    return this.paginationService.paginateByLimit<CommandMonitorExecutionEntity, any>(
+    const result = await this.paginationService.paginateByLimit<CommandMonitorExecution, any>(
       this.prisma.commandMonitorExecution,
       params,
       where, // where
       { executedAt: 'desc' }, // orderBy
     );
+    return {
+      ...result,
+      items: result.items.map((execution) => this.toEntity(execution)),
+    };
+  }
+
+  private toEntity(
+    execution: CommandMonitorExecution,
+  ): CommandMonitorExecutionEntity {
+    return {
+      ...execution,
+      conditionResults: parseCheckConditionResults(execution.conditionResults),
+    };
   }
 }
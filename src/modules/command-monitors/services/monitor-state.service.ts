@@ -0,0 +1,199 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  CommandMonitorServerState,
+  CommandMonitorStateTransition,
+} from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { CommandMonitorStateTransitionEntity } from '../entities/command-monitor-state-transition.entity';
+import { CommandMonitorTransitionQueryDto } from '../dto/command-monitor-transition-query.dto';
+import {
+  CommandMonitorState,
+  CommandMonitorStateType,
+  NotificationEventType,
+  NotificationSeverity,
+  NotificationSeverityType,
+  PaginationResultDto,
+  PaginationService,
+} from '../../../common';
+import { PrismaModel } from '../../../common/types/utility-types';
+import { BaseCommandMonitorService } from './base-command-monitor.service';
+import {
+  NOTIFICATION_EVENT,
+  NotificationEvent,
+} from '../../notifications/types/notification-event.type';
+
+// 进入这些状态时发送通知
+const NOTIFY_SEVERITY: Partial<
+  Record<CommandMonitorStateType, NotificationSeverityType>
+> = {
+  [CommandMonitorState.FAILING]: NotificationSeverity.WARNING,
+  [CommandMonitorState.FAILED_TO_RECOVER]: NotificationSeverity.CRITICAL,
+};
+
+/**
+ * 命令监控状态服务
+ * 维护命令监控在每台目标服务器上的状态，并记录状态变化历史
+ */
+@Injectable()
+export class MonitorStateService {
+  private readonly logger = new Logger(MonitorStateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly baseService: BaseCommandMonitorService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * 获取命令监控在某台服务器上的当前状态
+   * @param monitorId 监控ID
+   * @param serverId 服务器ID
+   * @returns 当前状态，尚未检查过的服务器返回 null
+   */
+  async getState(
+    monitorId: number,
+    serverId: number,
+  ): Promise<CommandMonitorServerState | null> {
+    return this.prisma.commandMonitorServerState.findUnique({
+      where: { monitorId_serverId: { monitorId, serverId } },
+    });
+  }
+
+  /**
+   * 变更命令监控在某台服务器上的状态，状态发生变化时记录历史
+   * @param monitorId 监控ID
+   * @param serverId 服务器ID
+   * @param toState 新状态
+   * @param reason 状态变化的原因
+   * @param verifyAt 计划进行恢复验证的时间，仅在 remediating 状态下有效
+   * @returns 变更后的状态
+   */
+  async transition(
+    monitorId: number,
+    serverId: number,
+    toState: CommandMonitorStateType,
+    reason?: string,
+    verifyAt?: Date,
+  ): Promise<CommandMonitorServerState> {
+    const current = await this.getState(monitorId, serverId);
+    const fromState = current?.state ?? CommandMonitorState.HEALTHY;
+
+    if (current && fromState === toState) {
+      return current;
+    }
+
+    const state = await this.prisma.$transaction(async (tx) => {
+      const state = await tx.commandMonitorServerState.upsert({
+        where: { monitorId_serverId: { monitorId, serverId } },
+        create: {
+          monitorId,
+          serverId,
+          state: toState,
+          verifyAt: verifyAt ?? null,
+        },
+        update: {
+          state: toState,
+          changedAt: new Date(),
+          verifyAt: verifyAt ?? null,
+        },
+      });
+
+      // 首次检查正常的服务器只建立状态，不记录变化
+      if (fromState !== toState) {
+        await tx.commandMonitorStateTransition.create({
+          data: { monitorId, serverId, fromState, toState, reason },
+        });
+        this.logger.log(
+          `服务器 ${serverId} 上的命令监控ID ${monitorId} 状态由 ${fromState} 变为 ${toState}`,
+        );
+      }
+
+      return state;
+    });
+
+    if (fromState !== toState) {
+      await this.notify(monitorId, serverId, toState, reason);
+    }
+    return state;
+  }
+
+  /**
+   * 删除不再是目标服务器的状态
+   * @param monitorId 监控ID
+   * @param serverIds 当前的目标服务器ID列表
+   */
+  async pruneStates(monitorId: number, serverIds: number[]): Promise<void> {
+    await this.prisma.commandMonitorServerState.deleteMany({
+      where: { monitorId, serverId: { notIn: serverIds } },
+    });
+  }
+
+  /**
+   * 分页获取命令监控的状态变化历史
+   * @param monitorId 监控ID
+   * @param params 查询参数
+   * @returns 分页结果
+   */
+  async getTransitions(
+    monitorId: number,
+    params: CommandMonitorTransitionQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<CommandMonitorStateTransitionEntity>> {
+    // 验证监控是否存在
+    await this.baseService.findOne(monitorId);
+
+    // 构建查询条件
+    const where: any = { monitorId };
+
+    if (params.serverId) {
+      where.serverId = params.serverId;
+    }
+
+    if (params.toState) {
+      where.toState = params.toState;
+    }
+
+    return this.paginationService.paginateByLimit<
+      CommandMonitorStateTransition,
+      any
+    >(
+      this.prisma
+        .commandMonitorStateTransition as unknown as PrismaModel<CommandMonitorStateTransition>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+    );
+  }
+
+  /**
+   * 命令监控检查失败或恢复验证失败时发送通知
+   */
+  private async notify(
+    monitorId: number,
+    serverId: number,
+    toState: CommandMonitorStateType,
+    reason?: string,
+  ): Promise<void> {
+    const severity = NOTIFY_SEVERITY[toState];
+    if (!severity) {
+      return;
+    }
+
+    const monitor = await this.prisma.commandMonitor.findUnique({
+      where: { id: monitorId },
+      select: { name: true },
+    });
+    const event: NotificationEvent = {
+      type: NotificationEventType.COMMAND_MONITOR_FIRED,
+      severity,
+      title: `命令监控 ${monitor?.name ?? monitorId} 在服务器 ${serverId} 上${
+        toState === CommandMonitorState.FAILING ? '检查失败' : '恢复验证失败'
+      }`,
+      message: reason ?? toState,
+      serverId,
+      dedupKey: `${NotificationEventType.COMMAND_MONITOR_FIRED}:${monitorId}:${serverId}:${toState}`,
+    };
+    this.eventEmitter.emit(NOTIFICATION_EVENT, event);
+  }
+}
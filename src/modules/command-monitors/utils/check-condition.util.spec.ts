@@ -0,0 +1,137 @@
+import { BadRequestException } from '@nestjs/common';
+import { CheckConditionOperator, CheckConditionType } from '../../../common';
+import {
+  CheckConditionContext,
+  evaluateCheckConditions,
+  parseCheckConditions,
+  validateCheckConditions,
+} from './check-condition.util';
+
+const context: CheckConditionContext = {
+  stdout: 'disk usage: 91% of /dev/sda1',
+  output: 'disk usage: 91% of /dev/sda1',
+  durationMs: 1500,
+};
+
+describe('evaluateCheckConditions', () => {
+  it('应按正则是否匹配求值 match 和 not_match 条件', () => {
+    expect(
+      evaluateCheckConditions(
+        [
+          { type: CheckConditionType.MATCH, pattern: 'sda\\d' },
+          { type: CheckConditionType.NOT_MATCH, pattern: 'sda\\d' },
+          { type: CheckConditionType.NOT_MATCH, pattern: 'error' },
+        ],
+        context,
+      ),
+    ).toEqual([
+      { type: CheckConditionType.MATCH, value: 'sda1', triggered: true },
+      { type: CheckConditionType.NOT_MATCH, value: 'sda1', triggered: false },
+      { type: CheckConditionType.NOT_MATCH, value: null, triggered: true },
+    ]);
+  });
+
+  it('threshold 条件应从捕获组或第一个数字中解析数值', () => {
+    const [fromGroup, fromFirstNumber] = evaluateCheckConditions(
+      [
+        {
+          type: CheckConditionType.THRESHOLD,
+          pattern: '(\\d+)%',
+          operator: CheckConditionOperator.GT,
+          threshold: 90,
+        },
+        {
+          type: CheckConditionType.THRESHOLD,
+          operator: CheckConditionOperator.LTE,
+          threshold: 90,
+        },
+      ],
+      context,
+    );
+    expect(fromGroup).toMatchObject({ value: 91, triggered: true });
+    expect(fromFirstNumber).toMatchObject({ value: 91, triggered: false });
+  });
+
+  it.each([
+    [CheckConditionOperator.GT, 5, false],
+    [CheckConditionOperator.GTE, 5, true],
+    [CheckConditionOperator.LT, 6, true],
+    [CheckConditionOperator.LTE, 4, false],
+    [CheckConditionOperator.EQ, 5, true],
+    [CheckConditionOperator.NE, 5, false],
+  ])('数值 5 %s %d 的结果应为 %s', (operator, threshold, triggered) => {
+    const [result] = evaluateCheckConditions(
+      [{ type: CheckConditionType.THRESHOLD, operator, threshold }],
+      { ...context, stdout: 'load 5' },
+    );
+    expect(result.triggered).toBe(triggered);
+  });
+
+  it('无法解析出数值时 threshold 条件应视为成立', () => {
+    const [result] = evaluateCheckConditions(
+      [
+        {
+          type: CheckConditionType.THRESHOLD,
+          operator: CheckConditionOperator.GT,
+          threshold: 90,
+        },
+      ],
+      { ...context, stdout: 'no output' },
+    );
+    expect(result).toEqual({
+      type: CheckConditionType.THRESHOLD,
+      value: null,
+      triggered: true,
+    });
+  });
+
+  it('output_changed 条件首次检查不成立，之后按输出是否变化求值', () => {
+    const conditions = [{ type: CheckConditionType.OUTPUT_CHANGED }];
+    expect(evaluateCheckConditions(conditions, context)[0]).toMatchObject({
+      value: null,
+      triggered: false,
+    });
+    expect(
+      evaluateCheckConditions(conditions, {
+        ...context,
+        previousOutput: context.output,
+      })[0],
+    ).toMatchObject({ value: false, triggered: false });
+    expect(
+      evaluateCheckConditions(conditions, {
+        ...context,
+        previousOutput: 'disk usage: 80% of /dev/sda1',
+      })[0],
+    ).toMatchObject({ value: true, triggered: true });
+  });
+
+  it('duration_exceeded 条件应比较检查耗时', () => {
+    expect(
+      evaluateCheckConditions(
+        [
+          { type: CheckConditionType.DURATION_EXCEEDED, maxDurationMs: 1000 },
+          { type: CheckConditionType.DURATION_EXCEEDED, maxDurationMs: 2000 },
+        ],
+        context,
+      ).map((result) => result.triggered),
+    ).toEqual([true, false]);
+  });
+});
+
+describe('validateCheckConditions', () => {
+  it('正则无效时应指出条件位置', () => {
+    expect(() =>
+      validateCheckConditions([
+        { type: CheckConditionType.MATCH, pattern: 'ok' },
+        { type: CheckConditionType.MATCH, pattern: '(' },
+      ]),
+    ).toThrow(new BadRequestException('第 2 个检查条件的正则无效: ('));
+  });
+});
+
+describe('parseCheckConditions', () => {
+  it('无效的JSON应返回空列表', () => {
+    expect(parseCheckConditions('{')).toEqual([]);
+    expect(parseCheckConditions(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+import { BadRequestException } from '@nestjs/common';
+import { CheckConditionOperator, CheckConditionType } from '../../../common';
+import {
+  CheckConditionDto,
+  CheckConditionResultDto,
+} from '../dto/check-condition.dto';
+
+/**
+ * 求值检查条件时需要的检查结果
+ */
+export interface CheckConditionContext {
+  stdout: string;
+  output: string; // 与执行记录中保存的检查输出格式一致，用于与上一次输出比较
+  durationMs: number;
+  previousOutput?: string | null; // 上一次检查的输出，首次检查时为空
+}
+
+// 未提供正则时，从输出中解析第一个数字
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/;
+
+/**
+ * 解析存储在数据库中的检查条件
+ * @param raw 检查条件JSON字符串
+ * @returns 检查条件列表
+ */
+export function parseCheckConditions(
+  raw: string | null | undefined,
+): CheckConditionDto[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 解析存储在数据库中的检查条件求值结果
+ * @param raw 求值结果JSON字符串
+ * @returns 求值结果列表，未记录时返回 null
+ */
+export function parseCheckConditionResults(
+  raw: string | null | undefined,
+): CheckConditionResultDto[] | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 校验检查条件中的正则表达式
+ * @param conditions 检查条件列表
+ */
+export function validateCheckConditions(
+  conditions: CheckConditionDto[] = [],
+): void {
+  conditions.forEach((condition, index) => {
+    if (condition.pattern === undefined) {
+      return;
+    }
+    try {
+      new RegExp(condition.pattern);
+    } catch {
+      throw new BadRequestException(
+        `第 ${index + 1} 个检查条件的正则无效: ${condition.pattern}`,
+      );
+    }
+  });
+}
+
+/**
+ * 根据检查结果求值检查条件
+ * @param conditions 检查条件列表
+ * @param context 检查命令的输出和耗时
+ * @returns 各条件的求值结果
+ */
+export function evaluateCheckConditions(
+  conditions: CheckConditionDto[],
+  context: CheckConditionContext,
+): CheckConditionResultDto[] {
+  return conditions.map((condition) => {
+    switch (condition.type) {
+      case CheckConditionType.MATCH:
+      case CheckConditionType.NOT_MATCH: {
+        const match = new RegExp(condition.pattern ?? '').exec(context.stdout);
+        return {
+          type: condition.type,
+          value: match ? match[0] : null,
+          triggered:
+            condition.type === CheckConditionType.MATCH ? !!match : !match,
+        };
+      }
+      case CheckConditionType.THRESHOLD: {
+        const value = parseNumber(context.stdout, condition.pattern);
+        return {
+          type: condition.type,
+          value,
+          // 无法解析出数值时视为条件成立，避免输出格式变化后检查一直通过
+          triggered:
+            value === null ||
+            compare(value, condition.operator, condition.threshold ?? 0),
+        };
+      }
+      case CheckConditionType.OUTPUT_CHANGED: {
+        // 首次检查没有可比较的输出
+        const changed =
+          context.previousOutput === undefined ||
+          context.previousOutput === null
+            ? null
+            : context.previousOutput !== context.output;
+        return { type: condition.type, value: changed, triggered: !!changed };
+      }
+      case CheckConditionType.DURATION_EXCEEDED:
+        return {
+          type: condition.type,
+          value: context.durationMs,
+          triggered: context.durationMs > (condition.maxDurationMs ?? Infinity),
+        };
+      default:
+        return { type: condition.type, value: null, triggered: false };
+    }
+  });
+}
+
+/**
+ * 从输出中解析数值，提供正则时从第一个捕获组（没有捕获组时为整个匹配）中解析
+ */
+function parseNumber(stdout: string, pattern?: string): number | null {
+  const match = (pattern ? new RegExp(pattern) : NUMBER_PATTERN).exec(stdout);
+  if (!match) {
+    return null;
+  }
+  const number = NUMBER_PATTERN.exec(match[1] ?? match[0]);
+  return number ? Number(number[0]) : null;
+}
+
+/**
+ * 按比较运算符比较数值与阈值
+ */
+function compare(
+  value: number,
+  operator: string | undefined,
+  threshold: number,
+): boolean {
+  switch (operator) {
+    case CheckConditionOperator.GT:
+      return value > threshold;
+    case CheckConditionOperator.GTE:
+      return value >= threshold;
+    case CheckConditionOperator.LT:
+      return value < threshold;
+    case CheckConditionOperator.LTE:
+      return value <= threshold;
+    case CheckConditionOperator.EQ:
+      return value === threshold;
+    case CheckConditionOperator.NE:
+      return value !== threshold;
+    default:
+      return false;
+  }
+}
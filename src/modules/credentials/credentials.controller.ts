@@ -0,0 +1,132 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { CredentialsService } from './credentials.service';
+import { CreateCredentialDto } from './dto/create-credential.dto';
+import { UpdateCredentialDto } from './dto/update-credential.dto';
+import { RotateCredentialDto } from './dto/rotate-credential.dto';
+import { CredentialQueryDto } from './dto/credential-query.dto';
+import { CredentialRotationResultDto } from './dto/credential-rotation-result.dto';
+import { CredentialEntity } from './entities/credential.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('credentials')
+@ApiBearerAuth()
+@Controller('credentials')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class CredentialsController {
+  constructor(private readonly credentialsService: CredentialsService) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建凭据' })
+  @ApiResponse({
+    status: 201,
+    description: '凭据创建成功',
+    type: CredentialEntity,
+  })
+  @ApiResponse({ status: 409, description: '凭据名称已存在' })
+  create(@Body() createCredentialDto: CreateCredentialDto) {
+    return this.credentialsService.create(createCredentialDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页获取凭据列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的凭据列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/CredentialEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findByLimit(@Query(ParsePaginationPipe) params: CredentialQueryDto) {
+    return this.credentialsService.findByLimit(params);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取指定凭据' })
+  @ApiParam({ name: 'id', description: '凭据ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定凭据',
+    type: CredentialEntity,
+  })
+  @ApiResponse({ status: 404, description: '凭据不存在' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.credentialsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新凭据名称和描述' })
+  @ApiParam({ name: 'id', description: '凭据ID' })
+  @ApiResponse({
+    status: 200,
+    description: '凭据更新成功',
+    type: CredentialEntity,
+  })
+  @ApiResponse({ status: 404, description: '凭据不存在' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateCredentialDto: UpdateCredentialDto,
+  ) {
+    return this.credentialsService.update(id, updateCredentialDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除凭据' })
+  @ApiParam({ name: 'id', description: '凭据ID' })
+  @ApiResponse({ status: 200, description: '凭据删除成功' })
+  @ApiResponse({ status: 409, description: '凭据正被服务器使用' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.credentialsService.remove(id);
+  }
+
+  @Post(':id/rotate')
+  @ApiOperation({
+    summary: '轮换凭据',
+    description:
+      '先用新凭据测试所有引用该凭据的服务器，全部连接成功后才保存新凭据',
+  })
+  @ApiParam({ name: 'id', description: '凭据ID' })
+  @ApiResponse({
+    status: 201,
+    description: '返回是否已轮换以及各服务器的测试结果',
+    type: CredentialRotationResultDto,
+  })
+  @ApiResponse({ status: 404, description: '凭据不存在' })
+  rotate(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() rotateCredentialDto: RotateCredentialDto,
+  ) {
+    return this.credentialsService.rotate(id, rotateCredentialDto);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { CredentialsService } from './credentials.service';
+import { CredentialsController } from './credentials.controller';
+import { ServersModule } from '../servers/servers.module';
+import { SshModule } from '../ssh/ssh.module';
+import { CommonModule } from '../../common';
+
+@Module({
+  imports: [ServersModule, SshModule, CommonModule],
+  controllers: [CredentialsController],
+  providers: [CredentialsService],
+})
+export class CredentialsModule {}
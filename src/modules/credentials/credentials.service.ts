@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Credential } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginationResultDto, PaginationService } from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import { CredentialType } from '../../common/constants';
+import { ServerCredentialsService } from '../servers/server-credentials.service';
+import { SshService } from '../ssh/ssh.service';
+import { parsePrivateKey } from '../ssh/utils/ssh-key.util';
+import { CreateCredentialDto } from './dto/create-credential.dto';
+import { UpdateCredentialDto } from './dto/update-credential.dto';
+import { RotateCredentialDto } from './dto/rotate-credential.dto';
+import { CredentialQueryDto } from './dto/credential-query.dto';
+import {
+  CredentialRotationResultDto,
+  CredentialRotationServerResultDto,
+} from './dto/credential-rotation-result.dto';
+import { CredentialEntity } from './entities/credential.entity';
+
+// 查询凭据时附带引用该凭据的服务器数量
+const CREDENTIAL_INCLUDE = {
+  _count: { select: { servers: true } },
+};
+
+type CredentialWithCount = Credential & { _count: { servers: number } };
+
+// 按凭据类型保存的认证信息
+type CredentialSecrets = Pick<
+  Credential,
+  'password' | 'privateKey' | 'passphrase'
+>;
+
+@Injectable()
+export class CredentialsService {
+  private readonly logger = new Logger(CredentialsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly serverCredentials: ServerCredentialsService,
+    private readonly sshService: SshService,
+  ) {}
+
+  async create(
+    createCredentialDto: CreateCredentialDto,
+  ): Promise<CredentialEntity> {
+    const { name, description, type, username } = createCredentialDto;
+    await this.ensureNameAvailable(name);
+    const secrets = this.resolveSecrets(createCredentialDto);
+
+    const credential = await this.prisma.credential.create({
+      data: {
+        name,
+        description,
+        type,
+        username,
+        ...this.serverCredentials.encryptCredentials(secrets),
+      },
+      include: CREDENTIAL_INCLUDE,
+    });
+    return this.toEntity(credential);
+  }
+
+  async findByLimit(
+    params: CredentialQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<CredentialEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.name) {
+      where.name = {
+        contains: params.name,
+      };
+    }
+
+    if (params.type) {
+      where.type = params.type;
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      CredentialWithCount,
+      any
+    >(
+      this.prisma.credential as unknown as PrismaModel<CredentialWithCount>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+      CREDENTIAL_INCLUDE as any, // include，附带引用数量
+    );
+    return {
+      ...result,
+      items: result.items.map((credential) => this.toEntity(credential)),
+    };
+  }
+
+  async findOne(id: number): Promise<CredentialEntity> {
+    return this.toEntity(await this.findCredential(id));
+  }
+
+  async update(
+    id: number,
+    updateCredentialDto: UpdateCredentialDto,
+  ): Promise<CredentialEntity> {
+    await this.findCredential(id);
+    if (updateCredentialDto.name !== undefined) {
+      await this.ensureNameAvailable(updateCredentialDto.name, id);
+    }
+
+    const credential = await this.prisma.credential.update({
+      where: { id },
+      data: updateCredentialDto,
+      include: CREDENTIAL_INCLUDE,
+    });
+    return this.toEntity(credential);
+  }
+
+  async remove(id: number): Promise<CredentialEntity> {
+    const credential = await this.findCredential(id);
+
+    if (credential._count.servers > 0) {
+      throw new ConflictException(
+        `凭据ID ${id} 正被 ${credential._count.servers} 台服务器使用，无法删除`,
+      );
+    }
+
+    await this.prisma.credential.delete({ where: { id } });
+    this.logger.log(`凭据 ${credential.name} 已删除`);
+    return this.toEntity(credential);
+  }
+
+  /**
+   * 轮换凭据
+   *
+   * 先用新的认证信息逐台测试所有引用该凭据的服务器，全部连接成功后才保存，
+   * 并关闭这些服务器上使用旧凭据建立的缓存连接；任一服务器失败时保持原凭据不变。
+   *
+   * @param id 凭据ID
+   * @param rotateCredentialDto 新的认证信息
+   * @returns 是否已轮换以及各服务器的测试结果
+   */
+  async rotate(
+    id: number,
+    rotateCredentialDto: RotateCredentialDto,
+  ): Promise<CredentialRotationResultDto> {
+    const credential = await this.findCredential(id);
+    const secrets = this.resolveSecrets(rotateCredentialDto);
+    const username =
+      rotateCredentialDto.username !== undefined
+        ? rotateCredentialDto.username
+        : credential.username;
+
+    const servers = await this.prisma.server.findMany({
+      where: { credentialId: id },
+      select: { id: true, name: true },
+      orderBy: { id: 'asc' },
+    });
+
+    const results: CredentialRotationServerResultDto[] = [];
+    for (const server of servers) {
+      const result = await this.sshService.testConnection(server.id, {
+        username: username ?? undefined,
+        password: secrets.password ?? undefined,
+        privateKey: secrets.privateKey ?? undefined,
+        passphrase: secrets.passphrase ?? undefined,
+      });
+      results.push({ serverId: server.id, name: server.name, ...result });
+    }
+
+    const failedCount = results.filter((result) => !result.success).length;
+    if (failedCount > 0) {
+      this.logger.warn(
+        `凭据 ${credential.name} 轮换失败: ${failedCount} 台服务器无法使用新凭据连接`,
+      );
+      return { rotated: false, results };
+    }
+
+    await this.prisma.credential.update({
+      where: { id },
+      data: {
+        type: rotateCredentialDto.type,
+        username,
+        ...this.serverCredentials.encryptCredentials(secrets),
+      },
+    });
+    // 缓存连接仍使用旧凭据，关闭后下次使用时以新凭据重新连接
+    for (const server of servers) {
+      await this.sshService.closeConnection(server.id);
+    }
+
+    this.logger.log(
+      `凭据 ${credential.name} 已轮换，影响 ${servers.length} 台服务器`,
+    );
+    return { rotated: true, results };
+  }
+
+  private async findCredential(id: number): Promise<CredentialWithCount> {
+    const credential = await this.prisma.credential.findUnique({
+      where: { id },
+      include: CREDENTIAL_INCLUDE,
+    });
+
+    if (!credential) {
+      throw new NotFoundException(`凭据ID ${id} 不存在`);
+    }
+
+    return credential;
+  }
+
+  /**
+   * 按凭据类型提取需要保存的认证信息，并校验私钥能否解析
+   * 与类型无关的字段会被清空
+   */
+  private resolveSecrets(
+    dto: Pick<
+      CreateCredentialDto,
+      'type' | 'password' | 'privateKey' | 'passphrase'
+    >,
+  ): CredentialSecrets {
+    switch (dto.type) {
+      case CredentialType.PASSWORD:
+        return {
+          password: dto.password as string,
+          privateKey: null,
+          passphrase: null,
+        };
+      case CredentialType.KEY:
+        parsePrivateKey(dto.privateKey as string);
+        return {
+          password: null,
+          privateKey: dto.privateKey as string,
+          passphrase: null,
+        };
+      case CredentialType.KEY_PASSPHRASE:
+        parsePrivateKey(dto.privateKey as string, dto.passphrase);
+        return {
+          password: null,
+          privateKey: dto.privateKey as string,
+          passphrase: dto.passphrase as string,
+        };
+      default:
+        throw new BadRequestException(`不支持的凭据类型: ${dto.type}`);
+    }
+  }
+
+  private async ensureNameAvailable(
+    name: string,
+    excludeId?: number,
+  ): Promise<void> {
+    const existing = await this.prisma.credential.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+    if (existing && existing.id !== excludeId) {
+      throw new ConflictException(`凭据 ${name} 已存在`);
+    }
+  }
+
+  /**
+   * 将数据库记录转换为实体，认证信息只返回是否已配置
+   */
+  private toEntity(credential: CredentialWithCount): CredentialEntity {
+    const { password, privateKey, passphrase, _count, ...rest } = credential;
+    return {
+      ...rest,
+      hasPassword: !!password,
+      hasPrivateKey: !!privateKey,
+      hasPassphrase: !!passphrase,
+      usageCount: _count.servers,
+    } as CredentialEntity;
+  }
+}
@@ -0,0 +1,58 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateIf,
+} from 'class-validator';
+import { CredentialType, CredentialTypeType } from '../../../common/constants';
+
+export class CreateCredentialDto {
+  @ApiProperty({ description: '凭据名称' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ description: '凭据描述' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({
+    description: '凭据类型',
+    enum: Object.values(CredentialType),
+    enumName: 'CredentialType',
+  })
+  @IsEnum(CredentialType)
+  type: CredentialTypeType;
+
+  @ApiPropertyOptional({
+    description: '用户名，设置后覆盖引用该凭据的服务器的用户名',
+  })
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @ApiPropertyOptional({ description: '密码（password 类型必填）' })
+  @ValidateIf((o) => o.type === CredentialType.PASSWORD)
+  @IsString()
+  @IsNotEmpty()
+  password?: string;
+
+  @ApiPropertyOptional({
+    description: '私钥（key 和 key_passphrase 类型必填）',
+  })
+  @ValidateIf((o) => o.type !== CredentialType.PASSWORD)
+  @IsString()
+  @IsNotEmpty()
+  privateKey?: string;
+
+  @ApiPropertyOptional({
+    description: '私钥密码短语（key_passphrase 类型必填）',
+  })
+  @ValidateIf((o) => o.type === CredentialType.KEY_PASSPHRASE)
+  @IsString()
+  @IsNotEmpty()
+  passphrase?: string;
+}
@@ -0,0 +1,24 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import { CredentialType, CredentialTypeType } from '../../../common/constants';
+
+/**
+ * 凭据查询参数DTO
+ * 用于接收和验证凭据查询参数
+ */
+export class CredentialQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '凭据名称（模糊匹配）' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: '凭据类型',
+    enum: Object.values(CredentialType),
+    enumName: 'CredentialType',
+  })
+  @IsOptional()
+  @IsEnum(CredentialType)
+  type?: CredentialTypeType;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CredentialRotationServerResultDto {
+  @ApiProperty({ description: '服务器ID' })
+  serverId: number;
+
+  @ApiProperty({ description: '服务器名称' })
+  name: string;
+
+  @ApiProperty({ description: '新凭据是否连接成功' })
+  success: boolean;
+
+  @ApiProperty({ description: '测试结果信息' })
+  message: string;
+}
+
+export class CredentialRotationResultDto {
+  @ApiProperty({
+    description: '是否已保存新凭据，任一服务器测试失败时不保存',
+  })
+  rotated: boolean;
+
+  @ApiProperty({
+    description: '各服务器的测试结果',
+    type: [CredentialRotationServerResultDto],
+  })
+  results: CredentialRotationServerResultDto[];
+}
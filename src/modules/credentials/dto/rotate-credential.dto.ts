@@ -0,0 +1,14 @@
+import { PickType } from '@nestjs/swagger';
+import { CreateCredentialDto } from './create-credential.dto';
+
+/**
+ * 轮换凭据DTO
+ * 新的认证信息会先在所有引用该凭据的服务器上测试，全部成功后才保存
+ */
+export class RotateCredentialDto extends PickType(CreateCredentialDto, [
+  'type',
+  'username',
+  'password',
+  'privateKey',
+  'passphrase',
+] as const) {}
@@ -0,0 +1,10 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreateCredentialDto } from './create-credential.dto';
+
+/**
+ * 更新凭据DTO
+ * 只能修改名称和描述，认证信息需通过轮换接口在验证后更新
+ */
+export class UpdateCredentialDto extends PartialType(
+  PickType(CreateCredentialDto, ['name', 'description'] as const),
+) {}
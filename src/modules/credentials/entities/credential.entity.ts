@@ -0,0 +1,40 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Credential } from '@prisma/client';
+import { CredentialTypeType } from '../../../common/constants';
+
+export class CredentialEntity
+  implements Omit<Credential, 'password' | 'privateKey' | 'passphrase'>
+{
+  @ApiProperty({ description: '凭据ID' })
+  id: number;
+
+  @ApiProperty({ description: '凭据名称' })
+  name: string;
+
+  @ApiPropertyOptional({ description: '凭据描述' })
+  description: string | null;
+
+  @ApiProperty({ description: '凭据类型' })
+  type: CredentialTypeType;
+
+  @ApiPropertyOptional({ description: '覆盖服务器用户名的用户名' })
+  username: string | null;
+
+  @ApiProperty({ description: '是否已配置密码' })
+  hasPassword: boolean;
+
+  @ApiProperty({ description: '是否已配置私钥' })
+  hasPrivateKey: boolean;
+
+  @ApiProperty({ description: '私钥是否配置了密码短语' })
+  hasPassphrase: boolean;
+
+  @ApiProperty({ description: '引用该凭据的服务器数量' })
+  usageCount: number;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
@@ -1,10 +1,9 @@
-import { Controller, Get, Query, ParseIntPipe } from '@nestjs/common';
+import { Controller, Get, Query } from '@nestjs/common';
 import { DashboardService } from './dashboard.service';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
-  ApiQuery,
   ApiBearerAuth,
 } from '@nestjs/swagger';
 import {
@@ -15,6 +14,12 @@ import {
   SystemSummary,
   SystemSummaryWithProxies,
 } from './interfaces/system-summary.interface';
+import {
+  DashboardScopeDto,
+  RecentExecutionsQueryDto,
+} from './dto/dashboard-scope.dto';
+import { SshPoolStatsDto } from './dto/ssh-pool-stats.dto';
+import { SshPoolStats } from '../ssh/types/ssh.types';
 
 @ApiTags('dashboard')
 @ApiBearerAuth()
@@ -29,8 +34,8 @@ export class DashboardController {
     description: '返回系统摘要信息',
     type: SystemSummaryDto,
   })
-  getSummary(): Promise<SystemSummary> {
-    return this.dashboardService.getSummary();
+  getSummary(@Query() scope: DashboardScopeDto): Promise<SystemSummary> {
+    return this.dashboardService.getSummary(scope);
   }
 
   @Get('summary-with-proxies')
@@ -40,32 +45,43 @@ export class DashboardController {
     description: '返回包含代理信息的系统摘要',
     type: SystemSummaryWithProxiesDto,
   })
-  getSummaryWithProxies(): Promise<SystemSummaryWithProxies> {
-    return this.dashboardService.getSummaryWithProxies();
+  getSummaryWithProxies(
+    @Query() scope: DashboardScopeDto,
+  ): Promise<SystemSummaryWithProxies> {
+    return this.dashboardService.getSummaryWithProxies(scope);
   }
 
   @Get('recent-executions')
   @ApiOperation({ summary: '获取最近的执行记录' })
-  @ApiQuery({ name: 'limit', required: false, description: '返回记录数量限制' })
   @ApiResponse({ status: 200, description: '返回最近的执行记录' })
-  getRecentExecutions(
-    @Query('limit', new ParseIntPipe({ optional: true })) limit?: number,
-  ) {
-    return this.dashboardService.getRecentExecutions(limit);
+  getRecentExecutions(@Query() query: RecentExecutionsQueryDto) {
+    const { limit, ...scope } = query;
+    return this.dashboardService.getRecentExecutions(limit, scope);
   }
 
   @Get('server-status')
   @ApiOperation({ summary: '获取所有服务器状态' })
   @ApiResponse({ status: 200, description: '返回所有服务器状态' })
-  getServerStatus() {
-    return this.dashboardService.getServerStatus();
+  getServerStatus(@Query() scope: DashboardScopeDto) {
+    return this.dashboardService.getServerStatus(scope);
   }
 
   @Get('task-stats')
   @ApiOperation({ summary: '获取任务统计信息' })
   @ApiResponse({ status: 200, description: '返回任务统计信息' })
-  getTaskStats() {
-    return this.dashboardService.getTaskStats();
+  getTaskStats(@Query() scope: DashboardScopeDto) {
+    return this.dashboardService.getTaskStats(scope);
+  }
+
+  @Get('ssh-pool')
+  @ApiOperation({ summary: '获取SSH连接池统计信息' })
+  @ApiResponse({
+    status: 200,
+    description: '返回SSH连接池统计信息',
+    type: SshPoolStatsDto,
+  })
+  getSshPoolStats(): SshPoolStats {
+    return this.dashboardService.getSshPoolStats();
   }
 
   @Get('proxy-status')
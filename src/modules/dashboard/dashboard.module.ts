@@ -3,9 +3,10 @@ import { DashboardService } from './dashboard.service';
 import { DashboardController } from './dashboard.controller';
 import { QueueModule } from '../queue/queue.module';
 import { ProxiesModule } from '../proxies/proxies.module';
+import { SshModule } from '../ssh/ssh.module';
 
 @Module({
-  imports: [QueueModule, ProxiesModule],
+  imports: [QueueModule, ProxiesModule, SshModule],
   controllers: [DashboardController],
   providers: [DashboardService],
 })
@@ -1,12 +1,17 @@
 import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { QueueStatsService } from '../queue/services/queue-stats.service';
 import { ProxiesService } from '../proxies/proxies.service';
+import { SshService } from '../ssh/ssh.service';
 import { QueueStats } from '../queue/types/queue.types';
+import { SshPoolStats } from '../ssh/types/ssh.types';
 import {
   SystemSummary,
   SystemSummaryWithProxies,
 } from './interfaces/system-summary.interface';
+import { DashboardScopeDto } from './dto/dashboard-scope.dto';
+import { buildServerScopeWhere } from '../servers/utils/server-tags.util';
 
 @Injectable()
 export class DashboardService {
@@ -14,9 +19,12 @@ export class DashboardService {
     private readonly prisma: PrismaService,
     private readonly queueStatsService: QueueStatsService, // Updated injection
     private readonly proxiesService: ProxiesService,
+    private readonly sshService: SshService,
   ) {}
 
-  async getSummary(): Promise<SystemSummary> {
+  async getSummary(scope: DashboardScopeDto = {}): Promise<SystemSummary> {
+    const { serverWhere, executionWhere } = this.buildScope(scope);
+
     const [
       serverCount,
       onlineServers,
@@ -30,29 +38,29 @@ export class DashboardService {
       failedExecutions,
       queueStatus,
     ] = await Promise.all([
-      this.prisma.server.count(),
+      this.prisma.server.count({ where: serverWhere }),
       this.prisma.server.count({
-        where: { status: 'online' },
+        where: { ...serverWhere, status: 'online' },
       }),
       this.prisma.server.count({
-        where: { status: 'offline' },
+        where: { ...serverWhere, status: 'offline' },
       }),
       this.prisma.server.count({
-        where: { status: 'unknown' },
+        where: { ...serverWhere, status: 'unknown' },
       }),
       this.prisma.task.count(),
-      this.prisma.taskExecution.count(),
+      this.prisma.taskExecution.count({ where: executionWhere }),
       this.prisma.taskExecution.count({
-        where: { status: 'running' },
+        where: { ...executionWhere, status: 'running' },
       }),
       this.prisma.taskExecution.count({
-        where: { status: 'queued' },
+        where: { ...executionWhere, status: 'queued' },
       }),
       this.prisma.taskExecution.count({
-        where: { status: 'completed' },
+        where: { ...executionWhere, status: 'completed' },
       }),
       this.prisma.taskExecution.count({
-        where: { status: 'failed' },
+        where: { ...executionWhere, status: 'failed' },
       }),
       this.queueStatsService.getQueueStatus(),
     ]);
@@ -70,8 +78,11 @@ export class DashboardService {
     };
   }
 
-  async getRecentExecutions(limit = 10) {
+  async getRecentExecutions(limit = 10, scope: DashboardScopeDto = {}) {
+    const { executionWhere } = this.buildScope(scope);
+
     return this.prisma.taskExecution.findMany({
+      where: executionWhere,
       take: limit,
       orderBy: { createdAt: 'desc' },
       include: {
@@ -91,8 +102,11 @@ export class DashboardService {
     });
   }
 
-  async getServerStatus() {
+  async getServerStatus(scope: DashboardScopeDto = {}) {
+    const { serverWhere } = this.buildScope(scope);
+
     return this.prisma.server.findMany({
+      where: serverWhere,
       select: {
         id: true,
         name: true,
@@ -108,14 +122,16 @@ export class DashboardService {
     });
   }
 
-  async getTaskStats() {
+  async getTaskStats(scope: DashboardScopeDto = {}) {
+    const { executionWhere } = this.buildScope(scope);
+
     const tasks = await this.prisma.task.findMany({
       select: {
         id: true,
         name: true,
         _count: {
           select: {
-            taskExecutions: true,
+            taskExecutions: { where: executionWhere },
           },
         },
       },
@@ -126,12 +142,14 @@ export class DashboardService {
         const [successful, failed] = await Promise.all([
           this.prisma.taskExecution.count({
             where: {
+              ...executionWhere,
               taskId: task.id,
               status: 'completed',
             },
           }),
           this.prisma.taskExecution.count({
             where: {
+              ...executionWhere,
               taskId: task.id,
               status: 'failed',
             },
@@ -155,14 +173,23 @@ export class DashboardService {
     return result.items;
   }
 
-  async getSummaryWithProxies(): Promise<SystemSummaryWithProxies> {
+  getSshPoolStats(): SshPoolStats {
+    return this.sshService.getPoolStats();
+  }
+
+  async getSummaryWithProxies(
+    scope: DashboardScopeDto = {},
+  ): Promise<SystemSummaryWithProxies> {
+    const { executionWhere } = this.buildScope(scope);
+
     const [summary, proxyItems, todayExecutions, totalSuccessful, totalFailed] =
       await Promise.all([
-        this.getSummary(),
+        this.getSummary(scope),
         this.getProxyStatus(),
         // 获取今日执行数量
         this.prisma.taskExecution.count({
           where: {
+            ...executionWhere,
             createdAt: {
               gte: new Date(new Date().setHours(0, 0, 0, 0)),
             },
@@ -170,11 +197,11 @@ export class DashboardService {
         }),
         // 获取成功执行总数
         this.prisma.taskExecution.count({
-          where: { status: 'completed' },
+          where: { ...executionWhere, status: 'completed' },
         }),
         // 获取失败执行总数
         this.prisma.taskExecution.count({
-          where: { status: 'failed' },
+          where: { ...executionWhere, status: 'failed' },
         }),
       ]);
 
@@ -200,4 +227,20 @@ export class DashboardService {
       successRate,
     };
   }
+
+  /**
+   * 根据统计范围构建服务器和执行记录的查询条件
+   * 任务总数、队列状态和代理状态不受统计范围影响
+   */
+  private buildScope(scope: DashboardScopeDto): {
+    serverWhere: Prisma.ServerWhereInput;
+    executionWhere: Prisma.TaskExecutionWhereInput;
+  } {
+    const serverWhere = buildServerScopeWhere(scope.groupId, scope.tag);
+    return {
+      serverWhere,
+      executionWhere:
+        Object.keys(serverWhere).length > 0 ? { server: serverWhere } : {},
+    };
+  }
 }
@@ -0,0 +1,44 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TAG_SELECTOR_PATTERN } from '../../servers/utils/server-tags.util';
+
+/**
+ * 仪表盘统计范围DTO
+ * 指定后服务器和执行记录相关的统计只包含匹配的服务器
+ */
+export class DashboardScopeDto {
+  @ApiPropertyOptional({ description: '服务器分组ID' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  groupId?: number;
+
+  @ApiPropertyOptional({
+    description: '标签选择器，多个条件需同时满足',
+    example: 'env=prod,role=db',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(TAG_SELECTOR_PATTERN, { message: '标签选择器格式无效' })
+  tag?: string;
+}
+
+/**
+ * 最近执行记录查询DTO
+ */
+export class RecentExecutionsQueryDto extends DashboardScopeDto {
+  @ApiPropertyOptional({ description: '返回记录数量限制', default: 10 })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  limit?: number;
+}
@@ -0,0 +1,55 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  SshPoolConnectionStats,
+  SshPoolStats,
+} from '../../ssh/types/ssh.types';
+
+/**
+ * SSH连接池中单个连接的统计DTO
+ */
+export class SshPoolConnectionStatsDto implements SshPoolConnectionStats {
+  @ApiProperty({ description: '服务器ID' })
+  serverId: number;
+
+  @ApiProperty({ description: '正在使用的通道数' })
+  activeChannels: number;
+
+  @ApiProperty({ description: '等待空闲通道的请求数' })
+  waitingRequests: number;
+
+  @ApiProperty({ description: '连接建立时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '最近使用时间' })
+  lastUsedAt: Date;
+}
+
+/**
+ * SSH连接池统计DTO
+ * 用于API文档和响应序列化
+ */
+export class SshPoolStatsDto implements SshPoolStats {
+  @ApiProperty({ description: '全局最大连接数' })
+  maxConnections: number;
+
+  @ApiProperty({ description: '每台服务器的最大通道数' })
+  maxChannelsPerServer: number;
+
+  @ApiProperty({ description: '空闲连接回收时间（毫秒）' })
+  idleTimeoutMs: number;
+
+  @ApiProperty({ description: '当前连接数' })
+  totalConnections: number;
+
+  @ApiProperty({ description: '正在使用的通道总数' })
+  activeChannels: number;
+
+  @ApiProperty({ description: '等待空闲通道的请求总数' })
+  waitingRequests: number;
+
+  @ApiProperty({
+    description: '各连接的统计信息',
+    type: [SshPoolConnectionStatsDto],
+  })
+  connections: SshPoolConnectionStatsDto[];
+}
@@ -0,0 +1,13 @@
+import { Global, Module } from '@nestjs/common';
+import { EncryptionService } from './encryption.service';
+
+/**
+ * 加密模块
+ * 提供凭据的信封加密与解密
+ */
+@Global()
+@Module({
+  providers: [EncryptionService],
+  exports: [EncryptionService],
+})
+export class EncryptionModule {}
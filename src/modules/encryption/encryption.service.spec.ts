@@ -0,0 +1,67 @@
+import { ConfigService } from '@nestjs/config';
+import { EncryptionService } from './encryption.service';
+
+const OLD_KEY = 'old-master-key';
+const NEW_KEY = 'new-master-key';
+
+function createService(
+  masterKey: string | undefined,
+  previousKeys?: string,
+): EncryptionService {
+  return new EncryptionService(
+    new ConfigService({
+      CREDENTIAL_MASTER_KEY: masterKey,
+      CREDENTIAL_PREVIOUS_MASTER_KEYS: previousKeys,
+    }),
+  );
+}
+
+describe('EncryptionService', () => {
+  it('加密后应能解密还原，且每次生成不同的密文', () => {
+    const service = createService(OLD_KEY);
+    const first = service.encrypt('p@ss:word');
+    const second = service.encrypt('p@ss:word');
+
+    expect(first).toMatch(/^enc:v1:[0-9a-f]{8}:/);
+    expect(first).not.toBe(second);
+    expect(service.isEncrypted(first)).toBe(true);
+    expect(service.isCurrent(first)).toBe(true);
+    expect(service.decrypt(first)).toBe('p@ss:word');
+    expect(service.decrypt(second)).toBe('p@ss:word');
+  });
+
+  it('未加密的历史数据应原样返回', () => {
+    const service = createService(OLD_KEY);
+    expect(service.isEncrypted('plaintext')).toBe(false);
+    expect(service.decrypt('plaintext')).toBe('plaintext');
+  });
+
+  it('轮换后应能用旧主密钥解密，新密文使用新主密钥', () => {
+    const ciphertext = createService(OLD_KEY).encrypt('secret');
+    const rotated = createService(NEW_KEY, ` ${OLD_KEY} ,`);
+
+    expect(rotated.isCurrent(ciphertext)).toBe(false);
+    expect(rotated.decrypt(ciphertext)).toBe('secret');
+
+    const reencrypted = rotated.encrypt(rotated.decrypt(ciphertext));
+    expect(rotated.isCurrent(reencrypted)).toBe(true);
+    expect(() => createService(OLD_KEY).decrypt(reencrypted)).toThrow(
+      /缺少主密钥/,
+    );
+  });
+
+  it('密文被篡改时应解密失败', () => {
+    const service = createService(OLD_KEY);
+    const ciphertext = service.encrypt('secret');
+    const parts = ciphertext.split(':');
+    const payload = Buffer.from(parts[4], 'base64');
+    payload[payload.length - 1] ^= 0xff;
+    parts[4] = payload.toString('base64');
+
+    expect(() => service.decrypt(parts.join(':'))).toThrow();
+  });
+
+  it('未配置主密钥时应无法创建', () => {
+    expect(() => createService(undefined)).toThrow(/CREDENTIAL_MASTER_KEY/);
+  });
+});
@@ -0,0 +1,131 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+// 密文前缀及格式版本：enc:v1:<主密钥ID>:<加密后的数据密钥>:<加密后的数据>
+const CIPHER_PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * 信封加密服务
+ *
+ * 每个值使用随机生成的数据密钥（AES-256-GCM）加密，数据密钥再由主密钥加密后
+ * 与密文一起保存。主密钥来自 CREDENTIAL_MASTER_KEY，轮换期间旧主密钥通过
+ * CREDENTIAL_PREVIOUS_MASTER_KEYS（逗号分隔）提供，仅用于解密。
+ */
+@Injectable()
+export class EncryptionService {
+  private readonly logger = new Logger(EncryptionService.name);
+  private readonly currentKey: MasterKey;
+  private readonly masterKeys = new Map<string, Buffer>();
+
+  constructor(private readonly configService: ConfigService) {
+    const secret = this.configService.get<string>('CREDENTIAL_MASTER_KEY');
+    if (!secret) {
+      throw new Error('未配置 CREDENTIAL_MASTER_KEY，无法加密服务器凭据');
+    }
+    this.currentKey = this.deriveMasterKey(secret);
+    this.masterKeys.set(this.currentKey.id, this.currentKey.key);
+
+    const previous = this.configService.get<string>(
+      'CREDENTIAL_PREVIOUS_MASTER_KEYS',
+      '',
+    );
+    for (const item of previous.split(',')) {
+      if (item.trim()) {
+        const masterKey = this.deriveMasterKey(item.trim());
+        this.masterKeys.set(masterKey.id, masterKey.key);
+      }
+    }
+    this.logger.log(`已加载主密钥 ${this.currentKey.id}`);
+  }
+
+  /**
+   * 使用当前主密钥加密
+   * @param plaintext 明文
+   * @returns 密文
+   */
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(32);
+    const wrappedKey = this.seal(this.currentKey.key, dataKey);
+    const payload = this.seal(dataKey, Buffer.from(plaintext, 'utf8'));
+    return `${CIPHER_PREFIX}${this.currentKey.id}:${wrappedKey}:${payload}`;
+  }
+
+  /**
+   * 解密，未加密的历史数据原样返回
+   * @param value 密文
+   * @returns 明文
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const [keyId, wrappedKey, payload] = value
+      .slice(CIPHER_PREFIX.length)
+      .split(':');
+    const masterKey = this.masterKeys.get(keyId);
+    if (!masterKey) {
+      throw new Error(`缺少主密钥 ${keyId}，无法解密凭据`);
+    }
+
+    const dataKey = this.open(masterKey, wrappedKey);
+    return this.open(dataKey, payload).toString('utf8');
+  }
+
+  /**
+   * 是否为本服务生成的密文
+   */
+  isEncrypted(value: string): boolean {
+    return value.startsWith(CIPHER_PREFIX);
+  }
+
+  /**
+   * 是否已使用当前主密钥加密
+   */
+  isCurrent(value: string): boolean {
+    return value.startsWith(`${CIPHER_PREFIX}${this.currentKey.id}:`);
+  }
+
+  /**
+   * 由配置值派生256位主密钥，密钥ID为其摘要前缀，用于识别加密时使用的主密钥
+   */
+  private deriveMasterKey(secret: string): MasterKey {
+    const key = crypto.createHash('sha256').update(secret).digest();
+    const id = crypto
+      .createHash('sha256')
+      .update(key)
+      .digest('hex')
+      .slice(0, 8);
+    return { id, key };
+  }
+
+  private seal(key: Buffer, data: Buffer): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+      'base64',
+    );
+  }
+
+  private open(key: Buffer, sealed: string): Buffer {
+    const buffer = Buffer.from(sealed, 'base64');
+    const iv = buffer.subarray(0, IV_LENGTH);
+    const tag = buffer.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([
+      decipher.update(buffer.subarray(IV_LENGTH + TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  OnGatewayConnection,
+  OnGatewayInit,
+  WsResponse,
+  MessageBody,
+  ConnectedSocket,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { Logger, Injectable } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  ExecutionOutputService,
+  ExecutionOutputChunk,
+  ExecutionFinishedPayload,
+  EXECUTION_OUTPUT_EVENT,
+  EXECUTION_FINISHED_EVENT,
+} from './execution-output.service';
+import { FileTransferDefaults } from '../../common';
+
+/**
+ * 任务执行实时输出网关
+ *
+ * 客户端连接 /executions 命名空间（握手时通过 auth.token 或 query.token 传递JWT），
+ * 发送 subscribe 事件订阅执行记录，先收到 output_snapshot，之后持续收到
+ * execution_output 片段，执行结束时收到 execution_finished。
+ */
+@Injectable()
+@WebSocketGateway({
+  cors: {
+    origin: '*', // 在生产环境中应该限制为特定域名
+  },
+  namespace: 'executions',
+  // 与 ProxyGateway 共用同一个 Socket.IO 服务器，需保持一致
+  maxHttpBufferSize: FileTransferDefaults.SOCKET_MAX_BUFFER_SIZE,
+})
+export class ExecutionOutputGateway
+  implements OnGatewayInit, OnGatewayConnection
+{
+  private readonly logger = new Logger(ExecutionOutputGateway.name);
+
+  constructor(
+    private readonly eventEmitter: EventEmitter2,
+    private readonly jwtService: JwtService,
+    private readonly prisma: PrismaService,
+    private readonly executionOutputService: ExecutionOutputService,
+  ) {}
+
+  @WebSocketServer()
+  server: Server;
+
+  afterInit() {
+    this.eventEmitter.on(
+      EXECUTION_OUTPUT_EVENT,
+      (chunk: ExecutionOutputChunk) => {
+        this.server
+          .to(this.roomName(chunk.executionId))
+          .emit('execution_output', chunk);
+      },
+    );
+
+    this.eventEmitter.on(
+      EXECUTION_FINISHED_EVENT,
+      (payload: ExecutionFinishedPayload) => {
+        this.server
+          .to(this.roomName(payload.executionId))
+          .emit('execution_finished', payload);
+      },
+    );
+  }
+
+  handleConnection(client: Socket) {
+    const token =
+      (client.handshake.auth?.token as string) ||
+      (client.handshake.query.token as string);
+
+    try {
+      if (!token) {
+        throw new Error('未提供令牌');
+      }
+      this.jwtService.verify(token);
+    } catch (error) {
+      this.logger.warn(`执行输出订阅连接认证失败: ${error.message}`);
+      client.disconnect();
+    }
+  }
+
+  @SubscribeMessage('subscribe')
+  async handleSubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: { executionId: number },
+  ): Promise<WsResponse<any>> {
+    const executionId = Number(payload?.executionId);
+    if (!Number.isInteger(executionId) || executionId <= 0) {
+      return { event: 'error', data: { message: '无效的执行记录ID' } };
+    }
+
+    await client.join(this.roomName(executionId));
+
+    // 执行中的记录直接使用内存中的完整输出，加入房间与读取快照之间没有异步间隙
+    const snapshot = this.executionOutputService.getSnapshot(executionId);
+    if (snapshot) {
+      return {
+        event: 'output_snapshot',
+        data: { executionId, status: 'running', exitCode: null, ...snapshot },
+      };
+    }
+
+    // 否则返回数据库中已保存的输出
+    const execution = await this.prisma.taskExecution.findUnique({
+      where: { id: executionId },
+      select: { status: true, output: true, exitCode: true },
+    });
+    if (!execution) {
+      await client.leave(this.roomName(executionId));
+      return {
+        event: 'error',
+        data: { message: `执行记录ID ${executionId} 不存在` },
+      };
+    }
+
+    return {
+      event: 'output_snapshot',
+      data: {
+        executionId,
+        status: execution.status,
+        exitCode: execution.exitCode,
+        output: execution.output ?? '',
+      },
+    };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  async handleUnsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() payload: { executionId: number },
+  ): Promise<void> {
+    await client.leave(this.roomName(Number(payload?.executionId)));
+  }
+
+  private roomName(executionId: number): string {
+    return `execution_${executionId}`;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { ExecutionOutputService } from './execution-output.service';
+import { ExecutionOutputGateway } from './execution-output.gateway';
+
+@Module({
+  imports: [AuthModule],
+  providers: [ExecutionOutputService, ExecutionOutputGateway],
+  exports: [ExecutionOutputService],
+})
+export class ExecutionOutputModule {}
@@ -0,0 +1,134 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CommandOutputStream } from '../ssh/types/ssh.types';
+
+// 实时输出事件名称
+export const EXECUTION_OUTPUT_EVENT = 'execution_output';
+// 执行结束事件名称
+export const EXECUTION_FINISHED_EVENT = 'execution_finished';
+
+// 输出写入数据库的间隔（毫秒）
+const FLUSH_INTERVAL_MS = 2000;
+
+/**
+ * 执行输出片段
+ */
+export interface ExecutionOutputChunk {
+  executionId: number;
+  stream: CommandOutputStream;
+  data: string;
+}
+
+/**
+ * 执行结束通知
+ */
+export interface ExecutionFinishedPayload {
+  executionId: number;
+  status: string;
+  exitCode: number | null;
+}
+
+/**
+ * 执行中的输出缓冲
+ */
+interface OutputBuffer {
+  stdout: string;
+  stderr: string;
+  dirty: boolean; // 是否有尚未写入数据库的输出
+}
+
+/**
+ * 任务执行输出服务
+ * 缓存执行中的输出、广播实时输出事件，并定期将已累积的输出写入数据库，
+ * 使后订阅的客户端可以从已保存的输出继续接收
+ */
+@Injectable()
+export class ExecutionOutputService {
+  private readonly logger = new Logger(ExecutionOutputService.name);
+  private readonly buffers = new Map<number, OutputBuffer>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * 开始记录执行输出
+   * @param executionId 执行记录ID
+   */
+  start(executionId: number): void {
+    this.buffers.set(executionId, { stdout: '', stderr: '', dirty: false });
+  }
+
+  /**
+   * 追加一段输出并广播
+   * @param executionId 执行记录ID
+   * @param stream 输出流
+   * @param data 输出内容
+   */
+  append(executionId: number, stream: CommandOutputStream, data: string): void {
+    const buffer = this.buffers.get(executionId);
+    if (!buffer) {
+      return;
+    }
+    buffer[stream] += data;
+    buffer.dirty = true;
+
+    const chunk: ExecutionOutputChunk = { executionId, stream, data };
+    this.eventEmitter.emit(EXECUTION_OUTPUT_EVENT, chunk);
+  }
+
+  /**
+   * 结束记录执行输出并广播结束事件
+   * 调用前执行记录应已写入最终状态和输出
+   * @param executionId 执行记录ID
+   * @param status 最终状态
+   * @param exitCode 退出码
+   */
+  finish(executionId: number, status: string, exitCode: number | null): void {
+    this.buffers.delete(executionId);
+
+    const payload: ExecutionFinishedPayload = { executionId, status, exitCode };
+    this.eventEmitter.emit(EXECUTION_FINISHED_EVENT, payload);
+  }
+
+  /**
+   * 获取执行中的完整输出
+   * @param executionId 执行记录ID
+   * @returns 执行中返回已累积的输出，否则返回null
+   */
+  getSnapshot(executionId: number): { stdout: string; stderr: string } | null {
+    const buffer = this.buffers.get(executionId);
+    return buffer ? { stdout: buffer.stdout, stderr: buffer.stderr } : null;
+  }
+
+  /**
+   * 定期将累积的输出写入数据库
+   * 只更新仍处于running状态的记录，避免覆盖最终结果
+   */
+  @Interval(FLUSH_INTERVAL_MS)
+  async flushOutputs(): Promise<void> {
+    for (const [executionId, buffer] of this.buffers) {
+      if (!buffer.dirty) {
+        continue;
+      }
+      buffer.dirty = false;
+      try {
+        await this.prisma.taskExecution.updateMany({
+          where: { id: executionId, status: 'running' },
+          // 与执行完成时写入的输出格式保持一致
+          data: {
+            output: `stdout: ${buffer.stdout}\nstderr: ${buffer.stderr}`,
+          },
+        });
+      } catch (error) {
+        buffer.dirty = true;
+        this.logger.warn(
+          `写入执行记录 ${executionId} 的输出失败: ${error.message}`,
+        );
+      }
+    }
+  }
+}
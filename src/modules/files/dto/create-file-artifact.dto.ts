@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * 创建文件制品DTO
+ * 文件内容通过 multipart 的 file 字段上传
+ */
+export class CreateFileArtifactDto {
+  @ApiPropertyOptional({ description: '制品描述' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
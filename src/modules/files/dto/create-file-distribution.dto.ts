@@ -0,0 +1,18 @@
+import { ApiProperty, IntersectionType } from '@nestjs/swagger';
+import { IsInt, IsPositive } from 'class-validator';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+import { UploadFileDto } from './upload-file.dto';
+
+/**
+ * 创建文件分发DTO
+ * 将已上传的制品复制到目标服务器，目标服务器的指定方式与任务执行相同
+ */
+export class CreateFileDistributionDto extends IntersectionType(
+  ServerTargetDto,
+  UploadFileDto,
+) {
+  @ApiProperty({ description: '要分发的制品ID' })
+  @IsInt()
+  @IsPositive()
+  artifactId: number;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * 下载文件查询参数DTO
+ */
+export class DownloadFileQueryDto {
+  @ApiProperty({
+    description: '服务器上文件的绝对路径',
+    example: '/var/log/syslog',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\//, { message: '路径必须是绝对路径' })
+  path: string;
+}
@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+
+/**
+ * 文件制品查询参数DTO
+ */
+export class FileArtifactQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '文件名（模糊匹配）' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+}
@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import {
+  FileDistributionStatus,
+  FileDistributionStatusType,
+} from '../../../common/constants';
+
+/**
+ * 文件分发查询参数DTO
+ */
+export class FileDistributionQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '制品ID（精确匹配）' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  artifactId?: number;
+
+  @ApiPropertyOptional({
+    description: '分发状态',
+    enum: Object.values(FileDistributionStatus),
+  })
+  @IsOptional()
+  @IsEnum(FileDistributionStatus)
+  status?: FileDistributionStatusType;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * 上传文件到单台服务器的结果DTO
+ */
+export class FileUploadResultDto {
+  @ApiProperty({ description: '是否上传成功' })
+  success: boolean;
+
+  @ApiPropertyOptional({
+    description: '目标服务器上计算出的SHA256，与上传内容一致时才会写入目标路径',
+  })
+  checksum?: string;
+
+  @ApiProperty({ description: '结果说明或错误信息' })
+  message: string;
+}
@@ -0,0 +1,37 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+
+/**
+ * 上传文件DTO
+ * 描述文件在目标服务器上的路径、权限和属主
+ */
+export class UploadFileDto {
+  @ApiProperty({
+    description: '目标服务器上的绝对路径（包含文件名）',
+    example: '/etc/nginx/nginx.conf',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\/[^\0\n]*[^/\0\n]$/, { message: '目标路径必须是文件的绝对路径' })
+  targetPath: string;
+
+  @ApiPropertyOptional({
+    description: '八进制权限，不指定时使用目标服务器的默认权限',
+    example: '0644',
+  })
+  @IsString()
+  @Matches(/^[0-7]{3,4}$/, { message: '权限必须是3到4位八进制数字' })
+  @IsOptional()
+  mode?: string;
+
+  @ApiPropertyOptional({
+    description: '属主，格式为 用户 或 用户:组，不指定时为SSH登录用户',
+    example: 'root:root',
+  })
+  @IsString()
+  @Matches(/^[A-Za-z0-9._-]+(:[A-Za-z0-9._-]+)?$/, {
+    message: '属主格式无效，应为 用户 或 用户:组',
+  })
+  @IsOptional()
+  owner?: string;
+}
@@ -0,0 +1,25 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FileArtifact } from '@prisma/client';
+
+export class FileArtifactEntity implements Omit<FileArtifact, 'storageName'> {
+  @ApiProperty({ description: '制品ID' })
+  id: number;
+
+  @ApiProperty({ description: '原始文件名' })
+  name: string;
+
+  @ApiPropertyOptional({ description: '制品描述' })
+  description: string | null;
+
+  @ApiProperty({ description: '文件大小（字节）' })
+  size: number;
+
+  @ApiProperty({ description: '文件内容的SHA256' })
+  sha256: string;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
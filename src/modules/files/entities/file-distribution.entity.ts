@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FileDistribution, FileTransfer } from '@prisma/client';
+import { FileDistributionStatus, FileTransferStatus } from '../../../common';
+import { FileArtifactEntity } from './file-artifact.entity';
+
+export class FileTransferEntity implements FileTransfer {
+  @ApiProperty({ description: '传输记录ID' })
+  id: number;
+
+  @ApiProperty({ description: '所属分发ID' })
+  distributionId: number;
+
+  @ApiProperty({ description: '服务器ID' })
+  serverId: number;
+
+  @ApiProperty({
+    description: '传输状态',
+    enum: Object.values(FileTransferStatus),
+  })
+  status: string;
+
+  @ApiPropertyOptional({ description: '目标服务器上计算出的SHA256' })
+  checksum: string | null;
+
+  @ApiPropertyOptional({ description: '结果说明或错误信息' })
+  message: string | null;
+
+  @ApiPropertyOptional({ description: '开始传输时间' })
+  startedAt: Date | null;
+
+  @ApiPropertyOptional({ description: '完成时间' })
+  completedAt: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
+
+export class FileDistributionEntity implements FileDistribution {
+  @ApiProperty({ description: '分发ID' })
+  id: number;
+
+  @ApiProperty({ description: '制品ID' })
+  artifactId: number;
+
+  @ApiProperty({ description: '目标路径' })
+  targetPath: string;
+
+  @ApiPropertyOptional({ description: '八进制权限' })
+  mode: string | null;
+
+  @ApiPropertyOptional({ description: '属主' })
+  owner: string | null;
+
+  @ApiProperty({
+    description: '分发状态',
+    enum: Object.values(FileDistributionStatus),
+  })
+  status: string;
+
+  @ApiProperty({ description: '开始时间' })
+  startedAt: Date;
+
+  @ApiPropertyOptional({ description: '完成时间' })
+  completedAt: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({ description: '分发的制品', type: FileArtifactEntity })
+  artifact?: FileArtifactEntity;
+
+  @ApiPropertyOptional({
+    description: '各服务器的传输结果（仅在查询单个分发时返回）',
+    type: [FileTransferEntity],
+  })
+  transfers?: FileTransferEntity[];
+}
@@ -0,0 +1,171 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FileArtifact } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginationResultDto, PaginationService } from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import {
+  FileDistributionStatus,
+  FileTransferDefaults,
+} from '../../common/constants';
+import { CreateFileArtifactDto } from './dto/create-file-artifact.dto';
+import { FileArtifactQueryDto } from './dto/file-artifact-query.dto';
+import { FileArtifactEntity } from './entities/file-artifact.entity';
+import { UploadedFileData } from './types/uploaded-file.type';
+
+/**
+ * 文件制品服务
+ * 制品内容保存在本机存储目录中，数据库只记录元数据
+ */
+@Injectable()
+export class FileArtifactsService {
+  private readonly logger = new Logger(FileArtifactsService.name);
+  private readonly storageDir: string;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    configService: ConfigService,
+  ) {
+    this.storageDir = resolve(
+      configService.get<string>('FILE_STORAGE_DIR') ??
+        FileTransferDefaults.STORAGE_DIR,
+    );
+  }
+
+  async create(
+    file: UploadedFileData | undefined,
+    createFileArtifactDto: CreateFileArtifactDto,
+  ): Promise<FileArtifactEntity> {
+    if (!file) {
+      throw new BadRequestException('请通过 file 字段上传文件');
+    }
+
+    const storageName = randomUUID();
+    const storagePath = join(this.storageDir, storageName);
+    await mkdir(this.storageDir, { recursive: true });
+    await writeFile(storagePath, file.buffer);
+
+    try {
+      const artifact = await this.prisma.fileArtifact.create({
+        data: {
+          // multer 按 latin1 解析文件名，转换回 UTF-8 以保留中文文件名
+          name: Buffer.from(file.originalname, 'latin1').toString('utf8'),
+          description: createFileArtifactDto.description,
+          size: file.size,
+          sha256: createHash('sha256').update(file.buffer).digest('hex'),
+          storageName,
+        },
+      });
+      this.logger.log(`已保存制品 ${artifact.name}（${artifact.size} 字节）`);
+      return this.toEntity(artifact);
+    } catch (error) {
+      await rm(storagePath, { force: true });
+      throw error;
+    }
+  }
+
+  async findByLimit(
+    params: FileArtifactQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<FileArtifactEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.name) {
+      where.name = {
+        contains: params.name,
+      };
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      FileArtifact,
+      any
+    >(
+      this.prisma.fileArtifact as unknown as PrismaModel<FileArtifact>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+    );
+    return {
+      ...result,
+      items: result.items.map((artifact) => this.toEntity(artifact)),
+    };
+  }
+
+  async findOne(id: number): Promise<FileArtifactEntity> {
+    return this.toEntity(await this.findArtifact(id));
+  }
+
+  /**
+   * 读取制品内容
+   * @param id 制品ID
+   * @returns 制品记录和文件内容
+   * @throws 制品不存在或存储的文件已丢失时抛出 NotFoundException
+   */
+  async readContent(
+    id: number,
+  ): Promise<{ artifact: FileArtifactEntity; content: Buffer }> {
+    const artifact = await this.findArtifact(id);
+    try {
+      const content = await readFile(
+        join(this.storageDir, artifact.storageName),
+      );
+      return { artifact: this.toEntity(artifact), content };
+    } catch (error) {
+      this.logger.error(
+        `读取制品 ${artifact.name} 的文件失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw new NotFoundException(`制品ID ${id} 的文件已丢失`);
+    }
+  }
+
+  /**
+   * 删除制品及其分发记录
+   * 制品正在分发时无法删除
+   */
+  async remove(id: number): Promise<FileArtifactEntity> {
+    const artifact = await this.findArtifact(id);
+
+    const runningCount = await this.prisma.fileDistribution.count({
+      where: { artifactId: id, status: FileDistributionStatus.RUNNING },
+    });
+    if (runningCount > 0) {
+      throw new ConflictException(`制品ID ${id} 正在分发中，无法删除`);
+    }
+
+    await this.prisma.fileArtifact.delete({ where: { id } });
+    await rm(join(this.storageDir, artifact.storageName), { force: true });
+    this.logger.log(`制品 ${artifact.name} 已删除`);
+    return this.toEntity(artifact);
+  }
+
+  private async findArtifact(id: number): Promise<FileArtifact> {
+    const artifact = await this.prisma.fileArtifact.findUnique({
+      where: { id },
+    });
+
+    if (!artifact) {
+      throw new NotFoundException(`制品ID ${id} 不存在`);
+    }
+
+    return artifact;
+  }
+
+  /**
+   * 将数据库记录转换为实体，不返回存储文件名
+   */
+  private toEntity(artifact: FileArtifact): FileArtifactEntity {
+    const { id, name, description, size, sha256, createdAt, updatedAt } =
+      artifact;
+    return { id, name, description, size, sha256, createdAt, updatedAt };
+  }
+}
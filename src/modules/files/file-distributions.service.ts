@@ -0,0 +1,273 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { FileDistribution, FileTransfer } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginationResultDto, PaginationService } from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import {
+  FileDistributionStatus,
+  FileTransferDefaults,
+  FileTransferStatus,
+} from '../../common/constants';
+import { ServersService } from '../servers/servers.service';
+import { SshFileService } from '../ssh/services/ssh-file.service';
+import { FileUploadResult } from '../ssh/types/ssh.types';
+import { FileArtifactsService } from './file-artifacts.service';
+import { CreateFileDistributionDto } from './dto/create-file-distribution.dto';
+import { FileDistributionQueryDto } from './dto/file-distribution-query.dto';
+import { FileDistributionEntity } from './entities/file-distribution.entity';
+
+// 分发记录附带的制品字段，不包含存储文件名
+const ARTIFACT_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  size: true,
+  sha256: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+/**
+ * 文件分发服务
+ *
+ * 创建分发时为每台目标服务器生成一条传输记录，随后在后台按并发上限逐台上传，
+ * 每台服务器的结果（包括目标服务器上计算出的校验和）写回对应的传输记录。
+ */
+@Injectable()
+export class FileDistributionsService implements OnModuleInit {
+  private readonly logger = new Logger(FileDistributionsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly serversService: ServersService,
+    private readonly fileArtifactsService: FileArtifactsService,
+    private readonly sshFileService: SshFileService,
+  ) {}
+
+  /**
+   * 分发只在内存中执行，服务重启后将未完成的记录标记为失败
+   */
+  async onModuleInit(): Promise<void> {
+    const now = new Date();
+    const transfers = await this.prisma.fileTransfer.updateMany({
+      where: {
+        status: {
+          in: [FileTransferStatus.PENDING, FileTransferStatus.RUNNING],
+        },
+      },
+      data: {
+        status: FileTransferStatus.FAILED,
+        message: '服务重启，传输已中断',
+        completedAt: now,
+      },
+    });
+    const distributions = await this.prisma.fileDistribution.updateMany({
+      where: { status: FileDistributionStatus.RUNNING },
+      data: { status: FileDistributionStatus.FAILED, completedAt: now },
+    });
+    if (distributions.count > 0) {
+      this.logger.warn(
+        `服务重启，已将 ${distributions.count} 个未完成的文件分发（${transfers.count} 台服务器）标记为失败`,
+      );
+    }
+  }
+
+  /**
+   * 创建文件分发并在后台开始传输
+   * @param createFileDistributionDto 制品、目标路径和目标服务器
+   * @returns 分发记录，包含各服务器的传输记录
+   */
+  async create(
+    createFileDistributionDto: CreateFileDistributionDto,
+  ): Promise<FileDistributionEntity> {
+    const { artifactId, targetPath, mode, owner, ...target } =
+      createFileDistributionDto;
+    const { content } = await this.fileArtifactsService.readContent(artifactId);
+    const serverIds = await this.serversService.resolveTargetServerIds(target);
+
+    const distribution = await this.prisma.fileDistribution.create({
+      data: {
+        artifactId,
+        targetPath,
+        mode,
+        owner,
+        status: FileDistributionStatus.RUNNING,
+        transfers: {
+          create: serverIds.map((serverId) => ({ serverId })),
+        },
+      },
+      include: {
+        artifact: { select: ARTIFACT_SELECT },
+        transfers: { orderBy: { id: 'asc' } },
+      },
+    });
+
+    this.logger.log(
+      `文件分发 ${distribution.id} 已创建: ${distribution.artifact.name} -> ${targetPath}，共 ${serverIds.length} 台服务器`,
+    );
+    void this.run(distribution, distribution.transfers, content).catch(
+      (error) => {
+        this.logger.error(
+          `文件分发 ${distribution.id} 执行失败: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      },
+    );
+
+    return distribution;
+  }
+
+  async findByLimit(
+    params: FileDistributionQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<FileDistributionEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.artifactId) {
+      where.artifactId = params.artifactId;
+    }
+
+    if (params.status) {
+      where.status = params.status;
+    }
+
+    return this.paginationService.paginateByLimit<FileDistributionEntity, any>(
+      this.prisma
+        .fileDistribution as unknown as PrismaModel<FileDistributionEntity>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+      { artifact: { select: ARTIFACT_SELECT } } as any, // include，附带制品信息
+    );
+  }
+
+  async findOne(id: number): Promise<FileDistributionEntity> {
+    const distribution = await this.prisma.fileDistribution.findUnique({
+      where: { id },
+      include: {
+        artifact: { select: ARTIFACT_SELECT },
+        transfers: { orderBy: { id: 'asc' } },
+      },
+    });
+
+    if (!distribution) {
+      throw new NotFoundException(`文件分发ID ${id} 不存在`);
+    }
+
+    return distribution;
+  }
+
+  /**
+   * 删除分发及其传输记录，进行中的分发无法删除
+   */
+  async remove(id: number): Promise<FileDistributionEntity> {
+    const distribution = await this.findOne(id);
+
+    if (distribution.status === FileDistributionStatus.RUNNING) {
+      throw new ConflictException(`文件分发ID ${id} 正在进行中，无法删除`);
+    }
+
+    await this.prisma.fileDistribution.delete({ where: { id } });
+    return distribution;
+  }
+
+  /**
+   * 按并发上限逐台传输，全部结束后汇总分发状态
+   */
+  private async run(
+    distribution: FileDistribution,
+    transfers: FileTransfer[],
+    content: Buffer,
+  ): Promise<void> {
+    const pending = [...transfers];
+    const worker = async () => {
+      let transfer: FileTransfer | undefined;
+      while ((transfer = pending.shift())) {
+        await this.transfer(distribution, transfer, content);
+      }
+    };
+
+    await Promise.all(
+      Array.from(
+        {
+          length: Math.min(
+            FileTransferDefaults.DISTRIBUTION_CONCURRENCY,
+            pending.length,
+          ),
+        },
+        worker,
+      ),
+    );
+
+    const failedCount = await this.prisma.fileTransfer.count({
+      where: {
+        distributionId: distribution.id,
+        status: { not: FileTransferStatus.COMPLETED },
+      },
+    });
+    await this.prisma.fileDistribution.update({
+      where: { id: distribution.id },
+      data: {
+        status:
+          failedCount > 0
+            ? FileDistributionStatus.FAILED
+            : FileDistributionStatus.COMPLETED,
+        completedAt: new Date(),
+      },
+    });
+
+    this.logger.log(
+      `文件分发 ${distribution.id} 已结束: ${transfers.length - failedCount} 台成功，${failedCount} 台失败`,
+    );
+  }
+
+  /**
+   * 上传到单台服务器并记录结果
+   */
+  private async transfer(
+    distribution: FileDistribution,
+    transfer: FileTransfer,
+    content: Buffer,
+  ): Promise<void> {
+    await this.prisma.fileTransfer.update({
+      where: { id: transfer.id },
+      data: { status: FileTransferStatus.RUNNING, startedAt: new Date() },
+    });
+
+    let result: FileUploadResult;
+    try {
+      result = await this.sshFileService.uploadFile(
+        transfer.serverId,
+        distribution.targetPath,
+        content,
+        {
+          mode: distribution.mode ?? undefined,
+          owner: distribution.owner ?? undefined,
+        },
+      );
+    } catch (error) {
+      result = {
+        success: false,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    await this.prisma.fileTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        status: result.success
+          ? FileTransferStatus.COMPLETED
+          : FileTransferStatus.FAILED,
+        checksum: result.checksum,
+        message: result.message,
+        completedAt: new Date(),
+      },
+    });
+  }
+}
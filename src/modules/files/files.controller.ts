@@ -0,0 +1,183 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { FileArtifactsService } from './file-artifacts.service';
+import { FileDistributionsService } from './file-distributions.service';
+import { CreateFileArtifactDto } from './dto/create-file-artifact.dto';
+import { CreateFileDistributionDto } from './dto/create-file-distribution.dto';
+import { FileArtifactQueryDto } from './dto/file-artifact-query.dto';
+import { FileDistributionQueryDto } from './dto/file-distribution-query.dto';
+import { FileArtifactEntity } from './entities/file-artifact.entity';
+import { FileDistributionEntity } from './entities/file-distribution.entity';
+import { UploadedFileData } from './types/uploaded-file.type';
+import { FileTransferDefaults, ParsePaginationPipe } from '../../common';
+
+@ApiTags('files')
+@ApiBearerAuth()
+@Controller('files')
+export class FilesController {
+  constructor(
+    private readonly fileArtifactsService: FileArtifactsService,
+    private readonly fileDistributionsService: FileDistributionsService,
+  ) {}
+
+  @Post('artifacts')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: FileTransferDefaults.MAX_FILE_SIZE },
+    }),
+  )
+  @ApiOperation({ summary: '上传文件制品' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: { type: 'string', format: 'binary', description: '文件内容' },
+        description: { type: 'string', description: '制品描述' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: '制品上传成功',
+    type: FileArtifactEntity,
+  })
+  @ApiResponse({ status: 413, description: '文件超过大小限制' })
+  createArtifact(
+    @UploadedFile() file: UploadedFileData | undefined,
+    @Body() createFileArtifactDto: CreateFileArtifactDto,
+  ) {
+    return this.fileArtifactsService.create(file, createFileArtifactDto);
+  }
+
+  @Get('artifacts')
+  @ApiOperation({ summary: '分页获取文件制品列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的文件制品列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FileArtifactEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findArtifacts(@Query(ParsePaginationPipe) params: FileArtifactQueryDto) {
+    return this.fileArtifactsService.findByLimit(params);
+  }
+
+  @Get('artifacts/:id')
+  @ApiOperation({ summary: '获取指定文件制品' })
+  @ApiParam({ name: 'id', description: '制品ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定文件制品',
+    type: FileArtifactEntity,
+  })
+  @ApiResponse({ status: 404, description: '制品不存在' })
+  findArtifact(@Param('id', ParseIntPipe) id: number) {
+    return this.fileArtifactsService.findOne(id);
+  }
+
+  @Delete('artifacts/:id')
+  @ApiOperation({ summary: '删除文件制品及其分发记录' })
+  @ApiParam({ name: 'id', description: '制品ID' })
+  @ApiResponse({ status: 200, description: '制品删除成功' })
+  @ApiResponse({ status: 409, description: '制品正在分发中' })
+  removeArtifact(@Param('id', ParseIntPipe) id: number) {
+    return this.fileArtifactsService.remove(id);
+  }
+
+  @Post('distributions')
+  @ApiOperation({
+    summary: '分发文件制品',
+    description:
+      '将制品复制到目标服务器的指定路径，在后台逐台上传并校验SHA256，各服务器的结果记录在分发详情中',
+  })
+  @ApiResponse({
+    status: 201,
+    description: '分发已创建并开始传输',
+    type: FileDistributionEntity,
+  })
+  @ApiResponse({ status: 404, description: '制品或服务器不存在' })
+  createDistribution(
+    @Body() createFileDistributionDto: CreateFileDistributionDto,
+  ) {
+    return this.fileDistributionsService.create(createFileDistributionDto);
+  }
+
+  @Get('distributions')
+  @ApiOperation({ summary: '分页获取文件分发列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的文件分发列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/FileDistributionEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findDistributions(
+    @Query(ParsePaginationPipe) params: FileDistributionQueryDto,
+  ) {
+    return this.fileDistributionsService.findByLimit(params);
+  }
+
+  @Get('distributions/:id')
+  @ApiOperation({ summary: '获取文件分发详情及各服务器的传输结果' })
+  @ApiParam({ name: 'id', description: '分发ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定文件分发',
+    type: FileDistributionEntity,
+  })
+  @ApiResponse({ status: 404, description: '分发不存在' })
+  findDistribution(@Param('id', ParseIntPipe) id: number) {
+    return this.fileDistributionsService.findOne(id);
+  }
+
+  @Delete('distributions/:id')
+  @ApiOperation({ summary: '删除文件分发记录' })
+  @ApiParam({ name: 'id', description: '分发ID' })
+  @ApiResponse({ status: 200, description: '分发记录删除成功' })
+  @ApiResponse({ status: 409, description: '分发正在进行中' })
+  removeDistribution(@Param('id', ParseIntPipe) id: number) {
+    return this.fileDistributionsService.remove(id);
+  }
+}
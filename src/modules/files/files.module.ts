@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { FilesController } from './files.controller';
+import { ServerFilesController } from './server-files.controller';
+import { FileArtifactsService } from './file-artifacts.service';
+import { FileDistributionsService } from './file-distributions.service';
+import { ServerFilesService } from './server-files.service';
+import { ServersModule } from '../servers/servers.module';
+import { SshModule } from '../ssh/ssh.module';
+import { CommonModule } from '../../common';
+
+@Module({
+  imports: [ServersModule, SshModule, CommonModule],
+  controllers: [FilesController, ServerFilesController],
+  providers: [
+    FileArtifactsService,
+    FileDistributionsService,
+    ServerFilesService,
+  ],
+})
+export class FilesModule {}
@@ -0,0 +1,109 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  ParseIntPipe,
+  Query,
+  StreamableFile,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { ServerFilesService } from './server-files.service';
+import { UploadFileDto } from './dto/upload-file.dto';
+import { DownloadFileQueryDto } from './dto/download-file-query.dto';
+import { FileUploadResultDto } from './dto/file-upload-result.dto';
+import { UploadedFileData } from './types/uploaded-file.type';
+import { FileTransferDefaults } from '../../common';
+
+@ApiTags('files')
+@ApiBearerAuth()
+@Controller('servers/:id/files')
+export class ServerFilesController {
+  constructor(private readonly serverFilesService: ServerFilesService) {}
+
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: FileTransferDefaults.MAX_FILE_SIZE },
+    }),
+  )
+  @ApiOperation({
+    summary: '上传文件到服务器',
+    description:
+      '通过SFTP（或代理）写入临时文件，校验SHA256后设置权限和属主，再移动到目标路径',
+  })
+  @ApiParam({ name: 'id', description: '服务器ID' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file', 'targetPath'],
+      properties: {
+        file: { type: 'string', format: 'binary', description: '文件内容' },
+        targetPath: {
+          type: 'string',
+          description: '目标服务器上的绝对路径（包含文件名）',
+          example: '/etc/nginx/nginx.conf',
+        },
+        mode: { type: 'string', description: '八进制权限', example: '0644' },
+        owner: {
+          type: 'string',
+          description: '属主，格式为 用户 或 用户:组',
+          example: 'root:root',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 201,
+    description: '返回上传结果',
+    type: FileUploadResultDto,
+  })
+  @ApiResponse({ status: 404, description: '服务器不存在' })
+  @ApiResponse({ status: 413, description: '文件超过大小限制' })
+  upload(
+    @Param('id', ParseIntPipe) id: number,
+    @UploadedFile() file: UploadedFileData | undefined,
+    @Body() uploadFileDto: UploadFileDto,
+  ) {
+    return this.serverFilesService.upload(id, file, uploadFileDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '从服务器下载文件' })
+  @ApiParam({ name: 'id', description: '服务器ID' })
+  @ApiProduces('application/octet-stream')
+  @ApiResponse({ status: 200, description: '返回文件内容' })
+  @ApiResponse({ status: 404, description: '服务器不存在' })
+  @ApiResponse({
+    status: 502,
+    description: '文件不存在、超过大小限制或无法连接到服务器',
+  })
+  async download(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: DownloadFileQueryDto,
+  ): Promise<StreamableFile> {
+    const { name, content } = await this.serverFilesService.download(
+      id,
+      query.path,
+    );
+    return new StreamableFile(content, {
+      type: 'application/octet-stream',
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+      length: content.length,
+    });
+  }
+}
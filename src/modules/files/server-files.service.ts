@@ -0,0 +1,75 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  Injectable,
+} from '@nestjs/common';
+import { posix } from 'path';
+import { ServersService } from '../servers/servers.service';
+import { SshFileService } from '../ssh/services/ssh-file.service';
+import { UploadFileDto } from './dto/upload-file.dto';
+import { FileUploadResultDto } from './dto/file-upload-result.dto';
+import { UploadedFileData } from './types/uploaded-file.type';
+
+/**
+ * 单台服务器的文件上传和下载
+ */
+@Injectable()
+export class ServerFilesService {
+  constructor(
+    private readonly serversService: ServersService,
+    private readonly sshFileService: SshFileService,
+  ) {}
+
+  /**
+   * 上传文件到服务器
+   * @param serverId 服务器ID
+   * @param file 上传的文件
+   * @param uploadFileDto 目标路径、权限和属主
+   * @returns 上传结果
+   */
+  async upload(
+    serverId: number,
+    file: UploadedFileData | undefined,
+    uploadFileDto: UploadFileDto,
+  ): Promise<FileUploadResultDto> {
+    if (!file) {
+      throw new BadRequestException('请通过 file 字段上传文件');
+    }
+    const server = await this.serversService.findOne(serverId);
+    const { targetPath, mode, owner } = uploadFileDto;
+
+    return this.sshFileService.uploadFile(
+      serverId,
+      targetPath,
+      file.buffer,
+      { mode, owner },
+      server,
+    );
+  }
+
+  /**
+   * 从服务器下载文件
+   * @param serverId 服务器ID
+   * @param path 文件绝对路径
+   * @returns 文件名和文件内容
+   */
+  async download(
+    serverId: number,
+    path: string,
+  ): Promise<{ name: string; content: Buffer }> {
+    const server = await this.serversService.findOne(serverId);
+
+    try {
+      const content = await this.sshFileService.downloadFile(
+        serverId,
+        path,
+        server,
+      );
+      return { name: posix.basename(path), content };
+    } catch (error) {
+      throw new BadGatewayException(
+        `下载文件失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
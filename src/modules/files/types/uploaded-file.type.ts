@@ -0,0 +1,10 @@
+/**
+ * multipart 请求中上传的文件（内存存储）
+ * 对应 multer 解析出的文件对象中用到的字段
+ */
+export interface UploadedFileData {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
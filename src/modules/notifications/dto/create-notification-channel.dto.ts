@@ -0,0 +1,143 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import {
+  NotificationChannelType,
+  NotificationChannelTypeType,
+  NotificationDefaults,
+} from '../../../common';
+
+// 允许 localhost 等没有顶级域名的地址
+const URL_OPTIONS = {
+  protocols: ['http', 'https'],
+  require_protocol: true,
+  require_tld: false,
+};
+
+/**
+ * 创建通知渠道DTO
+ * Webhook 和 Slack 渠道需要 url，邮件渠道需要 SMTP 服务器、发件人和收件人
+ */
+export class CreateNotificationChannelDto {
+  @ApiProperty({ description: '渠道名称' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({
+    description: '渠道类型',
+    enum: Object.values(NotificationChannelType),
+  })
+  @IsIn(Object.values(NotificationChannelType))
+  type: NotificationChannelTypeType;
+
+  @ApiPropertyOptional({ description: '是否启用', default: true })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: '每小时最多发送的通知数量，超过后的通知不再发送，0 表示不限制',
+    default: NotificationDefaults.RATE_LIMIT_PER_HOUR,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  rateLimitPerHour?: number;
+
+  @ApiPropertyOptional({
+    description: 'Webhook 地址（webhook、slack 类型必填）',
+    example: 'https://hooks.example.com/notify',
+  })
+  @ValidateIf(
+    (o) =>
+      o.type === NotificationChannelType.WEBHOOK ||
+      o.type === NotificationChannelType.SLACK,
+  )
+  @IsUrl(URL_OPTIONS)
+  url?: string;
+
+  @ApiPropertyOptional({
+    description: `Webhook 签名密钥（webhook 类型），请求体的 HMAC-SHA256 签名放在 ${NotificationDefaults.SIGNATURE_HEADER} 请求头中，更新时传空字符串清除`,
+  })
+  @IsString()
+  @IsOptional()
+  secret?: string;
+
+  @ApiPropertyOptional({ description: 'SMTP 服务器地址（email 类型必填）' })
+  @ValidateIf((o) => o.type === NotificationChannelType.EMAIL)
+  @IsString()
+  @IsNotEmpty()
+  host?: string;
+
+  @ApiPropertyOptional({
+    description: 'SMTP 服务器端口（email 类型必填）',
+    example: 587,
+  })
+  @ValidateIf((o) => o.type === NotificationChannelType.EMAIL)
+  @IsInt()
+  @Min(1)
+  @Max(65535)
+  port?: number;
+
+  @ApiPropertyOptional({
+    description:
+      '是否直接使用 TLS 连接（通常为 465 端口），否则在服务器支持时使用 STARTTLS',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  secure?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      '是否要求使用 TLS 连接，服务器不支持 STARTTLS 时拒绝发送。设置了用户名时默认开启，避免明文发送密码',
+  })
+  @IsBoolean()
+  @IsOptional()
+  requireTls?: boolean;
+
+  @ApiPropertyOptional({ description: 'SMTP 用户名，未设置时不进行认证' })
+  @IsString()
+  @IsOptional()
+  username?: string;
+
+  @ApiPropertyOptional({
+    description: 'SMTP 密码，更新时传空字符串清除',
+  })
+  @IsString()
+  @IsOptional()
+  password?: string;
+
+  @ApiPropertyOptional({
+    description: '发件人地址（email 类型必填）',
+    example: 'alerts@example.com',
+  })
+  @ValidateIf((o) => o.type === NotificationChannelType.EMAIL)
+  @IsEmail()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: '收件人地址列表（email 类型必填）',
+    type: [String],
+    example: ['ops@example.com'],
+  })
+  @ValidateIf((o) => o.type === NotificationChannelType.EMAIL)
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEmail({}, { each: true })
+  to?: string[];
+}
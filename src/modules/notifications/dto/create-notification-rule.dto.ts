@@ -0,0 +1,83 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import {
+  NotificationDefaults,
+  NotificationEventType,
+  NotificationEventTypeType,
+  NotificationSeverity,
+  NotificationSeverityType,
+} from '../../../common';
+import { TAG_SELECTOR_PATTERN } from '../../servers/utils/server-tags.util';
+
+/**
+ * 创建通知规则DTO
+ * 事件类型、严重程度和服务器标签都匹配时，通知发送到规则的所有渠道
+ */
+export class CreateNotificationRuleDto {
+  @ApiProperty({ description: '规则名称' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ description: '是否启用', default: true })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: '匹配的事件类型，不提供或为空时匹配所有事件',
+    enum: Object.values(NotificationEventType),
+    isArray: true,
+  })
+  @IsArray()
+  @IsIn(Object.values(NotificationEventType), { each: true })
+  @IsOptional()
+  eventTypes?: NotificationEventTypeType[];
+
+  @ApiPropertyOptional({
+    description: '匹配的最低严重程度',
+    enum: Object.values(NotificationSeverity),
+    default: NotificationSeverity.INFO,
+  })
+  @IsIn(Object.values(NotificationSeverity))
+  @IsOptional()
+  minSeverity?: NotificationSeverityType;
+
+  @ApiPropertyOptional({
+    description:
+      '事件所属服务器的标签选择器，设置后与服务器无关的事件（如代理断开）不会匹配',
+    example: 'env=prod',
+  })
+  @IsString()
+  @Matches(TAG_SELECTOR_PATTERN, { message: '标签选择器格式无效' })
+  @IsOptional()
+  tagSelector?: string;
+
+  @ApiPropertyOptional({
+    description: '去重时间窗口（秒），窗口内相同事件只发送一次，0 表示不去重',
+    default: NotificationDefaults.DEDUP_WINDOW_SECONDS,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  dedupWindowSeconds?: number;
+
+  @ApiProperty({ description: '发送通知的渠道ID列表', type: [Number] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsInt({ each: true })
+  @IsPositive({ each: true })
+  channelIds: number[];
+}
@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import {
+  NotificationChannelType,
+  NotificationChannelTypeType,
+} from '../../../common';
+
+/**
+ * 通知渠道查询参数DTO
+ */
+export class NotificationChannelQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '渠道名称（模糊匹配）' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: '渠道类型',
+    enum: Object.values(NotificationChannelType),
+  })
+  @IsOptional()
+  @IsIn(Object.values(NotificationChannelType))
+  type?: NotificationChannelTypeType;
+}
@@ -0,0 +1,45 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import {
+  NotificationDeliveryStatus,
+  NotificationDeliveryStatusType,
+  NotificationEventType,
+  NotificationEventTypeType,
+} from '../../../common';
+
+/**
+ * 通知发送记录查询参数DTO
+ */
+export class NotificationDeliveryQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '渠道ID（精确匹配）' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  channelId?: number;
+
+  @ApiPropertyOptional({ description: '服务器ID（精确匹配）' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  serverId?: number;
+
+  @ApiPropertyOptional({
+    description: '发送状态',
+    enum: Object.values(NotificationDeliveryStatus),
+  })
+  @IsOptional()
+  @IsIn(Object.values(NotificationDeliveryStatus))
+  status?: NotificationDeliveryStatusType;
+
+  @ApiPropertyOptional({
+    description: '事件类型',
+    enum: Object.values(NotificationEventType),
+  })
+  @IsOptional()
+  @IsIn(Object.values(NotificationEventType))
+  eventType?: NotificationEventTypeType;
+}
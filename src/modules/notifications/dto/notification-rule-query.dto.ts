@@ -0,0 +1,33 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+
+/**
+ * 通知规则查询参数DTO
+ */
+export class NotificationRuleQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '规则名称（模糊匹配）' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ description: '是否启用' })
+  @IsOptional()
+  @IsBoolean()
+  @Type(() => Boolean)
+  enabled?: boolean;
+
+  @ApiPropertyOptional({ description: '渠道ID，筛选发送到该渠道的规则' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  channelId?: number;
+}
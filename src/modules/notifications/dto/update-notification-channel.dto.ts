@@ -0,0 +1,10 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateNotificationChannelDto } from './create-notification-channel.dto';
+
+/**
+ * 更新通知渠道DTO
+ * 未提供的配置项保持不变
+ */
+export class UpdateNotificationChannelDto extends PartialType(
+  CreateNotificationChannelDto,
+) {}
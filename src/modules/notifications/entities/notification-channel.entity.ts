@@ -0,0 +1,61 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationChannel } from '@prisma/client';
+import { NotificationChannelType } from '../../../common';
+
+export class NotificationChannelEntity
+  implements Omit<NotificationChannel, 'config'>
+{
+  @ApiProperty({ description: '渠道ID' })
+  id: number;
+
+  @ApiProperty({ description: '渠道名称' })
+  name: string;
+
+  @ApiProperty({
+    description: '渠道类型',
+    enum: Object.values(NotificationChannelType),
+  })
+  type: string;
+
+  @ApiProperty({ description: '是否启用' })
+  enabled: boolean;
+
+  @ApiProperty({ description: '每小时最多发送的通知数量，0 表示不限制' })
+  rateLimitPerHour: number;
+
+  @ApiPropertyOptional({ description: 'Webhook 地址' })
+  url: string | null;
+
+  @ApiProperty({ description: '是否已配置 Webhook 签名密钥' })
+  hasSecret: boolean;
+
+  @ApiPropertyOptional({ description: 'SMTP 服务器地址' })
+  host: string | null;
+
+  @ApiPropertyOptional({ description: 'SMTP 服务器端口' })
+  port: number | null;
+
+  @ApiProperty({ description: '是否直接使用 TLS 连接 SMTP 服务器' })
+  secure: boolean;
+
+  @ApiProperty({ description: '是否要求使用 TLS 连接' })
+  requireTls: boolean;
+
+  @ApiPropertyOptional({ description: 'SMTP 用户名' })
+  username: string | null;
+
+  @ApiProperty({ description: '是否已配置 SMTP 密码' })
+  hasPassword: boolean;
+
+  @ApiPropertyOptional({ description: '发件人地址' })
+  from: string | null;
+
+  @ApiProperty({ description: '收件人地址列表', type: [String] })
+  to: string[];
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
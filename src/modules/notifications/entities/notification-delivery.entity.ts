@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationDelivery } from '@prisma/client';
+import {
+  NotificationDeliveryStatus,
+  NotificationEventType,
+  NotificationSeverity,
+} from '../../../common';
+
+export class NotificationDeliveryEntity implements NotificationDelivery {
+  @ApiProperty({ description: '发送记录ID' })
+  id: number;
+
+  @ApiProperty({
+    description: '事件类型',
+    enum: Object.values(NotificationEventType),
+  })
+  eventType: string;
+
+  @ApiProperty({
+    description: '严重程度',
+    enum: Object.values(NotificationSeverity),
+  })
+  severity: string;
+
+  @ApiProperty({ description: '通知标题' })
+  title: string;
+
+  @ApiProperty({ description: '通知内容' })
+  message: string;
+
+  @ApiProperty({ description: '去重键' })
+  dedupKey: string;
+
+  @ApiPropertyOptional({ description: '事件所属服务器ID' })
+  serverId: number | null;
+
+  @ApiProperty({
+    description: '发送状态',
+    enum: Object.values(NotificationDeliveryStatus),
+  })
+  status: string;
+
+  @ApiProperty({ description: '已发送次数' })
+  attempts: number;
+
+  @ApiPropertyOptional({ description: '最近一次发送失败或未发送的原因' })
+  error: string | null;
+
+  @ApiPropertyOptional({ description: '下一次发送时间' })
+  nextAttemptAt: Date | null;
+
+  @ApiPropertyOptional({ description: '发送成功时间' })
+  sentAt: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({ description: '匹配的通知规则ID，测试通知为空' })
+  ruleId: number | null;
+
+  @ApiProperty({ description: '渠道ID' })
+  channelId: number;
+}
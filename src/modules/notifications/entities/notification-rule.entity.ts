@@ -0,0 +1,44 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { NotificationRule } from '@prisma/client';
+import { NotificationEventType, NotificationSeverity } from '../../../common';
+
+export class NotificationRuleEntity
+  implements Omit<NotificationRule, 'eventTypes'>
+{
+  @ApiProperty({ description: '规则ID' })
+  id: number;
+
+  @ApiProperty({ description: '规则名称' })
+  name: string;
+
+  @ApiProperty({ description: '是否启用' })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: '匹配的事件类型，为空时匹配所有事件',
+    enum: Object.values(NotificationEventType),
+    isArray: true,
+  })
+  eventTypes: string[];
+
+  @ApiProperty({
+    description: '匹配的最低严重程度',
+    enum: Object.values(NotificationSeverity),
+  })
+  minSeverity: string;
+
+  @ApiPropertyOptional({ description: '事件所属服务器的标签选择器' })
+  tagSelector: string | null;
+
+  @ApiProperty({ description: '去重时间窗口（秒），0 表示不去重' })
+  dedupWindowSeconds: number;
+
+  @ApiProperty({ description: '发送通知的渠道ID列表', type: [Number] })
+  channelIds: number[];
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
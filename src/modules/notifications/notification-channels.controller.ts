@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { NotificationChannelsService } from './notification-channels.service';
+import { NotificationsService } from './notifications.service';
+import { CreateNotificationChannelDto } from './dto/create-notification-channel.dto';
+import { UpdateNotificationChannelDto } from './dto/update-notification-channel.dto';
+import { NotificationChannelQueryDto } from './dto/notification-channel-query.dto';
+import { NotificationChannelEntity } from './entities/notification-channel.entity';
+import { NotificationDeliveryEntity } from './entities/notification-delivery.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('notification-channels')
+@ApiBearerAuth()
+@Controller('notification-channels')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class NotificationChannelsController {
+  constructor(
+    private readonly channelsService: NotificationChannelsService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建通知渠道' })
+  @ApiResponse({
+    status: 201,
+    description: '通知渠道创建成功',
+    type: NotificationChannelEntity,
+  })
+  @ApiResponse({ status: 409, description: '通知渠道名称已存在' })
+  create(@Body() createChannelDto: CreateNotificationChannelDto) {
+    return this.channelsService.create(createChannelDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页获取通知渠道列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的通知渠道列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/NotificationChannelEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findByLimit(@Query(ParsePaginationPipe) params: NotificationChannelQueryDto) {
+    return this.channelsService.findByLimit(params);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取指定通知渠道' })
+  @ApiParam({ name: 'id', description: '渠道ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定通知渠道',
+    type: NotificationChannelEntity,
+  })
+  @ApiResponse({ status: 404, description: '通知渠道不存在' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.channelsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: '更新通知渠道',
+    description: '未提供的配置项保持不变，密钥和密码传空字符串时清除',
+  })
+  @ApiParam({ name: 'id', description: '渠道ID' })
+  @ApiResponse({
+    status: 200,
+    description: '通知渠道更新成功',
+    type: NotificationChannelEntity,
+  })
+  @ApiResponse({ status: 404, description: '通知渠道不存在' })
+  @ApiResponse({ status: 409, description: '通知渠道名称已存在' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateChannelDto: UpdateNotificationChannelDto,
+  ) {
+    return this.channelsService.update(id, updateChannelDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除通知渠道及其发送记录' })
+  @ApiParam({ name: 'id', description: '渠道ID' })
+  @ApiResponse({ status: 200, description: '通知渠道删除成功' })
+  @ApiResponse({ status: 404, description: '通知渠道不存在' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.channelsService.remove(id);
+  }
+
+  @Post(':id/test')
+  @ApiOperation({
+    summary: '发送测试通知',
+    description: '立即向渠道发送一条测试通知，不经过路由规则，失败时不重试',
+  })
+  @ApiParam({ name: 'id', description: '渠道ID' })
+  @ApiResponse({
+    status: 201,
+    description: '返回测试通知的发送记录',
+    type: NotificationDeliveryEntity,
+  })
+  @ApiResponse({ status: 404, description: '通知渠道不存在' })
+  sendTest(@Param('id', ParseIntPipe) id: number) {
+    return this.notificationsService.sendTest(id);
+  }
+}
@@ -0,0 +1,282 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { NotificationChannel } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  NotificationChannelType,
+  PaginationResultDto,
+  PaginationService,
+} from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import { EncryptionService } from '../encryption/encryption.service';
+import { CreateNotificationChannelDto } from './dto/create-notification-channel.dto';
+import { UpdateNotificationChannelDto } from './dto/update-notification-channel.dto';
+import { NotificationChannelQueryDto } from './dto/notification-channel-query.dto';
+import { NotificationChannelEntity } from './entities/notification-channel.entity';
+import { NotificationChannelConfig } from './types/notification-channel.type';
+
+// 各渠道类型使用的配置项，切换类型时其他配置项被丢弃
+const CONFIG_KEYS: Record<string, (keyof NotificationChannelConfig)[]> = {
+  [NotificationChannelType.WEBHOOK]: ['url', 'secret'],
+  [NotificationChannelType.SLACK]: ['url'],
+  [NotificationChannelType.EMAIL]: [
+    'host',
+    'port',
+    'secure',
+    'requireTls',
+    'username',
+    'password',
+    'from',
+    'to',
+  ],
+};
+
+// 各渠道类型必填的配置项
+const REQUIRED_CONFIG_KEYS: Record<
+  string,
+  (keyof NotificationChannelConfig)[]
+> = {
+  [NotificationChannelType.WEBHOOK]: ['url'],
+  [NotificationChannelType.SLACK]: ['url'],
+  [NotificationChannelType.EMAIL]: ['host', 'port', 'from', 'to'],
+};
+
+// 加密保存的配置项
+const SECRET_CONFIG_KEYS: (keyof NotificationChannelConfig)[] = [
+  'secret',
+  'password',
+];
+
+/**
+ * 通知渠道服务
+ * 渠道配置以JSON保存，Webhook 签名密钥和 SMTP 密码使用信封加密
+ */
+@Injectable()
+export class NotificationChannelsService {
+  private readonly logger = new Logger(NotificationChannelsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly encryptionService: EncryptionService,
+  ) {}
+
+  async create(
+    createChannelDto: CreateNotificationChannelDto,
+  ): Promise<NotificationChannelEntity> {
+    const { name, type, enabled, rateLimitPerHour } = createChannelDto;
+    await this.ensureNameAvailable(name);
+
+    const channel = await this.prisma.notificationChannel.create({
+      data: {
+        name,
+        type,
+        enabled,
+        rateLimitPerHour,
+        config: JSON.stringify(this.buildConfig(type, createChannelDto)),
+      },
+    });
+    this.logger.log(`通知渠道 ${name} 已创建`);
+    return this.toEntity(channel);
+  }
+
+  async findByLimit(
+    params: NotificationChannelQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<NotificationChannelEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.name) {
+      where.name = {
+        contains: params.name,
+      };
+    }
+
+    if (params.type) {
+      where.type = params.type;
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      NotificationChannel,
+      any
+    >(
+      this.prisma
+        .notificationChannel as unknown as PrismaModel<NotificationChannel>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+    );
+    return {
+      ...result,
+      items: result.items.map((channel) => this.toEntity(channel)),
+    };
+  }
+
+  async findOne(id: number): Promise<NotificationChannelEntity> {
+    return this.toEntity(await this.findChannel(id));
+  }
+
+  /**
+   * 更新通知渠道，未提供的配置项保持不变
+   */
+  async update(
+    id: number,
+    updateChannelDto: UpdateNotificationChannelDto,
+  ): Promise<NotificationChannelEntity> {
+    const existing = await this.findChannel(id);
+    const { name, type, enabled, rateLimitPerHour } = updateChannelDto;
+    if (name !== undefined) {
+      await this.ensureNameAvailable(name, id);
+    }
+
+    const channel = await this.prisma.notificationChannel.update({
+      where: { id },
+      data: {
+        name,
+        type,
+        enabled,
+        rateLimitPerHour,
+        config: JSON.stringify(
+          this.buildConfig(
+            type ?? existing.type,
+            updateChannelDto,
+            this.parseConfig(existing),
+          ),
+        ),
+      },
+    });
+    return this.toEntity(channel);
+  }
+
+  /**
+   * 删除通知渠道及其发送记录
+   */
+  async remove(id: number): Promise<NotificationChannelEntity> {
+    const channel = await this.findChannel(id);
+
+    await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.notificationDelivery.deleteMany({
+        where: { channelId: id },
+      });
+      this.logger.log(`已删除通知渠道 ${channel.name} 的 ${count} 条发送记录`);
+      await tx.notificationChannel.delete({ where: { id } });
+    });
+    return this.toEntity(channel);
+  }
+
+  /**
+   * 获取解密后的渠道配置，用于发送通知
+   * @param channel 渠道记录
+   * @returns 渠道配置
+   */
+  decryptConfig(channel: NotificationChannel): NotificationChannelConfig {
+    const config = this.parseConfig(channel);
+    for (const key of SECRET_CONFIG_KEYS) {
+      const value = config[key];
+      if (typeof value === 'string') {
+        (config as Record<string, unknown>)[key] =
+          this.encryptionService.decrypt(value);
+      }
+    }
+    return config;
+  }
+
+  /**
+   * 查找通知渠道
+   * @param id 渠道ID
+   * @returns 渠道记录
+   */
+  async findChannel(id: number): Promise<NotificationChannel> {
+    const channel = await this.prisma.notificationChannel.findUnique({
+      where: { id },
+    });
+
+    if (!channel) {
+      throw new NotFoundException(`通知渠道ID ${id} 不存在`);
+    }
+
+    return channel;
+  }
+
+  /**
+   * 在现有配置上合并提供的配置项，保留渠道类型使用的配置项并校验必填项
+   */
+  private buildConfig(
+    type: string,
+    dto: UpdateNotificationChannelDto,
+    existing: NotificationChannelConfig = {},
+  ): NotificationChannelConfig {
+    const config: Record<string, unknown> = {};
+    for (const key of CONFIG_KEYS[type] ?? []) {
+      const value = dto[key];
+      if (value === undefined) {
+        config[key] = existing[key];
+      } else if (SECRET_CONFIG_KEYS.includes(key)) {
+        // 传空字符串清除密钥
+        config[key] = value
+          ? this.encryptionService.encrypt(value as string)
+          : undefined;
+      } else {
+        config[key] = value;
+      }
+    }
+
+    const missing = (REQUIRED_CONFIG_KEYS[type] ?? []).filter(
+      (key) => config[key] === undefined || config[key] === null,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `${type} 类型的通知渠道缺少配置: ${missing.join(', ')}`,
+      );
+    }
+    return config as NotificationChannelConfig;
+  }
+
+  private parseConfig(channel: NotificationChannel): NotificationChannelConfig {
+    try {
+      return JSON.parse(channel.config) as NotificationChannelConfig;
+    } catch {
+      return {};
+    }
+  }
+
+  private async ensureNameAvailable(
+    name: string,
+    excludeId?: number,
+  ): Promise<void> {
+    const existing = await this.prisma.notificationChannel.findUnique({
+      where: { name },
+    });
+    if (existing && existing.id !== excludeId) {
+      throw new ConflictException(`通知渠道 ${name} 已存在`);
+    }
+  }
+
+  private toEntity(channel: NotificationChannel): NotificationChannelEntity {
+    const config = this.parseConfig(channel);
+    return {
+      id: channel.id,
+      name: channel.name,
+      type: channel.type,
+      enabled: channel.enabled,
+      rateLimitPerHour: channel.rateLimitPerHour,
+      url: config.url ?? null,
+      hasSecret: !!config.secret,
+      host: config.host ?? null,
+      port: config.port ?? null,
+      secure: config.secure ?? false,
+      requireTls: config.requireTls ?? !!config.username,
+      username: config.username ?? null,
+      hasPassword: !!config.password,
+      from: config.from ?? null,
+      to: config.to ?? [],
+      createdAt: channel.createdAt,
+      updatedAt: channel.updatedAt,
+    };
+  }
+}
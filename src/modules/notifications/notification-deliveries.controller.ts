@@ -0,0 +1,76 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { NotificationsService } from './notifications.service';
+import { NotificationDeliveryQueryDto } from './dto/notification-delivery-query.dto';
+import { NotificationDeliveryEntity } from './entities/notification-delivery.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('notification-deliveries')
+@ApiBearerAuth()
+@Controller('notification-deliveries')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class NotificationDeliveriesController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: '分页获取通知发送记录' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的通知发送记录',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                $ref: '#/components/schemas/NotificationDeliveryEntity',
+              },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findByLimit(
+    @Query(ParsePaginationPipe) params: NotificationDeliveryQueryDto,
+  ) {
+    return this.notificationsService.findDeliveries(params);
+  }
+
+  @Post(':id/retry')
+  @ApiOperation({
+    summary: '重试发送失败的通知',
+    description: '立即重新发送，失败时按指数退避继续重试',
+  })
+  @ApiParam({ name: 'id', description: '发送记录ID' })
+  @ApiResponse({
+    status: 201,
+    description: '返回重试后的发送记录',
+    type: NotificationDeliveryEntity,
+  })
+  @ApiResponse({ status: 400, description: '只能重试发送失败的通知' })
+  @ApiResponse({ status: 404, description: '通知发送记录不存在' })
+  retry(@Param('id', ParseIntPipe) id: number) {
+    return this.notificationsService.retryDelivery(id);
+  }
+}
@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { NotificationRulesService } from './notification-rules.service';
+import { CreateNotificationRuleDto } from './dto/create-notification-rule.dto';
+import { UpdateNotificationRuleDto } from './dto/update-notification-rule.dto';
+import { NotificationRuleQueryDto } from './dto/notification-rule-query.dto';
+import { NotificationRuleEntity } from './entities/notification-rule.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('notification-rules')
+@ApiBearerAuth()
+@Controller('notification-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class NotificationRulesController {
+  constructor(private readonly rulesService: NotificationRulesService) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建通知规则' })
+  @ApiResponse({
+    status: 201,
+    description: '通知规则创建成功',
+    type: NotificationRuleEntity,
+  })
+  @ApiResponse({ status: 404, description: '通知渠道不存在' })
+  create(@Body() createRuleDto: CreateNotificationRuleDto) {
+    return this.rulesService.create(createRuleDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页获取通知规则列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的通知规则列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/NotificationRuleEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findByLimit(@Query(ParsePaginationPipe) params: NotificationRuleQueryDto) {
+    return this.rulesService.findByLimit(params);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取指定通知规则' })
+  @ApiParam({ name: 'id', description: '规则ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定通知规则',
+    type: NotificationRuleEntity,
+  })
+  @ApiResponse({ status: 404, description: '通知规则不存在' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.rulesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新通知规则' })
+  @ApiParam({ name: 'id', description: '规则ID' })
+  @ApiResponse({
+    status: 200,
+    description: '通知规则更新成功',
+    type: NotificationRuleEntity,
+  })
+  @ApiResponse({ status: 404, description: '通知规则或通知渠道不存在' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateRuleDto: UpdateNotificationRuleDto,
+  ) {
+    return this.rulesService.update(id, updateRuleDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除通知规则' })
+  @ApiParam({ name: 'id', description: '规则ID' })
+  @ApiResponse({ status: 200, description: '通知规则删除成功' })
+  @ApiResponse({ status: 404, description: '通知规则不存在' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.rulesService.remove(id);
+  }
+}
@@ -0,0 +1,181 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { NotificationChannel, NotificationRule } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginationResultDto, PaginationService } from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import { CreateNotificationRuleDto } from './dto/create-notification-rule.dto';
+import { UpdateNotificationRuleDto } from './dto/update-notification-rule.dto';
+import { NotificationRuleQueryDto } from './dto/notification-rule-query.dto';
+import { NotificationRuleEntity } from './entities/notification-rule.entity';
+
+// 查询规则时附带渠道ID
+const RULE_INCLUDE = {
+  channels: { select: { id: true } },
+};
+
+type NotificationRuleWithChannels = NotificationRule & {
+  channels: { id: number }[];
+};
+
+/**
+ * 启用的通知规则及其启用的渠道
+ */
+export type ActiveNotificationRule = NotificationRule & {
+  channels: NotificationChannel[];
+};
+
+/**
+ * 通知规则服务
+ */
+@Injectable()
+export class NotificationRulesService {
+  private readonly logger = new Logger(NotificationRulesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+  ) {}
+
+  async create(
+    createRuleDto: CreateNotificationRuleDto,
+  ): Promise<NotificationRuleEntity> {
+    const { channelIds, eventTypes, ...data } = createRuleDto;
+    await this.ensureChannelsExist(channelIds);
+
+    const rule = await this.prisma.notificationRule.create({
+      data: {
+        ...data,
+        eventTypes: eventTypes?.length ? eventTypes.join(',') : null,
+        channels: { connect: channelIds.map((id) => ({ id })) },
+      },
+      include: RULE_INCLUDE,
+    });
+    this.logger.log(`通知规则 ${rule.name} 已创建`);
+    return this.toEntity(rule);
+  }
+
+  async findByLimit(
+    params: NotificationRuleQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<NotificationRuleEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.name) {
+      where.name = {
+        contains: params.name,
+      };
+    }
+
+    if (params.enabled !== undefined) {
+      where.enabled = params.enabled;
+    }
+
+    if (params.channelId) {
+      where.channels = { some: { id: params.channelId } };
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      NotificationRuleWithChannels,
+      any
+    >(
+      this.prisma
+        .notificationRule as unknown as PrismaModel<NotificationRuleWithChannels>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+      { channels: true }, // include，附带渠道
+    );
+    return {
+      ...result,
+      items: result.items.map((rule) => this.toEntity(rule)),
+    };
+  }
+
+  async findOne(id: number): Promise<NotificationRuleEntity> {
+    return this.toEntity(await this.findRule(id));
+  }
+
+  async update(
+    id: number,
+    updateRuleDto: UpdateNotificationRuleDto,
+  ): Promise<NotificationRuleEntity> {
+    await this.findRule(id);
+    const { channelIds, eventTypes, ...data } = updateRuleDto;
+    if (channelIds !== undefined) {
+      await this.ensureChannelsExist(channelIds);
+    }
+
+    const rule = await this.prisma.notificationRule.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(eventTypes !== undefined && {
+          eventTypes: eventTypes.length ? eventTypes.join(',') : null,
+        }),
+        ...(channelIds !== undefined && {
+          channels: { set: channelIds.map((channelId) => ({ id: channelId })) },
+        }),
+      },
+      include: RULE_INCLUDE,
+    });
+    return this.toEntity(rule);
+  }
+
+  async remove(id: number): Promise<NotificationRuleEntity> {
+    const rule = await this.findRule(id);
+    await this.prisma.notificationRule.delete({ where: { id } });
+    this.logger.log(`通知规则 ${rule.name} 已删除`);
+    return this.toEntity(rule);
+  }
+
+  /**
+   * 获取所有启用的规则，只附带启用的渠道
+   * @returns 启用的规则列表
+   */
+  async getActiveRules(): Promise<ActiveNotificationRule[]> {
+    return this.prisma.notificationRule.findMany({
+      where: { enabled: true },
+      include: { channels: { where: { enabled: true } } },
+    });
+  }
+
+  private async findRule(id: number): Promise<NotificationRuleWithChannels> {
+    const rule = await this.prisma.notificationRule.findUnique({
+      where: { id },
+      include: RULE_INCLUDE,
+    });
+
+    if (!rule) {
+      throw new NotFoundException(`通知规则ID ${id} 不存在`);
+    }
+
+    return rule;
+  }
+
+  private async ensureChannelsExist(channelIds: number[]): Promise<void> {
+    const channels = await this.prisma.notificationChannel.findMany({
+      where: { id: { in: channelIds } },
+      select: { id: true },
+    });
+    const found = new Set(channels.map((channel) => channel.id));
+    const missing = channelIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`通知渠道ID ${missing.join(', ')} 不存在`);
+    }
+  }
+
+  private toEntity(rule: NotificationRuleWithChannels): NotificationRuleEntity {
+    return {
+      id: rule.id,
+      name: rule.name,
+      enabled: rule.enabled,
+      eventTypes: rule.eventTypes ? rule.eventTypes.split(',') : [],
+      minSeverity: rule.minSeverity,
+      tagSelector: rule.tagSelector,
+      dedupWindowSeconds: rule.dedupWindowSeconds,
+      channelIds: rule.channels.map((channel) => channel.id),
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt,
+    };
+  }
+}
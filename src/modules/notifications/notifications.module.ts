@@ -0,0 +1,29 @@
+import { Module } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { NotificationChannelsService } from './notification-channels.service';
+import { NotificationRulesService } from './notification-rules.service';
+import { NotificationChannelsController } from './notification-channels.controller';
+import { NotificationRulesController } from './notification-rules.controller';
+import { NotificationDeliveriesController } from './notification-deliveries.controller';
+import { WebhookSender } from './senders/webhook.sender';
+import { SlackSender } from './senders/slack.sender';
+import { EmailSender } from './senders/email.sender';
+import { CommonModule } from '../../common';
+
+@Module({
+  imports: [CommonModule],
+  controllers: [
+    NotificationChannelsController,
+    NotificationRulesController,
+    NotificationDeliveriesController,
+  ],
+  providers: [
+    NotificationsService,
+    NotificationChannelsService,
+    NotificationRulesService,
+    WebhookSender,
+    SlackSender,
+    EmailSender,
+  ],
+})
+export class NotificationsModule {}
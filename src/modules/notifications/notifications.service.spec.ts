@@ -0,0 +1,355 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { NotificationChannel } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  NotificationDefaults,
+  NotificationDeliveryStatus,
+  NotificationEventType,
+  NotificationSeverity,
+  PaginationService,
+} from '../../common';
+import { NotificationsService } from './notifications.service';
+import { NotificationChannelsService } from './notification-channels.service';
+import {
+  ActiveNotificationRule,
+  NotificationRulesService,
+} from './notification-rules.service';
+import { WebhookSender } from './senders/webhook.sender';
+import { SlackSender } from './senders/slack.sender';
+import { EmailSender } from './senders/email.sender';
+import { NotificationEvent } from './types/notification-event.type';
+
+const NOW = new Date('2026-01-01T00:00:00Z').getTime();
+
+function createChannel(
+  overrides: Partial<NotificationChannel> = {},
+): NotificationChannel {
+  return {
+    id: 1,
+    name: 'ops-webhook',
+    type: 'webhook',
+    config: '{}',
+    enabled: true,
+    rateLimitPerHour: 60,
+    createdAt: new Date(NOW),
+    updatedAt: new Date(NOW),
+    ...overrides,
+  };
+}
+
+function createRule(
+  overrides: Partial<ActiveNotificationRule> = {},
+): ActiveNotificationRule {
+  return {
+    id: 10,
+    name: 'all',
+    enabled: true,
+    eventTypes: null,
+    minSeverity: NotificationSeverity.INFO,
+    tagSelector: null,
+    dedupWindowSeconds: 300,
+    createdAt: new Date(NOW),
+    updatedAt: new Date(NOW),
+    channels: [createChannel()],
+    ...overrides,
+  };
+}
+
+const event: NotificationEvent = {
+  type: NotificationEventType.SERVER_OFFLINE,
+  severity: NotificationSeverity.CRITICAL,
+  title: '服务器 web-1 离线',
+  message: '连接失败',
+  serverId: 3,
+  dedupKey: 'server_offline:3',
+};
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let prisma: {
+    notificationDelivery: Record<string, jest.Mock>;
+    server: { count: jest.Mock };
+  };
+  let rules: ActiveNotificationRule[];
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] });
+    rules = [];
+    send = jest.fn().mockResolvedValue(undefined);
+    prisma = {
+      notificationDelivery: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn(({ data }) =>
+          Promise.resolve({
+            id: 100,
+            attempts: 0,
+            sentAt: null,
+            createdAt: new Date(NOW),
+            updatedAt: new Date(NOW),
+            ...data,
+          }),
+        ),
+        update: jest.fn().mockResolvedValue({}),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      server: { count: jest.fn().mockResolvedValue(1) },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PaginationService, useValue: {} },
+        { provide: EventEmitter2, useValue: { on: jest.fn() } },
+        {
+          provide: NotificationChannelsService,
+          useValue: { decryptConfig: () => ({ url: 'http://stub' }) },
+        },
+        {
+          provide: NotificationRulesService,
+          useValue: { getActiveRules: () => Promise.resolve(rules) },
+        },
+        { provide: WebhookSender, useValue: { send } },
+        { provide: SlackSender, useValue: { send } },
+        { provide: EmailSender, useValue: { send } },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const createdDeliveries = () =>
+    prisma.notificationDelivery.create.mock.calls.map(([args]) => args.data);
+
+  describe('rule matching', () => {
+    it('matches rules by event type', async () => {
+      rules = [
+        createRule({ eventTypes: NotificationEventType.PROXY_DISCONNECTED }),
+      ];
+      await service.dispatch(event);
+      expect(createdDeliveries()).toHaveLength(0);
+
+      rules = [
+        createRule({
+          eventTypes: `${NotificationEventType.PROXY_DISCONNECTED},${NotificationEventType.SERVER_OFFLINE}`,
+        }),
+      ];
+      await service.dispatch(event);
+      expect(createdDeliveries()).toHaveLength(1);
+    });
+
+    it('skips events below the minimum severity', async () => {
+      rules = [createRule({ minSeverity: NotificationSeverity.CRITICAL })];
+
+      await service.dispatch({
+        ...event,
+        severity: NotificationSeverity.WARNING,
+      });
+      expect(createdDeliveries()).toHaveLength(0);
+
+      await service.dispatch(event);
+      expect(createdDeliveries()).toHaveLength(1);
+    });
+
+    it('matches tag selectors against the event server', async () => {
+      rules = [createRule({ tagSelector: 'env=prod' })];
+
+      prisma.server.count.mockResolvedValueOnce(0);
+      await service.dispatch(event);
+      expect(createdDeliveries()).toHaveLength(0);
+      expect(prisma.server.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: 3, AND: expect.any(Array) }),
+      });
+
+      await service.dispatch(event);
+      expect(createdDeliveries()).toHaveLength(1);
+    });
+
+    it('never matches tag selectors for events without a server', async () => {
+      rules = [createRule({ tagSelector: 'env=prod' })];
+
+      await service.dispatch({ ...event, serverId: undefined });
+
+      expect(prisma.server.count).not.toHaveBeenCalled();
+      expect(createdDeliveries()).toHaveLength(0);
+    });
+
+    it('sends once per channel when several rules match it', async () => {
+      rules = [
+        createRule({ id: 10, dedupWindowSeconds: 60 }),
+        createRule({ id: 11, dedupWindowSeconds: 600 }),
+      ];
+
+      await service.dispatch(event);
+
+      expect(createdDeliveries()).toEqual([
+        expect.objectContaining({ ruleId: 10, channelId: 1 }),
+      ]);
+      expect(prisma.notificationDelivery.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            createdAt: { gte: new Date(NOW - 600 * 1000) },
+          }),
+        }),
+      );
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('suppression', () => {
+    beforeEach(() => {
+      rules = [
+        createRule({ channels: [createChannel({ rateLimitPerHour: 2 })] }),
+      ];
+    });
+
+    it('suppresses duplicates within the dedup window', async () => {
+      prisma.notificationDelivery.findFirst.mockResolvedValueOnce({ id: 7 });
+
+      await service.dispatch(event);
+
+      expect(createdDeliveries()).toEqual([
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.SUPPRESSED,
+          error: expect.stringContaining('7'),
+          nextAttemptAt: null,
+        }),
+      ]);
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('does not look for duplicates when the dedup window is 0', async () => {
+      rules = [createRule({ dedupWindowSeconds: 0 })];
+
+      await service.dispatch(event);
+
+      expect(prisma.notificationDelivery.findFirst).not.toHaveBeenCalled();
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('suppresses deliveries over the channel rate limit', async () => {
+      prisma.notificationDelivery.count.mockResolvedValueOnce(2);
+
+      await service.dispatch(event);
+
+      expect(prisma.notificationDelivery.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          channelId: 1,
+          createdAt: { gte: new Date(NOW - 60 * 60 * 1000) },
+        }),
+      });
+      expect(createdDeliveries()).toEqual([
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.SUPPRESSED,
+          error: expect.stringContaining('频率限制'),
+        }),
+      ]);
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delivery', () => {
+    const pendingDelivery = (attempts: number) => ({
+      id: 100,
+      eventType: event.type,
+      severity: event.severity,
+      title: event.title,
+      message: event.message,
+      dedupKey: event.dedupKey,
+      serverId: 3,
+      status: NotificationDeliveryStatus.PENDING,
+      attempts,
+      error: null,
+      nextAttemptAt: new Date(NOW),
+      sentAt: null,
+      createdAt: new Date(NOW),
+      updatedAt: new Date(NOW),
+      ruleId: 10,
+      channelId: 1,
+      channel: createChannel(),
+    });
+
+    const lastUpdate = () =>
+      prisma.notificationDelivery.update.mock.calls.at(-1)?.[0].data;
+
+    it('marks successful deliveries as sent', async () => {
+      rules = [createRule()];
+
+      await service.dispatch(event);
+
+      expect(send).toHaveBeenCalledWith(
+        { url: 'http://stub' },
+        expect.objectContaining({ deliveryId: 100, title: event.title }),
+      );
+      expect(lastUpdate()).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.SENT,
+          attempts: 1,
+          sentAt: new Date(NOW),
+        }),
+      );
+    });
+
+    it('schedules retries with exponential backoff', async () => {
+      send.mockRejectedValue(new Error('connection refused'));
+
+      for (const attempts of [0, 1, 2]) {
+        prisma.notificationDelivery.findMany.mockResolvedValueOnce([
+          pendingDelivery(attempts),
+        ]);
+        await service.retryPending();
+
+        expect(lastUpdate()).toEqual({
+          status: NotificationDeliveryStatus.PENDING,
+          attempts: attempts + 1,
+          error: 'connection refused',
+          nextAttemptAt: new Date(
+            NOW + NotificationDefaults.RETRY_BASE_DELAY_MS * 2 ** attempts,
+          ),
+        });
+      }
+    });
+
+    it('marks deliveries as failed once attempts are exhausted', async () => {
+      send.mockRejectedValue(new Error('connection refused'));
+      prisma.notificationDelivery.findMany.mockResolvedValueOnce([
+        pendingDelivery(NotificationDefaults.MAX_ATTEMPTS - 1),
+      ]);
+
+      await service.retryPending();
+
+      expect(lastUpdate()).toEqual({
+        status: NotificationDeliveryStatus.FAILED,
+        attempts: NotificationDefaults.MAX_ATTEMPTS,
+        error: 'connection refused',
+        nextAttemptAt: null,
+      });
+    });
+
+    it('does not send through disabled channels', async () => {
+      prisma.notificationDelivery.findMany.mockResolvedValueOnce([
+        {
+          ...pendingDelivery(0),
+          channel: createChannel({ enabled: false }),
+        },
+      ]);
+
+      await service.retryPending();
+
+      expect(send).not.toHaveBeenCalled();
+      expect(lastUpdate()).toEqual(
+        expect.objectContaining({
+          status: NotificationDeliveryStatus.PENDING,
+          error: expect.stringContaining('已停用'),
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,479 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { NotificationChannel, NotificationDelivery } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  NotificationChannelType,
+  NotificationDefaults,
+  NotificationDeliveryStatus,
+  NotificationEventType,
+  NotificationSeverity,
+  NotificationSeverityType,
+  PaginationResultDto,
+  PaginationService,
+  TaskExecutionStatus,
+} from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import {
+  EXECUTION_FINISHED_EVENT,
+  ExecutionFinishedPayload,
+} from '../execution-output/execution-output.service';
+import { buildTagSelectorWhere } from '../servers/utils/server-tags.util';
+import { NotificationChannelsService } from './notification-channels.service';
+import {
+  ActiveNotificationRule,
+  NotificationRulesService,
+} from './notification-rules.service';
+import { NotificationDeliveryQueryDto } from './dto/notification-delivery-query.dto';
+import { NotificationDeliveryEntity } from './entities/notification-delivery.entity';
+import {
+  NOTIFICATION_EVENT,
+  NotificationEvent,
+} from './types/notification-event.type';
+import { NotificationSender } from './types/notification-channel.type';
+import { WebhookSender } from './senders/webhook.sender';
+import { SlackSender } from './senders/slack.sender';
+import { EmailSender } from './senders/email.sender';
+
+// 严重程度排序，用于与规则的最低严重程度比较
+const SEVERITY_ORDER: NotificationSeverityType[] =
+  Object.values(NotificationSeverity);
+
+// 计入频率限制的发送状态，被抑制的通知不计入
+const RATE_LIMITED_STATUSES: string[] = [
+  NotificationDeliveryStatus.PENDING,
+  NotificationDeliveryStatus.SENT,
+  NotificationDeliveryStatus.FAILED,
+];
+
+type NotificationDeliveryWithChannel = NotificationDelivery & {
+  channel: NotificationChannel;
+};
+
+/**
+ * 事件匹配到的渠道，多条规则匹配同一渠道时只发送一次
+ */
+interface MatchedChannel {
+  channel: NotificationChannel;
+  ruleId: number;
+  dedupWindowSeconds: number; // 取匹配规则中最长的去重时间窗口
+}
+
+/**
+ * 通知服务
+ * 按路由规则将通知事件分发到各渠道，记录发送结果并按指数退避重试失败的通知
+ */
+@Injectable()
+export class NotificationsService implements OnModuleInit {
+  private readonly logger = new Logger(NotificationsService.name);
+  private readonly senders: Record<string, NotificationSender>;
+  // 正在发送的通知ID，避免定时重试与首次发送重复
+  private readonly inFlight = new Set<number>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly channelsService: NotificationChannelsService,
+    private readonly rulesService: NotificationRulesService,
+    webhookSender: WebhookSender,
+    slackSender: SlackSender,
+    emailSender: EmailSender,
+  ) {
+    this.senders = {
+      [NotificationChannelType.WEBHOOK]: webhookSender,
+      [NotificationChannelType.SLACK]: slackSender,
+      [NotificationChannelType.EMAIL]: emailSender,
+    };
+  }
+
+  onModuleInit() {
+    this.eventEmitter.on(NOTIFICATION_EVENT, (event: NotificationEvent) => {
+      this.dispatch(event).catch((error) =>
+        this.logger.error(`分发通知 ${event.dedupKey} 失败: ${error.message}`),
+      );
+    });
+    this.eventEmitter.on(
+      EXECUTION_FINISHED_EVENT,
+      (payload: ExecutionFinishedPayload) => {
+        this.handleExecutionFinished(payload).catch((error) =>
+          this.logger.error(
+            `处理任务执行 ${payload.executionId} 结束事件失败: ${error.message}`,
+          ),
+        );
+      },
+    );
+  }
+
+  /**
+   * 按路由规则分发通知事件
+   * @param event 通知事件
+   */
+  async dispatch(event: NotificationEvent): Promise<void> {
+    const rules = await this.rulesService.getActiveRules();
+    const matched = new Map<number, MatchedChannel>();
+
+    for (const rule of rules) {
+      if (!(await this.matchesRule(rule, event))) {
+        continue;
+      }
+      for (const channel of rule.channels) {
+        const existing = matched.get(channel.id);
+        if (existing) {
+          existing.dedupWindowSeconds = Math.max(
+            existing.dedupWindowSeconds,
+            rule.dedupWindowSeconds,
+          );
+        } else {
+          matched.set(channel.id, {
+            channel,
+            ruleId: rule.id,
+            dedupWindowSeconds: rule.dedupWindowSeconds,
+          });
+        }
+      }
+    }
+
+    for (const target of matched.values()) {
+      const delivery = await this.createDelivery(event, target);
+      if (delivery.status === NotificationDeliveryStatus.PENDING) {
+        await this.deliver({ ...delivery, channel: target.channel });
+      }
+    }
+  }
+
+  async findDeliveries(
+    params: NotificationDeliveryQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<NotificationDeliveryEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.channelId) {
+      where.channelId = params.channelId;
+    }
+
+    if (params.serverId) {
+      where.serverId = params.serverId;
+    }
+
+    if (params.status) {
+      where.status = params.status;
+    }
+
+    if (params.eventType) {
+      where.eventType = params.eventType;
+    }
+
+    return this.paginationService.paginateByLimit<NotificationDelivery, any>(
+      this.prisma
+        .notificationDelivery as unknown as PrismaModel<NotificationDelivery>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+    );
+  }
+
+  /**
+   * 立即重试发送失败的通知，重新计算发送次数
+   * @param id 发送记录ID
+   * @returns 重试后的发送记录
+   */
+  async retryDelivery(id: number): Promise<NotificationDeliveryEntity> {
+    const delivery = await this.prisma.notificationDelivery.findUnique({
+      where: { id },
+      include: { channel: true },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`通知发送记录ID ${id} 不存在`);
+    }
+
+    if (delivery.status !== NotificationDeliveryStatus.FAILED) {
+      throw new BadRequestException(
+        `通知发送记录 ${id} 的状态为 ${delivery.status}，只能重试发送失败的通知`,
+      );
+    }
+
+    await this.deliver({ ...delivery, attempts: 0 });
+    return this.findDelivery(id);
+  }
+
+  /**
+   * 向渠道发送测试通知，不经过路由规则、去重和频率限制
+   * @param channelId 渠道ID
+   * @returns 发送记录
+   */
+  async sendTest(channelId: number): Promise<NotificationDeliveryEntity> {
+    const channel = await this.channelsService.findChannel(channelId);
+    const delivery = await this.prisma.notificationDelivery.create({
+      data: {
+        eventType: NotificationEventType.TEST,
+        severity: NotificationSeverity.INFO,
+        title: '测试通知',
+        message: `这是通知渠道 ${channel.name} 的测试通知`,
+        dedupKey: `test:${channelId}:${Date.now()}`,
+        channelId,
+      },
+    });
+
+    // 测试通知只发送一次，失败时不重试
+    await this.deliver({ ...delivery, channel }, 1);
+    return this.findDelivery(delivery.id);
+  }
+
+  /**
+   * 定时重试到期的待发送通知
+   */
+  @Interval(NotificationDefaults.RETRY_SWEEP_INTERVAL_MS)
+  async retryPending(): Promise<void> {
+    const deliveries = await this.prisma.notificationDelivery.findMany({
+      where: {
+        status: NotificationDeliveryStatus.PENDING,
+        nextAttemptAt: { lte: new Date() },
+        id: { notIn: [...this.inFlight] },
+      },
+      include: { channel: true },
+      orderBy: { nextAttemptAt: 'asc' },
+    });
+
+    for (const delivery of deliveries) {
+      await this.deliver(delivery);
+    }
+  }
+
+  /**
+   * 任务执行失败或超时时发送通知
+   */
+  private async handleExecutionFinished(
+    payload: ExecutionFinishedPayload,
+  ): Promise<void> {
+    if (
+      payload.status !== TaskExecutionStatus.FAILED &&
+      payload.status !== TaskExecutionStatus.TIMEOUT
+    ) {
+      return;
+    }
+
+    const execution = await this.prisma.taskExecution.findUnique({
+      where: { id: payload.executionId },
+      include: {
+        task: { select: { name: true } },
+        server: { select: { name: true } },
+      },
+    });
+    if (!execution) {
+      return;
+    }
+
+    const reason =
+      payload.status === TaskExecutionStatus.TIMEOUT
+        ? '执行超时'
+        : `退出码 ${payload.exitCode ?? '未知'}`;
+    await this.dispatch({
+      type: NotificationEventType.TASK_EXECUTION_FAILED,
+      severity: NotificationSeverity.WARNING,
+      title: `任务 ${execution.task.name} 在服务器 ${execution.server.name} 上执行失败`,
+      message: `任务执行 ${execution.id} ${reason}`,
+      serverId: execution.serverId,
+      dedupKey: `${NotificationEventType.TASK_EXECUTION_FAILED}:${execution.id}`,
+    });
+  }
+
+  /**
+   * 判断事件是否匹配规则
+   */
+  private async matchesRule(
+    rule: ActiveNotificationRule,
+    event: NotificationEvent,
+  ): Promise<boolean> {
+    if (rule.eventTypes && !rule.eventTypes.split(',').includes(event.type)) {
+      return false;
+    }
+
+    if (
+      SEVERITY_ORDER.indexOf(event.severity) <
+      SEVERITY_ORDER.indexOf(rule.minSeverity as NotificationSeverityType)
+    ) {
+      return false;
+    }
+
+    if (rule.tagSelector) {
+      // 指定了标签选择器的规则只匹配所属服务器带有这些标签的事件
+      if (!event.serverId) {
+        return false;
+      }
+      const count = await this.prisma.server.count({
+        where: {
+          id: event.serverId,
+          ...buildTagSelectorWhere(rule.tagSelector),
+        },
+      });
+      if (count === 0) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 创建发送记录，去重时间窗口内已发送或超过渠道频率限制时记录为已抑制
+   */
+  private async createDelivery(
+    event: NotificationEvent,
+    target: MatchedChannel,
+  ): Promise<NotificationDelivery> {
+    const { channel, ruleId, dedupWindowSeconds } = target;
+    const now = Date.now();
+    let suppressReason: string | null = null;
+
+    if (dedupWindowSeconds > 0) {
+      const duplicate = await this.prisma.notificationDelivery.findFirst({
+        where: {
+          channelId: channel.id,
+          dedupKey: event.dedupKey,
+          status: {
+            in: [
+              NotificationDeliveryStatus.PENDING,
+              NotificationDeliveryStatus.SENT,
+            ],
+          },
+          createdAt: { gte: new Date(now - dedupWindowSeconds * 1000) },
+        },
+        select: { id: true },
+      });
+      if (duplicate) {
+        suppressReason = `与发送记录 ${duplicate.id} 重复`;
+      }
+    }
+
+    if (!suppressReason && channel.rateLimitPerHour > 0) {
+      const count = await this.prisma.notificationDelivery.count({
+        where: {
+          channelId: channel.id,
+          status: { in: RATE_LIMITED_STATUSES },
+          createdAt: { gte: new Date(now - 60 * 60 * 1000) },
+        },
+      });
+      if (count >= channel.rateLimitPerHour) {
+        suppressReason = `超过渠道频率限制（每小时 ${channel.rateLimitPerHour} 条）`;
+      }
+    }
+
+    const delivery = await this.prisma.notificationDelivery.create({
+      data: {
+        eventType: event.type,
+        severity: event.severity,
+        title: event.title,
+        message: event.message,
+        dedupKey: event.dedupKey,
+        serverId: event.serverId ?? null,
+        status: suppressReason
+          ? NotificationDeliveryStatus.SUPPRESSED
+          : NotificationDeliveryStatus.PENDING,
+        error: suppressReason,
+        nextAttemptAt: suppressReason ? null : new Date(now),
+        ruleId,
+        channelId: channel.id,
+      },
+    });
+
+    if (suppressReason) {
+      this.logger.debug(
+        `通知 ${event.dedupKey} 未发送到渠道 ${channel.name}: ${suppressReason}`,
+      );
+    }
+    return delivery;
+  }
+
+  /**
+   * 发送通知并记录结果，失败时按指数退避安排重试，发送次数用尽后标记为失败
+   * @param delivery 发送记录
+   * @param maxAttempts 最多发送次数
+   */
+  private async deliver(
+    delivery: NotificationDeliveryWithChannel,
+    maxAttempts: number = NotificationDefaults.MAX_ATTEMPTS,
+  ): Promise<void> {
+    if (this.inFlight.has(delivery.id)) {
+      return;
+    }
+    this.inFlight.add(delivery.id);
+
+    const attempts = delivery.attempts + 1;
+    try {
+      const { channel } = delivery;
+      if (!channel.enabled) {
+        throw new Error(`通知渠道 ${channel.name} 已停用`);
+      }
+      const sender = this.senders[channel.type];
+      if (!sender) {
+        throw new Error(`不支持的通知渠道类型: ${channel.type}`);
+      }
+
+      await sender.send(this.channelsService.decryptConfig(channel), {
+        deliveryId: delivery.id,
+        eventType: delivery.eventType,
+        severity: delivery.severity as NotificationSeverityType,
+        title: delivery.title,
+        message: delivery.message,
+        serverId: delivery.serverId,
+        createdAt: delivery.createdAt,
+      });
+
+      await this.prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: NotificationDeliveryStatus.SENT,
+          attempts,
+          error: null,
+          nextAttemptAt: null,
+          sentAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const exhausted = attempts >= maxAttempts;
+      this.logger.warn(
+        `通知 ${delivery.id} 第 ${attempts} 次发送失败${exhausted ? '，不再重试' : ''}: ${error.message}`,
+      );
+      await this.prisma.notificationDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          status: exhausted
+            ? NotificationDeliveryStatus.FAILED
+            : NotificationDeliveryStatus.PENDING,
+          attempts,
+          error: error.message,
+          nextAttemptAt: exhausted
+            ? null
+            : new Date(
+                Date.now() +
+                  NotificationDefaults.RETRY_BASE_DELAY_MS *
+                    2 ** (attempts - 1),
+              ),
+        },
+      });
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  private async findDelivery(id: number): Promise<NotificationDeliveryEntity> {
+    const delivery = await this.prisma.notificationDelivery.findUnique({
+      where: { id },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException(`通知发送记录ID ${id} 不存在`);
+    }
+
+    return delivery;
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationDefaults } from '../../../common';
+import {
+  NotificationChannelConfig,
+  NotificationMessage,
+  NotificationSender,
+} from '../types/notification-channel.type';
+import { sendSmtpMail } from '../utils/smtp-client.util';
+
+/**
+ * SMTP 邮件发送器
+ */
+@Injectable()
+export class EmailSender implements NotificationSender {
+  async send(
+    config: NotificationChannelConfig,
+    message: NotificationMessage,
+  ): Promise<void> {
+    await sendSmtpMail(
+      {
+        host: config.host as string,
+        port: config.port as number,
+        secure: config.secure,
+        requireTls: config.requireTls,
+        username: config.username,
+        password: config.password,
+        timeoutMs: NotificationDefaults.REQUEST_TIMEOUT_MS,
+      },
+      {
+        from: config.from as string,
+        to: config.to ?? [],
+        subject: `[${message.severity.toUpperCase()}] ${message.title}`,
+        text: [
+          message.message,
+          '',
+          `事件类型: ${message.eventType}`,
+          ...(message.serverId ? [`服务器ID: ${message.serverId}`] : []),
+          `时间: ${message.createdAt.toISOString()}`,
+        ].join('\n'),
+      },
+    );
+  }
+}
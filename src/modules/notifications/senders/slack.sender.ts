@@ -0,0 +1,34 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationSeverity } from '../../../common';
+import {
+  NotificationChannelConfig,
+  NotificationMessage,
+  NotificationSender,
+} from '../types/notification-channel.type';
+import { postJson } from '../utils/post-json.util';
+
+// 各严重程度在消息中显示的标记
+const SEVERITY_EMOJI: Record<string, string> = {
+  [NotificationSeverity.INFO]: ':information_source:',
+  [NotificationSeverity.WARNING]: ':warning:',
+  [NotificationSeverity.CRITICAL]: ':rotating_light:',
+};
+
+/**
+ * Slack 兼容的 Incoming Webhook 发送器
+ * 只使用 text 字段，兼容 Mattermost、Rocket.Chat 等同类服务
+ */
+@Injectable()
+export class SlackSender implements NotificationSender {
+  async send(
+    config: NotificationChannelConfig,
+    message: NotificationMessage,
+  ): Promise<void> {
+    const text = [
+      `${SEVERITY_EMOJI[message.severity] ?? ''} *[${message.severity.toUpperCase()}] ${message.title}*`.trim(),
+      message.message,
+    ].join('\n');
+
+    await postJson(config.url as string, JSON.stringify({ text }));
+  }
+}
@@ -0,0 +1,79 @@
+import { createHmac } from 'crypto';
+import { AddressInfo } from 'net';
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { WebhookSender } from './webhook.sender';
+import { NotificationMessage } from '../types/notification-channel.type';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhookSender', () => {
+  const sender = new WebhookSender();
+  const message: NotificationMessage = {
+    deliveryId: 42,
+    eventType: 'server_offline',
+    severity: 'critical',
+    title: '服务器 web-1 离线',
+    message: '连接失败: timeout',
+    serverId: 3,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+  };
+  let server: Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let statusCode: number;
+
+  beforeEach(async () => {
+    received = [];
+    statusCode = 200;
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statusCode;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', () => resolve()),
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it('signs the request body with the channel secret', async () => {
+    await sender.send({ url, secret: 's3cret' }, message);
+
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const signature = createHmac('sha256', 's3cret').update(body).digest('hex');
+    expect(headers['x-signature-256']).toBe(`sha256=${signature}`);
+    expect(JSON.parse(body)).toEqual({
+      id: 42,
+      event: 'server_offline',
+      severity: 'critical',
+      title: '服务器 web-1 离线',
+      message: '连接失败: timeout',
+      serverId: 3,
+      timestamp: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('omits the signature header when no secret is configured', async () => {
+    await sender.send({ url }, message);
+
+    expect(received[0].headers['x-signature-256']).toBeUndefined();
+  });
+
+  it('throws when the receiver responds with an error status', async () => {
+    statusCode = 500;
+
+    await expect(sender.send({ url }, message)).rejects.toThrow('500');
+  });
+});
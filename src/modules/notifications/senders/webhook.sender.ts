@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { createHmac } from 'crypto';
+import { NotificationDefaults } from '../../../common';
+import {
+  NotificationChannelConfig,
+  NotificationMessage,
+  NotificationSender,
+} from '../types/notification-channel.type';
+import { postJson } from '../utils/post-json.util';
+
+/**
+ * 通用 Webhook 发送器
+ * 配置了密钥时，使用 HMAC-SHA256 对请求体签名，接收方可据此校验通知来源
+ */
+@Injectable()
+export class WebhookSender implements NotificationSender {
+  async send(
+    config: NotificationChannelConfig,
+    message: NotificationMessage,
+  ): Promise<void> {
+    const body = JSON.stringify({
+      id: message.deliveryId,
+      event: message.eventType,
+      severity: message.severity,
+      title: message.title,
+      message: message.message,
+      serverId: message.serverId,
+      timestamp: message.createdAt.toISOString(),
+    });
+
+    const headers: Record<string, string> = {};
+    if (config.secret) {
+      const signature = createHmac('sha256', config.secret)
+        .update(body)
+        .digest('hex');
+      headers[NotificationDefaults.SIGNATURE_HEADER] = `sha256=${signature}`;
+    }
+
+    await postJson(config.url as string, body, headers);
+  }
+}
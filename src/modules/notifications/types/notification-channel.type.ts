@@ -0,0 +1,46 @@
+import { NotificationSeverityType } from '../../../common';
+
+/**
+ * 通知渠道配置，以JSON保存在渠道记录中
+ * Webhook 和 Slack 使用 url，邮件使用 SMTP 相关字段
+ */
+export interface NotificationChannelConfig {
+  url?: string;
+  secret?: string; // Webhook 签名密钥，保存时加密
+  host?: string;
+  port?: number;
+  secure?: boolean; // 是否直接使用 TLS 连接，否则在服务器支持时使用 STARTTLS
+  requireTls?: boolean; // 是否要求使用 TLS 连接，未设置时在有用户名时要求
+  username?: string;
+  password?: string; // SMTP 密码，保存时加密
+  from?: string;
+  to?: string[];
+}
+
+/**
+ * 发送给渠道的通知内容
+ */
+export interface NotificationMessage {
+  deliveryId: number;
+  eventType: string;
+  severity: NotificationSeverityType;
+  title: string;
+  message: string;
+  serverId: number | null;
+  createdAt: Date;
+}
+
+/**
+ * 通知渠道发送器，每种渠道类型一个实现
+ */
+export interface NotificationSender {
+  /**
+   * 发送通知，失败时抛出异常以便重试
+   * @param config 解密后的渠道配置
+   * @param message 通知内容
+   */
+  send(
+    config: NotificationChannelConfig,
+    message: NotificationMessage,
+  ): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import {
+  NotificationEventTypeType,
+  NotificationSeverityType,
+} from '../../../common';
+
+// 通知事件名称，各模块通过事件发射器发送，由通知服务按路由规则分发
+export const NOTIFICATION_EVENT = 'notification';
+
+/**
+ * 通知事件
+ */
+export interface NotificationEvent {
+  type: NotificationEventTypeType;
+  severity: NotificationSeverityType;
+  title: string;
+  message: string;
+  serverId?: number; // 事件所属服务器，用于按服务器标签路由
+  dedupKey: string; // 去重键，去重时间窗口内相同去重键的通知只发送一次
+}
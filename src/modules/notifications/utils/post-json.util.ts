@@ -0,0 +1,26 @@
+import { NotificationDefaults } from '../../../common';
+
+/**
+ * 以JSON请求体发送POST请求，非2xx响应视为失败
+ * @param url 请求地址
+ * @param body 已序列化的请求体
+ * @param headers 额外的请求头
+ */
+export async function postJson(
+  url: string,
+  body: string,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body,
+    signal: AbortSignal.timeout(NotificationDefaults.REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(
+      `请求 ${url} 返回 ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`,
+    );
+  }
+}
@@ -0,0 +1,277 @@
+import { randomUUID } from 'crypto';
+import { isIP, connect as netConnect, Socket } from 'net';
+import { hostname } from 'os';
+import { connect as tlsConnect } from 'tls';
+
+/**
+ * SMTP 服务器连接参数
+ */
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean; // 是否直接使用 TLS 连接，否则在服务器支持时使用 STARTTLS
+  requireTls?: boolean; // 服务器不支持 STARTTLS 时拒绝发送，未设置时在有用户名时要求，避免明文发送密码
+  username?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+/**
+ * 纯文本邮件
+ */
+export interface SmtpMail {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/**
+ * 发送一封纯文本邮件
+ * 只实现发送通知所需的最小 SMTP 流程：EHLO、STARTTLS、AUTH PLAIN、MAIL、RCPT 和 DATA
+ * @param options SMTP 服务器连接参数
+ * @param mail 邮件内容
+ */
+export async function sendSmtpMail(
+  options: SmtpOptions,
+  mail: SmtpMail,
+): Promise<void> {
+  const connection = await SmtpConnection.open(options);
+  try {
+    await connection.expect(connection.read(), [220]);
+    let capabilities = await connection.ehlo();
+
+    let encrypted = !!options.secure;
+    if (!encrypted && capabilities.includes('STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(options);
+      capabilities = await connection.ehlo();
+      encrypted = true;
+    }
+
+    if (!encrypted && (options.requireTls ?? !!options.username)) {
+      throw new Error(
+        `SMTP 服务器 ${options.host} 不支持 STARTTLS，拒绝在未加密的连接上发送邮件`,
+      );
+    }
+
+    if (options.username) {
+      const token = Buffer.from(
+        `\0${options.username}\0${options.password ?? ''}`,
+      ).toString('base64');
+      await connection.command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${mail.from}>`, [250]);
+    for (const recipient of mail.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await connection.command('DATA', [354]);
+    await connection.command(`${buildMessage(mail)}\r\n.`, [250], 'DATA');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
+
+/**
+ * 构建邮件内容，正文使用 base64 编码，因此不会出现需要转义的以 . 开头的行
+ */
+function buildMessage(mail: SmtpMail): string {
+  const encodedSubject = `=?UTF-8?B?${Buffer.from(mail.subject).toString('base64')}?=`;
+  const body = Buffer.from(mail.text)
+    .toString('base64')
+    .match(/.{1,76}/g);
+  return [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: ${encodedSubject}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${hostname()}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body ?? []),
+  ].join('\r\n');
+}
+
+/**
+ * TLS SNI 名称，IP 地址不能用作 SNI
+ */
+function serverName(host: string): string | undefined {
+  return isIP(host) ? undefined : host;
+}
+
+/**
+ * SMTP 连接，按行读取服务器的应答
+ */
+class SmtpConnection {
+  private socket: Socket;
+  private buffer = '';
+  private lines: string[] = []; // 多行应答中已收到的行
+  private readonly replies: SmtpReply[] = [];
+  private waiting: {
+    resolve: (reply: SmtpReply) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private error: Error | null = null;
+
+  private constructor(
+    socket: Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.attach(socket);
+  }
+
+  static open(options: SmtpOptions): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = options.secure
+        ? tlsConnect({
+            host: options.host,
+            port: options.port,
+            servername: serverName(options.host),
+          })
+        : netConnect({ host: options.host, port: options.port });
+      const onError = (error: Error) => reject(error);
+      socket.once('error', onError);
+      socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        resolve(new SmtpConnection(socket, options.timeoutMs));
+      });
+      socket.setTimeout(options.timeoutMs, () =>
+        socket.destroy(new Error(`连接 SMTP 服务器 ${options.host} 超时`)),
+      );
+    });
+  }
+
+  /**
+   * 发送 EHLO 并返回服务器支持的扩展
+   */
+  async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${hostname()}`, [250]);
+    return reply.lines.slice(1).map((line) => line.split(' ')[0].toUpperCase());
+  }
+
+  /**
+   * 发送命令并校验应答码
+   * @param line 命令
+   * @param expected 期望的应答码
+   * @param name 出错时显示的命令名称，避免在错误信息中暴露认证信息或邮件内容
+   */
+  async command(
+    line: string,
+    expected: number[],
+    name = line,
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(this.read(), expected, name);
+  }
+
+  async expect(
+    pending: Promise<SmtpReply>,
+    expected: number[],
+    name = '连接',
+  ): Promise<SmtpReply> {
+    const reply = await pending;
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${name} 失败: ${reply.code} ${reply.lines.join(' ')}`,
+      );
+    }
+    return reply;
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.error) {
+      return Promise.reject(this.error);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * 将当前连接升级为 TLS 连接
+   */
+  upgrade(options: SmtpOptions): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+
+    return new Promise((resolve, reject) => {
+      const socket = tlsConnect({
+        socket: plain,
+        servername: serverName(options.host),
+      });
+      // 握手期间同样计算超时，避免服务器接受 STARTTLS 后不完成握手时一直等待
+      const onTimeout = () =>
+        socket.destroy(new Error(`SMTP 服务器 ${options.host} TLS 握手超时`));
+      socket.setTimeout(this.timeoutMs, onTimeout);
+      socket.once('error', reject);
+      socket.once('secureConnect', () => {
+        socket.off('error', reject);
+        socket.off('timeout', onTimeout);
+        this.attach(socket);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private attach(socket: Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs, () =>
+      socket.destroy(new Error('SMTP 服务器应答超时')),
+    );
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP 连接已关闭')));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+
+      // 多行应答中，除最后一行外的应答码后面是 -
+      if (line[3] === '-') {
+        continue;
+      }
+      const reply = { code: Number(line.slice(0, 3)), lines: this.lines };
+      this.lines = [];
+      if (this.waiting) {
+        this.waiting.resolve(reply);
+        this.waiting = null;
+      } else {
+        this.replies.push(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    this.error ??= error;
+    if (this.waiting) {
+      this.waiting.reject(this.error);
+      this.waiting = null;
+    }
+  }
+}
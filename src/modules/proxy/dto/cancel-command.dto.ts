@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 终止命令DTO
+ * 用于描述主服务器发送给中介服务的终止命令请求
+ */
+export class CancelCommandDto {
+  @ApiProperty({
+    description: '要终止的命令ID',
+    example: 'cmd_1620000000000_abc123',
+    required: true,
+  })
+  commandId: string;
+
+  @ApiProperty({
+    description: '终止原因',
+    enum: ['timeout', 'cancelled'],
+    example: 'timeout',
+    required: true,
+  })
+  reason: string;
+}
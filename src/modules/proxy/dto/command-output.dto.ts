@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 命令实时输出DTO
+ * 用于描述中介服务在命令执行过程中发送给主服务器的输出片段
+ */
+export class CommandOutputDto {
+  @ApiProperty({
+    description: '命令的唯一ID（与请求中的commandId相同）',
+    example: 'cmd_1620000000000_abc123',
+    required: true,
+  })
+  commandId: string;
+
+  @ApiProperty({
+    description: '输出流',
+    enum: ['stdout', 'stderr'],
+    example: 'stdout',
+    required: true,
+  })
+  stream: string;
+
+  @ApiProperty({
+    description: '输出内容',
+    example: 'Downloading package...\n',
+    required: true,
+  })
+  data: string;
+}
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 /**
  * 命令执行结果的内部结构
@@ -21,6 +21,12 @@ class CommandResultDetail {
     example: 0,
   })
   exitCode: number;
+
+  @ApiPropertyOptional({
+    description: '命令是否因超时被终止（超时时退出码为124）',
+    example: false,
+  })
+  timedOut?: boolean;
 }
 
 /**
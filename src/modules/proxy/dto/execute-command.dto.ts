@@ -52,6 +52,11 @@ export class ExecuteCommandDto {
   })
   privateKey?: string;
 
+  @ApiPropertyOptional({
+    description: '私钥密码短语（如果私钥受密码短语保护）',
+  })
+  passphrase?: string;
+
   @ApiProperty({
     description: '要执行的命令',
     example: 'ls -la',
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * 文件传输结果的内部结构
+ */
+class FileTransferResultDetail {
+  @ApiProperty({
+    description: '是否传输成功',
+    example: true,
+  })
+  success: boolean;
+
+  @ApiPropertyOptional({
+    description: '读取到的文件内容（base64），仅 download 成功时提供',
+    example: 'dXNlciBuZ2lueDsK',
+  })
+  content?: string;
+
+  @ApiPropertyOptional({
+    description: '失败原因',
+    example: 'No such file',
+  })
+  error?: string;
+}
+
+/**
+ * 文件传输结果DTO
+ * 用于描述中介服务发送给主服务器的文件传输结果
+ */
+export class FileTransferResultDto {
+  @ApiProperty({
+    description: '传输的唯一ID（与请求中的transferId相同）',
+    example: 'file_1620000000000_abc123',
+    required: true,
+  })
+  transferId: string;
+
+  @ApiProperty({
+    description: '文件传输结果',
+    type: FileTransferResultDetail,
+  })
+  result: FileTransferResultDetail;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 调整终端大小DTO
+ * 用于描述主服务器发送给中介服务的窗口大小变化
+ */
+export class ResizeTerminalDto {
+  @ApiProperty({
+    description: '终端的唯一ID',
+    example: '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+    required: true,
+  })
+  terminalId: string;
+
+  @ApiProperty({
+    description: '列数',
+    example: 120,
+    required: true,
+  })
+  cols: number;
+
+  @ApiProperty({
+    description: '行数',
+    example: 40,
+    required: true,
+  })
+  rows: number;
+}
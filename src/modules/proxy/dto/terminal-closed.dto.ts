@@ -0,0 +1,20 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * 终端关闭DTO
+ * 用于描述关闭终端的请求（主服务器 -> 中介服务）和终端已关闭的通知（中介服务 -> 主服务器）
+ */
+export class TerminalClosedDto {
+  @ApiProperty({
+    description: '终端的唯一ID',
+    example: '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+    required: true,
+  })
+  terminalId: string;
+
+  @ApiPropertyOptional({
+    description: '关闭原因，仅 terminal_closed 时提供',
+    example: 'shell exited',
+  })
+  reason?: string;
+}
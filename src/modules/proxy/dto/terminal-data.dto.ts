@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 终端数据DTO
+ * 用于描述终端的输入（主服务器 -> 中介服务）和输出（中介服务 -> 主服务器）
+ */
+export class TerminalDataDto {
+  @ApiProperty({
+    description: '终端的唯一ID',
+    example: '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+    required: true,
+  })
+  terminalId: string;
+
+  @ApiProperty({
+    description: '输入或输出的内容（UTF-8 字符串）',
+    example: 'ls -la\r',
+    required: true,
+  })
+  data: string;
+}
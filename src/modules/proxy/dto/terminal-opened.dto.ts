@@ -0,0 +1,27 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * 终端打开结果DTO
+ * 用于描述中介服务打开交互式终端后发送给主服务器的结果
+ */
+export class TerminalOpenedDto {
+  @ApiProperty({
+    description: '终端的唯一ID（与请求中的terminalId相同）',
+    example: '3f1c2d4e-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+    required: true,
+  })
+  terminalId: string;
+
+  @ApiProperty({
+    description: '是否成功打开终端',
+    example: true,
+    required: true,
+  })
+  success: boolean;
+
+  @ApiPropertyOptional({
+    description: '失败原因',
+    example: 'All configured authentication methods failed',
+  })
+  error?: string;
+}
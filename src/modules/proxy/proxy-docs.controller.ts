@@ -11,6 +11,15 @@ import { ProxyConnectionDto } from './dto/proxy-connection.dto';
 import { ExecuteCommandDto } from './dto/execute-command.dto';
 import { CommandResultDto } from './dto/command-result.dto';
 import { CommandResultReceivedDto } from './dto/command-result-received.dto';
+import { CancelCommandDto } from './dto/cancel-command.dto';
+import { CommandOutputDto } from './dto/command-output.dto';
+import { TransferFileDto } from './dto/transfer-file.dto';
+import { FileTransferResultDto } from './dto/file-transfer-result.dto';
+import { OpenTerminalDto } from './dto/open-terminal.dto';
+import { TerminalOpenedDto } from './dto/terminal-opened.dto';
+import { TerminalDataDto } from './dto/terminal-data.dto';
+import { ResizeTerminalDto } from './dto/resize-terminal.dto';
+import { TerminalClosedDto } from './dto/terminal-closed.dto';
 
 /**
  * 代理WebSocket接口文档控制器
@@ -140,6 +149,59 @@ export class ProxyDocsController {
     return { message: '这是WebSocket事件的文档，不是实际的API端点' };
   }
 
+  /**
+   * 终止命令事件
+   *
+   * 主服务器通知中介服务终止正在执行的命令。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('cancel-command')
+  @ApiOperation({
+    summary: '终止命令事件（主服务器 -> 中介服务）',
+    description: `
+      ## 终止命令事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      \`cancel_command\`
+
+      ### 事件方向
+      主服务器 -> 中介服务
+
+      ### 说明
+      主服务器等待命令结果超时或用户取消执行后发送此事件（reason 为 timeout 或 cancelled）。中介服务应当向远程进程组发送 SIGTERM（宽限期后发送 SIGKILL），
+      关闭命令通道，并通过 \`command_result\` 返回已产生的部分输出，同时设置 \`result.timedOut\` 为 true。
+      主服务器发送此事件后最多等待5秒，超过则直接将命令记录为超时。
+
+      ### 示例代码（Socket.IO客户端）
+      \`\`\`javascript
+      // 在中介服务中监听终止请求
+      socket.on('cancel_command', async ({ commandId, reason }) => {
+        const running = runningCommands.get(commandId);
+        if (!running) return;
+        await running.kill('SIGTERM');
+        socket.emit('command_result', {
+          commandId,
+          result: {
+            stdout: running.stdout,
+            stderr: running.stderr,
+            exitCode: 124,
+            timedOut: reason === 'timeout'
+          }
+        });
+      });
+      \`\`\`
+    `,
+  })
+  @ApiBody({
+    description: '终止命令请求',
+    type: CancelCommandDto,
+  })
+  cancelCommand() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
   /**
    * 命令结果事件
    *
@@ -204,6 +266,360 @@ export class ProxyDocsController {
     return { message: '这是WebSocket事件的文档，不是实际的API端点' };
   }
 
+  /**
+   * 命令实时输出事件
+   *
+   * 中介服务在命令执行过程中发送给主服务器的输出片段。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('command-output')
+  @ApiOperation({
+    summary: '命令实时输出事件（中介服务 -> 主服务器）',
+    description: `
+      ## 命令实时输出事件
+
+      这是一个WebSocket事件，不是REST API。该事件是可选的，最终结果仍以 \`command_result\` 为准。
+
+      ### 事件名称
+      \`command_output\`
+
+      ### 事件方向
+      中介服务 -> 主服务器
+
+      ### 示例代码（Socket.IO客户端）
+      \`\`\`javascript
+      // 在中介服务中转发SSH通道的输出（command 为 execute_command 收到的请求）
+      stream.on('data', (data) => {
+        socket.emit('command_output', {
+          commandId: command.commandId,
+          stream: 'stdout',
+          data: data.toString()
+        });
+      });
+      stream.stderr.on('data', (data) => {
+        socket.emit('command_output', {
+          commandId: command.commandId,
+          stream: 'stderr',
+          data: data.toString()
+        });
+      });
+      \`\`\`
+    `,
+  })
+  @ApiBody({
+    description: '命令输出片段',
+    type: CommandOutputDto,
+  })
+  commandOutput() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
+  /**
+   * 文件传输事件
+   *
+   * 主服务器发送给中介服务的文件读写请求。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('transfer-file')
+  @ApiOperation({
+    summary: '文件传输事件（主服务器 -> 中介服务）',
+    description: `
+      ## 文件传输事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      \`transfer_file\`
+
+      ### 事件方向
+      主服务器 -> 中介服务
+
+      ### 说明
+      中介服务使用与 \`execute_command\` 相同的连接参数连接目标服务器，通过SFTP完成读写后发送 \`file_transfer_result\`。
+      \`direction\` 为 \`upload\` 时把 \`content\`（base64）写入 \`remotePath\`；为 \`download\` 时读取 \`remotePath\`，
+      文件超过 \`maxSize\` 字节时返回失败。上传写入的是临时文件，校验、设置权限和移动到目标路径由主服务器随后通过 \`execute_command\` 完成。
+
+      ### 示例代码（Socket.IO客户端）
+      \`\`\`javascript
+      socket.on('transfer_file', async (data) => {
+        try {
+          const sftp = await getSftp(data);
+          let content;
+          if (data.direction === 'upload') {
+            await sftp.writeFile(data.remotePath, Buffer.from(data.content, 'base64'));
+          } else {
+            const stats = await sftp.stat(data.remotePath);
+            if (stats.size > data.maxSize) throw new Error('文件超过大小限制');
+            content = (await sftp.readFile(data.remotePath)).toString('base64');
+          }
+          socket.emit('file_transfer_result', {
+            transferId: data.transferId,
+            result: { success: true, content }
+          });
+        } catch (error) {
+          socket.emit('file_transfer_result', {
+            transferId: data.transferId,
+            result: { success: false, error: error.message }
+          });
+        }
+      });
+      \`\`\`
+    `,
+  })
+  @ApiBody({
+    description: '文件传输请求',
+    type: TransferFileDto,
+  })
+  transferFile() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
+  /**
+   * 文件传输结果事件
+   *
+   * 中介服务发送给主服务器的文件传输结果。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('file-transfer-result')
+  @ApiOperation({
+    summary: '文件传输结果事件（中介服务 -> 主服务器）',
+    description: `
+      ## 文件传输结果事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      \`file_transfer_result\`
+
+      ### 事件方向
+      中介服务 -> 主服务器
+
+      ### 说明
+      主服务器收到后回复 \`file_transfer_result_received\`。超过请求中的 \`timeout\` 仍未收到结果时，主服务器将该次传输记为失败。
+    `,
+  })
+  @ApiBody({
+    description: '文件传输结果',
+    type: FileTransferResultDto,
+  })
+  fileTransferResult() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
+  /**
+   * 打开终端事件
+   *
+   * 主服务器请求中介服务在目标服务器上打开交互式终端（PTY）。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('open-terminal')
+  @ApiOperation({
+    summary: '打开终端事件（主服务器 -> 中介服务）',
+    description: `
+      ## 打开终端事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      \`open_terminal\`
+
+      ### 事件方向
+      主服务器 -> 中介服务
+
+      ### 说明
+      用户为通过代理连接的服务器创建交互式终端时发送。中介服务使用与 \`execute_command\` 相同的连接参数连接目标服务器，
+      按 \`term\`、\`cols\`、\`rows\` 请求PTY并启动shell，然后发送 \`terminal_opened\`。
+      主服务器最多等待30秒，超时后发送 \`close_terminal\` 并放弃该终端。
+      终端打开后，shell 的输出通过 \`terminal_output\` 发送，shell 退出或连接断开时发送 \`terminal_closed\`。
+
+      ### 示例代码（Socket.IO客户端）
+      \`\`\`javascript
+      const terminals = new Map();
+
+      socket.on('open_terminal', (data) => {
+        const conn = new Client();
+        conn.on('ready', () => {
+          conn.shell({ term: data.term, cols: data.cols, rows: data.rows }, (err, stream) => {
+            if (err) {
+              socket.emit('terminal_opened', { terminalId: data.terminalId, success: false, error: err.message });
+              conn.end();
+              return;
+            }
+            terminals.set(data.terminalId, { conn, stream });
+            const decoder = new StringDecoder('utf8');
+            const forward = (chunk) =>
+              socket.emit('terminal_output', { terminalId: data.terminalId, data: decoder.write(chunk) });
+            stream.on('data', forward);
+            stream.stderr.on('data', forward);
+            stream.on('close', () => {
+              terminals.delete(data.terminalId);
+              conn.end();
+              socket.emit('terminal_closed', { terminalId: data.terminalId, reason: 'shell exited' });
+            });
+            socket.emit('terminal_opened', { terminalId: data.terminalId, success: true });
+          });
+        });
+        conn.on('error', (err) =>
+          socket.emit('terminal_opened', { terminalId: data.terminalId, success: false, error: err.message }),
+        );
+        conn.connect(toConnectConfig(data));
+      });
+      \`\`\`
+    `,
+  })
+  @ApiBody({
+    description: '打开终端请求',
+    type: OpenTerminalDto,
+  })
+  openTerminal() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
+  /**
+   * 终端打开结果事件
+   *
+   * 中介服务发送给主服务器的终端打开结果。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('terminal-opened')
+  @ApiOperation({
+    summary: '终端打开结果事件（中介服务 -> 主服务器）',
+    description: `
+      ## 终端打开结果事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      \`terminal_opened\`
+
+      ### 事件方向
+      中介服务 -> 主服务器
+
+      ### 说明
+      \`success\` 为 false 时主服务器把 \`error\` 显示给用户并关闭会话，中介服务应释放已建立的连接。
+    `,
+  })
+  @ApiBody({
+    description: '终端打开结果',
+    type: TerminalOpenedDto,
+  })
+  terminalOpened() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
+  /**
+   * 终端输入输出事件
+   *
+   * 终端打开后双向传递的输入和输出。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('terminal-data')
+  @ApiOperation({
+    summary: '终端输入输出事件（双向）',
+    description: `
+      ## 终端输入输出事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      - \`terminal_input\`：主服务器 -> 中介服务，用户的键盘输入，中介服务原样写入shell
+      - \`terminal_output\`：中介服务 -> 主服务器，shell 的输出（包括标准错误）
+
+      ### 说明
+      两个事件的 \`data\` 都是 UTF-8 字符串。中介服务转发输出时应使用流式解码，避免多字节字符被拆分到两个事件中。
+
+      ### 示例代码（Socket.IO客户端）
+      \`\`\`javascript
+      socket.on('terminal_input', ({ terminalId, data }) => {
+        terminals.get(terminalId)?.stream.write(data);
+      });
+      \`\`\`
+    `,
+  })
+  @ApiBody({
+    description: '终端输入或输出',
+    type: TerminalDataDto,
+  })
+  terminalData() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
+  /**
+   * 调整终端大小事件
+   *
+   * 主服务器通知中介服务终端窗口大小发生变化。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('resize-terminal')
+  @ApiOperation({
+    summary: '调整终端大小事件（主服务器 -> 中介服务）',
+    description: `
+      ## 调整终端大小事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      \`resize_terminal\`
+
+      ### 事件方向
+      主服务器 -> 中介服务
+
+      ### 示例代码（Socket.IO客户端）
+      \`\`\`javascript
+      socket.on('resize_terminal', ({ terminalId, cols, rows }) => {
+        terminals.get(terminalId)?.stream.setWindow(rows, cols, 0, 0);
+      });
+      \`\`\`
+    `,
+  })
+  @ApiBody({
+    description: '新的窗口大小',
+    type: ResizeTerminalDto,
+  })
+  resizeTerminal() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
+  /**
+   * 关闭终端事件
+   *
+   * 终端关闭时双向发送的事件。
+   * 这是一个WebSocket事件，不是REST API。
+   */
+  @Get('close-terminal')
+  @ApiOperation({
+    summary: '关闭终端事件（双向）',
+    description: `
+      ## 关闭终端事件
+
+      这是一个WebSocket事件，不是REST API。
+
+      ### 事件名称
+      - \`close_terminal\`：主服务器 -> 中介服务，用户关闭了会话，中介服务应关闭shell和SSH连接，无需再发送 \`terminal_closed\`
+      - \`terminal_closed\`：中介服务 -> 主服务器，shell 退出或与目标服务器的连接断开，可附带 \`reason\`
+
+      ### 说明
+      中介服务断开WebSocket连接时，主服务器会关闭经由它打开的所有终端。
+
+      ### 示例代码（Socket.IO客户端）
+      \`\`\`javascript
+      socket.on('close_terminal', ({ terminalId }) => {
+        const terminal = terminals.get(terminalId);
+        if (!terminal) return;
+        terminals.delete(terminalId);
+        terminal.conn.end();
+      });
+      \`\`\`
+    `,
+  })
+  @ApiBody({
+    description: '关闭终端请求或通知',
+    type: TerminalClosedDto,
+  })
+  closeTerminal() {
+    return { message: '这是WebSocket事件的文档，不是实际的API端点' };
+  }
+
   /**
    * 错误处理
    *
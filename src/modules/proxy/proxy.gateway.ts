@@ -10,6 +10,31 @@ import { Server, Socket } from 'socket.io';
 import { Logger, Injectable } from '@nestjs/common';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ProxyService } from './proxy.service';
+import {
+  CommandExitCode,
+  FileTransferDefaults,
+  NotificationEventType,
+  NotificationSeverity,
+} from '../../common';
+import {
+  NOTIFICATION_EVENT,
+  NotificationEvent,
+} from '../notifications/types/notification-event.type';
+
+// 超时取消后等待代理返回部分输出的宽限时间（毫秒）
+const CANCEL_GRACE_PERIOD_MS = 5000;
+
+// 等待代理打开终端的超时时间（毫秒），包含代理连接目标服务器的时间
+const TERMINAL_OPEN_TIMEOUT_MS = 30000;
+
+/**
+ * 通过代理打开的交互式终端
+ */
+export interface ProxyTerminal {
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  close(): void;
+}
 
 @Injectable()
 @WebSocketGateway({
@@ -17,10 +42,13 @@ import { ProxyService } from './proxy.service';
     origin: '*', // 在生产环境中应该限制为特定域名
   },
   namespace: 'proxy',
+  maxHttpBufferSize: FileTransferDefaults.SOCKET_MAX_BUFFER_SIZE,
 })
 export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
   private readonly logger = new Logger(ProxyGateway.name);
   private proxyClients: Map<string, Socket> = new Map();
+  // 通过代理打开的终端ID -> 代理ID
+  private proxyTerminals: Map<string, string> = new Map();
 
   constructor(
     private readonly eventEmitter: EventEmitter2,
@@ -62,14 +90,35 @@ export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
   handleDisconnect(client: Socket) {
     const proxyId = client.handshake.query.proxyId as string;
     if (proxyId) {
-      this.logger.log(`代理 ${proxyId} 已断开连接`);
-      this.proxyClients.delete(proxyId);
+      // 只清理当前登记的连接；被拒绝的连接或已被新连接替换的旧连接不影响代理状态
+      if (this.proxyClients.get(proxyId) === client) {
+        this.logger.log(`代理 ${proxyId} 已断开连接`);
+        this.proxyClients.delete(proxyId);
 
-      // 广播代理状态更新
-      this.server.emit('proxy_status_update', {
-        id: proxyId,
-        status: 'offline',
-      });
+        // 代理断开后，经由它打开的终端全部视为已关闭
+        this.proxyTerminals.forEach((terminalProxyId, terminalId) => {
+          if (terminalProxyId === proxyId) {
+            this.eventEmitter.emit(`terminal_closed_${terminalId}`, {
+              reason: `代理 ${proxyId} 已断开连接`,
+            });
+          }
+        });
+
+        // 广播代理状态更新
+        this.server.emit('proxy_status_update', {
+          id: proxyId,
+          status: 'offline',
+        });
+
+        const event: NotificationEvent = {
+          type: NotificationEventType.PROXY_DISCONNECTED,
+          severity: NotificationSeverity.WARNING,
+          title: `代理 ${proxyId} 已断开连接`,
+          message: `代理 ${proxyId} 已断开连接，经由该代理的服务器暂时无法访问`,
+          dedupKey: `${NotificationEventType.PROXY_DISCONNECTED}:${proxyId}`,
+        };
+        this.eventEmitter.emit(NOTIFICATION_EVENT, event);
+      }
     }
   }
 
@@ -91,7 +140,78 @@ export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
     return { event: 'command_result_received', data: { success: true } };
   }
 
+  @SubscribeMessage('file_transfer_result')
+  handleFileTransferResult(_client: Socket, payload: any): WsResponse<any> {
+    if (!payload || !payload.transferId) {
+      this.logger.error('收到的文件传输结果缺少transferId');
+      return {
+        event: 'file_transfer_result_received',
+        data: { success: false, error: '缺少transferId' },
+      };
+    }
+
+    this.eventEmitter.emit(
+      `file_transfer_result_${payload.transferId}`,
+      payload.result,
+    );
+
+    return { event: 'file_transfer_result_received', data: { success: true } };
+  }
+
+  @SubscribeMessage('command_output')
+  handleCommandOutput(_client: Socket, payload: any): void {
+    if (!payload || !payload.commandId || typeof payload.data !== 'string') {
+      this.logger.warn('收到的命令实时输出缺少commandId或data');
+      return;
+    }
+
+    // 转发给 sendCommand 中注册的输出回调
+    this.eventEmitter.emit(`command_output_${payload.commandId}`, {
+      stream: payload.stream === 'stderr' ? 'stderr' : 'stdout',
+      data: payload.data,
+    });
+  }
+
+  @SubscribeMessage('terminal_opened')
+  handleTerminalOpened(_client: Socket, payload: any): void {
+    if (!payload || !payload.terminalId) {
+      this.logger.warn('收到的终端打开结果缺少terminalId');
+      return;
+    }
+
+    this.eventEmitter.emit(`terminal_opened_${payload.terminalId}`, {
+      success: payload.success === true,
+      error: payload.error,
+    });
+  }
+
+  @SubscribeMessage('terminal_output')
+  handleTerminalOutput(_client: Socket, payload: any): void {
+    if (!payload || !payload.terminalId || typeof payload.data !== 'string') {
+      this.logger.warn('收到的终端输出缺少terminalId或data');
+      return;
+    }
+
+    this.eventEmitter.emit(
+      `terminal_output_${payload.terminalId}`,
+      payload.data,
+    );
+  }
+
+  @SubscribeMessage('terminal_closed')
+  handleTerminalClosed(_client: Socket, payload: any): void {
+    if (!payload || !payload.terminalId) {
+      this.logger.warn('收到的终端关闭通知缺少terminalId');
+      return;
+    }
+
+    this.eventEmitter.emit(`terminal_closed_${payload.terminalId}`, {
+      reason: payload.reason,
+    });
+  }
+
   // 发送命令到特定的代理，并返回一个包含结果的 Promise
+  // 超时或取消后会向代理发送 cancel_command，并在宽限期内等待代理返回部分输出
   async sendCommand(
     proxyId: string,
     command: {
@@ -99,20 +219,39 @@ export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
       timeout?: number;
       [key: string]: any; // 其他命令参数
     },
-  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+    options: {
+      onOutput?: (stream: 'stdout' | 'stderr', data: string) => void;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<{
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+    timedOut?: boolean;
+    cancelled?: boolean;
+  }> {
     const client = this.proxyClients.get(proxyId);
     if (!client) {
       this.logger.error(`[sendCommand] 代理 ${proxyId} 未连接`);
       throw new Error(`代理 ${proxyId} 未连接`);
     }
 
+    const { onOutput, signal } = options;
     const commandId = command.commandId;
     const maxWaitTime = command.timeout || 30000; // 默认30秒超时
     const eventName = `command_result_${commandId}`;
+    const outputEventName = `command_output_${commandId}`;
 
     return new Promise((resolve, reject) => {
       let timeoutId: NodeJS.Timeout | null = null;
       let listener: ((result: any) => void) | null = null;
+      let outputListener:
+        | ((chunk: { stream: 'stdout' | 'stderr'; data: string }) => void)
+        | null = null;
+      // 命令被终止的原因
+      let terminated: 'timeout' | 'cancelled' | null = null;
+
+      const onAbort = () => requestTermination('cancelled');
 
       const cleanup = () => {
         if (timeoutId) {
@@ -123,14 +262,53 @@ export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
           this.eventEmitter.off(eventName, listener);
           listener = null;
         }
+        if (outputListener) {
+          this.eventEmitter.off(outputEventName, outputListener);
+          outputListener = null;
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const terminatedResult = (stdout = '', stderr = '') => {
+        const separator = stderr && !stderr.endsWith('\n') ? '\n' : '';
+        return terminated === 'cancelled'
+          ? {
+              stdout,
+              stderr: `${stderr}${separator}命令已被取消`,
+              exitCode: CommandExitCode.CANCELLED,
+              cancelled: true,
+            }
+          : {
+              stdout,
+              stderr: `${stderr}${separator}命令执行超时 (${maxWaitTime}ms)`,
+              exitCode: CommandExitCode.TIMEOUT,
+              timedOut: true,
+            };
+      };
+
+      const requestTermination = (reason: 'timeout' | 'cancelled') => {
+        if (terminated) return;
+        terminated = reason;
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+        client.emit('cancel_command', { commandId, reason });
+
+        // 等待代理返回终止后的部分输出，超过宽限期则直接返回终止结果
+        timeoutId = setTimeout(() => {
+          this.logger.warn(
+            `[sendCommand] 代理 ${proxyId} 未在宽限期内返回命令 ${commandId} 的结果`,
+          );
+          cleanup();
+          resolve(terminatedResult());
+        }, CANCEL_GRACE_PERIOD_MS);
       };
 
       timeoutId = setTimeout(() => {
         this.logger.warn(
-          `[sendCommand] 命令 ${commandId} 在网关等待结果超时 (${maxWaitTime}ms)`,
+          `[sendCommand] 命令 ${commandId} 在网关等待结果超时 (${maxWaitTime}ms)，通知代理终止命令`,
         );
-        cleanup();
-        reject(new Error(`命令执行超时 (${maxWaitTime}ms)`));
+        requestTermination('timeout');
       }, maxWaitTime);
 
       listener = (result) => {
@@ -146,7 +324,16 @@ export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
           'stderr' in result &&
           'exitCode' in result
         ) {
-          resolve(result);
+          if (!terminated && result.timedOut) {
+            terminated = 'timeout';
+          }
+          resolve(
+            terminated
+              ? terminatedResult(result.stdout, result.stderr)
+              : result,
+          );
+        } else if (terminated) {
+          resolve(terminatedResult());
         } else {
           this.logger.error(
             `[sendCommand] 命令 ${commandId} 返回的结果格式不正确: ${JSON.stringify(result)}`,
@@ -157,6 +344,13 @@ export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
       this.eventEmitter.on(eventName, listener);
 
+      if (onOutput) {
+        outputListener = (chunk) => onOutput(chunk.stream, chunk.data);
+        this.eventEmitter.on(outputEventName, outputListener);
+      }
+
+      signal?.addEventListener('abort', onAbort);
+
       // 发送命令到代理客户端
       client.emit('execute_command', command, (ack) => {
         // 可选：处理客户端的确认回执
@@ -172,6 +366,182 @@ export class ProxyGateway implements OnGatewayConnection, OnGatewayDisconnect {
     });
   }
 
+  // 发送文件传输请求到特定的代理，并返回传输结果
+  // 代理负责通过SFTP写入或读取目标服务器上的文件，文件内容以 base64 编码传递
+  async sendFileTransfer(
+    proxyId: string,
+    transfer: {
+      transferId: string;
+      timeout?: number;
+      [key: string]: any; // 其他传输参数
+    },
+  ): Promise<{ success: boolean; content?: string; error?: string }> {
+    const client = this.proxyClients.get(proxyId);
+    if (!client) {
+      this.logger.error(`[sendFileTransfer] 代理 ${proxyId} 未连接`);
+      throw new Error(`代理 ${proxyId} 未连接`);
+    }
+
+    const { transferId } = transfer;
+    const maxWaitTime = transfer.timeout || 30000;
+    const eventName = `file_transfer_result_${transferId}`;
+
+    return new Promise((resolve, reject) => {
+      const listener = (result: any) => {
+        clearTimeout(timeoutId);
+        if (
+          typeof result === 'object' &&
+          result !== null &&
+          typeof result.success === 'boolean'
+        ) {
+          resolve(result);
+        } else {
+          this.logger.error(
+            `[sendFileTransfer] 文件传输 ${transferId} 返回的结果格式不正确`,
+          );
+          reject(new Error('文件传输返回结果格式不正确'));
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        this.eventEmitter.off(eventName, listener);
+        reject(new Error(`文件传输超时 (${maxWaitTime}ms)`));
+      }, maxWaitTime);
+
+      this.eventEmitter.once(eventName, listener);
+
+      client.emit('transfer_file', transfer, (ack) => {
+        if (ack && ack.error) {
+          this.logger.error(
+            `[sendFileTransfer] 代理 ${proxyId} 确认接收文件传输 ${transferId} 时出错: ${ack.error}`,
+          );
+          clearTimeout(timeoutId);
+          this.eventEmitter.off(eventName, listener);
+          reject(new Error(`代理端传输文件出错: ${ack.error}`));
+        }
+      });
+    });
+  }
+
+  // 请求代理打开交互式终端（PTY），代理确认打开后返回用于输入、调整窗口大小和关闭的句柄
+  // 终端输出和关闭通知通过回调传递，关闭回调只会调用一次
+  async openTerminal(
+    proxyId: string,
+    options: {
+      terminalId: string;
+      [key: string]: any; // 连接参数、终端类型和窗口大小
+    },
+    handlers: {
+      onOutput: (data: string) => void;
+      onClose: (reason?: string) => void;
+    },
+  ): Promise<ProxyTerminal> {
+    const client = this.proxyClients.get(proxyId);
+    if (!client) {
+      this.logger.error(`[openTerminal] 代理 ${proxyId} 未连接`);
+      throw new Error(`代理 ${proxyId} 未连接`);
+    }
+
+    const { terminalId } = options;
+    const openedEvent = `terminal_opened_${terminalId}`;
+    const outputEvent = `terminal_output_${terminalId}`;
+    const closedEvent = `terminal_closed_${terminalId}`;
+
+    // 终端打开前收到的输出和关闭通知先缓存，返回句柄后再依次传递给回调
+    let pending: (() => void)[] | undefined = [];
+    // 等待打开期间终端被关闭时使打开失败
+    let failOpen: ((error: Error) => void) | undefined;
+    const deliver = (callback: () => void) => {
+      if (pending) {
+        pending.push(callback);
+      } else {
+        callback();
+      }
+    };
+
+    const outputListener = (data: string) =>
+      deliver(() => handlers.onOutput(data));
+    const closedListener = (payload: { reason?: string }) => {
+      cleanup();
+      if (failOpen) {
+        failOpen(new Error(payload?.reason || '终端在打开前已关闭'));
+        return;
+      }
+      deliver(() => handlers.onClose(payload?.reason));
+    };
+    const cleanup = () => {
+      this.proxyTerminals.delete(terminalId);
+      this.eventEmitter.off(outputEvent, outputListener);
+      this.eventEmitter.off(closedEvent, closedListener);
+    };
+
+    // 在请求打开之前注册监听，避免漏掉紧随 terminal_opened 的输出或关闭通知
+    this.proxyTerminals.set(terminalId, proxyId);
+    this.eventEmitter.on(outputEvent, outputListener);
+    this.eventEmitter.on(closedEvent, closedListener);
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const fail = (error: Error) => {
+          clearTimeout(timeoutId);
+          this.eventEmitter.off(openedEvent, listener);
+          reject(error);
+        };
+        failOpen = fail;
+
+        const listener = (result: { success: boolean; error?: string }) => {
+          clearTimeout(timeoutId);
+          if (result.success) {
+            // 之后的关闭通知交给 onClose 回调
+            failOpen = undefined;
+            resolve();
+          } else {
+            reject(new Error(result.error || '代理打开终端失败'));
+          }
+        };
+
+        const timeoutId = setTimeout(() => {
+          client.emit('close_terminal', { terminalId });
+          fail(new Error(`代理打开终端超时 (${TERMINAL_OPEN_TIMEOUT_MS}ms)`));
+        }, TERMINAL_OPEN_TIMEOUT_MS);
+
+        this.eventEmitter.once(openedEvent, listener);
+
+        client.emit('open_terminal', options, (ack) => {
+          if (ack && ack.error) {
+            this.logger.error(
+              `[openTerminal] 代理 ${proxyId} 确认打开终端 ${terminalId} 时出错: ${ack.error}`,
+            );
+            fail(new Error(`代理端打开终端出错: ${ack.error}`));
+          }
+        });
+      });
+    } catch (error) {
+      cleanup();
+      throw error;
+    } finally {
+      failOpen = undefined;
+    }
+
+    // 调用方拿到句柄并登记会话后，再传递打开期间缓存的事件
+    setImmediate(() => {
+      const callbacks = pending ?? [];
+      pending = undefined;
+      callbacks.forEach((callback) => callback());
+    });
+
+    return {
+      write: (data) => client.emit('terminal_input', { terminalId, data }),
+      resize: (cols, rows) =>
+        client.emit('resize_terminal', { terminalId, cols, rows }),
+      close: () => {
+        if (!this.proxyTerminals.has(terminalId)) return;
+        client.emit('close_terminal', { terminalId });
+        closedListener({ reason: '终端已关闭' });
+      },
+    };
+  }
+
   // 检查代理是否在线
   isProxyOnline(proxyId: string): boolean {
     return this.proxyClients.has(proxyId);
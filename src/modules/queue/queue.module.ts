@@ -2,6 +2,7 @@ import { Module, forwardRef } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule'; // Import ScheduleModule
 import { SshModule } from '../ssh/ssh.module';
 import { TasksModule } from '../tasks/tasks.module';
+import { ExecutionOutputModule } from '../execution-output/execution-output.module';
 import { PrismaModule } from '../../prisma/prisma.module'; // Import PrismaModule if not already globally available
 
 // Import new services
@@ -10,6 +11,7 @@ import { QueueProcessorService } from './services/queue-processor.service';
 import { TaskExecutorService } from './services/task-executor.service';
 import { QueueCacheService } from './services/queue-cache.service';
 import { QueueStatsService } from './services/queue-stats.service';
+import { ExecutionControlService } from './services/execution-control.service';
 
 // Remove old service import
 // import { QueueService } from './queue.service';
@@ -20,6 +22,7 @@ import { QueueStatsService } from './services/queue-stats.service';
     ScheduleModule.forRoot(), // Add ScheduleModule for @Interval/SchedulerRegistry
     forwardRef(() => SshModule),
     forwardRef(() => TasksModule),
+    ExecutionOutputModule,
   ],
   providers: [
     // Add new services
@@ -28,12 +31,14 @@ import { QueueStatsService } from './services/queue-stats.service';
     TaskExecutorService,
     QueueCacheService,
     QueueStatsService,
+    ExecutionControlService,
     // Remove old service: QueueService
   ],
   exports: [
     // Export services needed by other modules (e.g., controllers)
     QueueManagerService, // For enqueue, cancel
     QueueStatsService, // For getQueueStatus
+    ExecutionControlService, // For cancelling in-flight executions
     // QueueProcessorService, // Likely internal
     // TaskExecutorService,   // Likely internal
     // QueueCacheService,     // Likely internal
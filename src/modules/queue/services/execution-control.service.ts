@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+/**
+ * Tracks abort controllers for in-flight queue items and their executions,
+ * so cancellation requests can reach the running commands.
+ */
+@Injectable()
+export class ExecutionControlService {
+  private readonly logger = new Logger(ExecutionControlService.name);
+
+  private readonly queueControllers = new Map<number, AbortController>();
+  private readonly executionControllers = new Map<
+    number,
+    { queueId: number; controller: AbortController }
+  >();
+
+  /**
+   * Registers a queue item that started processing.
+   * @returns The signal that is aborted when the whole queue item is cancelled.
+   */
+  startQueue(queueId: number): AbortSignal {
+    const controller = new AbortController();
+    this.queueControllers.set(queueId, controller);
+    return controller.signal;
+  }
+
+  /**
+   * Registers an execution belonging to a running queue item.
+   * The execution signal is aborted when either the execution or its queue item is cancelled.
+   */
+  startExecution(executionId: number, queueId: number): AbortSignal {
+    const controller = new AbortController();
+    this.executionControllers.set(executionId, { queueId, controller });
+    if (this.queueControllers.get(queueId)?.signal.aborted) {
+      controller.abort();
+    }
+    return controller.signal;
+  }
+
+  /**
+   * Aborts a single in-flight execution.
+   * @returns true if the execution was running in this process.
+   */
+  abortExecution(executionId: number): boolean {
+    const entry = this.executionControllers.get(executionId);
+    if (!entry) {
+      return false;
+    }
+    entry.controller.abort();
+    this.logger.log(`Abort requested for Execution ID: ${executionId}`);
+    return true;
+  }
+
+  /**
+   * Aborts a queue item and every execution started for it.
+   * @returns true if the queue item was running in this process.
+   */
+  abortQueue(queueId: number): boolean {
+    const controller = this.queueControllers.get(queueId);
+    if (!controller) {
+      return false;
+    }
+    controller.abort();
+    for (const entry of this.executionControllers.values()) {
+      if (entry.queueId === queueId) {
+        entry.controller.abort();
+      }
+    }
+    this.logger.log(`Abort requested for Queue ID: ${queueId}`);
+    return true;
+  }
+
+  /**
+   * Whether an execution was cancelled while it was running.
+   */
+  isExecutionAborted(executionId: number): boolean {
+    return (
+      this.executionControllers.get(executionId)?.controller.signal.aborted ??
+      false
+    );
+  }
+
+  finishExecution(executionId: number): void {
+    this.executionControllers.delete(executionId);
+  }
+
+  finishQueue(queueId: number): void {
+    this.queueControllers.delete(queueId);
+  }
+}
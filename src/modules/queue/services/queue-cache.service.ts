@@ -1,7 +1,7 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { TasksService } from '../../tasks/tasks.service';
 import { QueueStats } from '../types/queue.types';
-import { Task } from '@prisma/client'; // Import Task type
+import { TaskEntity } from '../../tasks/entities/task.entity';
 
 /**
  * Interface for cache entries, storing value and timestamp.
@@ -17,7 +17,7 @@ export class QueueCacheService {
   private readonly logger = new Logger(QueueCacheService.name);
 
   // Cache storage
-  private taskCache = new Map<number, CacheEntry<Task>>(); // Use Task type
+  private taskCache = new Map<number, CacheEntry<TaskEntity>>();
   private queueStatsCache: CacheEntry<QueueStats> | null = null;
 
   // Cache Time-To-Live (TTL) in milliseconds
@@ -35,7 +35,7 @@ export class QueueCacheService {
    * @param taskId The ID of the task to retrieve.
    * @returns The Task object or null if not found.
    */
-  async getTask(taskId: number): Promise<Task | null> {
+  async getTask(taskId: number): Promise<TaskEntity | null> {
     const now = Date.now();
     const cachedEntry = this.taskCache.get(taskId);
 
@@ -1,6 +1,14 @@
-import { Injectable, Logger, OnModuleInit } from '@nestjs/common'; // Add OnModuleInit
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { QueueCacheService } from './queue-cache.service'; // Add QueueCacheService import
+import { ExecutionControlService } from './execution-control.service';
+import { EnqueueOptions, RolloutProgress } from '../types/queue.types';
 
 @Injectable()
 export class QueueManagerService implements OnModuleInit {
@@ -10,6 +18,7 @@ export class QueueManagerService implements OnModuleInit {
   constructor(
     private readonly prisma: PrismaService,
     private readonly cacheService: QueueCacheService, // Inject QueueCacheService
+    private readonly executionControl: ExecutionControlService,
   ) {}
 
   async onModuleInit() {
@@ -24,11 +33,17 @@ export class QueueManagerService implements OnModuleInit {
     taskId: number,
     serverIds: number[],
     priority: number = 0,
+    params?: Record<string, string | number>,
+    options: EnqueueOptions = {},
   ): Promise<number> {
     const queue = await this.prisma.queue.create({
       data: {
         taskId,
         serverIds: serverIds.join(','),
+        params: params ? JSON.stringify(params) : null,
+        target: options.target ? JSON.stringify(options.target) : null,
+        rollout: options.rollout ? JSON.stringify(options.rollout) : null,
+        dependsOnQueueId: options.dependsOnQueueId,
         priority,
         status: 'waiting',
       },
@@ -41,16 +56,51 @@ export class QueueManagerService implements OnModuleInit {
 
   /**
    * Cancels a task in the queue.
+   * Waiting items are simply marked as cancelled; processing items also have
+   * their in-flight commands aborted and running executions marked as cancelled.
    */
   async cancel(queueId: number): Promise<void> {
+    const queue = await this.prisma.queue.findUnique({
+      where: { id: queueId },
+    });
+    if (!queue) {
+      throw new NotFoundException(`队列ID ${queueId} 不存在`);
+    }
+    if (queue.status !== 'waiting' && queue.status !== 'processing') {
+      throw new BadRequestException(
+        `无法取消状态为 ${queue.status} 的队列任务`,
+      );
+    }
+
     await this.prisma.queue.update({
       where: { id: queueId },
-      data: { status: 'cancelled' },
+      data: { status: 'cancelled', completedAt: new Date() },
     });
+
+    if (queue.status === 'processing') {
+      this.executionControl.abortQueue(queueId);
+      // Executions of later rollout batches are still queued
+      await this.prisma.taskExecution.updateMany({
+        where: { queueId, status: { in: ['queued', 'running'] } },
+        data: { status: 'cancelled', completedAt: new Date() },
+      });
+    }
+
     this.logger.log(`Queue task ${queueId} cancelled`);
     this.cacheService.invalidateStatsCache(); // Invalidate cache
   }
 
+  /**
+   * Whether a queue item has been cancelled.
+   */
+  async isCancelled(queueId: number): Promise<boolean> {
+    const queue = await this.prisma.queue.findUnique({
+      where: { id: queueId },
+      select: { status: true },
+    });
+    return queue?.status === 'cancelled';
+  }
+
   /**
    * Updates the status of a specific queue item.
    */
@@ -67,21 +117,35 @@ export class QueueManagerService implements OnModuleInit {
       data.startedAt = new Date(); // Set startedAt when status becomes processing
     }
 
-    await this.prisma.queue.update({
-      where: { id: queueId },
+    // A cancelled queue item keeps its status
+    await this.prisma.queue.updateMany({
+      where: { id: queueId, status: { not: 'cancelled' } },
       data,
     });
     this.logger.debug(`Queue task ${queueId} status updated to ${status}`);
     this.cacheService.invalidateStatsCache(); // Invalidate cache
   }
 
+  /**
+   * Records the rollout progress of a queue item.
+   */
+  async updateProgress(
+    queueId: number,
+    progress: RolloutProgress,
+  ): Promise<void> {
+    await this.prisma.queue.update({
+      where: { id: queueId },
+      data: { progress: JSON.stringify(progress) },
+    });
+  }
+
   /**
    * Marks a batch of tasks as 'processing'.
    */
   async markTasksAsProcessing(queueIds: number[]): Promise<void> {
     if (queueIds.length === 0) return;
     await this.prisma.queue.updateMany({
-      where: { id: { in: queueIds } },
+      where: { id: { in: queueIds }, status: 'waiting' },
       data: {
         status: 'processing',
         startedAt: new Date(),
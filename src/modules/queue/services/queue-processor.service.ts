@@ -96,11 +96,18 @@ export class QueueProcessorService {
 
   /**
    * Fetches waiting tasks from the database.
+   * Tasks whose dependency is still waiting or processing are held back.
    * Migrated from old QueueService.
    */
   private async fetchWaitingTasks(limit: number): Promise<Queue[]> {
     return this.prisma.queue.findMany({
-      where: { status: 'waiting' },
+      where: {
+        status: 'waiting',
+        OR: [
+          { dependsOnQueueId: null },
+          { dependsOn: { status: { notIn: ['waiting', 'processing'] } } },
+        ],
+      },
       orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
       take: limit,
     });
@@ -135,6 +142,8 @@ export class QueueProcessorService {
           queueTask.id,
           queueTask.taskId,
           queueTask.serverIds.split(',').map(Number),
+          queueTask.params ? JSON.parse(queueTask.params) : {},
+          queueTask.rollout ? JSON.parse(queueTask.rollout) : undefined,
         )
         .catch((error) => {
           // Error should be logged within executeTask, but log context here too
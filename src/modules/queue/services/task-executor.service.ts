@@ -3,8 +3,17 @@ import { PrismaService } from '../../../prisma/prisma.service';
 import { SshService } from '../../ssh/ssh.service';
 import { QueueCacheService } from './queue-cache.service';
 import { QueueManagerService } from './queue-manager.service';
-import { Task, TaskExecution } from '@prisma/client'; // Import Prisma types
+import { TaskExecution } from '@prisma/client'; // Import Prisma types
 import { CommandResult } from '../../ssh/types/ssh.types'; // Import CommandResult type
+import { TaskEntity } from '../../tasks/entities/task.entity';
+import { ExecutionOutputService } from '../../execution-output/execution-output.service';
+import { ExecutionControlService } from './execution-control.service';
+import {
+  renderTaskCommand,
+  TaskParameterValues,
+} from '../../tasks/utils/task-template.util';
+import { RolloutProgress, RolloutStrategy } from '../types/queue.types';
+import { CommandExitCode } from '../../../common';
 
 // Interface for the result of executeCommandsOnServers to include execution context
 interface ExecutionCommandResult extends CommandResult {
@@ -22,6 +31,8 @@ export class TaskExecutorService {
     private readonly sshService: SshService,
     private readonly cacheService: QueueCacheService,
     private readonly queueManager: QueueManagerService,
+    private readonly executionOutput: ExecutionOutputService,
+    private readonly executionControl: ExecutionControlService,
   ) {}
 
   /**
@@ -32,13 +43,24 @@ export class TaskExecutorService {
     queueId: number,
     taskId: number,
     serverIds: number[],
+    params: TaskParameterValues = {},
+    rollout?: RolloutStrategy,
   ): Promise<void> {
     this.logger.log(
       `Executing Task ID: ${taskId} (Queue ID: ${queueId}) on servers: [${serverIds.join(', ')}]`,
     );
-    let task: Task | null = null;
+    let task: TaskEntity | null = null;
     let executions: TaskExecution[] = [];
 
+    // The queue item may have been cancelled after it was picked up
+    if (await this.queueManager.isCancelled(queueId)) {
+      this.logger.log(
+        `Skipping Task ID: ${taskId} (Queue ID: ${queueId}) because the queue item was cancelled`,
+      );
+      return;
+    }
+    const queueSignal = this.executionControl.startQueue(queueId);
+
     try {
       // 1. Get Task Details (using cache)
       task = await this.getTaskDetails(taskId);
@@ -48,7 +70,13 @@ export class TaskExecutorService {
       }
 
       // 2. Create TaskExecution records for each server
-      executions = await this.createExecutionRecords(taskId, serverIds);
+      // With a rollout strategy, executions wait as 'queued' until their batch starts
+      executions = await this.createExecutionRecords(
+        taskId,
+        serverIds,
+        queueId,
+        rollout ? 'queued' : 'running',
+      );
       if (executions.length !== serverIds.length) {
         this.logger.warn(
           `Mismatch between requested servers (${serverIds.length}) and created executions (${executions.length}) for Task ID ${taskId}`,
@@ -61,22 +89,38 @@ export class TaskExecutorService {
         );
       }
 
-      // 3. Execute commands concurrently on all servers
-      const executionResults = await this.executeCommandsOnServers(
-        executions,
-        task,
-      );
-
+      // 3. Execute commands, either concurrently on all servers or batch by batch
       // 4. Process results and update TaskExecution records
-      await this.processExecutionResults(executionResults);
+      let halted = false;
+      if (rollout) {
+        halted = await this.executeRollout(
+          queueId,
+          executions,
+          task,
+          params,
+          rollout,
+          queueSignal,
+        );
+      } else {
+        const executionResults = await this.executeCommandsOnServers(
+          executions,
+          task,
+          params,
+        );
+        await this.processExecutionResults(executionResults);
+      }
 
-      // 5. Update overall Queue status to 'completed'
-      // Check if any execution failed to determine overall status?
-      // For now, assume completion if the process didn't throw an error before this point.
-      // A more robust approach might check individual execution statuses.
-      await this.queueManager.updateQueueStatus(queueId, 'completed');
+      // 5. Update overall Queue status (a cancelled queue item keeps its status)
+      // A rollout halted by its failure threshold fails the queue item.
+      // Otherwise, assume completion if the process didn't throw an error before this point.
+      await this.queueManager.updateQueueStatus(
+        queueId,
+        halted ? 'failed' : 'completed',
+      );
       this.logger.log(
-        `Successfully completed Task ID: ${taskId} (Queue ID: ${queueId})`,
+        halted
+          ? `Rollout halted for Task ID: ${taskId} (Queue ID: ${queueId})`
+          : `Successfully completed Task ID: ${taskId} (Queue ID: ${queueId})`,
       );
     } catch (error) {
       this.logger.error(
@@ -93,35 +137,204 @@ export class TaskExecutorService {
       ) {
         const executionIds = executions.map((ex) => ex.id);
         await this.prisma.taskExecution.updateMany({
-          where: { id: { in: executionIds }, status: 'running' }, // Only update those still marked as running
+          where: {
+            id: { in: executionIds },
+            status: { in: ['queued', 'running'] },
+          }, // Only update those not finished yet
           data: {
             status: 'failed',
             output: `Execution failed due to error: ${error.message}`,
             completedAt: new Date(),
           },
         });
+        // Close any output streams that are still open
+        for (const executionId of executionIds) {
+          if (this.executionOutput.getSnapshot(executionId)) {
+            this.executionOutput.finish(executionId, 'failed', null);
+          }
+          this.executionControl.finishExecution(executionId);
+        }
       }
       // Rethrow the error so the QueueProcessorService promise chain can catch it
       throw error;
+    } finally {
+      this.executionControl.finishQueue(queueId);
     }
   }
 
   /**
    * Gets task details, utilizing the cache service.
    */
-  private async getTaskDetails(taskId: number): Promise<Task | null> {
+  private async getTaskDetails(taskId: number): Promise<TaskEntity | null> {
     this.logger.debug(`Getting details for Task ID: ${taskId}`);
     const task = await this.cacheService.getTask(taskId);
     return task; // cacheService handles fetching if not cached
   }
 
   /**
-   * Creates initial TaskExecution records in 'running' state.
+   * Runs the executions batch by batch according to the rollout strategy.
+   * Progress is recorded on the queue item after every batch. Once the number
+   * of failed executions exceeds the failure threshold, the remaining batches
+   * are not started and their executions are marked as 'cancelled'.
+   * @returns true if the rollout was halted by the failure threshold.
+   */
+  private async executeRollout(
+    queueId: number,
+    executions: TaskExecution[],
+    task: TaskEntity,
+    params: TaskParameterValues,
+    rollout: RolloutStrategy,
+    queueSignal: AbortSignal,
+  ): Promise<boolean> {
+    const batches = this.splitIntoBatches(executions, rollout);
+    const progress: RolloutProgress = {
+      totalBatches: batches.length,
+      currentBatch: 0,
+      failedExecutions: 0,
+      halted: false,
+      batches: batches.map((batch, index) => ({
+        batch: index + 1,
+        serverIds: batch.map((execution) => execution.serverId),
+        status: 'pending',
+        completed: 0,
+        failed: 0,
+      })),
+    };
+    await this.queueManager.updateProgress(queueId, progress);
+    this.logger.log(
+      `Rolling out Task ID: ${task.id} (Queue ID: ${queueId}) in ${batches.length} batches`,
+    );
+
+    for (const [index, batch] of batches.entries()) {
+      if (queueSignal.aborted) {
+        break;
+      }
+      const batchProgress = progress.batches[index];
+      progress.currentBatch = batchProgress.batch;
+      batchProgress.status = 'running';
+      await this.queueManager.updateProgress(queueId, progress);
+
+      // Executions cancelled individually while waiting are skipped
+      const batchIds = batch.map((execution) => execution.id);
+      await this.prisma.taskExecution.updateMany({
+        where: { id: { in: batchIds }, status: 'queued' },
+        data: { status: 'running', startedAt: new Date() },
+      });
+      const runnable = await this.prisma.taskExecution.findMany({
+        where: { id: { in: batchIds }, status: 'running' },
+      });
+
+      const results = await this.executeCommandsOnServers(
+        runnable,
+        task,
+        params,
+      );
+      await this.processExecutionResults(results);
+
+      const finished = await this.prisma.taskExecution.findMany({
+        where: { id: { in: batchIds } },
+        select: { status: true },
+      });
+      batchProgress.completed = finished.filter(
+        (execution) => execution.status === 'completed',
+      ).length;
+      batchProgress.failed = finished.filter(
+        (execution) =>
+          execution.status === 'failed' || execution.status === 'timeout',
+      ).length;
+      batchProgress.status = 'completed';
+      progress.failedExecutions += batchProgress.failed;
+
+      const remaining = batches.slice(index + 1);
+      if (
+        rollout.failureThreshold !== undefined &&
+        progress.failedExecutions > rollout.failureThreshold &&
+        remaining.length > 0
+      ) {
+        progress.halted = true;
+        progress.haltReason = `${progress.failedExecutions} failed executions exceeded the failure threshold of ${rollout.failureThreshold} after batch ${batchProgress.batch}`;
+        this.logger.warn(
+          `Halting rollout of Task ID: ${task.id} (Queue ID: ${queueId}): ${progress.haltReason}`,
+        );
+        await this.prisma.taskExecution.updateMany({
+          where: {
+            id: { in: remaining.flat().map((execution) => execution.id) },
+            status: 'queued',
+          },
+          data: {
+            status: 'cancelled',
+            output: `Rollout halted: ${progress.haltReason}`,
+            completedAt: new Date(),
+          },
+        });
+        break;
+      }
+
+      await this.queueManager.updateProgress(queueId, progress);
+      if (rollout.pauseSeconds && remaining.length > 0) {
+        await this.pauseBetweenBatches(rollout.pauseSeconds, queueSignal);
+      }
+    }
+
+    // Batches that never started were cancelled, either by the halt or by the user
+    for (const batchProgress of progress.batches) {
+      if (batchProgress.status === 'pending') {
+        batchProgress.status = 'cancelled';
+      }
+    }
+    await this.queueManager.updateProgress(queueId, progress);
+    return progress.halted;
+  }
+
+  /**
+   * Splits executions into batches by batch size or percentage of servers.
+   */
+  private splitIntoBatches(
+    executions: TaskExecution[],
+    rollout: RolloutStrategy,
+  ): TaskExecution[][] {
+    const batchSize = Math.max(
+      1,
+      rollout.batchSize ??
+        (rollout.batchPercent
+          ? Math.ceil((executions.length * rollout.batchPercent) / 100)
+          : executions.length),
+    );
+    const batches: TaskExecution[][] = [];
+    for (let i = 0; i < executions.length; i += batchSize) {
+      batches.push(executions.slice(i, i + batchSize));
+    }
+    return batches;
+  }
+
+  /**
+   * Waits between batches; cancelling the queue item ends the pause early.
+   */
+  private pauseBetweenBatches(
+    seconds: number,
+    signal: AbortSignal,
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, seconds * 1000);
+      signal.addEventListener('abort', done);
+    });
+  }
+
+  /**
+   * Creates initial TaskExecution records, in 'running' state unless they
+   * have to wait for a later rollout batch.
    * Migrated from old QueueService.
    */
   private async createExecutionRecords(
     taskId: number,
     serverIds: number[],
+    queueId: number,
+    status: 'queued' | 'running' = 'running',
   ): Promise<TaskExecution[]> {
     this.logger.debug(
       `Creating execution records for Task ID: ${taskId} on servers: [${serverIds.join(', ')}]`,
@@ -133,8 +346,9 @@ export class TaskExecutorService {
             data: {
               taskId,
               serverId,
-              status: 'running', // Start as running
-              startedAt: new Date(),
+              queueId,
+              status,
+              startedAt: status === 'running' ? new Date() : null,
             },
           }),
         ),
@@ -155,22 +369,74 @@ export class TaskExecutorService {
 
   /**
    * Executes the task's command on all specified servers via SSH.
+   * The command template is rendered per server (parameters plus server built-ins)
+   * and the rendered command is stored on the execution record before it runs.
    * Migrated from old QueueService.
    */
   private async executeCommandsOnServers(
     executions: TaskExecution[],
-    task: Task,
+    task: TaskEntity,
+    params: TaskParameterValues,
   ): Promise<PromiseSettledResult<ExecutionCommandResult>[]> {
     this.logger.debug(
       `Executing command "${task.command}" for Task ID: ${task.id} on ${executions.length} servers.`,
     );
+    const servers = await this.prisma.server.findMany({
+      where: { id: { in: executions.map((execution) => execution.serverId) } },
+      select: { id: true, name: true, host: true },
+    });
+    const serverMap = new Map(servers.map((server) => [server.id, server]));
+
     const commandPromises = executions.map(async (execution) => {
       const serverId = execution.serverId;
       try {
+        const server = serverMap.get(serverId);
+        if (!server) {
+          throw new NotFoundException(`Server with ID ${serverId} not found.`);
+        }
+        const command = renderTaskCommand(task.command, params, server);
+        await this.prisma.taskExecution.update({
+          where: { id: execution.id },
+          data: { renderedCommand: command },
+        });
+
+        // Register the execution so cancellation can reach the running command
+        const signal = this.executionControl.startExecution(
+          execution.id,
+          execution.queueId as number,
+        );
+
+        // A cancel request that arrived before registration only updated the row
+        const current = await this.prisma.taskExecution.findUnique({
+          where: { id: execution.id },
+          select: { status: true },
+        });
+        if (current?.status === 'cancelled') {
+          this.executionControl.abortExecution(execution.id);
+          this.logger.log(
+            `Execution ID: ${execution.id} was cancelled before its command started`,
+          );
+          return {
+            executionId: execution.id,
+            success: true,
+            stdout: '',
+            stderr: '',
+            exitCode: CommandExitCode.CANCELLED,
+            cancelled: true,
+          };
+        }
+
+        // Stream output chunks to live subscribers while the command runs
+        this.executionOutput.start(execution.id);
         const result = await this.sshService.executeCommand(
           serverId,
-          task.command,
+          command,
           task.timeout || undefined, // Use task timeout if available
+          {
+            onOutput: (stream, data) =>
+              this.executionOutput.append(execution.id, stream, data),
+            signal,
+          },
         );
         this.logger.debug(
           `Command executed on Server ID: ${serverId} for Execution ID: ${execution.id} (Exit Code: ${result.exitCode})`,
@@ -242,12 +508,21 @@ export class TaskExecutorService {
     executionId: number,
     result: CommandResult,
   ): Promise<void> {
-    const status = result.exitCode === 0 ? 'completed' : 'failed';
+    const cancelled =
+      result.cancelled || this.executionControl.isExecutionAborted(executionId);
+    const status = cancelled
+      ? 'cancelled'
+      : result.timedOut
+        ? 'timeout'
+        : result.exitCode === 0
+          ? 'completed'
+          : 'failed';
     this.logger.debug(
       `Updating successful execution record ID: ${executionId} to status: ${status}`,
     );
-    await this.prisma.taskExecution.update({
-      where: { id: executionId },
+    // Never overwrite a cancellation recorded while the command was running
+    const { count } = await this.prisma.taskExecution.updateMany({
+      where: { id: executionId, status: { notIn: ['cancelled'] } },
       data: {
         status: status,
         output: `stdout: ${result.stdout}\nstderr: ${result.stderr}`,
@@ -255,6 +530,12 @@ export class TaskExecutorService {
         completedAt: new Date(),
       },
     });
+    this.executionOutput.finish(
+      executionId,
+      count > 0 ? status : 'cancelled',
+      result.exitCode,
+    );
+    this.executionControl.finishExecution(executionId);
   }
 
   /**
@@ -266,14 +547,25 @@ export class TaskExecutorService {
     error: any,
   ): Promise<void> {
     this.logger.warn(`Updating failed execution record ID: ${executionId}`);
-    await this.prisma.taskExecution.update({
-      where: { id: executionId },
+    const exitCode = typeof error.exitCode === 'number' ? error.exitCode : -1; // Use exit code from error if available
+    const status = this.executionControl.isExecutionAborted(executionId)
+      ? 'cancelled'
+      : 'failed';
+    // Never overwrite a cancellation recorded while the command was running
+    const { count } = await this.prisma.taskExecution.updateMany({
+      where: { id: executionId, status: { notIn: ['cancelled'] } },
       data: {
-        status: 'failed',
+        status,
         output: error.message || 'Execution failed or promise rejected',
-        exitCode: typeof error.exitCode === 'number' ? error.exitCode : -1, // Use exit code from error if available
+        exitCode,
         completedAt: new Date(),
       },
     });
+    this.executionOutput.finish(
+      executionId,
+      count > 0 ? status : 'cancelled',
+      exitCode,
+    );
+    this.executionControl.finishExecution(executionId);
   }
 }
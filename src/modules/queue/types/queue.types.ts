@@ -13,3 +13,59 @@ export interface QueueStats {
   failed: number;
   cancelled: number;
 }
+
+/**
+ * 入队选项
+ */
+export interface EnqueueOptions {
+  // 分批执行策略
+  rollout?: RolloutStrategy;
+  // 原始执行目标（服务器ID列表、分组或标签选择器），仅用于审计
+  target?: Record<string, unknown>;
+  // 需等待该队列项结束（完成、失败或取消）后才能开始
+  dependsOnQueueId?: number;
+}
+
+/**
+ * 分批执行策略
+ * batchSize 与 batchPercent 只能指定其一，均未指定时所有服务器同时执行
+ */
+export interface RolloutStrategy {
+  batchSize?: number;
+  batchPercent?: number;
+  pauseSeconds?: number;
+  // 允许失败的执行数量，超过后停止后续批次
+  failureThreshold?: number;
+}
+
+/**
+ * 批次状态
+ */
+export type RolloutBatchStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'cancelled';
+
+/**
+ * 单个批次的执行进度
+ */
+export interface RolloutBatchProgress {
+  batch: number;
+  serverIds: number[];
+  status: RolloutBatchStatus;
+  completed: number;
+  failed: number;
+}
+
+/**
+ * 分批执行进度，记录在队列项上
+ */
+export interface RolloutProgress {
+  totalBatches: number;
+  currentBatch: number;
+  failedExecutions: number;
+  halted: boolean;
+  haltReason?: string;
+  batches: RolloutBatchProgress[];
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class AcceptHostKeyDto {
+  @ApiProperty({
+    description: '要接受的主机密钥指纹，必须与待确认的指纹一致',
+    example: 'SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8',
+  })
+  @IsString()
+  @IsNotEmpty()
+  fingerprint: string;
+}
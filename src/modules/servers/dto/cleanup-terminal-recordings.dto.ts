@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * 按会话开始时间清理终端录像，正在录制的会话不会被清理
+ */
+export class CleanupTerminalRecordingsDto {
+  @ApiProperty({ description: '开始日期（包含）', required: false })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  startDate?: Date;
+
+  @ApiProperty({ description: '结束日期（包含）', required: false })
+  @IsOptional()
+  @IsDate()
+  @Type(() => Date)
+  endDate?: Date;
+}
@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CreateServerGroupDto {
+  @ApiProperty({ description: '分组名称' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ description: '分组描述' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({ description: '成员服务器ID列表', type: [Number] })
+  @IsArray()
+  @IsInt({ each: true })
+  @IsOptional()
+  serverIds?: number[];
+}
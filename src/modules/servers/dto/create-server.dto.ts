@@ -8,9 +8,12 @@ import {
   IsIP,
   ValidateIf,
   IsEnum,
+  Matches,
+  IsBoolean,
 } from 'class-validator';
 import { ConnectionType } from '../../../common/constants';
 import { ConnectionTypeType } from '../../../common/constants';
+import { SERVER_TAGS_PATTERN } from '../utils/server-tags.util';
 
 export class CreateServerDto implements Record<string, unknown> {
   // 添加索引签名以满足Record<string, unknown>约束
@@ -29,7 +32,7 @@ export class CreateServerDto implements Record<string, unknown> {
   @IsInt()
   @Min(1)
   @IsOptional()
-  port?: number = 22;
+  port?: number;
 
   @ApiProperty({ description: '用户名' })
   @IsString()
@@ -38,16 +41,56 @@ export class CreateServerDto implements Record<string, unknown> {
 
   @ApiPropertyOptional({ description: '密码（如果使用密码认证）' })
   @IsString()
-  @ValidateIf((o) => !o.privateKey)
+  @ValidateIf((o) => !o.privateKey && !o.useAgent && !o.credentialId)
   @IsNotEmpty()
   password?: string;
 
   @ApiPropertyOptional({ description: '私钥（如果使用密钥认证）' })
   @IsString()
-  @ValidateIf((o) => !o.password)
+  @ValidateIf((o) => !o.password && !o.useAgent && !o.credentialId)
   @IsNotEmpty()
   privateKey?: string;
 
+  @ApiPropertyOptional({
+    description: '私钥密码短语（如果私钥受密码短语保护）',
+  })
+  @IsString()
+  @IsOptional()
+  passphrase?: string;
+
+  @ApiPropertyOptional({
+    description: 'OpenSSH用户证书（*-cert.pub 内容），需与私钥配合使用',
+  })
+  @IsString()
+  @IsOptional()
+  certificate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '引用的共享凭据ID，设置后优先使用共享凭据认证；更新时传null取消引用',
+    type: Number,
+    nullable: true,
+  })
+  @IsInt()
+  @IsOptional()
+  credentialId?: number | null;
+
+  @ApiPropertyOptional({
+    description: '是否使用本机SSH代理（SSH_AUTH_SOCK）认证',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  useAgent?: boolean;
+
+  @ApiPropertyOptional({
+    description: '是否启用keyboard-interactive认证，以密码应答服务器提示',
+    default: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  keyboardInteractive?: boolean;
+
   @ApiPropertyOptional({
     description: '连接类型',
     enum: Object.values(ConnectionType),
@@ -56,7 +99,7 @@ export class CreateServerDto implements Record<string, unknown> {
   })
   @IsEnum(ConnectionType)
   @IsOptional()
-  connectionType?: ConnectionTypeType = ConnectionType.DIRECT;
+  connectionType?: ConnectionTypeType;
 
   @ApiPropertyOptional({
     description: '代理ID（如果通过代理连接）',
@@ -65,4 +108,23 @@ export class CreateServerDto implements Record<string, unknown> {
   @IsOptional()
   @ValidateIf((o) => o.connectionType === ConnectionType.PROXY)
   proxyId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      '跳板机（另一台直接连接的服务器）ID，可多级串联；更新时传null取消跳板机',
+    type: Number,
+    nullable: true,
+  })
+  @IsInt()
+  @IsOptional()
+  jumpHostId?: number | null;
+
+  @ApiPropertyOptional({
+    description: '标签，格式为 key=value,key=value，空字符串表示清空标签',
+    example: 'env=prod,role=db',
+  })
+  @IsString()
+  @Matches(SERVER_TAGS_PATTERN, { message: '标签格式无效' })
+  @IsOptional()
+  tags?: string;
 }
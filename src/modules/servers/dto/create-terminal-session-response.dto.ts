@@ -8,7 +8,8 @@ export class CreateTerminalSessionResponseDto {
   sessionId: string;
 
   @ApiProperty({
-    description: 'The WebSocket URL for connecting to the terminal session.',
+    description:
+      'The WebSocket URL for connecting to the terminal session. Pass the session ID and a JWT of the same user as the `sessionId` and `token` query parameters.',
     example: 'ws://localhost:3000/api/terminal', // Base URL, sessionId will be passed in query or handshake
   })
   webSocketUrl: string;
@@ -1,4 +1,4 @@
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
 import { Type } from 'class-transformer';
 import { IsArray, ValidateNested, ArrayMinSize } from 'class-validator';
 import { CreateServerDto } from './create-server.dto';
@@ -37,12 +37,21 @@ export class ImportServersDto {
   servers: CreateServerDto[];
 }
 
+/**
+ * 导入失败的服务器信息（不包含凭据）
+ */
+export class ImportFailureServerInfoDto extends OmitType(CreateServerDto, [
+  'password',
+  'privateKey',
+  'passphrase',
+] as const) {}
+
 /**
  * 导入失败的服务器信息
  */
 export class ImportFailureServerDto {
-  @ApiProperty({ description: '服务器信息', type: CreateServerDto })
-  server: CreateServerDto;
+  @ApiProperty({ description: '服务器信息', type: ImportFailureServerInfoDto })
+  server: ImportFailureServerInfoDto;
 
   @ApiProperty({ description: '失败原因' })
   reason: string;
@@ -68,8 +77,8 @@ export class ImportServersResultDto {
         host: '192.168.1.1',
         port: 22,
         username: 'root',
-        password: 'password123',
-        privateKey: null,
+        hasPassword: true,
+        hasPrivateKey: false,
         status: 'unknown',
         lastChecked: null,
         createdAt: '2023-01-01T00:00:00.000Z',
@@ -89,7 +98,6 @@ export class ImportServersResultDto {
           host: '192.168.1.1',
           port: 22,
           username: 'admin',
-          password: 'password123',
         },
         reason: '服务器 192.168.1.1:22 已存在',
       },
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  FileTransferDefaults,
+  RemoteFileEncoding,
+  RemoteFileEncodingType,
+} from '../../../common/constants';
+
+/**
+ * 远程路径查询参数DTO
+ */
+export class RemotePathQueryDto {
+  @ApiProperty({
+    description: '服务器上的绝对路径',
+    example: '/var/log',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\//, { message: '路径必须是绝对路径' })
+  path: string;
+}
+
+/**
+ * 读取远程文件查询参数DTO
+ */
+export class ReadRemoteFileQueryDto extends RemotePathQueryDto {
+  @ApiPropertyOptional({
+    description:
+      '起始偏移（字节），负数表示从文件末尾倒数，例如 -4096 读取最后4KB',
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Type(() => Number)
+  offset?: number;
+
+  @ApiPropertyOptional({
+    description: `读取的最大字节数，不超过 ${FileTransferDefaults.MAX_READ_LENGTH}`,
+    default: FileTransferDefaults.MAX_READ_LENGTH,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(FileTransferDefaults.MAX_READ_LENGTH)
+  @Type(() => Number)
+  length?: number;
+
+  @ApiPropertyOptional({
+    description: '返回内容的编码，二进制文件请使用 base64',
+    enum: Object.values(RemoteFileEncoding),
+    default: RemoteFileEncoding.UTF8,
+  })
+  @IsOptional()
+  @IsEnum(RemoteFileEncoding)
+  encoding?: RemoteFileEncodingType;
+}
@@ -0,0 +1,82 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  RemoteFileEncoding,
+  RemoteFileType,
+  RemoteFileTypeType,
+  RemoteFileEncodingType,
+} from '../../../common/constants';
+
+/**
+ * 远程文件信息DTO
+ */
+export class RemoteFileEntryDto {
+  @ApiProperty({ description: '文件名', example: 'syslog' })
+  name: string;
+
+  @ApiProperty({ description: '绝对路径', example: '/var/log/syslog' })
+  path: string;
+
+  @ApiProperty({
+    description: '文件类型',
+    enum: Object.values(RemoteFileType),
+  })
+  type: RemoteFileTypeType;
+
+  @ApiProperty({ description: '文件大小（字节）' })
+  size: number;
+
+  @ApiProperty({ description: '八进制权限', example: '0644' })
+  mode: string;
+
+  @ApiProperty({ description: '属主用户ID' })
+  uid: number;
+
+  @ApiProperty({ description: '属组ID' })
+  gid: number;
+
+  @ApiProperty({ description: '最后修改时间' })
+  modifiedAt: Date;
+}
+
+/**
+ * 远程目录列表DTO
+ */
+export class RemoteDirectoryListingDto {
+  @ApiProperty({ description: '目录的绝对路径', example: '/var/log' })
+  path: string;
+
+  @ApiProperty({
+    description: '目录中的条目，目录在前，按名称排序',
+    type: [RemoteFileEntryDto],
+  })
+  entries: RemoteFileEntryDto[];
+}
+
+/**
+ * 远程文件内容DTO
+ */
+export class RemoteFileContentDto {
+  @ApiProperty({ description: '文件的绝对路径' })
+  path: string;
+
+  @ApiProperty({ description: '文件总大小（字节）' })
+  size: number;
+
+  @ApiProperty({ description: '本次读取的起始偏移（字节）' })
+  offset: number;
+
+  @ApiProperty({ description: '本次读取的字节数' })
+  length: number;
+
+  @ApiProperty({ description: '是否已读到文件末尾' })
+  eof: boolean;
+
+  @ApiProperty({
+    description: '内容的编码',
+    enum: Object.values(RemoteFileEncoding),
+  })
+  encoding: RemoteFileEncodingType;
+
+  @ApiProperty({ description: '文件内容' })
+  content: string;
+}
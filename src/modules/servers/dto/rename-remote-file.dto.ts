@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/**
+ * 重命名远程文件DTO
+ */
+export class RenameRemoteFileDto {
+  @ApiProperty({ description: '原绝对路径', example: '/etc/app.conf' })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\//, { message: '路径必须是绝对路径' })
+  from: string;
+
+  @ApiProperty({
+    description: '新绝对路径，目标已存在时失败',
+    example: '/etc/app.conf.bak',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\//, { message: '路径必须是绝对路径' })
+  to: string;
+}
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsInt } from 'class-validator';
+
+export class ServerGroupMembersDto {
+  @ApiProperty({ description: '服务器ID列表', type: [Number] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  serverIds: number[];
+}
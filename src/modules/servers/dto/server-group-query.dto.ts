@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+
+/**
+ * 服务器分组查询参数DTO
+ * 用于接收和验证服务器分组查询参数
+ */
+export class ServerGroupQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '分组名称（模糊匹配）' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+}
@@ -1,11 +1,20 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
-import { IsOptional, IsString, IsEnum } from 'class-validator';
+import {
+  IsOptional,
+  IsString,
+  IsEnum,
+  IsInt,
+  IsPositive,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
 import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
 import { ServerStatus, ConnectionType } from '../../../common/constants';
 import {
   ServerStatusType,
   ConnectionTypeType,
 } from '../../../common/constants';
+import { TAG_SELECTOR_PATTERN } from '../utils/server-tags.util';
 
 /**
  * 服务器查询参数DTO
@@ -52,4 +61,20 @@ export class ServerQueryDto
   @IsOptional()
   @IsEnum(ConnectionType)
   connectionType?: ConnectionTypeType;
+
+  @ApiPropertyOptional({ description: '服务器分组ID' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  groupId?: number;
+
+  @ApiPropertyOptional({
+    description: '标签选择器，多个条件需同时满足；只写键表示存在该标签即可',
+    example: 'env=prod,role=db',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(TAG_SELECTOR_PATTERN, { message: '标签选择器格式无效' })
+  tag?: string;
 }
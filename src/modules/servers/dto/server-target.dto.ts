@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { TAG_SELECTOR_PATTERN } from '../utils/server-tags.util';
+
+/**
+ * 服务器目标DTO
+ * 可同时指定服务器ID列表、服务器分组和标签选择器，目标服务器为三者的并集
+ */
+export class ServerTargetDto {
+  @ApiPropertyOptional({ description: '服务器ID列表', type: [Number] })
+  @IsArray()
+  @IsInt({ each: true })
+  @IsOptional()
+  serverIds?: number[];
+
+  @ApiPropertyOptional({ description: '服务器分组ID' })
+  @IsInt()
+  @IsPositive()
+  @IsOptional()
+  groupId?: number;
+
+  @ApiPropertyOptional({
+    description: '标签选择器，多个条件需同时满足；只写键表示存在该标签即可',
+    example: 'env=prod,role=db',
+  })
+  @IsString()
+  @Matches(TAG_SELECTOR_PATTERN, { message: '标签选择器格式无效' })
+  @IsOptional()
+  tagSelector?: string;
+}
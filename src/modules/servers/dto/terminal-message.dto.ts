@@ -6,6 +6,7 @@ export enum TerminalMessageType {
   CLOSE = 'close',
   ERROR = 'error', // Added for error reporting
   RESIZE = 'resize', // Added for terminal resize events
+  PARTICIPANTS = 'participants', // Sent to all clients when viewers join, leave or change access
 }
 
 export class TerminalMessageDto {
@@ -0,0 +1,32 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TerminalParticipantDto {
+  @ApiProperty({
+    description:
+      'The participant identifier. For the owner this is the session ID, for viewers the token they joined with.',
+    example: 'a1b2c3d4-e5f6-7890-g1h2-i3j4k5l6m7n8',
+  })
+  participantId: string;
+
+  @ApiProperty({
+    description: 'Whether the participant created the session.',
+    example: false,
+  })
+  owner: boolean;
+
+  @ApiPropertyOptional({ description: 'The user ID of the participant.' })
+  userId?: number;
+
+  @ApiPropertyOptional({ description: 'The username of the participant.' })
+  username?: string;
+
+  @ApiProperty({
+    description:
+      'Whether input from the participant is forwarded to the shell.',
+    example: false,
+  })
+  canInput: boolean;
+
+  @ApiProperty({ description: 'When the participant joined the session.' })
+  joinedAt: Date;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TerminalRecordingCleanupResultDto {
+  @ApiProperty({ description: '已删除的录像数量' })
+  deletedCount: number;
+
+  @ApiProperty({ description: '清理操作是否成功' })
+  success: boolean;
+
+  @ApiProperty({ description: '清理操作的消息' })
+  message: string;
+}
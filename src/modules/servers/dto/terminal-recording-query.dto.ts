@@ -0,0 +1,35 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsOptional, IsPositive } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import {
+  TerminalRecordingStatus,
+  TerminalRecordingStatusType,
+} from '../../../common/constants';
+
+/**
+ * 终端录像查询参数DTO
+ */
+export class TerminalRecordingQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '服务器ID（精确匹配）' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  serverId?: number;
+
+  @ApiPropertyOptional({ description: '用户ID（精确匹配）' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  userId?: number;
+
+  @ApiPropertyOptional({
+    description: '录像状态',
+    enum: Object.values(TerminalRecordingStatus),
+  })
+  @IsOptional()
+  @IsEnum(TerminalRecordingStatus)
+  status?: TerminalRecordingStatusType;
+}
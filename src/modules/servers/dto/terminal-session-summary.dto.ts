@@ -0,0 +1,33 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class TerminalSessionSummaryDto {
+  @ApiProperty({
+    description: 'The unique identifier for the terminal session.',
+    example: 'a1b2c3d4-e5f6-7890-g1h2-i3j4k5l6m7n8',
+  })
+  sessionId: string;
+
+  @ApiProperty({ description: 'The server the session is connected to.' })
+  serverId: number;
+
+  @ApiPropertyOptional({ description: 'The user ID of the session owner.' })
+  userId?: number;
+
+  @ApiPropertyOptional({ description: 'The username of the session owner.' })
+  username?: string;
+
+  @ApiProperty({
+    description: 'How many other users are watching the session.',
+    example: 0,
+  })
+  viewerCount: number;
+
+  @ApiProperty({ description: 'When the session was opened.' })
+  startedAt: Date;
+
+  @ApiProperty({
+    description:
+      'When input or a resize was last received; the idle timeout counts from here.',
+  })
+  lastActivityAt: Date;
+}
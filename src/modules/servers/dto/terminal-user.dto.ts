@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TerminalUserDto {
+  @ApiProperty({ description: '用户ID' })
+  id: number;
+
+  @ApiProperty({ description: '用户名' })
+  username: string;
+
+  @ApiProperty({ description: '角色', example: 'user' })
+  role: string;
+
+  @ApiProperty({ description: '是否启用' })
+  isActive: boolean;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateServerGroupDto } from './create-server-group.dto';
+
+export class UpdateServerGroupDto extends PartialType(CreateServerGroupDto) {}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean } from 'class-validator';
+
+export class UpdateTerminalParticipantDto {
+  @ApiProperty({
+    description: 'Grant (true) or withdraw (false) input for the viewer.',
+    example: true,
+  })
+  @IsBoolean()
+  canInput: boolean;
+}
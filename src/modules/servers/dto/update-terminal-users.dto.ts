@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsInt } from 'class-validator';
+
+export class UpdateTerminalUsersDto {
+  @ApiProperty({
+    description: '允许打开交互式终端的用户ID列表，传空数组表示撤销所有授权',
+    type: [Number],
+  })
+  @IsArray()
+  @IsInt({ each: true })
+  userIds: number[];
+}
@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import {
+  RemoteFileEncoding,
+  RemoteFileEncodingType,
+} from '../../../common/constants';
+import { RemotePathQueryDto } from './remote-file-query.dto';
+
+/**
+ * 写入远程文件DTO
+ * 已存在的文件会被覆盖，并保留原有的权限和属主
+ */
+export class WriteRemoteFileDto extends RemotePathQueryDto {
+  @ApiProperty({ description: '文件内容', example: 'worker_processes auto;\n' })
+  @IsString()
+  content: string;
+
+  @ApiPropertyOptional({
+    description: '内容的编码',
+    enum: Object.values(RemoteFileEncoding),
+    default: RemoteFileEncoding.UTF8,
+  })
+  @IsOptional()
+  @IsEnum(RemoteFileEncoding)
+  encoding?: RemoteFileEncodingType;
+}
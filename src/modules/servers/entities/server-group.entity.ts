@@ -0,0 +1,39 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ServerGroup } from '@prisma/client';
+
+export class ServerGroupMemberEntity {
+  @ApiProperty({ description: '服务器ID' })
+  id: number;
+
+  @ApiProperty({ description: '服务器名称' })
+  name: string;
+
+  @ApiProperty({ description: '服务器主机地址' })
+  host: string;
+
+  @ApiProperty({ description: '服务器状态' })
+  status: string;
+
+  @ApiPropertyOptional({ description: '标签' })
+  tags: string | null;
+}
+
+export class ServerGroupEntity implements ServerGroup {
+  @ApiProperty({ description: '分组ID' })
+  id: number;
+
+  @ApiProperty({ description: '分组名称' })
+  name: string;
+
+  @ApiPropertyOptional({ description: '分组描述' })
+  description: string | null;
+
+  @ApiProperty({ description: '成员服务器', type: [ServerGroupMemberEntity] })
+  servers: ServerGroupMemberEntity[];
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
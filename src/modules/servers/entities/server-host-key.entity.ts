@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Server } from '@prisma/client';
+
+/**
+ * 服务器主机密钥字段
+ */
+export const SERVER_HOST_KEY_FIELDS = [
+  'hostKeyType',
+  'hostKeyFingerprint',
+  'hostKeyPinnedAt',
+  'pendingHostKeyType',
+  'pendingHostKey',
+  'pendingHostKeySeenAt',
+] as const;
+
+export type ServerHostKeyField = (typeof SERVER_HOST_KEY_FIELDS)[number];
+
+export class ServerHostKeyEntity implements Pick<Server, ServerHostKeyField> {
+  @ApiProperty({ description: '服务器ID' })
+  serverId: number;
+
+  @ApiPropertyOptional({ description: '已固定的主机密钥类型' })
+  hostKeyType: string | null;
+
+  @ApiPropertyOptional({
+    description: '已固定的主机密钥指纹（SHA256），为空表示下次连接时记录',
+  })
+  hostKeyFingerprint: string | null;
+
+  @ApiPropertyOptional({ description: '主机密钥固定时间' })
+  hostKeyPinnedAt: Date | null;
+
+  @ApiPropertyOptional({ description: '待确认的主机密钥类型' })
+  pendingHostKeyType: string | null;
+
+  @ApiPropertyOptional({
+    description: '最近一次与记录不一致的主机密钥指纹，等待管理员确认',
+  })
+  pendingHostKey: string | null;
+
+  @ApiPropertyOptional({ description: '最近一次发现不一致主机密钥的时间' })
+  pendingHostKeySeenAt: Date | null;
+}
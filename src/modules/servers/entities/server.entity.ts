@@ -1,12 +1,24 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Server } from '@prisma/client';
+import { ServerHostKeyField } from './server-host-key.entity';
 import { ServerStatus, ConnectionType } from '../../../common/constants';
 import {
   ServerStatusType,
   ConnectionTypeType,
 } from '../../../common/constants';
 
-export class ServerEntity implements Server, Record<string, unknown> {
+export class ServerEntity
+  implements
+    Omit<
+      Server,
+      | 'password'
+      | 'privateKey'
+      | 'passphrase'
+      | 'certificate'
+      | ServerHostKeyField
+    >,
+    Record<string, unknown>
+{
   // 添加索引签名以满足Record<string, unknown>约束
   [key: string]: unknown;
   @ApiProperty({ description: '服务器ID' })
@@ -24,11 +36,26 @@ export class ServerEntity implements Server, Record<string, unknown> {
   @ApiProperty({ description: '用户名' })
   username: string;
 
-  @ApiPropertyOptional({ description: '密码（如果使用密码认证）' })
-  password: string | null;
+  @ApiProperty({ description: '是否已配置密码' })
+  hasPassword: boolean;
 
-  @ApiPropertyOptional({ description: '私钥（如果使用密钥认证）' })
-  privateKey: string | null;
+  @ApiProperty({ description: '是否已配置私钥' })
+  hasPrivateKey: boolean;
+
+  @ApiProperty({ description: '私钥是否配置了密码短语' })
+  hasPassphrase: boolean;
+
+  @ApiProperty({ description: '是否已配置OpenSSH用户证书' })
+  hasCertificate: boolean;
+
+  @ApiPropertyOptional({ description: '引用的共享凭据ID' })
+  credentialId: number | null;
+
+  @ApiProperty({ description: '是否使用本机SSH代理认证' })
+  useAgent: boolean;
+
+  @ApiProperty({ description: '是否启用keyboard-interactive认证' })
+  keyboardInteractive: boolean;
 
   @ApiProperty({
     description: '服务器状态',
@@ -56,4 +83,13 @@ export class ServerEntity implements Server, Record<string, unknown> {
 
   @ApiPropertyOptional({ description: '代理ID（如果通过代理连接）' })
   proxyId: string | null;
+
+  @ApiPropertyOptional({ description: '跳板机ID' })
+  jumpHostId: number | null;
+
+  @ApiPropertyOptional({
+    description: '标签，格式为 key=value,key=value',
+    example: 'env=prod,role=db',
+  })
+  tags: string | null;
 }
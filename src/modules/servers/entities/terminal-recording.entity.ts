@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TerminalRecording } from '@prisma/client';
+import { TerminalRecordingStatus } from '../../../common/constants';
+
+export class TerminalRecordingEntity
+  implements Omit<TerminalRecording, 'storageName'>
+{
+  @ApiProperty({ description: '录像ID' })
+  id: number;
+
+  @ApiProperty({ description: '终端会话ID' })
+  sessionId: string;
+
+  @ApiProperty({ description: '服务器ID' })
+  serverId: number;
+
+  @ApiProperty({ description: '会话开始时的服务器名称' })
+  serverName: string;
+
+  @ApiPropertyOptional({ description: '发起会话的用户ID' })
+  userId: number | null;
+
+  @ApiPropertyOptional({ description: '发起会话的用户名' })
+  username: string | null;
+
+  @ApiProperty({ description: '初始终端列数' })
+  cols: number;
+
+  @ApiProperty({ description: '初始终端行数' })
+  rows: number;
+
+  @ApiProperty({
+    description: '录像状态',
+    enum: Object.values(TerminalRecordingStatus),
+  })
+  status: string;
+
+  @ApiProperty({ description: '录像文件大小（字节），录制结束后更新' })
+  size: number;
+
+  @ApiProperty({ description: '会话开始时间' })
+  startedAt: Date;
+
+  @ApiPropertyOptional({ description: '会话结束时间' })
+  endedAt: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
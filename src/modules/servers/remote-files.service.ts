@@ -0,0 +1,319 @@
+import {
+  BadGatewayException,
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { posix } from 'path';
+import { Attributes, SFTPWrapper, Stats, utils } from 'ssh2';
+import { ServersService } from './servers.service';
+import { SshFileService } from '../ssh/services/ssh-file.service';
+import {
+  RemoteDirectoryListingDto,
+  RemoteFileContentDto,
+  RemoteFileEntryDto,
+} from './dto/remote-file-response.dto';
+import { ReadRemoteFileQueryDto } from './dto/remote-file-query.dto';
+import { WriteRemoteFileDto } from './dto/write-remote-file.dto';
+import { RenameRemoteFileDto } from './dto/rename-remote-file.dto';
+import {
+  FileTransferDefaults,
+  RemoteFileEncoding,
+  RemoteFileType,
+  RemoteFileTypeType,
+} from '../../common/constants';
+
+const { STATUS_CODE } = utils.sftp;
+
+// 文件类型位掩码，与 stat(2) 的 S_IFMT 一致
+const S_IFMT = 0o170000;
+const S_IFREG = 0o100000;
+const S_IFDIR = 0o040000;
+const S_IFLNK = 0o120000;
+
+// 将 ssh2 的回调式SFTP调用包装为 Promise
+function sftpCall<T = void>(
+  executor: (callback: (err?: Error | null, result?: T) => void) => void,
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    executor((err, result) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+      resolve(result as T);
+    });
+  });
+}
+
+/**
+ * 远程文件浏览服务
+ * 通过SFTP列出目录、查看文件信息、分段读取、写入、重命名和删除服务器上的文件
+ */
+@Injectable()
+export class RemoteFilesService {
+  private readonly logger = new Logger(RemoteFilesService.name);
+
+  constructor(
+    private readonly serversService: ServersService,
+    private readonly sshFileService: SshFileService,
+  ) {}
+
+  /**
+   * 列出目录中的条目
+   * @param serverId 服务器ID
+   * @param path 目录的绝对路径
+   * @returns 目录在前、按名称排序的条目
+   */
+  async list(
+    serverId: number,
+    path: string,
+  ): Promise<RemoteDirectoryListingDto> {
+    const dirPath = posix.normalize(path);
+    const list = await this.withSftp(serverId, dirPath, (sftp) =>
+      sftpCall<{ filename: string; attrs: Attributes }[]>((cb) =>
+        sftp.readdir(dirPath, cb),
+      ),
+    );
+
+    const entries = list
+      .map((item) =>
+        this.toEntry(posix.join(dirPath, item.filename), item.attrs),
+      )
+      .sort((a, b) => {
+        const aIsDir = a.type === RemoteFileType.DIRECTORY ? 0 : 1;
+        const bIsDir = b.type === RemoteFileType.DIRECTORY ? 0 : 1;
+        return aIsDir - bIsDir || a.name.localeCompare(b.name);
+      });
+    return { path: dirPath, entries };
+  }
+
+  /**
+   * 查看文件信息，符号链接返回链接本身的信息
+   * @param serverId 服务器ID
+   * @param path 绝对路径
+   */
+  async stat(serverId: number, path: string): Promise<RemoteFileEntryDto> {
+    const filePath = posix.normalize(path);
+    const stats = await this.withSftp(serverId, filePath, (sftp) =>
+      sftpCall<Stats>((cb) => sftp.lstat(filePath, cb)),
+    );
+    return this.toEntry(filePath, stats);
+  }
+
+  /**
+   * 分段读取文件内容
+   * @param serverId 服务器ID
+   * @param query 路径、起始偏移、读取长度和编码
+   * @returns 读取到的内容以及文件大小，可据此继续读取下一段
+   */
+  async read(
+    serverId: number,
+    query: ReadRemoteFileQueryDto,
+  ): Promise<RemoteFileContentDto> {
+    const filePath = posix.normalize(query.path);
+    const encoding = query.encoding ?? RemoteFileEncoding.UTF8;
+    const maxLength = query.length ?? FileTransferDefaults.MAX_READ_LENGTH;
+
+    return this.withSftp(serverId, filePath, async (sftp) => {
+      const handle = await sftpCall<Buffer>((cb) =>
+        sftp.open(filePath, 'r', cb),
+      );
+      try {
+        const stats = await sftpCall<Stats>((cb) => sftp.fstat(handle, cb));
+        if (!stats.isFile()) {
+          throw new BadRequestException(`${filePath} 不是普通文件`);
+        }
+
+        const requested = query.offset ?? 0;
+        // 负数偏移从文件末尾倒数
+        const offset = Math.min(
+          requested < 0 ? Math.max(stats.size + requested, 0) : requested,
+          stats.size,
+        );
+        const buffer = Buffer.alloc(Math.min(maxLength, stats.size - offset));
+
+        let bytesRead = 0;
+        while (bytesRead < buffer.length) {
+          const count = await sftpCall<number>((cb) =>
+            sftp.read(
+              handle,
+              buffer,
+              bytesRead,
+              buffer.length - bytesRead,
+              offset + bytesRead,
+              (err, n) => cb(err, n),
+            ),
+          );
+          if (count === 0) {
+            break;
+          }
+          bytesRead += count;
+        }
+
+        return {
+          path: filePath,
+          size: stats.size,
+          offset,
+          length: bytesRead,
+          eof: offset + bytesRead >= stats.size,
+          encoding,
+          content: buffer.subarray(0, bytesRead).toString(encoding),
+        };
+      } finally {
+        await sftpCall((cb) => sftp.close(handle, cb)).catch(() => undefined);
+      }
+    });
+  }
+
+  /**
+   * 写入文件，已存在的文件会被覆盖并保留原有的权限和属主
+   * @param serverId 服务器ID
+   * @param writeRemoteFileDto 路径、内容和编码
+   * @returns 写入后的文件信息
+   */
+  async write(
+    serverId: number,
+    writeRemoteFileDto: WriteRemoteFileDto,
+  ): Promise<RemoteFileEntryDto> {
+    const filePath = posix.normalize(writeRemoteFileDto.path);
+    const content = Buffer.from(
+      writeRemoteFileDto.content,
+      writeRemoteFileDto.encoding ?? RemoteFileEncoding.UTF8,
+    );
+    if (content.length > FileTransferDefaults.MAX_FILE_SIZE) {
+      throw new BadRequestException(
+        `文件大小超过限制（${FileTransferDefaults.MAX_FILE_SIZE} 字节）`,
+      );
+    }
+
+    const stats = await this.withSftp(serverId, filePath, async (sftp) => {
+      await sftpCall((cb) => sftp.writeFile(filePath, content, cb));
+      return sftpCall<Stats>((cb) => sftp.lstat(filePath, cb));
+    });
+    this.logger.log(
+      `已写入服务器 ${serverId} 的 ${filePath}（${content.length} 字节）`,
+    );
+    return this.toEntry(filePath, stats);
+  }
+
+  /**
+   * 重命名文件或目录，目标已存在时失败
+   * @param serverId 服务器ID
+   * @param renameRemoteFileDto 原路径和新路径
+   * @returns 重命名后的文件信息
+   */
+  async rename(
+    serverId: number,
+    renameRemoteFileDto: RenameRemoteFileDto,
+  ): Promise<RemoteFileEntryDto> {
+    const from = posix.normalize(renameRemoteFileDto.from);
+    const to = posix.normalize(renameRemoteFileDto.to);
+
+    const stats = await this.withSftp(serverId, from, async (sftp) => {
+      const exists = await sftpCall<Stats>((cb) => sftp.lstat(to, cb)).then(
+        () => true,
+        () => false,
+      );
+      if (exists) {
+        throw new BadRequestException(`${to} 已存在`);
+      }
+      await sftpCall((cb) => sftp.rename(from, to, cb));
+      return sftpCall<Stats>((cb) => sftp.lstat(to, cb));
+    });
+    this.logger.log(`已将服务器 ${serverId} 的 ${from} 重命名为 ${to}`);
+    return this.toEntry(to, stats);
+  }
+
+  /**
+   * 删除文件、符号链接或空目录
+   * @param serverId 服务器ID
+   * @param path 绝对路径
+   * @returns 被删除的文件信息
+   */
+  async remove(serverId: number, path: string): Promise<RemoteFileEntryDto> {
+    const filePath = posix.normalize(path);
+    if (filePath === '/') {
+      throw new BadRequestException('不能删除根目录');
+    }
+
+    const stats = await this.withSftp(serverId, filePath, async (sftp) => {
+      const stats = await sftpCall<Stats>((cb) => sftp.lstat(filePath, cb));
+      if (stats.isDirectory()) {
+        await sftpCall((cb) => sftp.rmdir(filePath, cb));
+      } else {
+        await sftpCall((cb) => sftp.unlink(filePath, cb));
+      }
+      return stats;
+    });
+    this.logger.log(`已删除服务器 ${serverId} 的 ${filePath}`);
+    return this.toEntry(filePath, stats);
+  }
+
+  /**
+   * 打开SFTP会话执行操作，并将SFTP错误转换为对应的HTTP异常
+   */
+  private async withSftp<T>(
+    serverId: number,
+    path: string,
+    callback: (sftp: SFTPWrapper) => Promise<T>,
+  ): Promise<T> {
+    const server = await this.serversService.findOne(serverId);
+    if (server.connectionType === 'proxy') {
+      throw new BadRequestException('通过代理连接的服务器暂不支持文件浏览');
+    }
+
+    try {
+      return await this.sshFileService.withSftp(serverId, callback);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      const code = (error as { code?: unknown }).code;
+      const message = error instanceof Error ? error.message : String(error);
+      switch (code) {
+        case STATUS_CODE.NO_SUCH_FILE:
+          throw new NotFoundException(`${path} 不存在`);
+        case STATUS_CODE.PERMISSION_DENIED:
+          throw new ForbiddenException(`没有权限访问 ${path}`);
+        case STATUS_CODE.FAILURE:
+        case STATUS_CODE.OP_UNSUPPORTED:
+          throw new BadRequestException(`操作 ${path} 失败: ${message}`);
+        default:
+          throw new BadGatewayException(`文件操作失败: ${message}`);
+      }
+    }
+  }
+
+  /**
+   * 将SFTP属性转换为文件信息
+   */
+  private toEntry(path: string, attrs: Attributes): RemoteFileEntryDto {
+    return {
+      name: posix.basename(path) || path,
+      path,
+      type: this.fileType(attrs.mode),
+      size: attrs.size,
+      mode: (attrs.mode & 0o7777).toString(8).padStart(4, '0'),
+      uid: attrs.uid,
+      gid: attrs.gid,
+      modifiedAt: new Date(attrs.mtime * 1000),
+    };
+  }
+
+  private fileType(mode: number): RemoteFileTypeType {
+    switch (mode & S_IFMT) {
+      case S_IFREG:
+        return RemoteFileType.FILE;
+      case S_IFDIR:
+        return RemoteFileType.DIRECTORY;
+      case S_IFLNK:
+        return RemoteFileType.SYMLINK;
+      default:
+        return RemoteFileType.OTHER;
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { EncryptionService } from '../encryption/encryption.service';
+
+// 需要加密保存的凭据字段
+const SECRET_FIELDS = ['password', 'privateKey', 'passphrase'] as const;
+
+type SecretField = (typeof SECRET_FIELDS)[number];
+
+// 通知渠道配置（JSON）中加密保存的配置项，与 NotificationChannelsService 保持一致
+const CHANNEL_SECRET_KEYS = ['secret', 'password'] as const;
+
+/**
+ * 服务器凭据加密服务
+ *
+ * 负责在写入数据库前加密服务器及共享凭据的密码、私钥和私钥密码短语，
+ * 启动时加密遗留的明文凭据，并在主密钥轮换时重新加密所有凭据（包括通知渠道的签名密钥和 SMTP 密码）。
+ * 解密只在建立SSH连接时进行。
+ */
+@Injectable()
+export class ServerCredentialsService implements OnModuleInit {
+  private readonly logger = new Logger(ServerCredentialsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryptionService: EncryptionService,
+  ) {}
+
+  async onModuleInit() {
+    // 加密升级前以明文保存的凭据
+    const count = await this.reencryptAll(false);
+    if (count > 0) {
+      this.logger.log(`已加密 ${count} 条明文凭据记录`);
+    }
+  }
+
+  /**
+   * 加密DTO中的凭据字段，未提供或为空的字段保持不变
+   * @param dto 创建或更新DTO
+   * @returns 凭据已加密的DTO
+   */
+  encryptCredentials<T extends Partial<Record<SecretField, string | null>>>(
+    dto: T,
+  ): T {
+    const encrypted = { ...dto };
+    for (const field of SECRET_FIELDS) {
+      const value = dto[field];
+      if (value) {
+        encrypted[field] = this.encryptionService.encrypt(
+          value,
+        ) as T[SecretField];
+      }
+    }
+    return encrypted;
+  }
+
+  /**
+   * 使用当前主密钥重新加密服务器、共享凭据库和通知渠道中的凭据
+   * @param rotate 为true时重新加密所有凭据并生成新的数据密钥，否则只加密明文凭据
+   * @returns 重新加密的记录数量
+   */
+  async reencryptAll(rotate = true): Promise<number> {
+    const select = {
+      id: true,
+      password: true,
+      privateKey: true,
+      passphrase: true,
+    };
+    const where = {
+      OR: SECRET_FIELDS.map((field) => ({ [field]: { not: null } })),
+    };
+
+    let count = 0;
+    for (const server of await this.prisma.server.findMany({
+      where,
+      select,
+    })) {
+      const data = this.reencryptRecord(server, rotate);
+      if (data) {
+        await this.prisma.server.update({ where: { id: server.id }, data });
+        count++;
+      }
+    }
+    for (const credential of await this.prisma.credential.findMany({
+      where,
+      select,
+    })) {
+      const data = this.reencryptRecord(credential, rotate);
+      if (data) {
+        await this.prisma.credential.update({
+          where: { id: credential.id },
+          data,
+        });
+        count++;
+      }
+    }
+    for (const channel of await this.prisma.notificationChannel.findMany({
+      select: { id: true, config: true },
+    })) {
+      const config = this.reencryptChannelConfig(channel.config, rotate);
+      if (config) {
+        await this.prisma.notificationChannel.update({
+          where: { id: channel.id },
+          data: { config },
+        });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * 重新加密一条记录中的凭据字段
+   * @returns 需要更新的字段，无需处理时返回undefined
+   */
+  private reencryptRecord(
+    record: Record<SecretField, string | null>,
+    rotate: boolean,
+  ): Partial<Record<SecretField, string>> | undefined {
+    const data: Partial<Record<SecretField, string>> = {};
+    for (const field of SECRET_FIELDS) {
+      const value = this.reencrypt(record[field], rotate);
+      if (value !== undefined) {
+        data[field] = value;
+      }
+    }
+    return Object.keys(data).length > 0 ? data : undefined;
+  }
+
+  /**
+   * 重新加密通知渠道配置中的密钥
+   * @returns 新的配置JSON，无需处理时返回undefined
+   */
+  private reencryptChannelConfig(
+    json: string,
+    rotate: boolean,
+  ): string | undefined {
+    let config: Record<string, unknown>;
+    try {
+      config = JSON.parse(json);
+    } catch {
+      return undefined;
+    }
+
+    let changed = false;
+    for (const key of CHANNEL_SECRET_KEYS) {
+      const value = config[key];
+      const reencrypted = this.reencrypt(
+        typeof value === 'string' ? value : null,
+        rotate,
+      );
+      if (reencrypted !== undefined) {
+        config[key] = reencrypted;
+        changed = true;
+      }
+    }
+    return changed ? JSON.stringify(config) : undefined;
+  }
+
+  /**
+   * 重新加密单个值
+   * @returns 新密文，无需处理时返回undefined
+   */
+  private reencrypt(value: string | null, rotate: boolean): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    if (!rotate && this.encryptionService.isEncrypted(value)) {
+      return undefined;
+    }
+    return this.encryptionService.encrypt(
+      this.encryptionService.decrypt(value),
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ServerGroupsService } from './server-groups.service';
+import { CreateServerGroupDto } from './dto/create-server-group.dto';
+import { UpdateServerGroupDto } from './dto/update-server-group.dto';
+import { ServerGroupQueryDto } from './dto/server-group-query.dto';
+import { ServerGroupMembersDto } from './dto/server-group-members.dto';
+import { ServerGroupEntity } from './entities/server-group.entity';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('server-groups')
+@ApiBearerAuth()
+@Controller('server-groups')
+export class ServerGroupsController {
+  constructor(private readonly serverGroupsService: ServerGroupsService) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建服务器分组' })
+  @ApiResponse({
+    status: 201,
+    description: '服务器分组创建成功',
+    type: ServerGroupEntity,
+  })
+  @ApiResponse({ status: 409, description: '分组名称已存在' })
+  create(@Body() createServerGroupDto: CreateServerGroupDto) {
+    return this.serverGroupsService.create(createServerGroupDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页获取服务器分组列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的服务器分组列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ServerGroupEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findByLimit(@Query(ParsePaginationPipe) params: ServerGroupQueryDto) {
+    return this.serverGroupsService.findByLimit(params);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取指定服务器分组' })
+  @ApiParam({ name: 'id', description: '分组ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定服务器分组',
+    type: ServerGroupEntity,
+  })
+  @ApiResponse({ status: 404, description: '服务器分组不存在' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.serverGroupsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新服务器分组' })
+  @ApiParam({ name: 'id', description: '分组ID' })
+  @ApiResponse({
+    status: 200,
+    description: '服务器分组更新成功',
+    type: ServerGroupEntity,
+  })
+  @ApiResponse({ status: 404, description: '服务器分组不存在' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateServerGroupDto: UpdateServerGroupDto,
+  ) {
+    return this.serverGroupsService.update(id, updateServerGroupDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除服务器分组' })
+  @ApiParam({ name: 'id', description: '分组ID' })
+  @ApiResponse({
+    status: 200,
+    description: '服务器分组删除成功',
+    type: ServerGroupEntity,
+  })
+  @ApiResponse({ status: 404, description: '服务器分组不存在' })
+  @ApiResponse({ status: 409, description: '分组正被定时任务使用' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.serverGroupsService.remove(id);
+  }
+
+  @Post(':id/servers')
+  @ApiOperation({ summary: '向分组添加服务器' })
+  @ApiParam({ name: 'id', description: '分组ID' })
+  @ApiResponse({
+    status: 200,
+    description: '服务器已添加到分组',
+    type: ServerGroupEntity,
+  })
+  @ApiResponse({ status: 404, description: '服务器分组或服务器不存在' })
+  addServers(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() membersDto: ServerGroupMembersDto,
+  ) {
+    return this.serverGroupsService.addServers(id, membersDto.serverIds);
+  }
+
+  @Post(':id/servers/remove')
+  @ApiOperation({ summary: '从分组移除服务器' })
+  @ApiParam({ name: 'id', description: '分组ID' })
+  @ApiResponse({
+    status: 200,
+    description: '服务器已从分组移除',
+    type: ServerGroupEntity,
+  })
+  @ApiResponse({ status: 404, description: '服务器分组不存在' })
+  removeServers(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() membersDto: ServerGroupMembersDto,
+  ) {
+    return this.serverGroupsService.removeServers(id, membersDto.serverIds);
+  }
+}
@@ -0,0 +1,208 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginationResultDto, PaginationService } from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import { CreateServerGroupDto } from './dto/create-server-group.dto';
+import { UpdateServerGroupDto } from './dto/update-server-group.dto';
+import { ServerGroupQueryDto } from './dto/server-group-query.dto';
+import { ServerGroupEntity } from './entities/server-group.entity';
+
+// 查询分组时附带的成员字段
+const GROUP_INCLUDE = {
+  servers: {
+    select: { id: true, name: true, host: true, status: true, tags: true },
+    orderBy: { id: 'asc' as const },
+  },
+};
+
+@Injectable()
+export class ServerGroupsService {
+  private readonly logger = new Logger(ServerGroupsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+  ) {}
+
+  async create(
+    createServerGroupDto: CreateServerGroupDto,
+  ): Promise<ServerGroupEntity> {
+    const { serverIds, ...data } = createServerGroupDto;
+    await this.ensureNameAvailable(data.name);
+    if (serverIds?.length) {
+      await this.ensureServersExist(serverIds);
+    }
+
+    return this.prisma.serverGroup.create({
+      data: {
+        ...data,
+        servers: { connect: (serverIds ?? []).map((id) => ({ id })) },
+      },
+      include: GROUP_INCLUDE,
+    });
+  }
+
+  async findByLimit(
+    params: ServerGroupQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<ServerGroupEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.name) {
+      where.name = {
+        contains: params.name,
+      };
+    }
+
+    return this.paginationService.paginateByLimit<ServerGroupEntity, any>(
+      // 查询结果包含成员信息，与ServerGroupEntity兼容
+      this.prisma.serverGroup as unknown as PrismaModel<ServerGroupEntity>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+      GROUP_INCLUDE as any, // include，只选择成员的非敏感字段
+    );
+  }
+
+  async findOne(id: number): Promise<ServerGroupEntity> {
+    const group = await this.prisma.serverGroup.findUnique({
+      where: { id },
+      include: GROUP_INCLUDE,
+    });
+
+    if (!group) {
+      throw new NotFoundException(`服务器分组ID ${id} 不存在`);
+    }
+
+    return group;
+  }
+
+  async update(
+    id: number,
+    updateServerGroupDto: UpdateServerGroupDto,
+  ): Promise<ServerGroupEntity> {
+    const { serverIds, ...data } = updateServerGroupDto;
+    await this.findOne(id);
+    if (data.name !== undefined) {
+      await this.ensureNameAvailable(data.name, id);
+    }
+    if (serverIds?.length) {
+      await this.ensureServersExist(serverIds);
+    }
+
+    return this.prisma.serverGroup.update({
+      where: { id },
+      data: {
+        ...data,
+        // 提供成员列表时整体替换
+        ...(serverIds !== undefined && {
+          servers: { set: serverIds.map((serverId) => ({ id: serverId })) },
+        }),
+      },
+      include: GROUP_INCLUDE,
+    });
+  }
+
+  async remove(id: number): Promise<ServerGroupEntity> {
+    const group = await this.findOne(id);
+
+    const scheduleCount = await this.prisma.taskSchedule.count({
+      where: { groupId: id },
+    });
+    if (scheduleCount > 0) {
+      throw new ConflictException(
+        `服务器分组ID ${id} 正被 ${scheduleCount} 个定时任务使用，无法删除`,
+      );
+    }
+
+    const monitorCount = await this.prisma.commandMonitor.count({
+      where: { groupId: id },
+    });
+    if (monitorCount > 0) {
+      throw new ConflictException(
+        `服务器分组ID ${id} 正被 ${monitorCount} 个命令监控使用，无法删除`,
+      );
+    }
+
+    await this.prisma.serverGroup.delete({ where: { id } });
+    this.logger.log(`服务器分组 ${group.name} 已删除`);
+    return group;
+  }
+
+  /**
+   * 向分组添加服务器
+   * @param id 分组ID
+   * @param serverIds 服务器ID列表
+   */
+  async addServers(
+    id: number,
+    serverIds: number[],
+  ): Promise<ServerGroupEntity> {
+    await this.findOne(id);
+    await this.ensureServersExist(serverIds);
+
+    return this.prisma.serverGroup.update({
+      where: { id },
+      data: {
+        servers: { connect: serverIds.map((serverId) => ({ id: serverId })) },
+      },
+      include: GROUP_INCLUDE,
+    });
+  }
+
+  /**
+   * 从分组移除服务器
+   * @param id 分组ID
+   * @param serverIds 服务器ID列表
+   */
+  async removeServers(
+    id: number,
+    serverIds: number[],
+  ): Promise<ServerGroupEntity> {
+    await this.findOne(id);
+
+    return this.prisma.serverGroup.update({
+      where: { id },
+      data: {
+        servers: {
+          disconnect: serverIds.map((serverId) => ({ id: serverId })),
+        },
+      },
+      include: GROUP_INCLUDE,
+    });
+  }
+
+  private async ensureNameAvailable(
+    name: string,
+    excludeId?: number,
+  ): Promise<void> {
+    const existing = await this.prisma.serverGroup.findUnique({
+      where: { name },
+      select: { id: true },
+    });
+    if (existing && existing.id !== excludeId) {
+      throw new ConflictException(`服务器分组 ${name} 已存在`);
+    }
+  }
+
+  private async ensureServersExist(serverIds: number[]): Promise<void> {
+    const foundServers = await this.prisma.server.findMany({
+      where: { id: { in: serverIds } },
+      select: { id: true },
+    });
+    const foundServerIds = foundServers.map((server) => server.id);
+    const missingServerIds = serverIds.filter(
+      (serverId) => !foundServerIds.includes(serverId),
+    );
+    if (missingServerIds.length > 0) {
+      throw new NotFoundException(
+        `以下服务器ID不存在: ${missingServerIds.join(', ')}`,
+      );
+    }
+  }
+}
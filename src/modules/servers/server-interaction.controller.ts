@@ -12,6 +12,10 @@ import {
   ValidationPipe,
   Delete, // Added
   NotFoundException, // Added
+  Put,
+  Patch,
+  Query,
+  Req,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -26,9 +30,24 @@ import { GetServerDetailsDto } from './dto/get-server-details.dto';
 import { GetServerResourcesDto } from './dto/get-server-resources.dto';
 import { ExecuteCommandDto } from './dto/execute-command.dto';
 import { ExecuteCommandResponseDto } from './dto/execute-command-response.dto';
-import { TerminalService } from './terminal.service'; // Added
+import { TerminalService, TerminalSessionUser } from './terminal.service'; // Added
 import { CreateTerminalSessionResponseDto } from './dto/create-terminal-session-response.dto'; // Added
 import { CloseTerminalSessionResponseDto } from './dto/close-terminal-session-response.dto'; // Added
+import { TerminalParticipantDto } from './dto/terminal-participant.dto';
+import { TerminalAccessService } from './terminal-access.service';
+import { UpdateTerminalParticipantDto } from './dto/update-terminal-participant.dto';
+import { RemoteFilesService } from './remote-files.service';
+import {
+  ReadRemoteFileQueryDto,
+  RemotePathQueryDto,
+} from './dto/remote-file-query.dto';
+import { WriteRemoteFileDto } from './dto/write-remote-file.dto';
+import { RenameRemoteFileDto } from './dto/rename-remote-file.dto';
+import {
+  RemoteDirectoryListingDto,
+  RemoteFileContentDto,
+  RemoteFileEntryDto,
+} from './dto/remote-file-response.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard'; // Assuming JWT authentication is used
 // Import RolesGuard and Roles decorator if needed for authorization
 // import { RolesGuard } from '../auth/guards/roles.guard';
@@ -44,6 +63,8 @@ export class ServerInteractionController {
   constructor(
     private readonly serverInteractionService: ServerInteractionService,
     private readonly terminalService: TerminalService, // Added TerminalService injection
+    private readonly remoteFilesService: RemoteFilesService,
+    private readonly terminalAccessService: TerminalAccessService,
   ) {}
 
   // --- Existing Endpoints ---
@@ -126,7 +147,7 @@ export class ServerInteractionController {
   @ApiOperation({
     summary: '创建交互式终端会话',
     description:
-      '为指定服务器创建一个新的交互式 SSH 终端会话，并返回用于 WebSocket 连接的信息。',
+      '为指定服务器创建一个新的交互式 SSH 终端会话，并返回用于 WebSocket 连接的信息。连接 WebSocket 时需要在 token 查询参数或 Authorization 头中携带同一用户的 JWT。普通用户需要被授权访问该服务器的终端。',
   })
   @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
   @ApiResponse({
@@ -135,21 +156,24 @@ export class ServerInteractionController {
     type: CreateTerminalSessionResponseDto,
   })
   @ApiResponse({ status: 401, description: '未授权' })
+  @ApiResponse({ status: 403, description: '没有该服务器的终端权限' })
   @ApiResponse({ status: 404, description: '服务器未找到' })
   @ApiResponse({ status: 500, description: '创建会话时发生内部错误' })
   // @Roles(Role.ADMIN, Role.USER) // Adjust roles as needed
   async createTerminalSession(
     @Param('id', ParseIntPipe) id: number,
+    @Req() req: { user?: TerminalSessionUser },
   ): Promise<CreateTerminalSessionResponseDto> {
     // The service now handles finding the server and creating the pending session
-    return this.terminalService.createSession(id);
+    return this.terminalService.createSession(id, req.user);
   }
 
   @Delete('terminal/session/:sessionId')
   @HttpCode(HttpStatus.OK) // Use 200 OK for successful deletion
   @ApiOperation({
     summary: '关闭交互式终端会话',
-    description: '关闭指定的活动终端会话（包括 WebSocket 连接和 SSH PTY）。',
+    description:
+      '关闭指定的活动终端会话（包括 WebSocket 连接和 SSH PTY），仅会话所有者或管理员可以关闭。',
   })
   @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
   @ApiParam({
@@ -163,16 +187,22 @@ export class ServerInteractionController {
     type: CloseTerminalSessionResponseDto,
   })
   @ApiResponse({ status: 401, description: '未授权' })
+  @ApiResponse({ status: 403, description: '不是会话所有者或管理员' })
   @ApiResponse({
     status: 404,
     description: '会话未找到 (或者说，关闭操作完成，即使它之前不存在)',
   }) // Consider 200 even if not found for idempotency
   // @Roles(Role.ADMIN, Role.USER) // Adjust roles as needed
   async closeTerminalSession(
-    @Param('id', ParseIntPipe) id: number, // Server ID might be useful for authorization/logging later, though not strictly needed by terminalService.closeSession
+    @Param('id', ParseIntPipe) id: number,
     @Param('sessionId') sessionId: string,
+    @Req() req: { user?: TerminalSessionUser },
   ): Promise<CloseTerminalSessionResponseDto> {
-    const closed = this.terminalService.closeSession(sessionId);
+    const closed = this.terminalService.closeSessionForUser(
+      id,
+      sessionId,
+      req.user,
+    );
     // Return success even if the session was already closed or didn't exist
     // This makes the DELETE operation idempotent.
     return {
@@ -187,4 +217,272 @@ export class ServerInteractionController {
     // }
     // return { success: true, message: 'Terminal session closed successfully.' };
   }
+
+  @Post('terminal/session/:sessionId/join')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: '加入共享终端会话',
+    description:
+      '为正在进行的终端会话创建一个加入令牌，通过返回的信息连接 WebSocket 后以只读方式观看同一会话；会话所有者授权后可输入。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiParam({
+    name: 'sessionId',
+    description: '要加入的终端会话的 UUID',
+    type: String,
+  })
+  @ApiResponse({
+    status: 201,
+    description: '成功创建加入令牌',
+    type: CreateTerminalSessionResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '未授权' })
+  @ApiResponse({ status: 403, description: '没有该服务器的终端权限' })
+  @ApiResponse({ status: 404, description: '服务器未找到或会话未在进行中' })
+  async joinTerminalSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId') sessionId: string,
+    @Req() req: { user?: TerminalSessionUser },
+  ): Promise<CreateTerminalSessionResponseDto> {
+    return this.terminalService.createSession(id, req.user, sessionId);
+  }
+
+  @Get('terminal/session/:sessionId/participants')
+  @ApiOperation({
+    summary: '获取终端会话的参与者',
+    description: '返回会话所有者以及正在观看会话的其他用户。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiParam({
+    name: 'sessionId',
+    description: '终端会话的 UUID',
+    type: String,
+  })
+  @ApiResponse({
+    status: 200,
+    description: '成功获取参与者列表',
+    type: [TerminalParticipantDto],
+  })
+  @ApiResponse({ status: 401, description: '未授权' })
+  @ApiResponse({ status: 403, description: '没有该服务器的终端权限' })
+  @ApiResponse({ status: 404, description: '会话未在进行中' })
+  async listTerminalParticipants(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId') sessionId: string,
+    @Req() req: { user?: TerminalSessionUser },
+  ): Promise<TerminalParticipantDto[]> {
+    await this.terminalAccessService.assertCanAccess(id, req.user);
+    return this.terminalService.listParticipants(id, sessionId);
+  }
+
+  @Patch('terminal/session/:sessionId/participants/:participantId')
+  @ApiOperation({
+    summary: '授予或收回参与者的输入权限',
+    description: '仅会话所有者或管理员可以修改。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiParam({
+    name: 'sessionId',
+    description: '终端会话的 UUID',
+    type: String,
+  })
+  @ApiParam({
+    name: 'participantId',
+    description: '参与者 ID',
+    type: String,
+  })
+  @ApiBody({ type: UpdateTerminalParticipantDto })
+  @ApiResponse({
+    status: 200,
+    description: '成功更新参与者权限',
+    type: TerminalParticipantDto,
+  })
+  @ApiResponse({ status: 401, description: '未授权' })
+  @ApiResponse({ status: 403, description: '不是会话所有者' })
+  @ApiResponse({ status: 404, description: '会话未在进行中或参与者不存在' })
+  updateTerminalParticipant(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId') sessionId: string,
+    @Param('participantId') participantId: string,
+    @Body() updateTerminalParticipantDto: UpdateTerminalParticipantDto,
+    @Req() req: { user?: TerminalSessionUser },
+  ): TerminalParticipantDto {
+    return this.terminalService.updateParticipant(
+      id,
+      sessionId,
+      participantId,
+      updateTerminalParticipantDto.canInput,
+      req.user,
+    );
+  }
+
+  @Delete('terminal/session/:sessionId/participants/:participantId')
+  @ApiOperation({
+    summary: '移除终端会话的参与者',
+    description:
+      '断开该参与者的 WebSocket 连接，仅会话所有者或管理员可以操作。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiParam({
+    name: 'sessionId',
+    description: '终端会话的 UUID',
+    type: String,
+  })
+  @ApiParam({
+    name: 'participantId',
+    description: '参与者 ID',
+    type: String,
+  })
+  @ApiResponse({
+    status: 200,
+    description: '成功移除参与者',
+    type: TerminalParticipantDto,
+  })
+  @ApiResponse({ status: 401, description: '未授权' })
+  @ApiResponse({ status: 403, description: '不是会话所有者' })
+  @ApiResponse({ status: 404, description: '会话未在进行中或参与者不存在' })
+  revokeTerminalParticipant(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId') sessionId: string,
+    @Param('participantId') participantId: string,
+    @Req() req: { user?: TerminalSessionUser },
+  ): TerminalParticipantDto {
+    return this.terminalService.revokeParticipant(
+      id,
+      sessionId,
+      participantId,
+      req.user,
+    );
+  }
+
+  // --- File Browser Endpoints ---
+
+  @Get('fs')
+  @ApiOperation({
+    summary: '列出服务器上的目录',
+    description: '通过 SFTP 列出目录中的文件，目录在前，按名称排序。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: '成功获取目录列表',
+    type: RemoteDirectoryListingDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: '服务器通过代理连接，不支持文件浏览',
+  })
+  @ApiResponse({ status: 403, description: '没有权限访问该路径' })
+  @ApiResponse({ status: 404, description: '服务器或路径不存在' })
+  @ApiResponse({ status: 502, description: '无法连接到服务器' })
+  async listDirectory(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: RemotePathQueryDto,
+  ): Promise<RemoteDirectoryListingDto> {
+    return this.remoteFilesService.list(id, query.path);
+  }
+
+  @Get('fs/stat')
+  @ApiOperation({
+    summary: '查看服务器上的文件信息',
+    description:
+      '返回文件类型、大小、权限、属主和修改时间，符号链接返回链接本身的信息。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: '成功获取文件信息',
+    type: RemoteFileEntryDto,
+  })
+  @ApiResponse({ status: 404, description: '服务器或路径不存在' })
+  async statFile(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: RemotePathQueryDto,
+  ): Promise<RemoteFileEntryDto> {
+    return this.remoteFilesService.stat(id, query.path);
+  }
+
+  @Get('fs/content')
+  @ApiOperation({
+    summary: '读取服务器上的文件内容',
+    description:
+      '按偏移和长度分段读取文件，单次最多读取 1MB；偏移为负数时从文件末尾倒数，可用于查看日志末尾。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: '成功读取文件内容',
+    type: RemoteFileContentDto,
+  })
+  @ApiResponse({ status: 400, description: '路径不是普通文件' })
+  @ApiResponse({ status: 404, description: '服务器或文件不存在' })
+  async readFile(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: ReadRemoteFileQueryDto,
+  ): Promise<RemoteFileContentDto> {
+    return this.remoteFilesService.read(id, query);
+  }
+
+  @Put('fs/content')
+  @ApiOperation({
+    summary: '写入服务器上的文件',
+    description: '文件不存在时创建；已存在时覆盖内容，并保留原有的权限和属主。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiBody({ type: WriteRemoteFileDto })
+  @ApiResponse({
+    status: 200,
+    description: '写入成功，返回写入后的文件信息',
+    type: RemoteFileEntryDto,
+  })
+  @ApiResponse({ status: 403, description: '没有权限写入该路径' })
+  @ApiResponse({ status: 404, description: '服务器或所在目录不存在' })
+  async writeFile(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() writeRemoteFileDto: WriteRemoteFileDto,
+  ): Promise<RemoteFileEntryDto> {
+    return this.remoteFilesService.write(id, writeRemoteFileDto);
+  }
+
+  @Post('fs/rename')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '重命名服务器上的文件或目录',
+    description: '目标路径已存在时失败，不会覆盖已有文件。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiBody({ type: RenameRemoteFileDto })
+  @ApiResponse({
+    status: 200,
+    description: '重命名成功，返回新路径的文件信息',
+    type: RemoteFileEntryDto,
+  })
+  @ApiResponse({ status: 400, description: '目标路径已存在' })
+  @ApiResponse({ status: 404, description: '服务器或原路径不存在' })
+  async renameFile(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() renameRemoteFileDto: RenameRemoteFileDto,
+  ): Promise<RemoteFileEntryDto> {
+    return this.remoteFilesService.rename(id, renameRemoteFileDto);
+  }
+
+  @Delete('fs')
+  @ApiOperation({
+    summary: '删除服务器上的文件',
+    description: '删除文件、符号链接或空目录，不支持递归删除。',
+  })
+  @ApiParam({ name: 'id', description: '服务器的数字 ID', type: Number })
+  @ApiResponse({
+    status: 200,
+    description: '删除成功，返回被删除的文件信息',
+    type: RemoteFileEntryDto,
+  })
+  @ApiResponse({ status: 400, description: '目录非空或删除失败' })
+  @ApiResponse({ status: 404, description: '服务器或路径不存在' })
+  async deleteFile(
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: RemotePathQueryDto,
+  ): Promise<RemoteFileEntryDto> {
+    return this.remoteFilesService.remove(id, query.path);
+  }
 }
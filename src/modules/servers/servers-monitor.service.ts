@@ -1,8 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Server } from '@prisma/client';
 import { ServersService } from './servers.service';
 import { SshService } from '../ssh/ssh.service';
 import { PrismaService } from '../../prisma/prisma.service';
+import { NotificationEventType, NotificationSeverity } from '../../common';
+import {
+  NOTIFICATION_EVENT,
+  NotificationEvent,
+} from '../notifications/types/notification-event.type';
 
 @Injectable()
 export class ServersMonitorService {
@@ -12,6 +19,7 @@ export class ServersMonitorService {
     private readonly serversService: ServersService,
     private readonly sshService: SshService,
     private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   @Cron(CronExpression.EVERY_5_MINUTES)
@@ -38,6 +46,7 @@ export class ServersMonitorService {
             this.logger.log(
               `服务器 ${server.name} (${server.host}) 状态更新为离线`,
             );
+            this.notifyOffline(server, result.message);
           }
         }
       } catch (error) {
@@ -50,10 +59,26 @@ export class ServersMonitorService {
           this.logger.log(
             `服务器 ${server.name} (${server.host}) 状态更新为离线`,
           );
+          this.notifyOffline(server, error.message);
         }
       }
     }
 
     this.logger.log('服务器状态检查完成');
   }
+
+  /**
+   * 发送服务器离线通知
+   */
+  private notifyOffline(server: Server, reason: string) {
+    const event: NotificationEvent = {
+      type: NotificationEventType.SERVER_OFFLINE,
+      severity: NotificationSeverity.CRITICAL,
+      title: `服务器 ${server.name} (${server.host}) 离线`,
+      message: reason,
+      serverId: server.id,
+      dedupKey: `${NotificationEventType.SERVER_OFFLINE}:${server.id}`,
+    };
+    this.eventEmitter.emit(NOTIFICATION_EVENT, event);
+  }
 }
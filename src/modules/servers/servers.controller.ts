@@ -8,7 +8,9 @@ import {
   Delete,
   ParseIntPipe,
   HttpStatus,
+  Put,
   Query,
+  UseGuards,
 } from '@nestjs/common';
 import { ServersService } from './servers.service';
 import { CreateServerDto } from './dto/create-server.dto';
@@ -30,6 +32,15 @@ import {
 } from './dto/import-servers.dto';
 import { ParsePaginationPipe } from '../../common';
 import { ServerQueryDto } from './dto/server-query.dto';
+import { AcceptHostKeyDto } from './dto/accept-host-key.dto';
+import { ServerHostKeyEntity } from './entities/server-host-key.entity';
+import { HostKeyService } from '../ssh/services/host-key.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { TerminalAccessService } from './terminal-access.service';
+import { UpdateTerminalUsersDto } from './dto/update-terminal-users.dto';
+import { TerminalUserDto } from './dto/terminal-user.dto';
 
 @ApiTags('servers')
 @ApiBearerAuth()
@@ -38,6 +49,8 @@ export class ServersController {
   constructor(
     private readonly serversService: ServersService,
     private readonly sshService: SshService,
+    private readonly hostKeyService: HostKeyService,
+    private readonly terminalAccessService: TerminalAccessService,
   ) {}
 
   @Post()
@@ -142,6 +155,107 @@ export class ServersController {
     return this.sshService.testConnection(id);
   }
 
+  @Get(':id/host-key')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiOperation({ summary: '查看服务器已记录和待确认的主机密钥' })
+  @ApiParam({ name: 'id', description: '服务器ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回服务器主机密钥',
+    type: ServerHostKeyEntity,
+  })
+  @ApiResponse({ status: 404, description: '服务器不存在' })
+  getHostKey(@Param('id', ParseIntPipe) id: number) {
+    return this.hostKeyService.getHostKey(id);
+  }
+
+  @Post(':id/host-key/accept')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiOperation({
+    summary: '接受待确认的主机密钥',
+    description: '主机密钥确实已变更时，用待确认的主机密钥替换已记录的主机密钥',
+  })
+  @ApiParam({ name: 'id', description: '服务器ID' })
+  @ApiResponse({
+    status: 201,
+    description: '已接受新的主机密钥',
+    type: ServerHostKeyEntity,
+  })
+  @ApiResponse({ status: 400, description: '没有待确认的主机密钥或指纹不一致' })
+  @ApiResponse({ status: 404, description: '服务器不存在' })
+  acceptHostKey(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() acceptHostKeyDto: AcceptHostKeyDto,
+  ) {
+    return this.hostKeyService.acceptHostKey(id, acceptHostKeyDto.fingerprint);
+  }
+
+  @Delete(':id/host-key')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiOperation({
+    summary: '重置服务器的主机密钥',
+    description: '清除已记录的主机密钥，下次连接时重新记录',
+  })
+  @ApiParam({ name: 'id', description: '服务器ID' })
+  @ApiResponse({
+    status: 200,
+    description: '主机密钥已重置',
+    type: ServerHostKeyEntity,
+  })
+  @ApiResponse({ status: 404, description: '服务器不存在' })
+  async resetHostKey(@Param('id', ParseIntPipe) id: number) {
+    const hostKey = await this.hostKeyService.resetHostKey(id);
+    // 关闭按旧主机密钥建立的缓存连接
+    await this.sshService.closeConnection(id);
+    return hostKey;
+  }
+
+  @Get(':id/terminal-users')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiOperation({
+    summary: '查看可以打开服务器终端的用户',
+    description: '管理员始终可以打开终端，不在此列表中',
+  })
+  @ApiParam({ name: 'id', description: '服务器ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回已授权的用户',
+    type: [TerminalUserDto],
+  })
+  @ApiResponse({ status: 404, description: '服务器不存在' })
+  getTerminalUsers(@Param('id', ParseIntPipe) id: number) {
+    return this.terminalAccessService.findUsers(id);
+  }
+
+  @Put(':id/terminal-users')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiOperation({
+    summary: '设置可以打开服务器终端的用户',
+    description: '用给定的用户列表替换原有授权，已打开的会话不受影响',
+  })
+  @ApiParam({ name: 'id', description: '服务器ID' })
+  @ApiBody({ type: UpdateTerminalUsersDto })
+  @ApiResponse({
+    status: 200,
+    description: '返回更新后的授权用户',
+    type: [TerminalUserDto],
+  })
+  @ApiResponse({ status: 404, description: '服务器或用户不存在' })
+  setTerminalUsers(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateTerminalUsersDto: UpdateTerminalUsersDto,
+  ) {
+    return this.terminalAccessService.setUsers(
+      id,
+      updateTerminalUsersDto.userIds,
+    );
+  }
+
   @Post('import')
   @ApiOperation({ summary: '批量导入服务器' })
   @ApiBody({ type: ImportServersDto })
@@ -9,17 +9,38 @@ import { ServerInteractionController } from './server-interaction.controller'; /
 import { ServerInteractionService } from './server-interaction.service'; // <-- Import Service
 import { TerminalService } from './terminal.service'; // <-- Added Import
 import { TerminalGateway } from './terminal.gateway'; // <-- Added Import
+import { ServerGroupsService } from './server-groups.service';
+import { ServerGroupsController } from './server-groups.controller';
+import { ServerCredentialsService } from './server-credentials.service';
+import { RemoteFilesService } from './remote-files.service';
+import { TerminalRecordingsService } from './terminal-recordings.service';
+import { TerminalRecordingsController } from './terminal-recordings.controller';
+import { TerminalAccessService } from './terminal-access.service';
+import { TerminalSessionsController } from './terminal-sessions.controller';
+import { ProxyModule } from '../proxy/proxy.module';
+import { AuthModule } from '../auth/auth.module';
 
 @Module({
-  imports: [forwardRef(() => SshModule), CommonModule], // SshModule might still be needed by ServerInteractionService for non-terminal commands
-  controllers: [ServersController, ServerInteractionController], // <-- Add Controller
+  imports: [forwardRef(() => SshModule), CommonModule, ProxyModule, AuthModule], // SshModule might still be needed by ServerInteractionService for non-terminal commands
+  controllers: [
+    ServersController,
+    ServerInteractionController,
+    ServerGroupsController,
+    TerminalRecordingsController,
+    TerminalSessionsController,
+  ],
   providers: [
     ServersService,
     ServersMonitorService,
     ServerInteractionService,
     TerminalService, // <-- Added Service
     TerminalGateway, // <-- Added Gateway
+    ServerGroupsService,
+    ServerCredentialsService,
+    RemoteFilesService,
+    TerminalRecordingsService,
+    TerminalAccessService,
   ],
-  exports: [ServersService], // ServerInteractionService is not exported as it's internal to this module
+  exports: [ServersService, ServerCredentialsService], // ServerInteractionService is not exported as it's internal to this module
 })
 export class ServersModule {}
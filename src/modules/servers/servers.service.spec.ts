@@ -0,0 +1,107 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ValidationPipe } from '@nestjs/common';
+import { Server } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ConnectionType, PaginationService } from '../../common';
+import { ServersService } from './servers.service';
+import { ServerCredentialsService } from './server-credentials.service';
+import { UpdateServerDto } from './dto/update-server.dto';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function createServer(overrides: Partial<Server> = {}): Server {
+  return {
+    id: 1,
+    name: 'web-1',
+    host: '10.0.0.1',
+    port: 2222,
+    username: 'root',
+    password: null,
+    privateKey: 'encrypted-key',
+    passphrase: null,
+    certificate: null,
+    useAgent: false,
+    keyboardInteractive: false,
+    status: 'online',
+    lastChecked: null,
+    connectionType: ConnectionType.PROXY,
+    proxyId: 'proxy-1',
+    tags: null,
+    credentialId: null,
+    jumpHostId: null,
+    hostKeyType: 'ssh-ed25519',
+    hostKeyFingerprint: 'SHA256:abc',
+    hostKeyPinnedAt: NOW,
+    pendingHostKeyType: null,
+    pendingHostKey: null,
+    pendingHostKeySeenAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+describe('ServersService', () => {
+  let service: ServersService;
+  let prisma: { server: Record<string, jest.Mock> };
+
+  beforeEach(async () => {
+    prisma = {
+      server: {
+        findUnique: jest.fn().mockResolvedValue(createServer()),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve(createServer(data)),
+          ),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ServersService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PaginationService, useValue: {} },
+        {
+          provide: ServerCredentialsService,
+          useValue: { encryptCredentials: (dto: unknown) => dto },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ServersService>(ServersService);
+  });
+
+  it('重命名不应修改端口、连接类型，也不应清除已记录的主机密钥', async () => {
+    // 与控制器相同的校验和转换流程
+    const dto = (await new ValidationPipe({ transform: true }).transform(
+      { name: 'web-1-renamed' },
+      { type: 'body', metatype: UpdateServerDto },
+    )) as UpdateServerDto;
+
+    const result = await service.update(1, dto);
+
+    expect(prisma.server.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { name: 'web-1-renamed' },
+    });
+    expect(result).toMatchObject({
+      name: 'web-1-renamed',
+      port: 2222,
+      connectionType: ConnectionType.PROXY,
+    });
+  });
+
+  it('端口变更时应清除已记录的主机密钥', async () => {
+    await service.update(1, { port: 22 });
+
+    expect(prisma.server.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: expect.objectContaining({
+        port: 22,
+        hostKeyType: null,
+        hostKeyFingerprint: null,
+      }),
+    });
+  });
+});
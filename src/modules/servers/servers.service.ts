@@ -1,4 +1,11 @@
-import { Injectable, Logger, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  Logger,
+  ConflictException,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Credential, Server } from '@prisma/client';
 import { PrismaService } from '../../prisma/prisma.service';
 import { CreateServerDto } from './dto/create-server.dto';
 import { UpdateServerDto } from './dto/update-server.dto';
@@ -16,7 +23,48 @@ import {
   ErrorHandler,
   ErrorContext,
 } from '../../common/utils/error-handler.util';
-import { ServerStatusType } from '../../common/constants';
+import {
+  ConnectionType,
+  ConnectionTypeType,
+  ServerStatusType,
+} from '../../common/constants';
+import { ServerTargetDto } from './dto/server-target.dto';
+import {
+  buildServerScopeWhere,
+  buildTagSelectorWhere,
+  normalizeServerTags,
+} from './utils/server-tags.util';
+import { ServerCredentialsService } from './server-credentials.service';
+import {
+  SERVER_HOST_KEY_FIELDS,
+  ServerHostKeyField,
+} from './entities/server-host-key.entity';
+import { parseCertificate, parsePrivateKey } from '../ssh/utils/ssh-key.util';
+
+/**
+ * 服务器凭据（仍为密文），仅供建立SSH连接时解密使用
+ * credential 为服务器引用的共享凭据，存在时优先于服务器自身的凭据
+ */
+export type ServerCredentials = Pick<
+  Server,
+  'password' | 'privateKey' | 'passphrase' | 'certificate'
+> & {
+  credential: Pick<
+    Credential,
+    'username' | 'password' | 'privateKey' | 'passphrase'
+  > | null;
+};
+
+/**
+ * 跳板机链路中的一跳
+ */
+export type JumpHost = Pick<
+  Server,
+  'id' | 'name' | 'host' | 'port' | 'connectionType' | 'jumpHostId'
+>;
+
+// 跳板机链路的最大跳数
+const MAX_JUMP_HOPS = 5;
 
 @Injectable()
 export class ServersService extends BaseService<
@@ -31,6 +79,7 @@ export class ServersService extends BaseService<
   constructor(
     protected readonly prisma: PrismaService,
     protected readonly paginationService: PaginationService,
+    private readonly serverCredentials: ServerCredentialsService,
   ) {
     super(prisma, paginationService);
   }
@@ -43,6 +92,220 @@ export class ServersService extends BaseService<
     return this.prisma.server as unknown as PrismaModel<ServerEntity>;
   }
 
+  /**
+   * 创建服务器，标签会被规范化，凭据加密后保存
+   * @param createServerDto 创建DTO
+   * @returns 创建的服务器
+   */
+  async create(createServerDto: CreateServerDto): Promise<ServerEntity> {
+    if (createServerDto.certificate && !createServerDto.privateKey) {
+      throw new BadRequestException('使用证书认证时必须提供私钥');
+    }
+    this.validateKeyMaterial(createServerDto);
+    await this.validateCredentialReference(createServerDto.credentialId);
+    await this.validateJumpHost(
+      undefined,
+      createServerDto.jumpHostId,
+      createServerDto.connectionType,
+    );
+    const server = await super.create(
+      this.serverCredentials.encryptCredentials(
+        this.normalizeTags(createServerDto),
+      ),
+    );
+    return this.toEntity(server);
+  }
+
+  /**
+   * 分页查询服务器，响应中不包含凭据
+   * @param params 查询参数
+   * @returns 分页结果
+   */
+  async findByLimit(
+    params: ServerQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<ServerEntity>> {
+    const result = await super.findByLimit(params);
+    return {
+      ...result,
+      items: result.items.map((server) => this.toEntity(server)),
+    };
+  }
+
+  /**
+   * 根据ID查询服务器，响应中不包含凭据
+   * @param id 服务器ID
+   * @returns 服务器
+   */
+  async findOne(id: number): Promise<ServerEntity> {
+    return this.toEntity(await super.findOne(id));
+  }
+
+  /**
+   * 更新服务器，标签会被规范化，凭据加密后保存
+   * 主机地址或端口变更时清除已记录的主机密钥，跳板机变更时检查链路是否存在循环
+   * @param id 服务器ID
+   * @param updateServerDto 更新DTO
+   * @returns 更新后的服务器
+   */
+  async update(
+    id: number,
+    updateServerDto: UpdateServerDto,
+  ): Promise<ServerEntity> {
+    this.validateKeyMaterial(updateServerDto);
+    await this.validateCredentialReference(updateServerDto.credentialId);
+    if (
+      updateServerDto.jumpHostId !== undefined ||
+      updateServerDto.connectionType !== undefined
+    ) {
+      const current = await this.findOne(id);
+      await this.validateJumpHost(
+        id,
+        updateServerDto.jumpHostId !== undefined
+          ? updateServerDto.jumpHostId
+          : current.jumpHostId,
+        updateServerDto.connectionType ?? current.connectionType,
+      );
+    }
+    const hostKeyReset = await this.hostKeyResetOnAddressChange(
+      id,
+      updateServerDto,
+    );
+    const server = await super.update(id, {
+      ...this.serverCredentials.encryptCredentials(
+        this.normalizeTags(updateServerDto),
+      ),
+      ...hostKeyReset,
+    });
+    return this.toEntity(server);
+  }
+
+  /**
+   * 删除服务器，仍被用作跳板机的服务器不能删除
+   * @param id 服务器ID
+   * @returns 删除的服务器
+   */
+  async remove(id: number): Promise<ServerEntity> {
+    const jumpedCount = await this.prisma.server.count({
+      where: { jumpHostId: id },
+    });
+    if (jumpedCount > 0) {
+      throw new ConflictException(
+        `${this.modelName}ID ${id} 正被 ${jumpedCount} 台服务器用作跳板机，无法删除`,
+      );
+    }
+    return this.toEntity(await super.remove(id));
+  }
+
+  /**
+   * 获取服务器的跳板机链路
+   * @param id 服务器ID
+   * @returns 从最外层到最内层排列的跳板机，未配置跳板机时为空列表
+   * @throws 链路存在循环、超过最大跳数或包含通过代理连接的服务器时抛出错误
+   */
+  async getJumpChain(id: number): Promise<JumpHost[]> {
+    const server = await this.prisma.server.findUnique({
+      where: { id },
+      select: { jumpHostId: true },
+    });
+    if (!server) {
+      throw new NotFoundException(`${this.modelName}ID ${id} 不存在`);
+    }
+    return this.walkJumpChain(server.jumpHostId, new Set([id]));
+  }
+
+  /**
+   * 获取服务器的加密凭据
+   * @param id 服务器ID
+   * @returns 密文形式的密码、私钥和密码短语，证书，以及引用的共享凭据
+   */
+  async findCredentials(id: number): Promise<ServerCredentials> {
+    const credentials = await this.prisma.server.findUnique({
+      where: { id },
+      select: {
+        password: true,
+        privateKey: true,
+        passphrase: true,
+        certificate: true,
+        credential: {
+          select: {
+            username: true,
+            password: true,
+            privateKey: true,
+            passphrase: true,
+          },
+        },
+      },
+    });
+
+    if (!credentials) {
+      throw new NotFoundException(`${this.modelName}ID ${id} 不存在`);
+    }
+
+    return credentials;
+  }
+
+  /**
+   * 解析执行目标，返回去重后的服务器ID列表
+   *
+   * 服务器ID列表、分组成员和标签选择器匹配到的服务器取并集，
+   * 用于在入队时把分组或标签固定为具体的服务器。
+   *
+   * @param target 执行目标
+   * @returns 服务器ID列表
+   */
+  async resolveTargetServerIds(target: ServerTargetDto): Promise<number[]> {
+    const { serverIds, groupId, tagSelector } = target;
+    if (!serverIds?.length && !groupId && !tagSelector) {
+      throw new BadRequestException(
+        '必须指定服务器ID列表、服务器分组或标签选择器',
+      );
+    }
+
+    const resolved = new Set<number>();
+
+    if (serverIds?.length) {
+      const foundServers = await this.prisma.server.findMany({
+        where: { id: { in: serverIds } },
+        select: { id: true },
+      });
+      const foundServerIds = foundServers.map((server) => server.id);
+      const missingServerIds = serverIds.filter(
+        (id) => !foundServerIds.includes(id),
+      );
+      if (missingServerIds.length > 0) {
+        throw new NotFoundException(
+          `以下服务器ID不存在: ${missingServerIds.join(', ')}`,
+        );
+      }
+      foundServerIds.forEach((id) => resolved.add(id));
+    }
+
+    if (groupId) {
+      const group = await this.prisma.serverGroup.findUnique({
+        where: { id: groupId },
+        select: { servers: { select: { id: true } } },
+      });
+      if (!group) {
+        throw new NotFoundException(`服务器分组ID ${groupId} 不存在`);
+      }
+      group.servers.forEach((server) => resolved.add(server.id));
+    }
+
+    if (tagSelector) {
+      const matchedServers = await this.prisma.server.findMany({
+        where: buildTagSelectorWhere(tagSelector),
+        select: { id: true },
+      });
+      matchedServers.forEach((server) => resolved.add(server.id));
+    }
+
+    if (resolved.size === 0) {
+      throw new BadRequestException('执行目标未匹配到任何服务器');
+    }
+
+    return [...resolved].sort((a, b) => a - b);
+  }
+
   /**
    * 构建查询条件
    * @param params 查询参数
@@ -89,9 +352,169 @@ export class ServersService extends BaseService<
       where.connectionType = params.connectionType;
     }
 
+    // 按服务器分组和标签筛选
+    Object.assign(where, buildServerScopeWhere(params.groupId, params.tag));
+
     return where;
   }
 
+  /**
+   * 规范化DTO中的标签
+   */
+  private normalizeTags<T extends { tags?: string | null }>(dto: T): T {
+    if (dto.tags === undefined) {
+      return dto;
+    }
+    return { ...dto, tags: normalizeServerTags(dto.tags) } as T;
+  }
+
+  /**
+   * 校验私钥（及密码短语）和证书能否解析
+   * 更新时只校验本次提交的字段
+   */
+  private validateKeyMaterial(dto: UpdateServerDto): void {
+    if (dto.privateKey) {
+      parsePrivateKey(dto.privateKey, dto.passphrase);
+    }
+    if (dto.certificate) {
+      parseCertificate(dto.certificate);
+    }
+  }
+
+  /**
+   * 主机地址或端口变更时，返回清除已记录主机密钥的字段
+   */
+  private async hostKeyResetOnAddressChange(
+    id: number,
+    dto: UpdateServerDto,
+  ): Promise<Partial<Record<ServerHostKeyField, null>>> {
+    if (dto.host === undefined && dto.port === undefined) {
+      return {};
+    }
+    const current = await this.prisma.server.findUnique({
+      where: { id },
+      select: { host: true, port: true },
+    });
+    if (
+      !current ||
+      ((dto.host === undefined || dto.host === current.host) &&
+        (dto.port === undefined || dto.port === current.port))
+    ) {
+      return {};
+    }
+    return Object.fromEntries(
+      SERVER_HOST_KEY_FIELDS.map((field) => [field, null]),
+    );
+  }
+
+  /**
+   * 校验跳板机配置
+   * 跳板机必须存在且直接连接，链路不能形成循环，也不能超过最大跳数
+   * @param id 服务器ID，创建时为undefined
+   * @param jumpHostId 跳板机ID
+   * @param connectionType 服务器的连接类型
+   */
+  private async validateJumpHost(
+    id: number | undefined,
+    jumpHostId: number | null | undefined,
+    connectionType: ConnectionTypeType | undefined,
+  ): Promise<void> {
+    if (!jumpHostId) {
+      return;
+    }
+    if (connectionType === ConnectionType.PROXY) {
+      throw new BadRequestException('通过代理连接的服务器不能配置跳板机');
+    }
+    await this.walkJumpChain(jumpHostId, new Set(id ? [id] : []));
+  }
+
+  /**
+   * 从指定跳板机开始沿跳板机链路向外查找
+   * @param jumpHostId 最内层跳板机ID
+   * @param visited 已经过的服务器ID，用于检测循环
+   * @returns 从最外层到最内层排列的跳板机
+   */
+  private async walkJumpChain(
+    jumpHostId: number | null,
+    visited: Set<number>,
+  ): Promise<JumpHost[]> {
+    const chain: JumpHost[] = [];
+    let currentId = jumpHostId;
+    while (currentId) {
+      if (visited.has(currentId)) {
+        throw new BadRequestException(
+          `跳板机链路存在循环: 服务器ID ${currentId} 重复出现`,
+        );
+      }
+      if (chain.length >= MAX_JUMP_HOPS) {
+        throw new BadRequestException(
+          `跳板机链路超过最大跳数 ${MAX_JUMP_HOPS}`,
+        );
+      }
+      visited.add(currentId);
+
+      const jumpHost = await this.prisma.server.findUnique({
+        where: { id: currentId },
+        select: {
+          id: true,
+          name: true,
+          host: true,
+          port: true,
+          connectionType: true,
+          jumpHostId: true,
+        },
+      });
+      if (!jumpHost) {
+        throw new NotFoundException(`跳板机ID ${currentId} 不存在`);
+      }
+      if (jumpHost.connectionType === ConnectionType.PROXY) {
+        throw new BadRequestException(
+          `服务器 ${jumpHost.name} 通过代理连接，不能用作跳板机`,
+        );
+      }
+
+      chain.unshift(jumpHost);
+      currentId = jumpHost.jumpHostId;
+    }
+    return chain;
+  }
+
+  /**
+   * 校验引用的共享凭据是否存在
+   */
+  private async validateCredentialReference(
+    credentialId?: number | null,
+  ): Promise<void> {
+    if (!credentialId) {
+      return;
+    }
+    const credential = await this.prisma.credential.findUnique({
+      where: { id: credentialId },
+      select: { id: true },
+    });
+    if (!credential) {
+      throw new NotFoundException(`凭据ID ${credentialId} 不存在`);
+    }
+  }
+
+  /**
+   * 将数据库记录转换为实体，凭据只返回是否已配置
+   */
+  private toEntity(server: ServerEntity | Server): ServerEntity {
+    const { password, privateKey, passphrase, certificate, ...rest } = server;
+    // 主机密钥只通过管理员接口查看
+    for (const field of SERVER_HOST_KEY_FIELDS) {
+      delete rest[field];
+    }
+    return {
+      ...rest,
+      hasPassword: !!password,
+      hasPrivateKey: !!privateKey,
+      hasPassphrase: !!passphrase,
+      hasCertificate: !!certificate,
+    } as ServerEntity;
+  }
+
   /**
    * 更新服务器状态
    * @param id 服务器ID
@@ -111,8 +534,7 @@ export class ServersService extends BaseService<
         },
       });
 
-      // 使用类型断言确保返回类型符合ServerEntity
-      return updatedServer as unknown as ServerEntity;
+      return this.toEntity(updatedServer);
     } catch (error) {
       const errorContext: ErrorContext = {
         operation: 'updateStatus',
@@ -184,8 +606,10 @@ export class ServersService extends BaseService<
           );
         } catch (error) {
           result.failureCount++;
+          // 失败信息中不回显凭据
+          const { password, privateKey, passphrase, ...server } = serverDto;
           result.failureServers.push({
-            server: serverDto,
+            server,
             reason: error.message,
           });
 
@@ -0,0 +1,118 @@
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { TerminalUserDto } from './dto/terminal-user.dto';
+
+// 查询授权用户时返回的字段
+const TERMINAL_USER_SELECT = {
+  id: true,
+  username: true,
+  role: true,
+  isActive: true,
+};
+
+/**
+ * 交互式终端授权服务
+ * 管理员可以打开任意服务器的终端，普通用户只能打开已授权的服务器
+ */
+@Injectable()
+export class TerminalAccessService {
+  private readonly logger = new Logger(TerminalAccessService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 校验用户是否可以打开或加入服务器的终端
+   * @param serverId 服务器ID
+   * @param user 当前用户
+   */
+  async assertCanAccess(
+    serverId: number,
+    user?: { id: number; role?: string },
+  ): Promise<void> {
+    if (!user) {
+      throw new UnauthorizedException('打开终端需要登录');
+    }
+    if (user.role === 'admin') {
+      return;
+    }
+
+    const granted = await this.prisma.server.count({
+      where: { id: serverId, terminalUsers: { some: { id: user.id } } },
+    });
+    if (granted === 0) {
+      throw new ForbiddenException(`没有权限打开服务器 ${serverId} 的终端`);
+    }
+  }
+
+  /**
+   * 获取可以打开服务器终端的普通用户
+   * @param serverId 服务器ID
+   */
+  async findUsers(serverId: number): Promise<TerminalUserDto[]> {
+    const server = await this.prisma.server.findUnique({
+      where: { id: serverId },
+      select: {
+        terminalUsers: {
+          select: TERMINAL_USER_SELECT,
+          orderBy: { id: 'asc' },
+        },
+      },
+    });
+    if (!server) {
+      throw new NotFoundException(`服务器ID ${serverId} 不存在`);
+    }
+    return server.terminalUsers;
+  }
+
+  /**
+   * 替换可以打开服务器终端的用户列表
+   * @param serverId 服务器ID
+   * @param userIds 用户ID列表
+   */
+  async setUsers(
+    serverId: number,
+    userIds: number[],
+  ): Promise<TerminalUserDto[]> {
+    await this.findUsers(serverId);
+    await this.ensureUsersExist(userIds);
+
+    const server = await this.prisma.server.update({
+      where: { id: serverId },
+      data: {
+        terminalUsers: { set: userIds.map((userId) => ({ id: userId })) },
+      },
+      select: {
+        terminalUsers: {
+          select: TERMINAL_USER_SELECT,
+          orderBy: { id: 'asc' },
+        },
+      },
+    });
+    this.logger.log(
+      `服务器 ${serverId} 的终端授权用户已更新为: ${userIds.join(', ') || '无'}`,
+    );
+    return server.terminalUsers;
+  }
+
+  private async ensureUsersExist(userIds: number[]): Promise<void> {
+    const foundUsers = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true },
+    });
+    const foundUserIds = foundUsers.map((user) => user.id);
+    const missingUserIds = userIds.filter(
+      (userId) => !foundUserIds.includes(userId),
+    );
+    if (missingUserIds.length > 0) {
+      throw new NotFoundException(
+        `以下用户ID不存在: ${missingUserIds.join(', ')}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  ParseIntPipe,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+  ApiProduces,
+} from '@nestjs/swagger';
+import { TerminalRecordingsService } from './terminal-recordings.service';
+import { TerminalRecordingQueryDto } from './dto/terminal-recording-query.dto';
+import { CleanupTerminalRecordingsDto } from './dto/cleanup-terminal-recordings.dto';
+import { TerminalRecordingCleanupResultDto } from './dto/terminal-recording-cleanup-result.dto';
+import { TerminalRecordingEntity } from './entities/terminal-recording.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('terminal-recordings')
+@ApiBearerAuth()
+@Controller('terminal-recordings')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class TerminalRecordingsController {
+  constructor(
+    private readonly terminalRecordingsService: TerminalRecordingsService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: '分页获取终端会话录像列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的终端录像列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/TerminalRecordingEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findAll(@Query(ParsePaginationPipe) params: TerminalRecordingQueryDto) {
+    return this.terminalRecordingsService.findByLimit(params);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取指定终端录像' })
+  @ApiParam({ name: 'id', description: '录像ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定终端录像',
+    type: TerminalRecordingEntity,
+  })
+  @ApiResponse({ status: 404, description: '录像不存在' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.terminalRecordingsService.findOne(id);
+  }
+
+  @Get(':id/download')
+  @ApiOperation({
+    summary: '下载终端录像',
+    description:
+      '返回 asciicast v2 格式的录像文件，可使用 asciinema play 或 asciinema-player 回放',
+  })
+  @ApiParam({ name: 'id', description: '录像ID' })
+  @ApiProduces('application/x-asciicast')
+  @ApiResponse({ status: 200, description: '返回录像文件' })
+  @ApiResponse({ status: 404, description: '录像或录像文件不存在' })
+  async download(
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<StreamableFile> {
+    const { name, stream } =
+      await this.terminalRecordingsService.openContent(id);
+    return new StreamableFile(stream, {
+      type: 'application/x-asciicast',
+      disposition: `attachment; filename*=UTF-8''${encodeURIComponent(name)}`,
+    });
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除终端录像' })
+  @ApiParam({ name: 'id', description: '录像ID' })
+  @ApiResponse({ status: 200, description: '录像删除成功' })
+  @ApiResponse({ status: 404, description: '录像不存在' })
+  @ApiResponse({ status: 409, description: '会话正在录制中' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.terminalRecordingsService.remove(id);
+  }
+
+  @Post('cleanup/by-date')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '根据会话开始时间清理终端录像',
+    description: '删除时间范围内已结束的录像记录及录像文件',
+  })
+  @ApiBody({ type: CleanupTerminalRecordingsDto })
+  @ApiResponse({
+    status: 200,
+    description: '清理结果',
+    type: TerminalRecordingCleanupResultDto,
+  })
+  cleanupByDate(@Body() cleanupDto: CleanupTerminalRecordingsDto) {
+    return this.terminalRecordingsService.cleanupByDate(cleanupDto);
+  }
+}
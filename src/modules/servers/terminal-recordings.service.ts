@@ -0,0 +1,407 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { TerminalRecording } from '@prisma/client';
+import {
+  createReadStream,
+  createWriteStream,
+  ReadStream,
+  WriteStream,
+} from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { performance } from 'perf_hooks';
+import { StringDecoder } from 'string_decoder';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  CleanupResult,
+  CleanupUtil,
+  DateField,
+  PaginationResultDto,
+  PaginationService,
+} from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import {
+  TerminalRecordingDefaults,
+  TerminalRecordingStatus,
+} from '../../common/constants';
+import { TerminalRecordingQueryDto } from './dto/terminal-recording-query.dto';
+import { CleanupTerminalRecordingsDto } from './dto/cleanup-terminal-recordings.dto';
+import { TerminalRecordingEntity } from './entities/terminal-recording.entity';
+
+// asciicast v2 事件类型：输出、输入和窗口大小变化
+const AsciicastEvent = {
+  OUTPUT: 'o',
+  INPUT: 'i',
+  RESIZE: 'r',
+} as const;
+
+type AsciicastEventType = (typeof AsciicastEvent)[keyof typeof AsciicastEvent];
+
+/**
+ * 开始录制时需要的会话信息
+ */
+export interface TerminalRecordingMeta {
+  serverId: number;
+  serverName: string;
+  userId?: number;
+  username?: string;
+  cols: number;
+  rows: number;
+}
+
+interface ActiveRecording {
+  stream: WriteStream;
+  startedAt: number; // performance.now() 时刻，用于计算事件的相对时间
+  decoder: StringDecoder; // 避免多字节字符被拆分到两个数据块时产生乱码
+  created: Promise<TerminalRecording | null>;
+}
+
+/**
+ * 终端会话录像服务
+ *
+ * 每个交互式终端会话以 asciicast v2 格式写入录像目录：首行为包含窗口大小和开始时间的头部，
+ * 之后每行一个 [相对秒数, 事件类型, 数据] 事件。数据库记录会话的服务器、用户和起止时间。
+ */
+@Injectable()
+export class TerminalRecordingsService implements OnModuleInit {
+  private readonly logger = new Logger(TerminalRecordingsService.name);
+  private readonly storageDir: string;
+  private readonly retentionDays: number;
+  private readonly recordings = new Map<string, ActiveRecording>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    configService: ConfigService,
+  ) {
+    this.storageDir = resolve(
+      configService.get<string>('TERMINAL_RECORDING_DIR') ??
+        TerminalRecordingDefaults.STORAGE_DIR,
+    );
+    this.retentionDays = Number(
+      configService.get<string>('TERMINAL_RECORDING_RETENTION_DAYS') ??
+        TerminalRecordingDefaults.RETENTION_DAYS,
+    );
+  }
+
+  /**
+   * 创建录像目录，并将服务重启前未结束的录像标记为中断
+   */
+  async onModuleInit(): Promise<void> {
+    await mkdir(this.storageDir, { recursive: true });
+
+    const { count } = await this.prisma.terminalRecording.updateMany({
+      where: { status: TerminalRecordingStatus.RECORDING },
+      data: {
+        status: TerminalRecordingStatus.INTERRUPTED,
+        endedAt: new Date(),
+      },
+    });
+    if (count > 0) {
+      this.logger.warn(`服务重启，已将 ${count} 个未结束的终端录像标记为中断`);
+    }
+  }
+
+  /**
+   * 开始录制会话，录像文件立即写入头部，数据库记录在后台创建
+   * @param sessionId 终端会话ID
+   * @param meta 服务器、用户和初始窗口大小
+   */
+  start(sessionId: string, meta: TerminalRecordingMeta): void {
+    const storageName = `${sessionId}.cast`;
+    const stream = createWriteStream(join(this.storageDir, storageName));
+    stream.on('error', (error) => {
+      this.logger.error(
+        `终端会话 ${sessionId} 的录像写入失败: ${error.message}`,
+      );
+      this.recordings.delete(sessionId);
+    });
+
+    const startedAt = new Date();
+    stream.write(
+      JSON.stringify({
+        version: 2,
+        width: meta.cols,
+        height: meta.rows,
+        timestamp: Math.floor(startedAt.getTime() / 1000),
+        title: `${meta.username ?? 'unknown'}@${meta.serverName}`,
+        env: { TERM: TerminalRecordingDefaults.TERM },
+      }) + '\n',
+    );
+
+    const created = this.prisma.terminalRecording
+      .create({
+        data: {
+          sessionId,
+          serverId: meta.serverId,
+          serverName: meta.serverName,
+          userId: meta.userId,
+          username: meta.username,
+          cols: meta.cols,
+          rows: meta.rows,
+          storageName,
+          startedAt,
+        },
+      })
+      .catch((error) => {
+        this.logger.error(
+          `创建终端会话 ${sessionId} 的录像记录失败: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return null;
+      });
+
+    this.recordings.set(sessionId, {
+      stream,
+      startedAt: performance.now(),
+      decoder: new StringDecoder('utf8'),
+      created,
+    });
+  }
+
+  /**
+   * 记录服务器输出
+   */
+  recordOutput(sessionId: string, data: Buffer): void {
+    const recording = this.recordings.get(sessionId);
+    if (recording) {
+      this.writeEvent(
+        recording,
+        AsciicastEvent.OUTPUT,
+        recording.decoder.write(data),
+      );
+    }
+  }
+
+  /**
+   * 记录用户输入
+   */
+  recordInput(sessionId: string, data: string): void {
+    const recording = this.recordings.get(sessionId);
+    if (recording) {
+      this.writeEvent(recording, AsciicastEvent.INPUT, data);
+    }
+  }
+
+  /**
+   * 记录窗口大小变化
+   */
+  recordResize(sessionId: string, cols: number, rows: number): void {
+    const recording = this.recordings.get(sessionId);
+    if (recording) {
+      this.writeEvent(recording, AsciicastEvent.RESIZE, `${cols}x${rows}`);
+    }
+  }
+
+  /**
+   * 结束录制，关闭录像文件并记录结束时间和文件大小
+   * @param sessionId 终端会话ID
+   */
+  async finish(sessionId: string): Promise<void> {
+    const recording = this.recordings.get(sessionId);
+    if (!recording) {
+      return;
+    }
+    this.recordings.delete(sessionId);
+
+    const rest = recording.decoder.end();
+    if (rest) {
+      this.writeEvent(recording, AsciicastEvent.OUTPUT, rest);
+    }
+    await new Promise<void>((resolve) => recording.stream.end(resolve));
+
+    const record = await recording.created;
+    if (!record) {
+      return;
+    }
+    const { size } = await stat(join(this.storageDir, record.storageName));
+    await this.prisma.terminalRecording.update({
+      where: { id: record.id },
+      data: {
+        status: TerminalRecordingStatus.COMPLETED,
+        size,
+        endedAt: new Date(),
+      },
+    });
+    this.logger.log(`终端会话 ${sessionId} 的录像已保存（${size} 字节）`);
+  }
+
+  async findByLimit(
+    params: TerminalRecordingQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<TerminalRecordingEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.serverId) {
+      where.serverId = params.serverId;
+    }
+
+    if (params.userId) {
+      where.userId = params.userId;
+    }
+
+    if (params.status) {
+      where.status = params.status;
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      TerminalRecording,
+      any
+    >(
+      this.prisma
+        .terminalRecording as unknown as PrismaModel<TerminalRecording>,
+      params,
+      where, // where
+      { startedAt: 'desc' }, // orderBy
+    );
+    return {
+      ...result,
+      items: result.items.map((recording) => this.toEntity(recording)),
+    };
+  }
+
+  async findOne(id: number): Promise<TerminalRecordingEntity> {
+    const recording = await this.findRecord(id);
+    return this.toEntity(recording);
+  }
+
+  /**
+   * 打开录像文件用于下载
+   * @param id 录像ID
+   * @returns 下载文件名和文件流
+   */
+  async openContent(id: number): Promise<{ name: string; stream: ReadStream }> {
+    const recording = await this.findRecord(id);
+    const storagePath = join(this.storageDir, recording.storageName);
+
+    try {
+      await stat(storagePath);
+    } catch {
+      throw new NotFoundException(`终端录像ID ${id} 的录像文件不存在`);
+    }
+
+    return {
+      name: `${recording.serverName}-${recording.sessionId}.cast`,
+      stream: createReadStream(storagePath),
+    };
+  }
+
+  /**
+   * 删除录像记录和录像文件，正在录制的会话无法删除
+   */
+  async remove(id: number): Promise<TerminalRecordingEntity> {
+    const recording = await this.findRecord(id);
+
+    if (this.recordings.has(recording.sessionId)) {
+      throw new ConflictException(`终端录像ID ${id} 正在录制中，无法删除`);
+    }
+
+    await this.prisma.terminalRecording.delete({ where: { id } });
+    await rm(join(this.storageDir, recording.storageName), { force: true });
+    return this.toEntity(recording);
+  }
+
+  /**
+   * 根据开始时间范围清理已结束的录像及其文件
+   * @param cleanupDto 清理参数
+   * @returns 清理结果
+   */
+  async cleanupByDate(
+    cleanupDto: CleanupTerminalRecordingsDto,
+  ): Promise<CleanupResult> {
+    const { startDate, endDate } = cleanupDto;
+    const recordings = await this.prisma.terminalRecording.findMany({
+      where: {
+        status: { not: TerminalRecordingStatus.RECORDING },
+        startedAt: { gte: startDate, lte: endDate },
+      },
+      select: { id: true, storageName: true },
+    });
+
+    // 只删除上面查到的记录，保证数据库记录和录像文件一一对应
+    const result = await CleanupUtil.cleanupByDateRange(
+      this.prisma,
+      'terminalRecording',
+      DateField.STARTED_AT,
+      startDate,
+      endDate,
+      { id: { in: recordings.map((recording) => recording.id) } },
+      this.logger,
+      '终端录像',
+    );
+
+    if (result.success) {
+      await Promise.all(
+        recordings.map((recording) =>
+          rm(join(this.storageDir, recording.storageName), { force: true }),
+        ),
+      );
+    }
+    return result;
+  }
+
+  /**
+   * 每天清理超过保留天数的录像
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async cleanupExpired(): Promise<void> {
+    if (!(this.retentionDays > 0)) {
+      return;
+    }
+    const endDate = new Date(
+      Date.now() - this.retentionDays * 24 * 60 * 60 * 1000,
+    );
+    await this.cleanupByDate({ endDate });
+  }
+
+  private async findRecord(id: number): Promise<TerminalRecording> {
+    const recording = await this.prisma.terminalRecording.findUnique({
+      where: { id },
+    });
+
+    if (!recording) {
+      throw new NotFoundException(`终端录像ID ${id} 不存在`);
+    }
+
+    return recording;
+  }
+
+  private writeEvent(
+    recording: ActiveRecording,
+    type: AsciicastEventType,
+    data: string,
+  ): void {
+    if (!data) {
+      return;
+    }
+    const elapsed = (performance.now() - recording.startedAt) / 1000;
+    recording.stream.write(
+      JSON.stringify([Number(elapsed.toFixed(6)), type, data]) + '\n',
+    );
+  }
+
+  private toEntity(recording: TerminalRecording): TerminalRecordingEntity {
+    return {
+      id: recording.id,
+      sessionId: recording.sessionId,
+      serverId: recording.serverId,
+      serverName: recording.serverName,
+      userId: recording.userId,
+      username: recording.username,
+      cols: recording.cols,
+      rows: recording.rows,
+      status: recording.status,
+      size: recording.size,
+      startedAt: recording.startedAt,
+      endedAt: recording.endedAt,
+      createdAt: recording.createdAt,
+      updatedAt: recording.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { Controller, Get, Param, Delete, Req, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TerminalService, TerminalSessionUser } from './terminal.service';
+import { TerminalSessionSummaryDto } from './dto/terminal-session-summary.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@ApiTags('terminal-sessions')
+@ApiBearerAuth()
+@Controller('terminal-sessions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class TerminalSessionsController {
+  constructor(private readonly terminalService: TerminalService) {}
+
+  @Get()
+  @ApiOperation({ summary: '获取所有进行中的终端会话' })
+  @ApiResponse({
+    status: 200,
+    description: '返回进行中的终端会话',
+    type: [TerminalSessionSummaryDto],
+  })
+  findAll(): TerminalSessionSummaryDto[] {
+    return this.terminalService.listSessions();
+  }
+
+  @Delete(':sessionId')
+  @ApiOperation({
+    summary: '强制关闭终端会话',
+    description: '断开会话所有者和所有观看者，并结束服务器上的 PTY',
+  })
+  @ApiParam({ name: 'sessionId', description: '终端会话的 UUID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回被关闭的会话',
+    type: TerminalSessionSummaryDto,
+  })
+  @ApiResponse({ status: 404, description: '会话未在进行中' })
+  forceClose(
+    @Param('sessionId') sessionId: string,
+    @Req() req: { user?: TerminalSessionUser },
+  ): TerminalSessionSummaryDto {
+    return this.terminalService.forceCloseSession(sessionId, req.user);
+  }
+}
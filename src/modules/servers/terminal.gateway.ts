@@ -9,7 +9,8 @@ import {
 } from '@nestjs/websockets';
 import { Server, WebSocket } from 'ws'; // Use 'ws' types
 import { Logger, Injectable, UsePipes, ValidationPipe } from '@nestjs/common';
-import { TerminalService } from './terminal.service';
+import { JwtService } from '@nestjs/jwt';
+import { TerminalService, TerminalSessionUser } from './terminal.service';
 import {
   TerminalMessageDto,
   TerminalMessageType,
@@ -31,11 +32,16 @@ export class TerminalGateway
 
   private readonly logger = new Logger(TerminalGateway.name);
 
-  constructor(private readonly terminalService: TerminalService) {}
+  constructor(
+    private readonly terminalService: TerminalService,
+    private readonly jwtService: JwtService,
+  ) {}
 
   /**
    * Handles incoming WebSocket connections.
-   * Extracts sessionId from the handshake URL (e.g., ws://.../api/terminal?sessionId=xxx).
+   * Extracts sessionId from the handshake URL (e.g., ws://.../api/terminal?sessionId=xxx)
+   * and authenticates the user from the JWT in the `token` query parameter or the
+   * Authorization header, since browsers cannot set headers on WebSocket upgrades.
    * Delegates the connection handling to TerminalService.
    * @param client The connecting WebSocket client.
    * @param args Additional arguments (like the request object).
@@ -43,6 +49,7 @@ export class TerminalGateway
   async handleConnection(client: WebSocket, ...args: any[]): Promise<void> {
     const request = args[0]; // The incoming HTTP request during handshake
     let sessionId: string | null = null;
+    let token: string | null = null;
 
     // Extract sessionId from query parameters (common approach)
     // Example URL: ws://localhost:3000/api/terminal?sessionId=a1b2c3d4...
@@ -50,6 +57,7 @@ export class TerminalGateway
       try {
         const url = new URL(request.url, `ws://${request.headers.host}`); // Provide a base URL
         sessionId = url.searchParams.get('sessionId');
+        token = url.searchParams.get('token');
       } catch (e) {
         this.logger.error(
           `Failed to parse URL for sessionId: ${request.url}`,
@@ -72,11 +80,34 @@ export class TerminalGateway
       return;
     }
 
-    this.logger.log(`Client connecting with Session ID: ${sessionId}`);
+    const authorization = request?.headers?.authorization;
+    if (!token && typeof authorization === 'string') {
+      const [scheme, value] = authorization.split(' ');
+      token = scheme?.toLowerCase() === 'bearer' ? value : null;
+    }
+
+    const user = token ? await this.verifyToken(token) : null;
+    if (!user) {
+      this.logger.error(
+        `Unauthenticated connection attempt for session ${sessionId}. Closing connection.`,
+      );
+      client.send(
+        JSON.stringify({
+          type: TerminalMessageType.ERROR,
+          data: 'Authentication required.',
+        }),
+      );
+      client.close();
+      return;
+    }
+
+    this.logger.log(
+      `Client connecting with Session ID: ${sessionId} (user ${user.username})`,
+    );
 
     try {
-      // Pass the validated client and sessionId to the service
-      await this.terminalService.handleConnection(sessionId, client);
+      // Pass the validated client, sessionId and user to the service
+      await this.terminalService.handleConnection(sessionId, client, user);
       // Service now handles all further communication and errors for this client
     } catch (error) {
       // Catch errors during the *initial* handleConnection phase in the service
@@ -111,6 +142,26 @@ export class TerminalGateway
     // from terminalService.activeSessions if you need to log which session disconnected here.
   }
 
+  /**
+   * Verifies the JWT the same way JwtStrategy does for HTTP requests.
+   * @returns The authenticated user, or null if the token is invalid or expired.
+   */
+  private async verifyToken(
+    token: string,
+  ): Promise<TerminalSessionUser | null> {
+    try {
+      const payload = await this.jwtService.verifyAsync(token);
+      return {
+        id: payload.sub,
+        username: payload.username,
+        role: payload.role,
+      };
+    } catch (error) {
+      this.logger.warn(`Rejected terminal WebSocket token: ${error.message}`);
+      return null;
+    }
+  }
+
   // Note: We don't need @SubscribeMessage handlers here for 'input', 'resize', 'close'
   // because the TerminalService attaches direct listeners ('message', 'close')
   // to the WebSocket instance in `handleConnection`. This is more efficient.
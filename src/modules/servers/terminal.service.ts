@@ -6,37 +6,116 @@ import {
   OnModuleDestroy,
   Inject,
   BadRequestException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
 import { v4 as uuidv4 } from 'uuid';
 import { WebSocket } from 'ws';
-import { Client, ClientChannel, ConnectConfig } from 'ssh2'; // Import from ssh2
-import { Server } from '@prisma/client';
+import { Client, ConnectConfig } from 'ssh2'; // Import from ssh2
 import { ServersService } from './servers.service';
 import { TerminalMessageType } from './dto/terminal-message.dto';
+import { SshAuthService } from '../ssh/services/ssh-auth.service';
+import { HostKeyService } from '../ssh/services/host-key.service';
+import { JumpHostService } from '../ssh/services/jump-host.service';
+import { JumpHostTunnel, SshAuthConfig } from '../ssh/types/ssh.types';
+import { TerminalRecordingsService } from './terminal-recordings.service';
+import {
+  TerminalRecordingDefaults,
+  TerminalSessionDefaults,
+} from '../../common/constants';
+import { TerminalAccessService } from './terminal-access.service';
+import { ProxyGateway } from '../proxy/proxy.gateway';
+import { ServerEntity } from './entities/server.entity';
+
+// PTY requested for every session; clients resize it once connected
+const DEFAULT_PTY = {
+  term: TerminalRecordingDefaults.TERM,
+  cols: TerminalRecordingDefaults.COLS,
+  rows: TerminalRecordingDefaults.ROWS,
+};
+
+// The shell behind a session, either a direct ssh2 PTY or one tunnelled through a proxy agent
+interface TerminalChannel {
+  write(data: string): void;
+  resize(cols: number, rows: number): void;
+  close(): void;
+}
+
+// The authenticated user who requested the session, kept for the recording
+export interface TerminalSessionUser {
+  id: number;
+  username: string;
+  role?: string;
+}
+
+// Another user watching a live session; input is only forwarded once granted
+interface TerminalViewer {
+  id: string; // The pending session token the viewer joined with
+  user?: TerminalSessionUser;
+  webSocket: WebSocket;
+  canInput: boolean;
+  joinedAt: Date;
+}
 
 interface ActiveTerminalSession {
   id: string;
   serverId: number;
-  sshClient: Client; // Store the ssh2 client instance
-  sshStream: ClientChannel; // The SSH stream (PTY)
-  webSocket: WebSocket; // The connected WebSocket client
+  user?: TerminalSessionUser; // The owner who created the session
+  channel: TerminalChannel; // The remote PTY
+  webSocket: WebSocket; // The owner's WebSocket client
+  viewers: Map<string, TerminalViewer>;
+  startedAt: Date;
+  lastActivityAt: Date; // Last input or resize, used for the idle timeout
+}
+
+interface PendingTerminalSession {
+  serverId: number;
+  user?: TerminalSessionUser;
+  joinSessionId?: string; // Set when the token joins an existing session
+  expires: number;
+}
+
+export interface TerminalParticipant {
+  participantId: string;
+  owner: boolean;
+  userId?: number;
+  username?: string;
+  canInput: boolean;
+  joinedAt: Date;
+}
+
+export interface TerminalSessionSummary {
+  sessionId: string;
+  serverId: number;
+  userId?: number;
+  username?: string;
+  viewerCount: number;
+  startedAt: Date;
+  lastActivityAt: Date;
 }
 
 @Injectable()
 export class TerminalService implements OnModuleDestroy {
   private readonly logger = new Logger(TerminalService.name);
   private activeSessions: Map<string, ActiveTerminalSession> = new Map();
-  private pendingSessions: Map<string, { serverId: number; expires: number }> =
-    new Map();
+  private pendingSessions: Map<string, PendingTerminalSession> = new Map();
   private readonly webSocketBaseUrl: string;
   private cleanupInterval: NodeJS.Timeout | null = null;
   private readonly PENDING_SESSION_TTL_MS = 60 * 1000; // 60 seconds TTL
+  private readonly idleTimeoutMs: number;
+  private readonly maxDurationMs: number;
 
   constructor(
     // SshConnectionService is no longer needed here for shell creation
     private readonly serversService: ServersService,
     private readonly configService: ConfigService,
+    private readonly sshAuthService: SshAuthService,
+    private readonly hostKeyService: HostKeyService,
+    private readonly jumpHostService: JumpHostService,
+    private readonly terminalRecordingsService: TerminalRecordingsService,
+    private readonly proxyGateway: ProxyGateway,
+    private readonly terminalAccessService: TerminalAccessService,
   ) {
     const appUrl = this.configService.get<string>(
       'APP_URL',
@@ -48,11 +127,28 @@ export class TerminalService implements OnModuleDestroy {
     this.logger.log(
       `WebSocket Base URL for Terminal: ${this.webSocketBaseUrl}`,
     );
+    // 0 disables the corresponding limit
+    this.idleTimeoutMs = Number(
+      this.configService.get<string>('TERMINAL_IDLE_TIMEOUT_MS') ??
+        TerminalSessionDefaults.IDLE_TIMEOUT_MS,
+    );
+    this.maxDurationMs = Number(
+      this.configService.get<string>('TERMINAL_MAX_DURATION_MS') ??
+        TerminalSessionDefaults.MAX_DURATION_MS,
+    );
     this.schedulePendingSessionCleanup();
   }
 
+  /**
+   * Issues a single-use token for the terminal WebSocket, bound to the
+   * requesting user. Non-admins need terminal access to the server.
+   * With `joinSessionId` the token attaches to that live session as a
+   * read-only viewer instead of opening a new shell.
+   */
   async createSession(
     serverId: number,
+    user?: TerminalSessionUser,
+    joinSessionId?: string,
   ): Promise<{ sessionId: string; webSocketUrl: string }> {
     const server = await this.serversService.findOne(serverId);
     if (!server) {
@@ -61,25 +157,42 @@ export class TerminalService implements OnModuleDestroy {
       );
       throw new NotFoundException(`Server with ID ${serverId} not found.`);
     }
+    await this.terminalAccessService.assertCanAccess(serverId, user);
+    if (joinSessionId) {
+      this.getActiveSession(serverId, joinSessionId);
+    }
 
     const sessionId = uuidv4();
     const webSocketUrl = this.webSocketBaseUrl;
     const expiryTime = Date.now() + this.PENDING_SESSION_TTL_MS;
-    this.pendingSessions.set(sessionId, { serverId, expires: expiryTime });
+    this.pendingSessions.set(sessionId, {
+      serverId,
+      user,
+      joinSessionId,
+      expires: expiryTime,
+    });
     this.logger.log(
-      `Pending session created for server ${serverId} (Session ID: ${sessionId}), expires at ${new Date(expiryTime).toISOString()}`,
+      `Pending ${joinSessionId ? `join of session ${joinSessionId}` : 'session'} created for server ${serverId} (Session ID: ${sessionId}), expires at ${new Date(expiryTime).toISOString()}`,
     );
     this.schedulePendingSessionCleanup();
     return { sessionId, webSocketUrl };
   }
 
-  async handleConnection(sessionId: string, ws: WebSocket): Promise<void> {
+  /**
+   * Takes over a WebSocket authenticated by the gateway. The token must have
+   * been issued to the same user that opened the WebSocket.
+   */
+  async handleConnection(
+    sessionId: string,
+    ws: WebSocket,
+    user: TerminalSessionUser,
+  ): Promise<void> {
     this.logger.log(
       `WebSocket attempting connection for session: ${sessionId}`,
     );
 
-    const serverId = await this.getServerIdForPendingSession(sessionId);
-    if (!serverId) {
+    const pending = this.getPendingSession(sessionId);
+    if (!pending) {
       this.logger.error(
         `No valid pending session found for ID: ${sessionId}. Closing WebSocket.`,
       );
@@ -91,6 +204,27 @@ export class TerminalService implements OnModuleDestroy {
       ws.close();
       return;
     }
+    if (pending.user?.id !== user.id) {
+      // A leaked token is burnt rather than left for its owner to retry
+      this.pendingSessions.delete(sessionId);
+      this.logger.warn(
+        `Session ${sessionId} was presented by user ${user.id}, but issued to user ${pending.user?.id}. Closing WebSocket.`,
+      );
+      this.sendWsMessage(
+        ws,
+        TerminalMessageType.ERROR,
+        'Session ID was issued to a different user.',
+      );
+      ws.close();
+      return;
+    }
+    const { serverId, joinSessionId } = pending;
+
+    if (joinSessionId) {
+      this.pendingSessions.delete(sessionId);
+      this.attachViewer(joinSessionId, sessionId, user, ws);
+      return;
+    }
 
     const server = await this.serversService.findOne(serverId);
     if (!server) {
@@ -110,22 +244,67 @@ export class TerminalService implements OnModuleDestroy {
     this.pendingSessions.delete(sessionId); // Consume pending session
     this.logger.log(`Consumed pending session for ID: ${sessionId}`);
 
+    if (server.connectionType === 'proxy') {
+      await this.openProxySession(sessionId, server, user, ws);
+      return;
+    }
+
+    // Resolve credentials with the same auth logic used for command execution
+    let auth: SshAuthConfig;
+    try {
+      auth = await this.sshAuthService.resolve(serverId);
+    } catch (error) {
+      this.logger.error(
+        `[${sessionId}] Failed to resolve SSH auth for server ${serverId}: ${error.message}`,
+      );
+      this.sendWsMessage(
+        ws,
+        TerminalMessageType.ERROR,
+        `SSH Auth Error: ${error.message}`,
+      );
+      ws.close();
+      return;
+    }
+    const { onKeyboardInteractive, ...authConfig } = auth;
+
+    // Reach servers behind bastions through their jump host chain
+    let tunnel: JumpHostTunnel | undefined;
+    try {
+      tunnel = await this.jumpHostService.openTunnel(server);
+    } catch (error) {
+      this.logger.error(
+        `[${sessionId}] Failed to open jump host tunnel for server ${serverId}: ${error.message}`,
+      );
+      this.sendWsMessage(
+        ws,
+        TerminalMessageType.ERROR,
+        `SSH Jump Host Error: ${error.message}`,
+      );
+      ws.close();
+      return;
+    }
+
     const sshClient = new Client();
+    // Host keys are pinned on first use and must match afterwards
+    const verification = this.hostKeyService.createVerification(serverId);
     const connectConfig: ConnectConfig = {
       host: server.host,
       port: server.port,
-      username: server.username,
-      ...(server.password && { password: server.password }),
-      // ...(server.privateKey && { privateKey: Buffer.from(server.privateKey) }), // Handle private key if needed
+      ...authConfig,
+      hostVerifier: verification.hostVerifier,
+      sock: tunnel?.sock,
       readyTimeout: 20000,
       keepaliveInterval: 10000,
     };
+    if (onKeyboardInteractive) {
+      sshClient.on('keyboard-interactive', onKeyboardInteractive);
+    }
 
     sshClient.on('ready', () => {
       this.logger.log(
         `[${sessionId}] SSH Client Ready. Requesting PTY shell...`,
       );
-      sshClient.shell({ term: 'xterm-color' }, (err, stream) => {
+      sshClient.shell(DEFAULT_PTY, (err, stream) => {
         // Request a PTY shell
         if (err) {
           this.logger.error(
@@ -143,38 +322,20 @@ export class TerminalService implements OnModuleDestroy {
         }
 
         this.logger.log(`[${sessionId}] SSH PTY stream established.`);
-        const session: ActiveTerminalSession = {
-          id: sessionId,
-          serverId: server.id,
-          sshClient, // Store the client
-          sshStream: stream, // Store the stream
-          webSocket: ws,
-        };
-        this.activeSessions.set(sessionId, session);
-        this.logger.log(
-          `Session ${sessionId} activated. Active session count: ${this.activeSessions.size}`,
-        );
-
-        // --- WebSocket Event Handlers ---
-        ws.on('message', (message) =>
-          this.handleWebSocketMessage(sessionId, message, stream, ws),
-        );
-        ws.on('close', () => this.handleWebSocketClose(sessionId));
-        ws.on('error', (error) => this.handleWebSocketError(sessionId, error));
+        this.activateSession(sessionId, server, user, ws, {
+          write: (data) => stream.write(data),
+          // Use the stream's setWindow method for PTY resize
+          resize: (cols, rows) => stream.setWindow(rows, cols, 0, 0),
+          close: () => sshClient.end(), // Ending the client also closes the stream
+        });
 
         // --- SSH Stream Event Handlers ---
         stream.on('data', (data: Buffer) =>
-          this.handleSshData(sessionId, data, ws),
+          this.handleSshData(sessionId, data),
         );
-        stream.on('close', () => this.handleSshClose(sessionId, ws)); // Stream close
+        stream.on('close', () => this.handleSshClose(sessionId)); // Stream close
         stream.stderr.on('data', (data: Buffer) =>
-          this.handleSshError(sessionId, data, ws),
-        );
-
-        this.sendWsMessage(
-          ws,
-          TerminalMessageType.OUTPUT,
-          'Terminal session established.\r\n',
+          this.handleSshError(sessionId, data),
         );
       });
     });
@@ -187,7 +348,7 @@ export class TerminalService implements OnModuleDestroy {
       this.sendWsMessage(
         ws,
         TerminalMessageType.ERROR,
-        `SSH Connection Error: ${err.message}`,
+        `SSH Connection Error: ${verification.rejection ?? err.message}`,
       );
       ws.close();
       // Ensure cleanup if session was partially added
@@ -196,6 +357,7 @@ export class TerminalService implements OnModuleDestroy {
 
     sshClient.on('close', () => {
       this.logger.log(`[${sessionId}] SSH Client Connection Closed.`);
+      tunnel?.close();
       // This might be redundant if stream close handles it, but good for safety
       this.closeSessionInternally(sessionId, 'SSH client connection closed');
     });
@@ -220,11 +382,131 @@ export class TerminalService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * Opens the PTY through the server's proxy agent. The agent connects to the
+   * server with the same credentials as proxied command execution.
+   */
+  private async openProxySession(
+    sessionId: string,
+    server: ServerEntity,
+    user: TerminalSessionUser | undefined,
+    ws: WebSocket,
+  ): Promise<void> {
+    const proxyId = server.proxyId;
+    try {
+      if (!proxyId || !this.proxyGateway.isProxyOnline(proxyId)) {
+        throw new Error(`Proxy ${proxyId} is not connected.`);
+      }
+      const auth = await this.sshAuthService.resolve(server.id);
+      if (!auth.password && !auth.privateKey) {
+        throw new Error(
+          'Servers behind a proxy only support password or private key authentication.',
+        );
+      }
+      const { hostKeyFingerprint } = await this.hostKeyService.getHostKey(
+        server.id,
+      );
+
+      this.logger.log(
+        `[${sessionId}] Opening PTY on ${server.host}:${server.port} through proxy ${proxyId}`,
+      );
+      const terminal = await this.proxyGateway.openTerminal(
+        proxyId,
+        {
+          terminalId: sessionId,
+          serverId: server.id,
+          host: server.host,
+          port: server.port,
+          username: auth.username,
+          password: auth.password,
+          privateKey: auth.privateKey,
+          passphrase: auth.passphrase,
+          hostKeyFingerprint: hostKeyFingerprint ?? undefined,
+          ...DEFAULT_PTY,
+        },
+        {
+          onOutput: (data) =>
+            this.handleSshData(sessionId, Buffer.from(data, 'utf-8')),
+          onClose: (reason) => {
+            this.logger.log(
+              `[${sessionId}] Proxy terminal closed: ${reason ?? 'no reason given'}`,
+            );
+            this.handleSshClose(sessionId);
+          },
+        },
+      );
+
+      // The client may have gone away while the proxy was connecting
+      if (ws.readyState !== WebSocket.OPEN) {
+        terminal.close();
+        return;
+      }
+      this.logger.log(`[${sessionId}] Proxy PTY established.`);
+      this.activateSession(sessionId, server, user, ws, terminal);
+    } catch (error) {
+      this.logger.error(
+        `[${sessionId}] Failed to open terminal through proxy ${proxyId}: ${error.message}`,
+      );
+      this.sendWsMessage(
+        ws,
+        TerminalMessageType.ERROR,
+        `Proxy Terminal Error: ${error.message}`,
+      );
+      ws.close();
+    }
+  }
+
+  // Registers the session once its PTY is open and wires up the owner's WebSocket
+  private activateSession(
+    sessionId: string,
+    server: ServerEntity,
+    user: TerminalSessionUser | undefined,
+    ws: WebSocket,
+    channel: TerminalChannel,
+  ): void {
+    const session: ActiveTerminalSession = {
+      id: sessionId,
+      serverId: server.id,
+      user,
+      channel,
+      webSocket: ws,
+      viewers: new Map(),
+      startedAt: new Date(),
+      lastActivityAt: new Date(),
+    };
+    this.activeSessions.set(sessionId, session);
+    // Every interactive session is recorded for audit
+    this.terminalRecordingsService.start(sessionId, {
+      serverId: server.id,
+      serverName: server.name,
+      userId: user?.id,
+      username: user?.username,
+      cols: DEFAULT_PTY.cols,
+      rows: DEFAULT_PTY.rows,
+    });
+    this.logger.log(
+      `Session ${sessionId} activated. Active session count: ${this.activeSessions.size}`,
+    );
+
+    // --- WebSocket Event Handlers ---
+    ws.on('message', (message) =>
+      this.handleWebSocketMessage(sessionId, message, ws),
+    );
+    ws.on('close', () => this.handleWebSocketClose(sessionId));
+    ws.on('error', (error) => this.handleWebSocketError(sessionId, error));
+
+    this.sendWsMessage(
+      ws,
+      TerminalMessageType.OUTPUT,
+      'Terminal session established.\r\n',
+    );
+  }
+
   private handleWebSocketMessage(
     sessionId: string,
     message: import('ws').RawData, // Correct type from ws
-    sshStream: ClientChannel,
     ws: WebSocket,
+    viewer?: TerminalViewer, // Set when the message comes from a viewer
   ): void {
     try {
       // Ensure message is converted to a string correctly before parsing
@@ -266,7 +548,7 @@ export class TerminalService implements OnModuleDestroy {
       }
 
       const session = this.activeSessions.get(sessionId);
-      if (!session || !session.sshStream || session.sshStream.destroyed) {
+      if (!session) {
         this.logger.warn(
           `[${sessionId}] Received message for closed or non-existent session.`,
         );
@@ -282,8 +564,19 @@ export class TerminalService implements OnModuleDestroy {
 
       switch (parsedMessage.type) {
         case TerminalMessageType.INPUT:
-          if (typeof parsedMessage.data === 'string') {
-            session.sshStream.write(parsedMessage.data);
+          if (viewer && !viewer.canInput) {
+            this.sendWsMessage(
+              ws,
+              TerminalMessageType.ERROR,
+              'Input has not been granted for this session.',
+            );
+          } else if (typeof parsedMessage.data === 'string') {
+            this.terminalRecordingsService.recordInput(
+              sessionId,
+              parsedMessage.data,
+            );
+            session.channel.write(parsedMessage.data);
+            session.lastActivityAt = new Date();
           } else {
             this.logger.warn(
               `[${sessionId}] Received input message with non-string data`,
@@ -291,17 +584,24 @@ export class TerminalService implements OnModuleDestroy {
           }
           break;
         case TerminalMessageType.RESIZE:
+          // The PTY follows the owner's window; viewers cannot resize it
+          if (viewer) {
+            break;
+          }
           if (
             parsedMessage.data &&
             typeof parsedMessage.data.cols === 'number' &&
             typeof parsedMessage.data.rows === 'number'
           ) {
-            // Use the stream's setWindow method for PTY resize
-            session.sshStream.setWindow(
+            session.channel.resize(
+              parsedMessage.data.cols,
               parsedMessage.data.rows,
+            );
+            session.lastActivityAt = new Date();
+            this.terminalRecordingsService.recordResize(
+              sessionId,
               parsedMessage.data.cols,
-              0,
-              0,
+              parsedMessage.data.rows,
             );
             this.logger.log(
               `[${sessionId}] Resized terminal to ${parsedMessage.data.cols}x${parsedMessage.data.rows}`,
@@ -313,6 +613,10 @@ export class TerminalService implements OnModuleDestroy {
           }
           break;
         case TerminalMessageType.CLOSE:
+          if (viewer) {
+            this.detachViewer(sessionId, viewer.id, 'Viewer left');
+            break;
+          }
           this.logger.log(`[${sessionId}] Received close request from client`);
           this.closeSession(sessionId);
           break;
@@ -354,36 +658,39 @@ export class TerminalService implements OnModuleDestroy {
     this.closeSessionInternally(sessionId, 'WebSocket error');
   }
 
-  private handleSshData(sessionId: string, data: Buffer, ws: WebSocket): void {
-    if (ws.readyState === WebSocket.OPEN) {
-      this.sendWsMessage(
-        ws,
-        TerminalMessageType.OUTPUT,
-        data.toString('utf-8'),
-      );
-    } else {
+  private handleSshData(sessionId: string, data: Buffer): void {
+    this.terminalRecordingsService.recordOutput(sessionId, data);
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    if (session.webSocket.readyState !== WebSocket.OPEN) {
       this.logger.warn(
         `[${sessionId}] SSH data received but WebSocket is not open. Discarding data.`,
       );
     }
+    this.broadcast(session, TerminalMessageType.OUTPUT, data.toString('utf-8'));
   }
 
-  private handleSshError(sessionId: string, data: Buffer, ws: WebSocket): void {
+  private handleSshError(sessionId: string, data: Buffer): void {
     this.logger.error(`[${sessionId}] SSH stderr: ${data.toString('utf-8')}`);
-    if (ws.readyState === WebSocket.OPEN) {
-      this.sendWsMessage(
-        ws,
+    this.terminalRecordingsService.recordOutput(sessionId, data);
+    const session = this.activeSessions.get(sessionId);
+    if (session) {
+      this.broadcast(
+        session,
         TerminalMessageType.ERROR,
         `SSH Error: ${data.toString('utf-8')}`,
       );
     }
   }
 
-  private handleSshClose(sessionId: string, ws: WebSocket): void {
+  private handleSshClose(sessionId: string): void {
     // This handles the stream closing, the client closing is handled separately
     this.logger.log(`SSH stream closed for session: ${sessionId}`);
-    if (ws.readyState === WebSocket.OPEN) {
-      this.sendWsMessage(ws, TerminalMessageType.CLOSE, 'SSH stream closed.');
+    const session = this.activeSessions.get(sessionId);
+    if (session) {
+      this.broadcast(session, TerminalMessageType.CLOSE, 'SSH stream closed.');
       // Don't necessarily close the WebSocket here, let the client or WS close event handle it
       // ws.close();
     }
@@ -398,6 +705,77 @@ export class TerminalService implements OnModuleDestroy {
     return this.closeSessionInternally(sessionId, 'Session closed by request');
   }
 
+  /**
+   * Closes a session on behalf of an API caller. Only the owner or an admin
+   * may close it; a session that is not live on the server counts as closed.
+   */
+  closeSessionForUser(
+    serverId: number,
+    sessionId: string,
+    requester?: TerminalSessionUser,
+  ): boolean {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || session.serverId !== serverId) {
+      return false;
+    }
+    this.assertCanManage(session, requester);
+    return this.closeSession(sessionId);
+  }
+
+  /**
+   * Lists every live session for administrators.
+   */
+  listSessions(): TerminalSessionSummary[] {
+    return Array.from(this.activeSessions.values(), (session) =>
+      this.toSummary(session),
+    );
+  }
+
+  /**
+   * Closes any live session regardless of its owner.
+   */
+  forceCloseSession(
+    sessionId: string,
+    requester?: TerminalSessionUser,
+  ): TerminalSessionSummary {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      throw new NotFoundException(
+        `Terminal session ${sessionId} is not active.`,
+      );
+    }
+    const summary = this.toSummary(session);
+    this.closeSessionInternally(
+      sessionId,
+      `Closed by administrator ${requester?.username ?? 'unknown'}`,
+    );
+    return summary;
+  }
+
+  /**
+   * Closes sessions that have been idle or open for too long.
+   */
+  @Interval(TerminalSessionDefaults.SWEEP_INTERVAL_MS)
+  enforceSessionLimits(): void {
+    const now = Date.now();
+    Array.from(this.activeSessions.values()).forEach((session) => {
+      if (
+        this.maxDurationMs > 0 &&
+        now - session.startedAt.getTime() >= this.maxDurationMs
+      ) {
+        this.closeSessionInternally(
+          session.id,
+          'Maximum session duration reached',
+        );
+      } else if (
+        this.idleTimeoutMs > 0 &&
+        now - session.lastActivityAt.getTime() >= this.idleTimeoutMs
+      ) {
+        this.closeSessionInternally(session.id, 'Idle timeout');
+      }
+    });
+  }
+
   private closeSessionInternally(sessionId: string, reason: string): boolean {
     const session = this.activeSessions.get(sessionId);
     if (!session) {
@@ -407,17 +785,14 @@ export class TerminalService implements OnModuleDestroy {
 
     this.logger.log(`Closing session ${sessionId}. Reason: ${reason}`);
 
-    // 1. End the SSH Client connection (this should also close the stream)
-    if (session.sshClient && !session.sshClient['_closing']) {
-      // Check internal flag if available or just call end()
-      try {
-        session.sshClient.end();
-        this.logger.log(`[${sessionId}] SSH client connection ended.`);
-      } catch (sshError) {
-        this.logger.error(
-          `[${sessionId}] Error ending SSH client connection: ${sshError.message}`,
-        );
-      }
+    // 1. Close the remote PTY (ends the SSH connection or the proxy terminal)
+    try {
+      session.channel.close();
+      this.logger.log(`[${sessionId}] Terminal channel closed.`);
+    } catch (sshError) {
+      this.logger.error(
+        `[${sessionId}] Error closing terminal channel: ${sshError.message}`,
+      );
     }
 
     // 2. Close WebSocket (if open)
@@ -440,7 +815,18 @@ export class TerminalService implements OnModuleDestroy {
       }
     }
 
-    // 3. Remove session from active map - DO THIS LAST
+    // 3. Disconnect everyone watching the session
+    session.viewers.forEach((viewer) => {
+      this.sendWsMessage(
+        viewer.webSocket,
+        TerminalMessageType.CLOSE,
+        `Session closed: ${reason}`,
+      );
+      viewer.webSocket.close();
+    });
+    session.viewers.clear();
+
+    // 4. Remove session from active map - DO THIS LAST
     this.removeActiveSession(sessionId);
     return true;
   }
@@ -450,12 +836,15 @@ export class TerminalService implements OnModuleDestroy {
       this.logger.log(
         `Removed session ${sessionId} from active map. Remaining sessions: ${this.activeSessions.size}`,
       );
+      this.terminalRecordingsService.finish(sessionId).catch((error) => {
+        this.logger.error(
+          `[${sessionId}] Failed to finish terminal recording: ${error.message}`,
+        );
+      });
     }
   }
 
-  private async getServerIdForPendingSession(
-    sessionId: string,
-  ): Promise<number | null> {
+  private getPendingSession(sessionId: string): PendingTerminalSession | null {
     const pending = this.pendingSessions.get(sessionId);
     if (!pending) {
       this.logger.warn(`Pending session ID ${sessionId} not found.`);
@@ -466,7 +855,233 @@ export class TerminalService implements OnModuleDestroy {
       this.pendingSessions.delete(sessionId);
       return null;
     }
-    return pending.serverId;
+    return pending;
+  }
+
+  /**
+   * Lists the owner and viewers of a live session.
+   */
+  listParticipants(serverId: number, sessionId: string): TerminalParticipant[] {
+    const session = this.getActiveSession(serverId, sessionId);
+    return [
+      {
+        participantId: session.id,
+        owner: true,
+        userId: session.user?.id,
+        username: session.user?.username,
+        canInput: true,
+        joinedAt: session.startedAt,
+      },
+      ...Array.from(session.viewers.values(), (viewer) =>
+        this.toParticipant(viewer),
+      ),
+    ];
+  }
+
+  /**
+   * Grants or withdraws input for a viewer. Only the owner or an admin may do this.
+   */
+  updateParticipant(
+    serverId: number,
+    sessionId: string,
+    participantId: string,
+    canInput: boolean,
+    requester?: TerminalSessionUser,
+  ): TerminalParticipant {
+    const session = this.getActiveSession(serverId, sessionId);
+    this.assertCanManage(session, requester);
+    const viewer = this.getViewer(session, participantId);
+
+    viewer.canInput = canInput;
+    this.logger.log(
+      `[${sessionId}] Input ${canInput ? 'granted to' : 'withdrawn from'} viewer ${participantId}`,
+    );
+    this.sendWsMessage(
+      viewer.webSocket,
+      TerminalMessageType.OUTPUT,
+      canInput
+        ? '\r\n[Input has been granted to you.]\r\n'
+        : '\r\n[Input has been withdrawn; session is read-only.]\r\n',
+    );
+    this.notifyParticipants(session);
+    return this.toParticipant(viewer);
+  }
+
+  /**
+   * Disconnects a viewer from the session. Only the owner or an admin may do this.
+   */
+  revokeParticipant(
+    serverId: number,
+    sessionId: string,
+    participantId: string,
+    requester?: TerminalSessionUser,
+  ): TerminalParticipant {
+    const session = this.getActiveSession(serverId, sessionId);
+    this.assertCanManage(session, requester);
+    const viewer = this.getViewer(session, participantId);
+
+    this.detachViewer(sessionId, participantId, 'Access revoked by owner');
+    return this.toParticipant(viewer);
+  }
+
+  private attachViewer(
+    sessionId: string,
+    viewerId: string,
+    user: TerminalSessionUser | undefined,
+    ws: WebSocket,
+  ): void {
+    const session = this.activeSessions.get(sessionId);
+    if (!session) {
+      this.sendWsMessage(
+        ws,
+        TerminalMessageType.ERROR,
+        'Terminal session is no longer active.',
+      );
+      ws.close();
+      return;
+    }
+
+    const viewer: TerminalViewer = {
+      id: viewerId,
+      user,
+      webSocket: ws,
+      canInput: false,
+      joinedAt: new Date(),
+    };
+    session.viewers.set(viewerId, viewer);
+    this.logger.log(
+      `[${sessionId}] Viewer ${viewerId} (${user?.username ?? 'unknown'}) joined. Viewer count: ${session.viewers.size}`,
+    );
+
+    ws.on('message', (message) =>
+      this.handleWebSocketMessage(sessionId, message, ws, viewer),
+    );
+    ws.on('close', () =>
+      this.detachViewer(sessionId, viewerId, 'WebSocket closed'),
+    );
+    ws.on('error', (error) => {
+      this.logger.error(
+        `WebSocket error for viewer ${viewerId} of session ${sessionId}: ${error.message}`,
+      );
+      this.detachViewer(sessionId, viewerId, 'WebSocket error');
+    });
+
+    this.sendWsMessage(
+      ws,
+      TerminalMessageType.OUTPUT,
+      'Joined terminal session (read-only).\r\n',
+    );
+    this.notifyParticipants(session);
+  }
+
+  private detachViewer(
+    sessionId: string,
+    viewerId: string,
+    reason: string,
+  ): void {
+    const session = this.activeSessions.get(sessionId);
+    const viewer = session?.viewers.get(viewerId);
+    if (!session || !viewer) {
+      return;
+    }
+
+    session.viewers.delete(viewerId);
+    this.logger.log(
+      `[${sessionId}] Viewer ${viewerId} detached. Reason: ${reason}`,
+    );
+    if (viewer.webSocket.readyState === WebSocket.OPEN) {
+      this.sendWsMessage(
+        viewer.webSocket,
+        TerminalMessageType.CLOSE,
+        `Left session: ${reason}`,
+      );
+      viewer.webSocket.close();
+    }
+    this.notifyParticipants(session);
+  }
+
+  private getActiveSession(
+    serverId: number,
+    sessionId: string,
+  ): ActiveTerminalSession {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || session.serverId !== serverId) {
+      throw new NotFoundException(
+        `Terminal session ${sessionId} is not active on server ${serverId}.`,
+      );
+    }
+    return session;
+  }
+
+  private getViewer(
+    session: ActiveTerminalSession,
+    participantId: string,
+  ): TerminalViewer {
+    const viewer = session.viewers.get(participantId);
+    if (!viewer) {
+      throw new NotFoundException(
+        `Participant ${participantId} not found in session ${session.id}.`,
+      );
+    }
+    return viewer;
+  }
+
+  private assertCanManage(
+    session: ActiveTerminalSession,
+    requester?: TerminalSessionUser,
+  ): void {
+    if (
+      requester?.role === 'admin' ||
+      (requester && session.user && requester.id === session.user.id)
+    ) {
+      return;
+    }
+    throw new ForbiddenException(
+      'Only the session owner or an admin can manage this session.',
+    );
+  }
+
+  private toSummary(session: ActiveTerminalSession): TerminalSessionSummary {
+    return {
+      sessionId: session.id,
+      serverId: session.serverId,
+      userId: session.user?.id,
+      username: session.user?.username,
+      viewerCount: session.viewers.size,
+      startedAt: session.startedAt,
+      lastActivityAt: session.lastActivityAt,
+    };
+  }
+
+  private toParticipant(viewer: TerminalViewer): TerminalParticipant {
+    return {
+      participantId: viewer.id,
+      owner: false,
+      userId: viewer.user?.id,
+      username: viewer.user?.username,
+      canInput: viewer.canInput,
+      joinedAt: viewer.joinedAt,
+    };
+  }
+
+  // Keeps every client's participant list current
+  private notifyParticipants(session: ActiveTerminalSession): void {
+    this.broadcast(
+      session,
+      TerminalMessageType.PARTICIPANTS,
+      this.listParticipants(session.serverId, session.id),
+    );
+  }
+
+  private broadcast(
+    session: ActiveTerminalSession,
+    type: TerminalMessageType,
+    data: any,
+  ): void {
+    this.sendWsMessage(session.webSocket, type, data);
+    session.viewers.forEach((viewer) =>
+      this.sendWsMessage(viewer.webSocket, type, data),
+    );
   }
 
   private schedulePendingSessionCleanup(): void {
@@ -0,0 +1,92 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import {
+  buildServerScopeWhere,
+  buildTagSelectorWhere,
+  normalizeServerTags,
+  parseServerTags,
+  SERVER_TAGS_PATTERN,
+} from './server-tags.util';
+
+/**
+ * 按选择器生成的查询条件匹配规范化后的标签字符串，模拟数据库的求值
+ */
+function matches(tags: string, where: Prisma.ServerWhereInput): boolean {
+  const and = where.AND as Prisma.ServerWhereInput[];
+  return and.every((requirement) =>
+    (requirement.OR as Prisma.ServerWhereInput[]).some(({ tags: filter }) => {
+      if (typeof filter === 'string') {
+        return tags === filter;
+      }
+      const { startsWith, endsWith, contains } =
+        filter as Prisma.StringNullableFilter;
+      return (
+        (startsWith === undefined || tags.startsWith(startsWith)) &&
+        (endsWith === undefined || tags.endsWith(endsWith)) &&
+        (contains === undefined || tags.includes(contains))
+      );
+    }),
+  );
+}
+
+describe('server tags', () => {
+  it('规范化时应按键排序，同名键以最后一次出现为准', () => {
+    expect(normalizeServerTags('role=db,env=staging,env=prod')).toBe(
+      'env=prod,role=db',
+    );
+    expect(normalizeServerTags('')).toBeNull();
+  });
+
+  it('应解析标签键值对', () => {
+    expect(parseServerTags('env=prod,role=db')).toEqual({
+      env: 'prod',
+      role: 'db',
+    });
+    expect(parseServerTags(null)).toEqual({});
+  });
+
+  it('应校验标签格式', () => {
+    expect(SERVER_TAGS_PATTERN.test('env=prod,zone=cn/east-1')).toBe(true);
+    expect(SERVER_TAGS_PATTERN.test('')).toBe(true);
+    expect(SERVER_TAGS_PATTERN.test('env')).toBe(false);
+    expect(SERVER_TAGS_PATTERN.test('env=prod,')).toBe(false);
+  });
+});
+
+describe('buildTagSelectorWhere', () => {
+  const tags = 'app=web,env=prod,role=db';
+
+  it.each([
+    ['app=web', true],
+    ['env=prod', true],
+    ['role=db', true],
+    ['env=prod,role=db', true],
+    ['env', true],
+    ['env=pro', false],
+    ['nv=prod', false],
+    ['env=prod,role=cache', false],
+    ['zone', false],
+    ['rol', false],
+  ])('选择器 %s 的匹配结果应为 %s', (selector, expected) => {
+    expect(matches(tags, buildTagSelectorWhere(selector))).toBe(expected);
+  });
+
+  it.each(['', 'env=', '=prod', 'env=prod,', 'env prod'])(
+    '无效的选择器 "%s" 应抛出异常',
+    (selector) => {
+      expect(() => buildTagSelectorWhere(selector)).toThrow(
+        BadRequestException,
+      );
+    },
+  );
+});
+
+describe('buildServerScopeWhere', () => {
+  it('应合并分组和标签条件', () => {
+    expect(buildServerScopeWhere()).toEqual({});
+    expect(buildServerScopeWhere(2, 'env=prod')).toMatchObject({
+      groups: { some: { id: 2 } },
+      AND: [expect.objectContaining({ OR: expect.any(Array) })],
+    });
+  });
+});
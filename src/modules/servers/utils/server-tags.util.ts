@@ -0,0 +1,106 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+// 标签键和值允许的字符
+const TAG_TOKEN = '[A-Za-z0-9_.\\-/]+';
+
+/**
+ * 服务器标签格式，例如 env=prod,role=db；空字符串表示清空标签
+ */
+export const SERVER_TAGS_PATTERN = new RegExp(
+  `^(${TAG_TOKEN}=${TAG_TOKEN}(,${TAG_TOKEN}=${TAG_TOKEN})*)?$`,
+);
+
+/**
+ * 标签选择器格式，例如 env=prod,role=db；只写键（如 env）表示存在该标签即可
+ */
+export const TAG_SELECTOR_PATTERN = new RegExp(
+  `^${TAG_TOKEN}(=${TAG_TOKEN})?(,${TAG_TOKEN}(=${TAG_TOKEN})?)*$`,
+);
+
+/**
+ * 规范化服务器标签：按键排序，同名键以最后一次出现为准
+ * @param tags 标签字符串
+ * @returns 规范化后的标签字符串，没有标签时为null
+ */
+export function normalizeServerTags(tags: string | null): string | null {
+  const parsed = parseServerTags(tags);
+  const keys = Object.keys(parsed).sort();
+  return keys.length > 0
+    ? keys.map((key) => `${key}=${parsed[key]}`).join(',')
+    : null;
+}
+
+/**
+ * 解析服务器标签
+ * @param tags 标签字符串
+ * @returns 标签键值对
+ */
+export function parseServerTags(
+  tags: string | null | undefined,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!tags) {
+    return result;
+  }
+  for (const pair of tags.split(',')) {
+    const [key, value] = pair.split('=');
+    if (key && value !== undefined) {
+      result[key.trim()] = value.trim();
+    }
+  }
+  return result;
+}
+
+/**
+ * 将标签选择器转换为服务器查询条件，所有条件需同时满足
+ * @param selector 标签选择器
+ * @returns 服务器查询条件
+ */
+export function buildTagSelectorWhere(
+  selector: string,
+): Prisma.ServerWhereInput {
+  if (!TAG_SELECTOR_PATTERN.test(selector)) {
+    throw new BadRequestException(`无效的标签选择器: ${selector}`);
+  }
+
+  return {
+    AND: selector.split(',').map((requirement) => {
+      // 标签以逗号分隔存储，分别匹配位于开头、中间和结尾的情况
+      const [key, value] = requirement.split('=');
+      if (value === undefined) {
+        return {
+          OR: [
+            { tags: { startsWith: `${key}=` } },
+            { tags: { contains: `,${key}=` } },
+          ],
+        };
+      }
+      const pair = `${key}=${value}`;
+      return {
+        OR: [
+          { tags: pair },
+          { tags: { startsWith: `${pair},` } },
+          { tags: { endsWith: `,${pair}` } },
+          { tags: { contains: `,${pair},` } },
+        ],
+      };
+    }),
+  };
+}
+
+/**
+ * 构建按服务器分组和标签筛选的查询条件
+ * @param groupId 服务器分组ID
+ * @param tagSelector 标签选择器
+ * @returns 服务器查询条件，未指定筛选条件时为空对象
+ */
+export function buildServerScopeWhere(
+  groupId?: number,
+  tagSelector?: string,
+): Prisma.ServerWhereInput {
+  return {
+    ...(groupId && { groups: { some: { id: groupId } } }),
+    ...(tagSelector && buildTagSelectorWhere(tagSelector)),
+  };
+}
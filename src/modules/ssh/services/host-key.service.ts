@@ -0,0 +1,196 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  SERVER_HOST_KEY_FIELDS,
+  ServerHostKeyEntity,
+} from '../../servers/entities/server-host-key.entity';
+import { HostKeyVerification } from '../types/ssh.types';
+
+// 查询主机密钥时选择的字段
+const HOST_KEY_SELECT = Object.fromEntries(
+  SERVER_HOST_KEY_FIELDS.map((field) => [field, true]),
+) as Record<(typeof SERVER_HOST_KEY_FIELDS)[number], true>;
+
+/**
+ * 主机密钥校验服务
+ *
+ * 采用首次使用即信任（TOFU）策略：服务器首次连接时记录主机密钥指纹，
+ * 之后的连接必须与记录一致，不一致时拒绝连接并记录待确认的指纹，
+ * 由管理员确认后接受或重置。
+ */
+@Injectable()
+export class HostKeyService {
+  private readonly logger = new Logger(HostKeyService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 为一次连接创建主机密钥校验器
+   * @param serverId 服务器ID
+   * @returns 可合并到 ssh2/node-ssh 连接配置中的校验器，拒绝原因在校验后写入 rejection
+   */
+  createVerification(serverId: number): HostKeyVerification {
+    const verification: HostKeyVerification = {
+      hostVerifier: (key, verify) => {
+        this.verify(serverId, key)
+          .then((rejection) => {
+            verification.rejection = rejection;
+            verify(!rejection);
+          })
+          .catch((error) => {
+            verification.rejection = `主机密钥校验失败: ${error instanceof Error ? error.message : String(error)}`;
+            verify(false);
+          });
+      },
+    };
+    return verification;
+  }
+
+  /**
+   * 校验服务器的主机密钥
+   * @param serverId 服务器ID
+   * @param key 服务器提供的主机公钥
+   * @returns 校验通过时返回undefined，否则返回拒绝原因
+   */
+  async verify(serverId: number, key: Buffer): Promise<string | undefined> {
+    const fingerprint = this.fingerprint(key);
+    const keyType = this.keyType(key);
+
+    // 首次连接，记录主机密钥；条件更新避免并发连接重复固定
+    const pinned = await this.prisma.server.updateMany({
+      where: { id: serverId, hostKeyFingerprint: null },
+      data: {
+        hostKeyType: keyType,
+        hostKeyFingerprint: fingerprint,
+        hostKeyPinnedAt: new Date(),
+      },
+    });
+    if (pinned.count > 0) {
+      this.logger.log(
+        `已记录服务器 ${serverId} 的主机密钥 ${keyType} ${fingerprint}`,
+      );
+      return undefined;
+    }
+
+    const server = await this.prisma.server.findUnique({
+      where: { id: serverId },
+      select: { host: true, port: true, hostKeyFingerprint: true },
+    });
+    if (!server) {
+      return `服务器ID ${serverId} 不存在`;
+    }
+    if (server.hostKeyFingerprint === fingerprint) {
+      return undefined;
+    }
+
+    await this.prisma.server.update({
+      where: { id: serverId },
+      data: {
+        pendingHostKeyType: keyType,
+        pendingHostKey: fingerprint,
+        pendingHostKeySeenAt: new Date(),
+      },
+    });
+    this.logger.warn(
+      `服务器 ${serverId} 的主机密钥不一致: 已记录 ${server.hostKeyFingerprint}，当前 ${fingerprint}`,
+    );
+    return (
+      `服务器 ${server.host}:${server.port} 的主机密钥与已记录的不一致` +
+      `（已记录 ${server.hostKeyFingerprint}，当前 ${fingerprint}），可能存在中间人攻击，已拒绝连接。` +
+      `如确认主机密钥已变更，请由管理员接受新的主机密钥`
+    );
+  }
+
+  /**
+   * 查看服务器的主机密钥
+   * @param serverId 服务器ID
+   */
+  async getHostKey(serverId: number): Promise<ServerHostKeyEntity> {
+    const server = await this.prisma.server.findUnique({
+      where: { id: serverId },
+      select: HOST_KEY_SELECT,
+    });
+    if (!server) {
+      throw new NotFoundException(`服务器ID ${serverId} 不存在`);
+    }
+    return { serverId, ...server };
+  }
+
+  /**
+   * 接受待确认的主机密钥，替换已记录的主机密钥
+   * @param serverId 服务器ID
+   * @param fingerprint 要接受的指纹，必须与待确认的指纹一致
+   */
+  async acceptHostKey(
+    serverId: number,
+    fingerprint: string,
+  ): Promise<ServerHostKeyEntity> {
+    const hostKey = await this.getHostKey(serverId);
+    if (!hostKey.pendingHostKey) {
+      throw new BadRequestException(
+        `服务器ID ${serverId} 没有待确认的主机密钥`,
+      );
+    }
+    if (hostKey.pendingHostKey !== fingerprint) {
+      throw new BadRequestException(
+        `指纹 ${fingerprint} 与待确认的主机密钥 ${hostKey.pendingHostKey} 不一致`,
+      );
+    }
+
+    await this.prisma.server.update({
+      where: { id: serverId },
+      data: {
+        hostKeyType: hostKey.pendingHostKeyType,
+        hostKeyFingerprint: hostKey.pendingHostKey,
+        hostKeyPinnedAt: new Date(),
+        pendingHostKeyType: null,
+        pendingHostKey: null,
+        pendingHostKeySeenAt: null,
+      },
+    });
+    this.logger.log(`已接受服务器 ${serverId} 的新主机密钥 ${fingerprint}`);
+    return this.getHostKey(serverId);
+  }
+
+  /**
+   * 重置服务器的主机密钥，下次连接时重新记录
+   * @param serverId 服务器ID
+   */
+  async resetHostKey(serverId: number): Promise<ServerHostKeyEntity> {
+    await this.getHostKey(serverId);
+    await this.prisma.server.update({
+      where: { id: serverId },
+      data: Object.fromEntries(
+        SERVER_HOST_KEY_FIELDS.map((field) => [field, null]),
+      ),
+    });
+    this.logger.log(`已重置服务器 ${serverId} 的主机密钥`);
+    return this.getHostKey(serverId);
+  }
+
+  /**
+   * 计算与 OpenSSH 一致的 SHA256 指纹
+   */
+  private fingerprint(key: Buffer): string {
+    const digest = createHash('sha256').update(key).digest('base64');
+    return `SHA256:${digest.replace(/=+$/, '')}`;
+  }
+
+  /**
+   * 读取公钥数据开头的密钥类型字符串
+   */
+  private keyType(key: Buffer): string {
+    try {
+      const length = key.readUInt32BE(0);
+      return key.subarray(4, 4 + length).toString('ascii');
+    } catch {
+      return 'unknown';
+    }
+  }
+}
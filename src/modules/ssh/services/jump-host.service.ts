@@ -0,0 +1,129 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Client, ClientChannel } from 'ssh2';
+import { JumpHost, ServersService } from '../../servers/servers.service';
+import { SshAuthService } from './ssh-auth.service';
+import { HostKeyService } from './host-key.service';
+import { JumpHostTunnel } from '../types/ssh.types';
+
+/**
+ * 跳板机服务
+ *
+ * 依次连接服务器配置的跳板机链路，在最内层跳板机上转发到目标服务器，
+ * 返回的通道作为目标连接的 sock 使用。每台跳板机都按自身的配置认证并校验主机密钥。
+ */
+@Injectable()
+export class JumpHostService {
+  private readonly logger = new Logger(JumpHostService.name);
+
+  constructor(
+    private readonly serversService: ServersService,
+    private readonly sshAuthService: SshAuthService,
+    private readonly hostKeyService: HostKeyService,
+  ) {}
+
+  /**
+   * 建立经由跳板机到目标服务器的隧道
+   * @param server 目标服务器
+   * @returns 隧道，服务器未配置跳板机时返回undefined
+   * @throws 跳板机链路无效或任一跳板机连接失败时抛出错误
+   */
+  async openTunnel(
+    server: Pick<JumpHost, 'id' | 'host' | 'port' | 'jumpHostId'>,
+  ): Promise<JumpHostTunnel | undefined> {
+    if (!server.jumpHostId) {
+      return undefined;
+    }
+
+    const chain = await this.serversService.getJumpChain(server.id);
+    const clients: Client[] = [];
+    const close = () => {
+      // 由内向外关闭
+      for (const client of [...clients].reverse()) {
+        client.end();
+      }
+    };
+
+    try {
+      let sock: ClientChannel | undefined;
+      for (const [index, jumpHost] of chain.entries()) {
+        const client = await this.connectJumpHost(jumpHost, sock);
+        clients.push(client);
+        const next = chain[index + 1] ?? server;
+        sock = await this.forwardOut(client, jumpHost, next);
+      }
+      return { sock: sock as ClientChannel, close };
+    } catch (error) {
+      close();
+      throw error;
+    }
+  }
+
+  /**
+   * 连接一台跳板机
+   * @param jumpHost 跳板机
+   * @param sock 经由上一跳建立的通道，最外层跳板机为undefined
+   */
+  private async connectJumpHost(
+    jumpHost: JumpHost,
+    sock: ClientChannel | undefined,
+  ): Promise<Client> {
+    const { onKeyboardInteractive, ...auth } =
+      await this.sshAuthService.resolve(jumpHost.id);
+    const verification = this.hostKeyService.createVerification(jumpHost.id);
+
+    const client = new Client();
+    if (onKeyboardInteractive) {
+      client.on('keyboard-interactive', onKeyboardInteractive);
+    }
+
+    return new Promise<Client>((resolve, reject) => {
+      let ready = false;
+      client.on('ready', () => {
+        ready = true;
+        resolve(client);
+      });
+      client.on('error', (err) => {
+        if (ready) {
+          this.logger.warn(`跳板机 ${jumpHost.name} 连接出错: ${err.message}`);
+          return;
+        }
+        reject(
+          new Error(
+            `无法连接到跳板机 ${jumpHost.name}（${jumpHost.host}:${jumpHost.port}）: ${verification.rejection ?? err.message}`,
+          ),
+        );
+      });
+      client.connect({
+        host: jumpHost.host,
+        port: jumpHost.port,
+        sock,
+        ...auth,
+        hostVerifier: verification.hostVerifier,
+        readyTimeout: 20000,
+      });
+    });
+  }
+
+  /**
+   * 在跳板机上打开到下一跳的转发通道
+   */
+  private forwardOut(
+    client: Client,
+    jumpHost: JumpHost,
+    next: Pick<JumpHost, 'host' | 'port'>,
+  ): Promise<ClientChannel> {
+    return new Promise<ClientChannel>((resolve, reject) => {
+      client.forwardOut('127.0.0.1', 0, next.host, next.port, (err, stream) => {
+        if (err) {
+          reject(
+            new Error(
+              `跳板机 ${jumpHost.name} 无法转发到 ${next.host}:${next.port}: ${err.message}`,
+            ),
+          );
+          return;
+        }
+        resolve(stream);
+      });
+    });
+  }
+}
@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ConnectConfig, KeyboardInteractiveCallback, Prompt } from 'ssh2';
+import { ServersService } from '../../servers/servers.service';
+import { EncryptionService } from '../../encryption/encryption.service';
+import { CertificateAgent } from '../utils/certificate-agent';
+import { parseCertificate, parsePrivateKey } from '../utils/ssh-key.util';
+import { SshAuthConfig, SshCredentialOverride } from '../types/ssh.types';
+
+/**
+ * SSH认证解析服务
+ *
+ * 根据服务器配置生成统一的认证参数，命令执行、连接测试和交互式终端共用，
+ * 凭据只在这里解密。支持的方式：
+ * - 密码，启用 keyboard-interactive 时以密码应答所有提示
+ * - 私钥（可带密码短语）
+ * - 私钥 + OpenSSH 用户证书
+ * - 本机SSH代理（SSH_AUTH_SOCK）
+ * 服务器引用共享凭据时使用共享凭据中的用户名和密钥。
+ */
+@Injectable()
+export class SshAuthService {
+  constructor(
+    private readonly serversService: ServersService,
+    private readonly encryptionService: EncryptionService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 解析服务器的认证参数
+   *
+   * 凭据来源的优先级：传入的覆盖凭据 > 服务器引用的共享凭据 > 服务器自身的凭据。
+   * 证书与服务器自身的私钥绑定，使用其他来源的凭据时不再使用证书。
+   *
+   * @param serverId 服务器ID
+   * @param override 明文覆盖凭据，用于保存前测试新凭据
+   * @returns 可直接用于 ssh2/node-ssh 连接配置的认证参数
+   * @throws 未配置任何认证方式，或私钥、证书无法解析时抛出错误
+   */
+  async resolve(
+    serverId: number,
+    override?: SshCredentialOverride,
+  ): Promise<SshAuthConfig> {
+    const server = await this.serversService.findOne(serverId);
+    const credentials = await this.serversService.findCredentials(serverId);
+    const source: SshCredentialOverride =
+      override ??
+      (credentials.credential
+        ? {
+            username: credentials.credential.username ?? undefined,
+            password: this.decrypt(credentials.credential.password),
+            privateKey: this.decrypt(credentials.credential.privateKey),
+            passphrase: this.decrypt(credentials.credential.passphrase),
+          }
+        : {
+            password: this.decrypt(credentials.password),
+            privateKey: this.decrypt(credentials.privateKey),
+            passphrase: this.decrypt(credentials.passphrase),
+          });
+    const certificate =
+      override || credentials.credential ? null : credentials.certificate;
+    const { password, privateKey, passphrase } = source;
+
+    const auth: SshAuthConfig = {
+      username: source.username || server.username,
+    };
+
+    if (password) {
+      auth.password = password;
+      if (server.keyboardInteractive) {
+        auth.tryKeyboard = true;
+        auth.onKeyboardInteractive =
+          this.keyboardInteractiveResponder(password);
+      }
+    }
+
+    if (privateKey) {
+      const parsedKey = parsePrivateKey(privateKey, passphrase);
+      if (certificate) {
+        // 证书通过内存代理提供，ssh2 只允许一个代理，因此不再使用本机代理
+        auth.agent = new CertificateAgent(
+          parseCertificate(certificate),
+          parsedKey,
+        );
+      } else {
+        auth.privateKey = privateKey;
+        auth.passphrase = passphrase;
+      }
+    }
+
+    // 测试覆盖凭据时不回退到本机代理，避免代理中的密钥掩盖新凭据的问题
+    if (server.useAgent && !override && !auth.agent) {
+      const socket = this.configService.get<string>('SSH_AUTH_SOCK');
+      if (!socket) {
+        throw new Error('服务器配置为使用SSH代理认证，但未设置 SSH_AUTH_SOCK');
+      }
+      auth.agent = socket;
+    }
+
+    if (!auth.password && !auth.privateKey && !auth.agent) {
+      throw new Error('未提供密码、私钥或SSH代理认证方式');
+    }
+
+    return auth;
+  }
+
+  /**
+   * 以密码应答所有 keyboard-interactive 提示
+   */
+  private keyboardInteractiveResponder(password: string) {
+    return (
+      _name: string,
+      _instructions: string,
+      _lang: string,
+      prompts: Prompt[],
+      finish: KeyboardInteractiveCallback,
+    ) => finish(prompts.map(() => password));
+  }
+
+  private decrypt(value: string | null): string | undefined {
+    return value ? this.encryptionService.decrypt(value) : undefined;
+  }
+}
@@ -1,11 +1,36 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { SSHExecCommandOptions } from 'node-ssh';
-import { Server } from '@prisma/client';
+import { constants as osConstants } from 'os';
+import {
+  NodeSSH,
+  SSHExecCommandOptions,
+  SSHExecCommandResponse,
+} from 'node-ssh';
+import { ClientChannel } from 'ssh2';
 import { SshConnectionService } from './ssh-connection.service';
+import { SshAuthService } from './ssh-auth.service';
+import { HostKeyService } from './host-key.service';
 import { ProxyGateway } from '../../proxy/proxy.gateway';
-import { CommandResult, ProxyCommandOptions } from '../types/ssh.types';
+import {
+  CommandExecutionOptions,
+  CommandResult,
+  ProxyCommandOptions,
+  SshChannelLease,
+} from '../types/ssh.types';
 import { ErrorHandler } from '../../../common/utils/error-handler.util';
 import { ServersService } from '../../servers/servers.service';
+import { ServerEntity } from '../../servers/entities/server.entity';
+import { CommandExitCode } from '../../../common';
+
+// 输出首行的进程组ID标记，用于超时后终止远程进程
+const PGID_MARKER = '__SERVBATCH_PGID__:';
+
+// 发送 SIGTERM 后等待进程退出的宽限时间（秒）
+const KILL_GRACE_SECONDS = 3;
+
+// 在已有输出后追加一行提示信息
+function appendLine(text: string, line: string): string {
+  return `${text}${text && !text.endsWith('\n') ? '\n' : ''}${line}`;
+}
 
 /**
  * SSH命令服务
@@ -19,6 +44,8 @@ export class SshCommandService {
     private readonly sshConnectionService: SshConnectionService,
     private readonly proxyGateway: ProxyGateway,
     private readonly serversService: ServersService,
+    private readonly sshAuthService: SshAuthService,
+    private readonly hostKeyService: HostKeyService,
   ) {}
 
   /**
@@ -31,66 +58,179 @@ export class SshCommandService {
    * @param serverId - 服务器ID
    * @param command - 要执行的命令
    * @param timeout - 命令执行超时时间（秒），如果不提供则使用默认值
+   * @param server - 服务器信息，不提供时按ID查询
+   * @param options - 执行选项，例如实时输出回调
    * @returns 包含命令执行结果的对象，包括标准输出、标准错误和退出码
    */
   async executeCommand(
     serverId: number,
     command: string,
     timeout?: number,
-    server?: Server,
+    server?: ServerEntity,
+    options: CommandExecutionOptions = {},
   ): Promise<CommandResult> {
     // 如果没有提供server对象，则获取服务器信息
     const serverInfo = server || (await this.getServerById(serverId));
 
     // 检查服务器连接类型
     if (serverInfo.connectionType === 'proxy' && serverInfo.proxyId) {
-      return this.executeCommandViaProxy(serverInfo, command, timeout);
+      return this.executeCommandViaProxy(serverInfo, command, timeout, options);
     } else {
-      return this.executeCommandViaSSH(serverId, command, timeout);
+      return this.executeCommandViaSSH(serverId, command, timeout, options);
     }
   }
 
   /**
    * 通过直接SSH连接执行命令
    *
+   * 超时或被取消时会先向远程进程组发送 SIGTERM（宽限期后发送 SIGKILL），再关闭通道，
+   * 返回已收到的部分输出，并标记 timedOut 或 cancelled。
+   *
    * @param serverId - 服务器ID
    * @param command - 要执行的命令
    * @param timeout - 命令执行超时时间（秒）
+   * @param options - 执行选项
    * @returns 命令执行结果
    */
   private async executeCommandViaSSH(
     serverId: number,
     command: string,
     timeout?: number,
+    options: CommandExecutionOptions = {},
   ): Promise<CommandResult> {
+    if (options.signal?.aborted) {
+      return this.cancelledResult('', '');
+    }
+
+    // 默认从连接池借用通道；指定凭据时使用临时连接。执行结束后归还或释放
+    let temporaryConnection: NodeSSH | undefined;
+    let lease: SshChannelLease | undefined;
+    // 超时或取消时终止远程进程的任务，需要占用连接直到终止完成
+    let killing: Promise<void> | undefined;
     try {
-      const ssh = await this.sshConnectionService.getConnection(serverId);
+      let ssh: NodeSSH;
+      if (options.credentials) {
+        ssh = temporaryConnection =
+          await this.sshConnectionService.createTemporaryConnection(
+            serverId,
+            options.credentials,
+          );
+      } else {
+        lease = await this.sshConnectionService.acquireChannel(
+          serverId,
+          options.signal,
+        );
+        ssh = lease.ssh;
+      }
 
-      const options: SSHExecCommandOptions = {
-        cwd: '/',
-      };
+      // 远程shell由sshd通过setsid启动，$$ 即为命令所在进程组ID
+      const wrappedCommand = `echo "${PGID_MARKER}$$"; ${command}`;
 
-      // 如果提供了超时时间，添加自定义处理
-      let timeoutId: NodeJS.Timeout | undefined;
-      if (timeout) {
-        const timeoutMs = timeout * 1000; // 将秒转换为毫秒
-        timeoutId = setTimeout(() => {
-          this.logger.warn(`命令执行超时 (${timeout}秒)`);
-        }, timeoutMs);
-      }
+      let stdout = '';
+      let stderr = '';
+      let channel: ClientChannel | undefined;
+      // 标记行接收完整之前暂不推送标准输出
+      let markerHandled = false;
 
-      const result = await ssh.execCommand(command, options);
+      return await new Promise<CommandResult>((resolve, reject) => {
+        let settled = false;
+        let timeoutId: NodeJS.Timeout | undefined;
 
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
+        const cleanup = () => {
+          settled = true;
+          if (timeoutId) {
+            clearTimeout(timeoutId);
+          }
+          options.signal?.removeEventListener('abort', onAbort);
+        };
 
-      return {
-        stdout: result.stdout,
-        stderr: result.stderr,
-        exitCode: result.code || 0,
-      };
+        const finish = (result: CommandResult) => {
+          if (settled) return;
+          cleanup();
+          resolve(result);
+        };
+
+        // 终止远程进程，并以已收到的部分输出结束
+        const terminate = (result: (stdout: string) => CommandResult) => {
+          const { pgid, output } = this.extractProcessGroupId(stdout);
+          killing = this.killRemoteProcessGroup(ssh, serverId, pgid, channel);
+          finish(result(output));
+        };
+
+        const onAbort = () => {
+          if (settled) return;
+          this.logger.log(
+            `服务器 ${serverId} 上的命令已被取消，正在终止远程进程`,
+          );
+          terminate((output) => this.cancelledResult(output, stderr));
+        };
+        options.signal?.addEventListener('abort', onAbort);
+
+        if (timeout) {
+          const timeoutMs = timeout * 1000; // 将秒转换为毫秒
+          timeoutId = setTimeout(() => {
+            this.logger.warn(
+              `服务器 ${serverId} 上的命令执行超时 (${timeout}秒)，正在终止远程进程`,
+            );
+            terminate((output) => ({
+              stdout: output,
+              stderr: appendLine(stderr, `命令执行超时 (${timeout}秒)`),
+              exitCode: CommandExitCode.TIMEOUT,
+              timedOut: true,
+            }));
+          }, timeoutMs);
+        }
+
+        const execOptions: SSHExecCommandOptions = {
+          cwd: '/',
+          onChannel: (clientChannel) => {
+            channel = clientChannel;
+          },
+          onStdout: (chunk) => {
+            const data = chunk.toString();
+            stdout += data;
+            if (markerHandled) {
+              options.onOutput?.('stdout', data);
+              return;
+            }
+            const pendingMarker =
+              stdout.startsWith(PGID_MARKER) || PGID_MARKER.startsWith(stdout);
+            if (pendingMarker && !stdout.includes('\n')) {
+              return;
+            }
+            markerHandled = true;
+            const { output } = this.extractProcessGroupId(stdout);
+            if (output) {
+              options.onOutput?.('stdout', output);
+            }
+          },
+          onStderr: (chunk) => {
+            const data = chunk.toString();
+            stderr += data;
+            options.onOutput?.('stderr', data);
+          },
+        };
+
+        ssh
+          .execCommand(wrappedCommand, execOptions)
+          .then((result) =>
+            finish({
+              stdout: this.extractProcessGroupId(result.stdout).output,
+              stderr: result.stderr,
+              exitCode: this.toExitCode(result),
+            }),
+          )
+          .catch((error) => {
+            if (settled) return;
+            cleanup();
+            reject(error);
+          });
+      });
     } catch (error) {
+      // 等待连接或通道期间被取消
+      if (options.signal?.aborted) {
+        return this.cancelledResult('', '');
+      }
       const err = ErrorHandler.handleError(this.logger, error, `执行命令失败`);
 
       return {
@@ -98,6 +238,114 @@ export class SshCommandService {
         stderr: err.message,
         exitCode: 1,
       };
+    } finally {
+      const releaseConnection = () => {
+        temporaryConnection?.dispose();
+        lease?.release();
+      };
+      // 终止远程进程会另开通道，完成后才归还通道或释放临时连接
+      if (killing) {
+        void killing.then(releaseConnection);
+      } else {
+        releaseConnection();
+      }
+    }
+  }
+
+  /**
+   * 构造命令被取消时的结果
+   *
+   * @param stdout - 已收到的标准输出
+   * @param stderr - 已收到的错误输出
+   * @returns 标记为cancelled的命令结果
+   */
+  private cancelledResult(stdout: string, stderr: string): CommandResult {
+    return {
+      stdout,
+      stderr: appendLine(stderr, '命令已被取消'),
+      exitCode: CommandExitCode.CANCELLED,
+      cancelled: true,
+    };
+  }
+
+  /**
+   * 将命令的退出状态转换为退出码
+   *
+   * 远程进程被信号终止时没有退出码，按shell约定转换为 128 + 信号编号，
+   * 无法识别的信号视为失败，避免被当作执行成功。
+   *
+   * @param result - 命令执行结果
+   * @returns 退出码
+   */
+  private toExitCode(result: SSHExecCommandResponse): number {
+    if (result.code !== null) {
+      return result.code;
+    }
+    const signal = result.signal
+      ? osConstants.signals[
+          `SIG${result.signal}` as keyof typeof osConstants.signals
+        ]
+      : undefined;
+    return signal ? 128 + signal : 1;
+  }
+
+  /**
+   * 从标准输出中提取进程组ID标记行
+   *
+   * @param stdout - 原始标准输出
+   * @returns 进程组ID（未收到标记时为undefined）以及去除标记行后的输出
+   */
+  private extractProcessGroupId(stdout: string): {
+    pgid?: number;
+    output: string;
+  } {
+    if (!stdout.startsWith(PGID_MARKER)) {
+      return { output: stdout };
+    }
+    const lineEnd = stdout.indexOf('\n');
+    if (lineEnd === -1) {
+      // 标记行尚未完整接收
+      return { output: '' };
+    }
+    const pgid = parseInt(stdout.slice(PGID_MARKER.length, lineEnd), 10);
+    return {
+      pgid: Number.isNaN(pgid) ? undefined : pgid,
+      output: stdout.slice(lineEnd + 1),
+    };
+  }
+
+  /**
+   * 终止远程进程组并关闭命令通道
+   *
+   * 通过同一连接新开一个通道发送 SIGTERM，宽限期后发送 SIGKILL；
+   * 未能获取进程组ID时，退而向通道发送信号。
+   *
+   * @param ssh - SSH连接
+   * @param serverId - 服务器ID
+   * @param pgid - 远程进程组ID
+   * @param channel - 正在执行命令的通道
+   */
+  private async killRemoteProcessGroup(
+    ssh: NodeSSH,
+    serverId: number,
+    pgid: number | undefined,
+    channel: ClientChannel | undefined,
+  ): Promise<void> {
+    try {
+      if (pgid) {
+        await ssh.execCommand(
+          `kill -TERM -- -${pgid} 2>/dev/null; sleep ${KILL_GRACE_SECONDS}; kill -KILL -- -${pgid} 2>/dev/null; true`,
+        );
+        this.logger.log(`已终止服务器 ${serverId} 上的进程组 ${pgid}`);
+      } else {
+        channel?.signal('KILL');
+      }
+    } catch (error) {
+      this.logger.warn(
+        `终止服务器 ${serverId} 上的进程组 ${pgid ?? '-'} 失败: ${error.message}`,
+      );
+    } finally {
+      channel?.close();
     }
   }
 
@@ -110,12 +358,14 @@ export class SshCommandService {
    * @param server - 目标服务器信息，必须包含connectionType='proxy'和有效的proxyId
    * @param command - 要在目标服务器上执行的命令
    * @param timeout - 命令执行超时时间（秒），如果不提供则使用默认值（30秒）
+   * @param options - 执行选项，代理通过 command_output 事件推送实时输出，取消时发送 cancel_command
    * @returns 包含命令执行结果的对象，包括标准输出、标准错误和退出码
    */
   private async executeCommandViaProxy(
-    server: Server,
+    server: ServerEntity,
     command: string,
     timeout?: number,
+    options: CommandExecutionOptions = {},
   ): Promise<CommandResult> {
     // 确保proxyId存在
     if (!server.proxyId) {
@@ -126,6 +376,10 @@ export class SshCommandService {
       };
     }
 
+    if (options.signal?.aborted) {
+      return this.cancelledResult('', '');
+    }
+
     // 检查代理是否在线
     if (!this.proxyGateway.isProxyOnline(server.proxyId)) {
       return {
@@ -138,25 +392,48 @@ export class SshCommandService {
     // 生成唯一的命令ID
     const commandId = `cmd_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 
-    // 创建命令对象
-    const commandObj: ProxyCommandOptions = {
-      commandId,
-      serverId: server.id,
-      host: server.host,
-      port: server.port,
-      username: server.username,
-      password: server.password || undefined, // 将 null 转换为 undefined
-      privateKey: server.privateKey || undefined, // 将 null 转换为 undefined
-      command,
-      timeout: timeout ? timeout * 1000 : undefined, // 将秒转换为毫秒
-    };
-
     try {
+      // 代理需要明文凭据来连接目标服务器，证书和SSH代理认证无法转交
+      const auth = await this.sshAuthService.resolve(
+        server.id,
+        options.credentials,
+      );
+      if (!auth.password && !auth.privateKey) {
+        return {
+          stdout: '',
+          stderr: '通过代理连接的服务器仅支持密码或私钥认证',
+          exitCode: 1,
+        };
+      }
+
+      // 主机密钥由代理按已记录的指纹校验；代理不回传指纹，因此不在此处首次记录
+      const { hostKeyFingerprint } = await this.hostKeyService.getHostKey(
+        server.id,
+      );
+
+      // 创建命令对象
+      const commandObj: ProxyCommandOptions = {
+        commandId,
+        serverId: server.id,
+        host: server.host,
+        port: server.port,
+        username: auth.username,
+        password: auth.password,
+        privateKey: auth.privateKey,
+        passphrase: auth.passphrase,
+        hostKeyFingerprint: hostKeyFingerprint ?? undefined,
+        command,
+        timeout: timeout ? timeout * 1000 : undefined, // 将秒转换为毫秒
+      };
+
       // 此时我们已经确认了server.proxyId不为null
       const proxyId = server.proxyId as string;
 
       // 直接调用并等待 ProxyGateway 返回的 Promise
-      const result = await this.proxyGateway.sendCommand(proxyId, commandObj);
+      const result = await this.proxyGateway.sendCommand(proxyId, commandObj, {
+        onOutput: options.onOutput,
+        signal: options.signal,
+      });
       this.logger.log(
         `[executeCommandViaProxy] 成功收到代理 ${proxyId} 对命令 ${commandId} 的结果`,
       );
@@ -184,7 +461,7 @@ export class SshCommandService {
    * @param serverId 服务器ID
    * @returns 服务器信息
    */
-  private async getServerById(serverId: number): Promise<Server> {
+  private async getServerById(serverId: number): Promise<ServerEntity> {
     return this.serversService.findOne(serverId);
   }
 }
@@ -1,115 +1,488 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Interval } from '@nestjs/schedule';
 import { NodeSSH, Config } from 'node-ssh';
 import { ServersService } from '../../servers/servers.service';
 import { ErrorHandler } from '../../../common/utils/error-handler.util';
+import { SshPoolDefaults } from '../../../common/constants';
+import { SshAuthService } from './ssh-auth.service';
+import { HostKeyService } from './host-key.service';
+import { JumpHostService } from './jump-host.service';
+import { ServerEntity } from '../../servers/entities/server.entity';
+import {
+  SshChannelLease,
+  SshCredentialOverride,
+  SshPoolStats,
+} from '../types/ssh.types';
+
+/**
+ * 连接池中的连接
+ */
+interface PooledConnection {
+  serverId: number;
+  ssh: NodeSSH;
+  activeChannels: number;
+  createdAt: number;
+  lastUsedAt: number;
+  // 已移出连接池，最后一个通道归还后关闭
+  retired: boolean;
+}
+
+/**
+ * 等待空闲通道的请求
+ */
+interface ChannelWaiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
 
 /**
  * SSH连接服务
- * 负责管理SSH连接的创建、验证和关闭
+ * 以连接池的方式管理SSH连接的创建、借用、健康检查和回收
+ *
+ * - 每台服务器保持一个连接，同时执行的通道数不超过上限，超出的请求排队等待
+ * - 连接通过 keepalive 检测健康状态，断开后自动移出连接池，下次使用时重新连接
+ * - 空闲超时的连接由后台巡检回收；达到全局连接上限时优先回收最久未使用的空闲连接
  */
 @Injectable()
-export class SshConnectionService {
+export class SshConnectionService implements OnModuleDestroy {
   private readonly logger = new Logger(SshConnectionService.name);
-  private sshConnections: Map<number, NodeSSH> = new Map();
+  private readonly connections = new Map<number, PooledConnection>();
+  private readonly connecting = new Map<number, Promise<PooledConnection>>();
+  private readonly waiters = new Map<number, ChannelWaiter[]>();
 
-  constructor(private readonly serversService: ServersService) {}
+  private readonly maxConnections: number;
+  private readonly maxChannelsPerServer: number;
+  private readonly idleTimeoutMs: number;
+  private readonly acquireTimeoutMs: number;
+  private readonly keepaliveIntervalMs: number;
+  private readonly keepaliveCountMax: number;
+
+  constructor(
+    private readonly serversService: ServersService,
+    private readonly sshAuthService: SshAuthService,
+    private readonly hostKeyService: HostKeyService,
+    private readonly jumpHostService: JumpHostService,
+    private readonly configService: ConfigService,
+  ) {
+    this.maxConnections = this.numberConfig(
+      'SSH_POOL_MAX_CONNECTIONS',
+      SshPoolDefaults.MAX_CONNECTIONS,
+    );
+    this.maxChannelsPerServer = this.numberConfig(
+      'SSH_POOL_MAX_CHANNELS_PER_SERVER',
+      SshPoolDefaults.MAX_CHANNELS_PER_SERVER,
+    );
+    this.idleTimeoutMs = this.numberConfig(
+      'SSH_POOL_IDLE_TIMEOUT_MS',
+      SshPoolDefaults.IDLE_TIMEOUT_MS,
+    );
+    this.acquireTimeoutMs = this.numberConfig(
+      'SSH_POOL_ACQUIRE_TIMEOUT_MS',
+      SshPoolDefaults.ACQUIRE_TIMEOUT_MS,
+    );
+    this.keepaliveIntervalMs = this.numberConfig(
+      'SSH_POOL_KEEPALIVE_INTERVAL_MS',
+      SshPoolDefaults.KEEPALIVE_INTERVAL_MS,
+    );
+    this.keepaliveCountMax = this.numberConfig(
+      'SSH_POOL_KEEPALIVE_COUNT_MAX',
+      SshPoolDefaults.KEEPALIVE_COUNT_MAX,
+    );
+  }
+
+  async onModuleDestroy() {
+    await this.closeAllConnections();
+  }
 
   /**
    * 获取或创建到服务器的SSH连接
    *
-   * 此方法首先检查是否已有到指定服务器的有效连接，如果有则返回该连接；
-   * 如果没有或连接已断开，则创建新的连接。
+   * 连接池中已有可用连接时直接返回，否则创建新的连接；同一服务器的并发请求共用一次连接过程。
+   * 新连接会校验主机密钥，与已记录的主机密钥不一致时拒绝连接；
+   * 配置了跳板机时经由跳板机连接。
    * 连接成功后会更新服务器状态为"online"，失败则更新为"offline"。
+   * 返回的连接不占用通道配额，执行命令请使用 acquireChannel。
    *
    * @param serverId - 要连接的服务器ID
    * @returns 返回NodeSSH连接实例
-   * @throws 如果连接失败，将抛出错误
+   * @throws 如果连接失败或达到全局连接上限，将抛出错误
    */
   async getConnection(serverId: number): Promise<NodeSSH> {
-    // 检查是否已有连接
-    if (this.sshConnections.has(serverId)) {
-      const ssh = this.sshConnections.get(serverId);
-      // 检查连接是否仍然有效
-      try {
-        if (ssh) {
-          await ssh.execCommand('echo "Connection test"');
-          return ssh;
-        }
-      } catch (error) {
-        this.logger.warn(`SSH连接已断开，正在重新连接: ${error instanceof Error ? error.message : String(error)}`);
-        // 连接已断开，需要重新连接
-        this.sshConnections.delete(serverId);
+    const connection = await this.ensureConnection(serverId);
+    connection.lastUsedAt = Date.now();
+    return connection.ssh;
+  }
+
+  /**
+   * 从连接池借用一个通道
+   *
+   * 服务器的通道数已达上限时排队等待，直到有通道归还、等待超时或被取消。
+   *
+   * @param serverId - 服务器ID
+   * @param signal - 取消信号，触发后停止等待
+   * @returns 借出的通道，使用完毕后必须调用 release
+   * @throws 连接失败、等待超时或被取消时抛出错误
+   */
+  async acquireChannel(
+    serverId: number,
+    signal?: AbortSignal,
+  ): Promise<SshChannelLease> {
+    for (;;) {
+      const connection = await this.ensureConnection(serverId);
+      if (connection.activeChannels < this.maxChannelsPerServer) {
+        connection.activeChannels++;
+        connection.lastUsedAt = Date.now();
+
+        let released = false;
+        return {
+          ssh: connection.ssh,
+          release: () => {
+            if (released) return;
+            released = true;
+            this.releaseChannel(connection);
+          },
+        };
       }
+      // 被唤醒后重新检查，连接可能已断开或被其他请求抢先占用
+      await this.waitForChannel(serverId, signal);
     }
+  }
 
-    // 获取服务器信息
+  /**
+   * 使用指定凭据创建临时SSH连接
+   *
+   * 临时连接不进入连接池，也不会更新服务器状态，调用方使用完毕后需要自行释放。
+   *
+   * @param serverId - 要连接的服务器ID
+   * @param credentials - 覆盖服务器当前认证信息的明文凭据
+   * @returns 返回NodeSSH连接实例
+   * @throws 如果连接失败，将抛出错误
+   */
+  async createTemporaryConnection(
+    serverId: number,
+    credentials: SshCredentialOverride,
+  ): Promise<NodeSSH> {
     const server = await this.serversService.findOne(serverId);
-
-    // 创建SSH配置
+    const verification = this.hostKeyService.createVerification(serverId);
     const config: Config = {
       host: server.host,
       port: server.port,
-      username: server.username,
+      ...(await this.sshAuthService.resolve(serverId, credentials)),
+      hostVerifier: verification.hostVerifier,
     };
 
-    // 设置认证方式
-    if (server.password) {
-      config.password = server.password;
-    } else if (server.privateKey) {
-      config.privateKey = server.privateKey;
-    } else {
-      throw new Error('未提供密码或私钥');
-    }
-
-    // 创建新连接
-    const ssh = new NodeSSH();
     try {
-      await ssh.connect(config);
-      this.logger.log(`[getConnection] 成功连接到服务器 ${serverId}`);
-      this.sshConnections.set(serverId, ssh);
-      await this.serversService.updateStatus(serverId, 'online');
-      return ssh;
+      return await this.connect(server, config);
     } catch (error) {
       const err = ErrorHandler.handleError(
         this.logger,
         error,
-        `[getConnection] 连接服务器 ${serverId} 失败`,
+        `[createTemporaryConnection] 连接服务器 ${serverId} 失败`,
       );
-      await this.serversService.updateStatus(serverId, 'offline');
       throw new Error(
-        `无法连接到服务器 ${server.host}:${server.port}: ${err.message}`,
+        `无法连接到服务器 ${server.host}:${server.port}: ${verification.rejection ?? err.message}`,
       );
     }
   }
 
+  /**
+   * 获取连接池统计信息
+   */
+  getPoolStats(): SshPoolStats {
+    const connections = [...this.connections.values()].map((connection) => ({
+      serverId: connection.serverId,
+      activeChannels: connection.activeChannels,
+      waitingRequests: this.waiters.get(connection.serverId)?.length ?? 0,
+      createdAt: new Date(connection.createdAt),
+      lastUsedAt: new Date(connection.lastUsedAt),
+    }));
+
+    return {
+      maxConnections: this.maxConnections,
+      maxChannelsPerServer: this.maxChannelsPerServer,
+      idleTimeoutMs: this.idleTimeoutMs,
+      totalConnections: connections.length,
+      activeChannels: connections.reduce(
+        (sum, connection) => sum + connection.activeChannels,
+        0,
+      ),
+      waitingRequests: [...this.waiters.values()].reduce(
+        (sum, waiters) => sum + waiters.length,
+        0,
+      ),
+      connections,
+    };
+  }
+
+  /**
+   * 后台巡检：移除已断开的连接，回收空闲超时的连接
+   */
+  @Interval(SshPoolDefaults.SWEEP_INTERVAL_MS)
+  sweepConnections() {
+    const now = Date.now();
+    for (const connection of [...this.connections.values()]) {
+      if (!connection.ssh.isConnected()) {
+        this.logger.warn(`服务器 ${connection.serverId} 的SSH连接已断开`);
+        this.removeConnection(connection);
+      } else if (
+        connection.activeChannels === 0 &&
+        now - connection.lastUsedAt > this.idleTimeoutMs
+      ) {
+        this.logger.log(`回收服务器 ${connection.serverId} 的空闲SSH连接`);
+        this.removeConnection(connection);
+      }
+    }
+  }
+
   /**
    * 关闭到指定服务器的SSH连接
    *
-   * 此方法关闭并清理到指定服务器的SSH连接。
+   * 连接立即移出连接池，之后的请求会重新连接；正在执行的命令不受影响，
+   * 最后一个通道归还后关闭旧连接。
    *
    * @param serverId - 要关闭连接的服务器ID
    */
   async closeConnection(serverId: number): Promise<void> {
-    if (this.sshConnections.has(serverId)) {
-      const ssh = this.sshConnections.get(serverId);
-      if (ssh) {
-        ssh.dispose();
-        this.sshConnections.delete(serverId);
-      }
+    const connection = this.connections.get(serverId);
+    if (connection) {
+      this.removeConnection(connection);
     }
   }
 
   /**
    * 关闭所有SSH连接
    *
-   * 此方法关闭并清理所有活动的SSH连接，通常在应用关闭时调用。
+   * 此方法立即关闭所有连接并拒绝等待中的请求，通常在应用关闭时调用。
    */
   async closeAllConnections(): Promise<void> {
-    for (const [serverId, ssh] of this.sshConnections.entries()) {
-      if (ssh) {
-        ssh.dispose();
-        this.sshConnections.delete(serverId);
+    for (const connection of [...this.connections.values()]) {
+      this.connections.delete(connection.serverId);
+      connection.ssh.dispose();
+    }
+    for (const [serverId, waiters] of this.waiters.entries()) {
+      this.waiters.delete(serverId);
+      for (const waiter of waiters) {
+        waiter.reject(new Error('SSH连接池已关闭'));
       }
     }
   }
+
+  /**
+   * 获取连接池中的可用连接，不存在时创建
+   */
+  private async ensureConnection(serverId: number): Promise<PooledConnection> {
+    const existing = this.connections.get(serverId);
+    if (existing) {
+      if (existing.ssh.isConnected()) {
+        return existing;
+      }
+      this.removeConnection(existing);
+    }
+
+    let pending = this.connecting.get(serverId);
+    if (!pending) {
+      pending = this.openConnection(serverId).finally(() =>
+        this.connecting.delete(serverId),
+      );
+      this.connecting.set(serverId, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * 创建新连接并加入连接池
+   */
+  private async openConnection(serverId: number): Promise<PooledConnection> {
+    this.ensureCapacity();
+
+    // 获取服务器信息
+    const server = await this.serversService.findOne(serverId);
+
+    // 创建SSH配置，认证方式由SshAuthService统一解析，主机密钥由HostKeyService校验
+    const verification = this.hostKeyService.createVerification(serverId);
+    const config: Config = {
+      host: server.host,
+      port: server.port,
+      ...(await this.sshAuthService.resolve(serverId)),
+      hostVerifier: verification.hostVerifier,
+      // 由 keepalive 检测连接健康状态，连续无响应时断开
+      keepaliveInterval: this.keepaliveIntervalMs,
+      keepaliveCountMax: this.keepaliveCountMax,
+    };
+
+    try {
+      const ssh = await this.connect(server, config);
+      const now = Date.now();
+      const connection: PooledConnection = {
+        serverId,
+        ssh,
+        activeChannels: 0,
+        createdAt: now,
+        lastUsedAt: now,
+        retired: false,
+      };
+      ssh.connection?.on('close', () => {
+        if (this.connections.get(serverId) === connection) {
+          this.logger.warn(`服务器 ${serverId} 的SSH连接已关闭`);
+          this.removeConnection(connection);
+        }
+      });
+      this.connections.set(serverId, connection);
+      this.logger.log(`[getConnection] 成功连接到服务器 ${serverId}`);
+      await this.serversService.updateStatus(serverId, 'online');
+      return connection;
+    } catch (error) {
+      const err = ErrorHandler.handleError(
+        this.logger,
+        error,
+        `[getConnection] 连接服务器 ${serverId} 失败`,
+      );
+      await this.serversService.updateStatus(serverId, 'offline');
+      throw new Error(
+        `无法连接到服务器 ${server.host}:${server.port}: ${verification.rejection ?? err.message}`,
+      );
+    }
+  }
+
+  /**
+   * 确保还能创建新连接，达到全局上限时回收最久未使用的空闲连接
+   * @throws 没有可回收的空闲连接时抛出错误
+   */
+  private ensureCapacity(): void {
+    if (this.connections.size + this.connecting.size < this.maxConnections) {
+      return;
+    }
+
+    const idle = [...this.connections.values()]
+      .filter((connection) => connection.activeChannels === 0)
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt)[0];
+    if (!idle) {
+      throw new Error(`SSH连接数已达上限 ${this.maxConnections}，请稍后重试`);
+    }
+    this.logger.log(
+      `SSH连接数已达上限，回收服务器 ${idle.serverId} 的空闲连接`,
+    );
+    this.removeConnection(idle);
+  }
+
+  /**
+   * 建立SSH连接，服务器配置了跳板机时经由跳板机隧道连接
+   *
+   * @param server - 目标服务器
+   * @param config - 目标服务器的连接配置
+   * @returns 返回NodeSSH连接实例，关闭时一并关闭跳板机连接
+   */
+  private async connect(
+    server: ServerEntity,
+    config: Config,
+  ): Promise<NodeSSH> {
+    const tunnel = await this.jumpHostService.openTunnel(server);
+    const ssh = new NodeSSH();
+    try {
+      await ssh.connect({ ...config, sock: tunnel?.sock });
+    } catch (error) {
+      tunnel?.close();
+      throw error;
+    }
+    if (tunnel) {
+      ssh.connection?.on('close', tunnel.close);
+    }
+    return ssh;
+  }
+
+  /**
+   * 归还通道，并唤醒一个等待中的请求
+   */
+  private releaseChannel(connection: PooledConnection): void {
+    connection.activeChannels = Math.max(0, connection.activeChannels - 1);
+    connection.lastUsedAt = Date.now();
+
+    if (connection.retired) {
+      if (connection.activeChannels === 0) {
+        connection.ssh.dispose();
+      }
+      return;
+    }
+    this.waiters.get(connection.serverId)?.shift()?.resolve();
+  }
+
+  /**
+   * 等待服务器有空闲通道
+   */
+  private waitForChannel(
+    serverId: number,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new Error('等待SSH通道时已取消'));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const queue = this.waiters.get(serverId) ?? [];
+      this.waiters.set(serverId, queue);
+
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        const index = queue.indexOf(waiter);
+        if (index !== -1) {
+          queue.splice(index, 1);
+        }
+        if (queue.length === 0 && this.waiters.get(serverId) === queue) {
+          this.waiters.delete(serverId);
+        }
+      };
+      const waiter: ChannelWaiter = {
+        resolve: () => {
+          settle();
+          resolve();
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      };
+      const onAbort = () => waiter.reject(new Error('等待SSH通道时已取消'));
+      const timer = setTimeout(
+        () =>
+          waiter.reject(
+            new Error(
+              `等待服务器 ${serverId} 的空闲SSH通道超时（${this.acquireTimeoutMs}ms）`,
+            ),
+          ),
+        this.acquireTimeoutMs,
+      );
+
+      signal?.addEventListener('abort', onAbort);
+      queue.push(waiter);
+    });
+  }
+
+  /**
+   * 将连接移出连接池，没有正在使用的通道时立即关闭
+   * 等待该服务器通道的请求会被唤醒并重新连接
+   */
+  private removeConnection(connection: PooledConnection): void {
+    if (this.connections.get(connection.serverId) === connection) {
+      this.connections.delete(connection.serverId);
+    }
+    connection.retired = true;
+    if (connection.activeChannels === 0) {
+      connection.ssh.dispose();
+    }
+
+    const waiters = this.waiters.get(connection.serverId) ?? [];
+    for (const waiter of [...waiters]) {
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * 读取数值配置，未设置或无效时使用默认值
+   */
+  private numberConfig(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value > 0 ? value : defaultValue;
+  }
 }
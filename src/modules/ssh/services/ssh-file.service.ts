@@ -0,0 +1,298 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { SFTPWrapper } from 'ssh2';
+import { SshConnectionService } from './ssh-connection.service';
+import { SshCommandService } from './ssh-command.service';
+import { SshAuthService } from './ssh-auth.service';
+import { HostKeyService } from './host-key.service';
+import { ProxyGateway } from '../../proxy/proxy.gateway';
+import { ServersService } from '../../servers/servers.service';
+import { ServerEntity } from '../../servers/entities/server.entity';
+import {
+  FileUploadOptions,
+  FileUploadResult,
+  ProxyFileTransferOptions,
+  ProxyFileTransferResult,
+  SshChannelLease,
+} from '../types/ssh.types';
+import { ErrorHandler } from '../../../common/utils/error-handler.util';
+import { FileTransferDefaults, shellQuote } from '../../../common';
+
+// 上传时先写入目标路径旁的临时文件，校验通过后再移动到目标路径
+const TEMP_FILE_SUFFIX = '.servbatch-upload';
+
+// 校验并移动临时文件的超时时间（秒）
+const FINALIZE_TIMEOUT_SECONDS = 60;
+
+/**
+ * SSH文件传输服务
+ * 直接连接的服务器通过SFTP读写文件，通过代理连接的服务器由代理代为读写
+ */
+@Injectable()
+export class SshFileService {
+  private readonly logger = new Logger(SshFileService.name);
+
+  constructor(
+    private readonly sshConnectionService: SshConnectionService,
+    private readonly sshCommandService: SshCommandService,
+    private readonly serversService: ServersService,
+    private readonly sshAuthService: SshAuthService,
+    private readonly hostKeyService: HostKeyService,
+    private readonly proxyGateway: ProxyGateway,
+  ) {}
+
+  /**
+   * 上传文件到服务器
+   *
+   * 先把内容写入目标路径旁的临时文件，在目标服务器上计算 SHA256 并与本地比对，
+   * 一致后设置权限和属主，再移动到目标路径；任一步骤失败时删除临时文件，已有的目标文件保持不变。
+   *
+   * @param serverId - 服务器ID
+   * @param remotePath - 目标绝对路径
+   * @param content - 文件内容
+   * @param options - 权限和属主
+   * @param server - 服务器信息，不提供时按ID查询
+   * @returns 上传结果，包括目标服务器上计算出的校验和
+   */
+  async uploadFile(
+    serverId: number,
+    remotePath: string,
+    content: Buffer,
+    options: FileUploadOptions = {},
+    server?: ServerEntity,
+  ): Promise<FileUploadResult> {
+    const serverInfo = server || (await this.serversService.findOne(serverId));
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    const tempPath = `${remotePath}${TEMP_FILE_SUFFIX}-${randomBytes(4).toString('hex')}`;
+
+    try {
+      await this.writeFile(serverInfo, tempPath, content);
+    } catch (error) {
+      const err = ErrorHandler.handleError(
+        this.logger,
+        error,
+        `上传文件到服务器 ${serverId} 失败`,
+      );
+      return { success: false, message: `写入临时文件失败: ${err.message}` };
+    }
+
+    const result = await this.sshCommandService.executeCommand(
+      serverId,
+      this.buildFinalizeCommand(tempPath, remotePath, sha256, options),
+      FINALIZE_TIMEOUT_SECONDS,
+      serverInfo,
+    );
+    // 脚本输出的第一行为目标服务器上计算出的校验和
+    const checksum = result.stdout.trim().split('\n')[0] || undefined;
+
+    if (result.exitCode !== 0) {
+      return {
+        success: false,
+        checksum,
+        message: result.stderr.trim() || `命令退出码 ${result.exitCode}`,
+      };
+    }
+
+    this.logger.log(
+      `已上传文件到服务器 ${serverId} 的 ${remotePath}（${content.length} 字节）`,
+    );
+    return {
+      success: true,
+      checksum,
+      message: `已写入 ${remotePath}（${content.length} 字节）`,
+    };
+  }
+
+  /**
+   * 从服务器下载文件
+   *
+   * @param serverId - 服务器ID
+   * @param remotePath - 文件绝对路径
+   * @param server - 服务器信息，不提供时按ID查询
+   * @returns 文件内容
+   * @throws 文件不存在、不是普通文件、超过大小限制或连接失败时抛出错误
+   */
+  async downloadFile(
+    serverId: number,
+    remotePath: string,
+    server?: ServerEntity,
+  ): Promise<Buffer> {
+    const serverInfo = server || (await this.serversService.findOne(serverId));
+    const maxSize = FileTransferDefaults.MAX_FILE_SIZE;
+
+    if (serverInfo.connectionType === 'proxy' && serverInfo.proxyId) {
+      const result = await this.transferViaProxy(serverInfo, {
+        direction: 'download',
+        remotePath,
+        maxSize,
+      });
+      const content = Buffer.from(result.content ?? '', 'base64');
+      if (content.length > maxSize) {
+        throw new Error(`文件大小超过限制（${maxSize} 字节）`);
+      }
+      return content;
+    }
+
+    return this.withSftp(serverId, async (sftp) => {
+      const stats = await new Promise<{ size: number; isFile: boolean }>(
+        (resolve, reject) => {
+          sftp.stat(remotePath, (err, result) => {
+            if (err) {
+              reject(err);
+              return;
+            }
+            resolve({ size: result.size, isFile: result.isFile() });
+          });
+        },
+      );
+      if (!stats.isFile) {
+        throw new Error(`${remotePath} 不是普通文件`);
+      }
+      if (stats.size > maxSize) {
+        throw new Error(
+          `文件大小 ${stats.size} 字节超过限制（${maxSize} 字节）`,
+        );
+      }
+      return new Promise<Buffer>((resolve, reject) => {
+        sftp.readFile(remotePath, (err, data) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve(data);
+        });
+      });
+    });
+  }
+
+  /**
+   * 将内容写入服务器上的文件
+   */
+  private async writeFile(
+    server: ServerEntity,
+    remotePath: string,
+    content: Buffer,
+  ): Promise<void> {
+    if (server.connectionType === 'proxy' && server.proxyId) {
+      await this.transferViaProxy(server, {
+        direction: 'upload',
+        remotePath,
+        content: content.toString('base64'),
+      });
+      return;
+    }
+
+    await this.withSftp(server.id, (sftp) => {
+      return new Promise<void>((resolve, reject) => {
+        sftp.writeFile(remotePath, content, (err) => {
+          if (err) {
+            reject(err);
+            return;
+          }
+          resolve();
+        });
+      });
+    });
+  }
+
+  /**
+   * 从连接池借用通道打开SFTP会话，执行结束后关闭会话并归还通道
+   * 仅适用于直接连接的服务器
+   *
+   * @param serverId - 服务器ID
+   * @param callback - 使用SFTP会话的操作
+   * @returns 操作的返回值
+   */
+  async withSftp<T>(
+    serverId: number,
+    callback: (sftp: SFTPWrapper) => Promise<T>,
+  ): Promise<T> {
+    let lease: SshChannelLease | undefined;
+    let sftp: SFTPWrapper | undefined;
+    try {
+      lease = await this.sshConnectionService.acquireChannel(serverId);
+      sftp = await lease.ssh.requestSFTP();
+      return await callback(sftp);
+    } finally {
+      sftp?.end();
+      lease?.release();
+    }
+  }
+
+  /**
+   * 通过代理读写文件
+   *
+   * @param server - 目标服务器，必须配置了在线的代理
+   * @param transfer - 传输方向、路径和内容
+   * @returns 代理返回的传输结果
+   * @throws 代理未连接、认证方式不受支持或传输失败时抛出错误
+   */
+  private async transferViaProxy(
+    server: ServerEntity,
+    transfer: Pick<
+      ProxyFileTransferOptions,
+      'direction' | 'remotePath' | 'content' | 'maxSize'
+    >,
+  ): Promise<ProxyFileTransferResult> {
+    const proxyId = server.proxyId as string;
+    if (!this.proxyGateway.isProxyOnline(proxyId)) {
+      throw new Error(`代理 ${proxyId} 未连接`);
+    }
+
+    // 与执行命令相同，代理只能使用密码或私钥认证，并按已记录的指纹校验主机密钥
+    const auth = await this.sshAuthService.resolve(server.id);
+    if (!auth.password && !auth.privateKey) {
+      throw new Error('通过代理连接的服务器仅支持密码或私钥认证');
+    }
+    const { hostKeyFingerprint } = await this.hostKeyService.getHostKey(
+      server.id,
+    );
+
+    const options: ProxyFileTransferOptions = {
+      transferId: `file_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      serverId: server.id,
+      host: server.host,
+      port: server.port,
+      username: auth.username,
+      password: auth.password,
+      privateKey: auth.privateKey,
+      passphrase: auth.passphrase,
+      hostKeyFingerprint: hostKeyFingerprint ?? undefined,
+      timeout: FileTransferDefaults.PROXY_TIMEOUT_MS,
+      ...transfer,
+    };
+
+    const result = await this.proxyGateway.sendFileTransfer(proxyId, options);
+    if (!result.success) {
+      throw new Error(result.error || '代理传输文件失败');
+    }
+    return result;
+  }
+
+  /**
+   * 构造校验临时文件并移动到目标路径的脚本
+   * 第一行输出目标服务器上计算出的校验和
+   */
+  private buildFinalizeCommand(
+    tempPath: string,
+    remotePath: string,
+    sha256: string,
+    options: FileUploadOptions,
+  ): string {
+    const lines = [
+      `tmp=${shellQuote(tempPath)}`,
+      'fail() { rm -f "$tmp"; exit 1; }',
+      `sum=$( (sha256sum "$tmp" 2>/dev/null || shasum -a 256 "$tmp") | cut -d ' ' -f 1)`,
+      'echo "$sum"',
+      `[ "$sum" = "${sha256}" ] || { echo "校验和不一致: 期望 ${sha256}，实际 $sum" >&2; fail; }`,
+    ];
+    if (options.mode) {
+      lines.push(`chmod ${shellQuote(options.mode)} "$tmp" || fail`);
+    }
+    if (options.owner) {
+      lines.push(`chown ${shellQuote(options.owner)} "$tmp" || fail`);
+    }
+    lines.push(`mv -f "$tmp" ${shellQuote(remotePath)} || fail`);
+    return lines.join('\n');
+  }
+}
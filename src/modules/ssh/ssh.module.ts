@@ -2,6 +2,10 @@ import { Module, forwardRef } from '@nestjs/common';
 import { SshService } from './ssh.service';
 import { SshConnectionService } from './services/ssh-connection.service';
 import { SshCommandService } from './services/ssh-command.service';
+import { SshAuthService } from './services/ssh-auth.service';
+import { HostKeyService } from './services/host-key.service';
+import { JumpHostService } from './services/jump-host.service';
+import { SshFileService } from './services/ssh-file.service';
 import { ServersModule } from '../servers/servers.module';
 import { ProxyModule } from '../proxy/proxy.module';
 import { EventEmitterModule } from '@nestjs/event-emitter';
@@ -12,7 +16,21 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
     ProxyModule,
     EventEmitterModule.forRoot(),
   ],
-  providers: [SshService, SshConnectionService, SshCommandService],
-  exports: [SshService],
+  providers: [
+    SshService,
+    SshConnectionService,
+    SshCommandService,
+    SshAuthService,
+    HostKeyService,
+    JumpHostService,
+    SshFileService,
+  ],
+  exports: [
+    SshService,
+    SshAuthService,
+    HostKeyService,
+    JumpHostService,
+    SshFileService,
+  ],
 })
 export class SshModule {}
@@ -3,7 +3,13 @@ import { NodeSSH } from 'node-ssh';
 import { ServersService } from '../servers/servers.service';
 import { SshConnectionService } from './services/ssh-connection.service';
 import { SshCommandService } from './services/ssh-command.service';
-import { CommandResult, ConnectionTestResult } from './types/ssh.types';
+import {
+  CommandExecutionOptions,
+  CommandResult,
+  ConnectionTestResult,
+  SshCredentialOverride,
+  SshPoolStats,
+} from './types/ssh.types';
 import { ErrorHandler } from '../../common/utils/error-handler.util';
 
 /**
@@ -39,11 +45,16 @@ export class SshService {
    * 根据服务器的连接类型，选择直接SSH连接或通过代理测试连接。
    * 如果连接成功，将更新服务器状态为"online"；
    * 如果连接失败，将更新服务器状态为"offline"。
+   * 传入凭据时使用临时连接测试该凭据，不更新服务器状态。
    *
    * @param serverId - 要测试连接的服务器ID
+   * @param credentials - 可选，覆盖服务器当前认证信息的明文凭据
    * @returns 包含测试结果的对象，包括成功/失败状态和消息
    */
-  async testConnection(serverId: number): Promise<ConnectionTestResult> {
+  async testConnection(
+    serverId: number,
+    credentials?: SshCredentialOverride,
+  ): Promise<ConnectionTestResult> {
     try {
       // 获取服务器信息
       const server = await this.serversService.findOne(serverId);
@@ -54,16 +65,21 @@ export class SshService {
         'echo "Connection successful"',
         10, // 10秒超时
         server,
+        { credentials },
       );
 
       if (result.exitCode === 0) {
-        await this.serversService.updateStatus(serverId, 'online');
+        if (!credentials) {
+          await this.serversService.updateStatus(serverId, 'online');
+        }
         return {
           success: true,
           message: `连接成功: ${result.stdout}`,
         };
       } else {
-        await this.serversService.updateStatus(serverId, 'offline');
+        if (!credentials) {
+          await this.serversService.updateStatus(serverId, 'offline');
+        }
         return {
           success: false,
           message: `连接失败: ${result.stderr || '未知错误'}`,
@@ -91,14 +107,31 @@ export class SshService {
    * @param serverId - 服务器ID
    * @param command - 要执行的命令
    * @param timeout - 命令执行超时时间（秒），如果不提供则使用默认值
+   * @param options - 执行选项，例如实时输出回调
    * @returns 包含命令执行结果的对象，包括标准输出、标准错误和退出码
    */
   async executeCommand(
     serverId: number,
     command: string,
     timeout?: number,
+    options?: CommandExecutionOptions,
   ): Promise<CommandResult> {
-    return this.sshCommandService.executeCommand(serverId, command, timeout);
+    return this.sshCommandService.executeCommand(
+      serverId,
+      command,
+      timeout,
+      undefined,
+      options,
+    );
+  }
+
+  /**
+   * 获取SSH连接池统计信息
+   *
+   * 委托给SshConnectionService处理
+   */
+  getPoolStats(): SshPoolStats {
+    return this.sshConnectionService.getPoolStats();
   }
 
   /**
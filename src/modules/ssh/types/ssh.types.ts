@@ -1,3 +1,12 @@
+import { NodeSSH } from 'node-ssh';
+import {
+  ClientChannel,
+  ConnectConfig,
+  HostVerifier,
+  KeyboardInteractiveCallback,
+  Prompt,
+} from 'ssh2';
+
 /**
  * SSH 命令执行结果类型
  */
@@ -5,6 +14,35 @@ export interface CommandResult {
   stdout: string;
   stderr: string;
   exitCode: number;
+  timedOut?: boolean; // 是否因超时被终止
+  cancelled?: boolean; // 是否因取消被终止
+}
+
+/**
+ * 命令输出流类型
+ */
+export type CommandOutputStream = 'stdout' | 'stderr';
+
+/**
+ * 命令执行选项
+ */
+export interface CommandExecutionOptions {
+  // 实时输出回调，每收到一段输出调用一次
+  onOutput?: (stream: CommandOutputStream, data: string) => void;
+  // 取消信号，触发后终止远程命令
+  signal?: AbortSignal;
+  // 使用指定的明文凭据建立临时连接（不复用缓存连接），用于保存前测试新凭据
+  credentials?: SshCredentialOverride;
+}
+
+/**
+ * 明文SSH凭据，覆盖服务器当前的认证信息
+ */
+export interface SshCredentialOverride {
+  username?: string;
+  password?: string;
+  privateKey?: string;
+  passphrase?: string;
 }
 
 /**
@@ -15,6 +53,85 @@ export interface ConnectionTestResult {
   message: string;
 }
 
+/**
+ * 解析后的SSH认证参数
+ * 可直接合并到 ssh2 或 node-ssh 的连接配置中
+ */
+export type SshAuthConfig = Pick<
+  ConnectConfig,
+  | 'username'
+  | 'password'
+  | 'privateKey'
+  | 'passphrase'
+  | 'agent'
+  | 'tryKeyboard'
+> & {
+  username: string;
+  privateKey?: string;
+  passphrase?: string;
+  /** keyboard-interactive 提示的应答函数 */
+  onKeyboardInteractive?: (
+    name: string,
+    instructions: string,
+    lang: string,
+    prompts: Prompt[],
+    finish: KeyboardInteractiveCallback,
+  ) => void;
+};
+
+/**
+ * 单次连接的主机密钥校验器
+ */
+export interface HostKeyVerification {
+  /** 合并到 ssh2 或 node-ssh 连接配置中的校验函数 */
+  hostVerifier: HostVerifier;
+  /** 主机密钥被拒绝的原因，ssh2 只会报告笼统的校验失败错误 */
+  rejection?: string;
+}
+
+/**
+ * 从连接池借出的通道
+ * 使用完毕后必须调用 release 归还
+ */
+export interface SshChannelLease {
+  ssh: NodeSSH;
+  release: () => void;
+}
+
+/**
+ * 连接池中单个连接的统计信息
+ */
+export interface SshPoolConnectionStats {
+  serverId: number;
+  activeChannels: number;
+  waitingRequests: number;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+/**
+ * 连接池统计信息
+ */
+export interface SshPoolStats {
+  maxConnections: number;
+  maxChannelsPerServer: number;
+  idleTimeoutMs: number;
+  totalConnections: number;
+  activeChannels: number;
+  waitingRequests: number;
+  connections: SshPoolConnectionStats[];
+}
+
+/**
+ * 经由跳板机到目标服务器的隧道
+ */
+export interface JumpHostTunnel {
+  /** 到目标服务器的转发通道，作为连接配置的 sock */
+  sock: ClientChannel;
+  /** 关闭链路上的所有跳板机连接 */
+  close: () => void;
+}
+
 /**
  * 通过代理执行命令的参数类型
  */
@@ -26,6 +143,59 @@ export interface ProxyCommandOptions {
   username: string;
   password?: string;
   privateKey?: string;
+  passphrase?: string;
+  hostKeyFingerprint?: string; // 已记录的主机密钥指纹，代理连接时需校验
   command: string;
   timeout?: number; // 毫秒
 }
+
+/**
+ * 上传文件的选项
+ */
+export interface FileUploadOptions {
+  mode?: string; // 八进制权限，例如 0644
+  owner?: string; // 属主，例如 root 或 root:root
+}
+
+/**
+ * 上传文件的结果
+ */
+export interface FileUploadResult {
+  success: boolean;
+  checksum?: string; // 目标服务器上计算出的 SHA256
+  message: string;
+}
+
+/**
+ * 通过代理传输文件的参数类型
+ * 连接参数与 ProxyCommandOptions 相同
+ */
+export interface ProxyFileTransferOptions
+  extends Omit<ProxyCommandOptions, 'commandId' | 'command'> {
+  transferId: string;
+  direction: 'upload' | 'download';
+  remotePath: string;
+  content?: string; // 上传的文件内容（base64）
+  maxSize?: number; // 下载时允许的最大文件大小（字节）
+}
+
+/**
+ * 通过代理打开交互式终端的参数
+ * 连接参数与 ProxyCommandOptions 相同
+ */
+export interface ProxyTerminalOptions
+  extends Omit<ProxyCommandOptions, 'commandId' | 'command' | 'timeout'> {
+  terminalId: string;
+  term: string;
+  cols: number;
+  rows: number;
+}
+
+/**
+ * 代理返回的文件传输结果
+ */
+export interface ProxyFileTransferResult {
+  success: boolean;
+  content?: string; // 下载的文件内容（base64）
+  error?: string;
+}
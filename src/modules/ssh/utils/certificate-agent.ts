@@ -0,0 +1,42 @@
+import {
+  BaseAgent,
+  IdentityCallback,
+  ParsedKey,
+  SignCallback,
+  SigningRequestOptions,
+} from 'ssh2';
+
+/**
+ * 内存中的证书代理
+ *
+ * ssh2 的 publickey 认证不支持 OpenSSH 证书，这里通过代理接口
+ * 提供证书作为身份，并使用对应的私钥完成签名。
+ */
+export class CertificateAgent extends BaseAgent<ParsedKey> {
+  constructor(
+    private readonly certificate: ParsedKey,
+    private readonly privateKey: ParsedKey,
+  ) {
+    super();
+  }
+
+  getIdentities(cb: IdentityCallback<ParsedKey>): void {
+    cb(undefined, [this.certificate]);
+  }
+
+  sign(
+    pubKey: ParsedKey,
+    data: Buffer,
+    options: SigningRequestOptions | SignCallback,
+    cb?: SignCallback,
+  ): void {
+    const callback = typeof options === 'function' ? options : cb;
+    const hash = typeof options === 'function' ? undefined : options?.hash;
+    const signature: Buffer | Error = this.privateKey.sign(data, hash);
+    if (signature instanceof Error) {
+      callback?.(signature);
+      return;
+    }
+    callback?.(undefined, signature);
+  }
+}
@@ -0,0 +1,43 @@
+import { BadRequestException } from '@nestjs/common';
+import { ParsedKey, utils } from 'ssh2';
+
+// OpenSSH 用户证书的密钥类型后缀
+const CERTIFICATE_TYPE_SUFFIX = '-cert-v01@openssh.com';
+
+/**
+ * 解析私钥，私钥受密码短语保护时必须提供正确的密码短语
+ * @param privateKey 私钥内容
+ * @param passphrase 密码短语
+ * @returns 解析后的私钥
+ */
+export function parsePrivateKey(
+  privateKey: string,
+  passphrase?: string | null,
+): ParsedKey {
+  const parsed = utils.parseKey(privateKey, passphrase ?? undefined);
+  if (parsed instanceof Error) {
+    throw new BadRequestException(
+      `私钥无法解析，请检查私钥格式或密码短语: ${parsed.message}`,
+    );
+  }
+  if (!parsed.isPrivateKey()) {
+    throw new BadRequestException('提供的密钥不是私钥');
+  }
+  return parsed;
+}
+
+/**
+ * 解析 OpenSSH 用户证书（ssh-keygen -s 生成的 *-cert.pub 内容）
+ * @param certificate 证书内容
+ * @returns 解析后的证书
+ */
+export function parseCertificate(certificate: string): ParsedKey {
+  const parsed = utils.parseKey(certificate.trim());
+  if (
+    parsed instanceof Error ||
+    !parsed.type.endsWith(CERTIFICATE_TYPE_SUFFIX)
+  ) {
+    throw new BadRequestException('证书无法解析，请提供 OpenSSH 用户证书');
+  }
+  return parsed;
+}
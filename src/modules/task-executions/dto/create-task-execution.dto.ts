@@ -1,19 +1,42 @@
-import { ApiProperty } from '@nestjs/swagger';
-import { IsInt, IsArray, IsOptional, IsPositive } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsObject,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+import { IsTaskParameterValues } from '../../tasks/decorators/is-task-parameter-values.decorator';
+import { RolloutStrategyDto } from './rollout-strategy.dto';
 
-export class CreateTaskExecutionDto {
+export class CreateTaskExecutionDto extends ServerTargetDto {
   @ApiProperty({ description: '任务ID' })
   @IsInt()
   @IsPositive()
   taskId: number;
 
-  @ApiProperty({ description: '服务器ID列表', type: [Number] })
-  @IsArray()
-  @IsInt({ each: true })
-  serverIds: number[];
-
   @ApiProperty({ description: '优先级', default: 0 })
   @IsInt()
   @IsOptional()
   priority?: number = 0;
+
+  @ApiPropertyOptional({
+    description: '任务参数值，键为参数名称',
+    example: { version: '1.2.0' },
+  })
+  @IsObject()
+  @IsTaskParameterValues()
+  @IsOptional()
+  params?: Record<string, string | number>;
+
+  @ApiPropertyOptional({
+    description: '分批执行策略',
+    type: RolloutStrategyDto,
+  })
+  @ValidateNested()
+  @Type(() => RolloutStrategyDto)
+  @IsOptional()
+  rollout?: RolloutStrategyDto;
 }
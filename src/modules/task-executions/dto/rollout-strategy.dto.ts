@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+/**
+ * 分批执行策略DTO
+ * batchSize 与 batchPercent 只能指定其一，均未指定时所有服务器同时执行
+ */
+export class RolloutStrategyDto {
+  @ApiPropertyOptional({ description: '每批服务器数量' })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  batchSize?: number;
+
+  @ApiPropertyOptional({ description: '每批服务器占比（百分比，向上取整）' })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  batchPercent?: number;
+
+  @ApiPropertyOptional({ description: '批次之间的暂停时间（秒）', default: 0 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  pauseSeconds?: number;
+
+  @ApiPropertyOptional({
+    description:
+      '允许失败的执行数量，累计失败数超过该值时停止后续批次并将剩余执行标记为cancelled；不提供时不限制',
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  failureThreshold?: number;
+}
@@ -12,9 +12,11 @@ export const TaskExecutionStatus = {
   COMPLETED: 'completed',
   FAILED: 'failed',
   CANCELLED: 'cancelled',
+  TIMEOUT: 'timeout',
 } as const;
 
-export type TaskExecutionStatusType = typeof TaskExecutionStatus[keyof typeof TaskExecutionStatus];
+export type TaskExecutionStatusType =
+  (typeof TaskExecutionStatus)[keyof typeof TaskExecutionStatus];
 
 /**
  * 任务执行查询参数DTO
@@ -35,10 +37,10 @@ export class TaskExecutionQueryDto extends PaginationParamsDto {
   @Type(() => Number)
   serverId?: number;
 
-  @ApiPropertyOptional({ 
+  @ApiPropertyOptional({
     description: '执行状态',
     enum: Object.values(TaskExecutionStatus),
-    example: TaskExecutionStatus.COMPLETED
+    example: TaskExecutionStatus.COMPLETED,
   })
   @IsOptional()
   @IsEnum(TaskExecutionStatus)
@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Queue } from '@prisma/client';
+import {
+  RolloutProgress,
+  RolloutStrategy,
+} from '../../queue/types/queue.types';
+
+export class QueueItemEntity
+  implements
+    Omit<Queue, 'serverIds' | 'params' | 'target' | 'rollout' | 'progress'>
+{
+  @ApiProperty({ description: '队列项ID' })
+  id: number;
+
+  @ApiProperty({ description: '任务ID' })
+  taskId: number;
+
+  @ApiProperty({
+    description: '入队时解析出的服务器ID列表',
+    type: [Number],
+  })
+  serverIds: number[];
+
+  @ApiPropertyOptional({ description: '任务参数值' })
+  params: Record<string, string | number> | null;
+
+  @ApiPropertyOptional({
+    description: '原始执行目标（服务器ID列表、分组或标签选择器）',
+  })
+  target: Record<string, unknown> | null;
+
+  @ApiPropertyOptional({ description: '分批执行策略' })
+  rollout: RolloutStrategy | null;
+
+  @ApiPropertyOptional({
+    description:
+      '分批执行进度，包含总批次数、当前批次、累计失败数以及每个批次的服务器和结果',
+  })
+  progress: RolloutProgress | null;
+
+  @ApiPropertyOptional({ description: '需等待结束的队列项ID' })
+  dependsOnQueueId: number | null;
+
+  @ApiProperty({ description: '优先级' })
+  priority: number;
+
+  @ApiProperty({
+    description: '队列状态',
+    enum: ['waiting', 'processing', 'completed', 'failed', 'cancelled'],
+  })
+  status: string;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+
+  @ApiPropertyOptional({ description: '开始时间' })
+  startedAt: Date | null;
+
+  @ApiPropertyOptional({ description: '完成时间' })
+  completedAt: Date | null;
+}
@@ -5,7 +5,10 @@ export class TaskExecutionEntity implements TaskExecution {
   @ApiProperty({ description: '执行记录ID' })
   id: number;
 
-  @ApiProperty({ description: '执行状态', enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] })
+  @ApiProperty({
+    description: '执行状态',
+    enum: ['queued', 'running', 'completed', 'failed', 'cancelled', 'timeout'],
+  })
   status: string;
 
   @ApiPropertyOptional({ description: '执行输出' })
@@ -14,6 +17,9 @@ export class TaskExecutionEntity implements TaskExecution {
   @ApiPropertyOptional({ description: '退出代码' })
   exitCode: number | null;
 
+  @ApiPropertyOptional({ description: '渲染后实际执行的命令' })
+  renderedCommand: string | null;
+
   @ApiPropertyOptional({ description: '开始执行时间' })
   startedAt: Date | null;
 
@@ -31,4 +37,7 @@ export class TaskExecutionEntity implements TaskExecution {
 
   @ApiProperty({ description: '服务器ID' })
   serverId: number;
+
+  @ApiPropertyOptional({ description: '所属队列项ID' })
+  queueId: number | null;
 }
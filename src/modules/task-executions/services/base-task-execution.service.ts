@@ -1,11 +1,22 @@
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  Logger,
+} from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { TaskExecutionEntity } from '../entities/task-execution.entity';
+import { QueueItemEntity } from '../entities/queue-item.entity';
 import { CreateTaskExecutionDto } from '../dto/create-task-execution.dto';
 import { TaskExecutionQueryDto } from '../dto/task-execution-query.dto';
 import { TasksService } from '../../tasks/tasks.service';
 import { ServersService } from '../../servers/servers.service';
 import { QueueManagerService } from '../../queue/services/queue-manager.service'; // Updated import
+import { ExecutionControlService } from '../../queue/services/execution-control.service';
+import {
+  parseTaskParameters,
+  resolveTaskParameters,
+} from '../../tasks/utils/task-template.util';
 import {
   PaginationResultDto,
   PaginationParamsDto,
@@ -28,6 +39,7 @@ export class BaseTaskExecutionService {
     protected readonly serversService: ServersService,
     protected readonly queueManagerService: QueueManagerService, // Updated injection
     protected readonly paginationService: PaginationService,
+    protected readonly executionControlService: ExecutionControlService,
   ) {}
 
   /**
@@ -37,52 +49,55 @@ export class BaseTaskExecutionService {
    */
   async create(
     createTaskExecutionDto: CreateTaskExecutionDto,
-  ): Promise<{ message: string; queueId: number }> {
-    const { taskId, serverIds, priority } = createTaskExecutionDto;
-
-    // 使用事务批量验证任务和服务器是否存在
-    await this.prisma.$transaction(async (prisma) => {
-      // 验证任务是否存在
-      const task = await prisma.task.findUnique({
-        where: { id: taskId },
-        select: { id: true },
-      });
+  ): Promise<{ message: string; queueId: number; serverIds: number[] }> {
+    const {
+      taskId,
+      serverIds,
+      groupId,
+      tagSelector,
+      priority,
+      params,
+      rollout,
+    } = createTaskExecutionDto;
+
+    if (rollout?.batchSize && rollout?.batchPercent) {
+      throw new BadRequestException('batchSize 和 batchPercent 只能指定其一');
+    }
 
-      if (!task) {
-        throw new NotFoundException(`任务ID ${taskId} 不存在`);
-      }
-
-      // 批量验证所有服务器是否存在
-      if (serverIds.length > 0) {
-        const foundServers = await prisma.server.findMany({
-          where: { id: { in: serverIds } },
-          select: { id: true },
-        });
-
-        const foundServerIds = foundServers.map((server) => server.id);
-        const missingServerIds = serverIds.filter(
-          (id) => !foundServerIds.includes(id),
-        );
-
-        if (missingServerIds.length > 0) {
-          throw new NotFoundException(
-            `以下服务器ID不存在: ${missingServerIds.join(', ')}`,
-          );
-        }
-      }
+    // 验证任务是否存在，并校验参数值、填充默认值
+    const task = await this.prisma.task.findUnique({
+      where: { id: taskId },
+      select: { id: true, parameters: true },
     });
 
+    if (!task) {
+      throw new NotFoundException(`任务ID ${taskId} 不存在`);
+    }
+
+    const resolvedParams = resolveTaskParameters(
+      parseTaskParameters(task.parameters),
+      params,
+    );
+
+    // 将服务器列表、分组和标签选择器解析为具体的服务器
+    const target = { serverIds, groupId, tagSelector };
+    const resolvedServerIds =
+      await this.serversService.resolveTargetServerIds(target);
+
     // 将任务添加到队列
     const queueId = await this.queueManagerService.enqueue(
       // Updated method call
       taskId,
-      serverIds,
+      resolvedServerIds,
       priority,
+      resolvedParams,
+      { target, rollout },
     );
 
     return {
       message: '任务已添加到队列',
       queueId,
+      serverIds: resolvedServerIds,
     };
   }
 
@@ -192,6 +207,7 @@ export class BaseTaskExecutionService {
 
   /**
    * 取消任务执行
+   * 终止正在执行的命令，并将状态标记为cancelled，执行结束时不会被覆盖
    * @param id 任务执行记录ID
    * @returns 更新后的任务执行记录实体
    */
@@ -199,23 +215,61 @@ export class BaseTaskExecutionService {
     const execution = await this.findOne(id);
 
     if (execution.status !== 'queued' && execution.status !== 'running') {
-      throw new Error(`无法取消状态为 ${execution.status} 的任务`);
+      throw new BadRequestException(
+        `无法取消状态为 ${execution.status} 的任务`,
+      );
     }
 
-    // 如果任务在队列中，从队列中移除
-    if (execution.status === 'queued') {
-      // 这里需要实现队列取消逻辑
-      await this.queueManagerService.cancel(id); // Updated method call
+    // 通知执行器终止正在运行的命令（SSH通道或代理 cancel_command）
+    const aborted = this.executionControlService.abortExecution(id);
+    if (!aborted) {
+      this.logger.warn(`执行记录 ${id} 不在本进程中运行，仅更新状态`);
     }
 
-    // 更新任务状态
-    return this.prisma.taskExecution.update({
-      where: { id },
+    // 仅更新仍未结束的记录，避免覆盖刚刚完成的结果
+    await this.prisma.taskExecution.updateMany({
+      where: { id, status: { in: ['queued', 'running'] } },
       data: {
         status: 'cancelled',
         completedAt: new Date(),
       },
     });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * 查询队列项，包含解析后的服务器列表和分批执行进度
+   * @param queueId 队列项ID
+   * @returns 队列项实体
+   */
+  async findQueue(queueId: number): Promise<QueueItemEntity> {
+    const queue = await this.prisma.queue.findUnique({
+      where: { id: queueId },
+    });
+
+    if (!queue) {
+      throw new NotFoundException(`队列ID ${queueId} 不存在`);
+    }
+
+    return {
+      ...queue,
+      serverIds: queue.serverIds.split(',').map(Number),
+      params: queue.params ? JSON.parse(queue.params) : null,
+      target: queue.target ? JSON.parse(queue.target) : null,
+      rollout: queue.rollout ? JSON.parse(queue.rollout) : null,
+      progress: queue.progress ? JSON.parse(queue.progress) : null,
+    };
+  }
+
+  /**
+   * 取消整个队列项
+   * @param queueId 队列项ID
+   * @returns 操作结果
+   */
+  async cancelQueue(queueId: number): Promise<{ message: string }> {
+    await this.queueManagerService.cancel(queueId);
+    return { message: `队列任务 ${queueId} 已取消` };
   }
 
   /**
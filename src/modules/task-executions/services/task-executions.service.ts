@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { TaskExecutionEntity } from '../entities/task-execution.entity';
+import { QueueItemEntity } from '../entities/queue-item.entity';
 import { CreateTaskExecutionDto } from '../dto/create-task-execution.dto';
 import { CleanupByDateDto } from '../dto/cleanup-by-date.dto';
 import { CleanupByStatusDto } from '../dto/cleanup-by-status.dto';
@@ -24,7 +25,7 @@ export class TaskExecutionsService {
 
   async create(
     createTaskExecutionDto: CreateTaskExecutionDto,
-  ): Promise<{ message: string; queueId: number }> {
+  ): Promise<{ message: string; queueId: number; serverIds: number[] }> {
     return this.baseService.create(createTaskExecutionDto);
   }
 
@@ -62,6 +63,14 @@ export class TaskExecutionsService {
     return this.baseService.cancel(id);
   }
 
+  async findQueue(queueId: number): Promise<QueueItemEntity> {
+    return this.baseService.findQueue(queueId);
+  }
+
+  async cancelQueue(queueId: number): Promise<{ message: string }> {
+    return this.baseService.cancelQueue(queueId);
+  }
+
   async remove(id: number): Promise<TaskExecutionEntity> {
     return this.baseService.remove(id);
   }
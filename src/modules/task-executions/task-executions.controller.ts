@@ -24,6 +24,7 @@ import {
   ApiQuery,
 } from '@nestjs/swagger';
 import { TaskExecutionEntity } from './entities/task-execution.entity';
+import { QueueItemEntity } from './entities/queue-item.entity';
 import {
   PaginationResultDto,
   PaginationParamsDto,
@@ -146,6 +147,29 @@ export class TaskExecutionsController {
     return this.taskExecutionsService.cancel(id);
   }
 
+  @Get('queue/:queueId')
+  @ApiOperation({ summary: '获取队列项及分批执行进度' })
+  @ApiParam({ name: 'queueId', description: '队列项ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回队列项',
+    type: QueueItemEntity,
+  })
+  @ApiResponse({ status: 404, description: '队列项不存在' })
+  findQueue(@Param('queueId', ParseIntPipe) queueId: number) {
+    return this.taskExecutionsService.findQueue(queueId);
+  }
+
+  @Post('queue/:queueId/cancel')
+  @ApiOperation({ summary: '取消整个队列任务' })
+  @ApiParam({ name: 'queueId', description: '队列项ID' })
+  @ApiResponse({ status: 200, description: '队列任务已取消' })
+  @ApiResponse({ status: 400, description: '队列任务已结束，无法取消' })
+  @ApiResponse({ status: 404, description: '队列项不存在' })
+  cancelQueue(@Param('queueId', ParseIntPipe) queueId: number) {
+    return this.taskExecutionsService.cancelQueue(queueId);
+  }
+
   @Delete(':id')
   @ApiOperation({ summary: '删除执行记录' })
   @ApiParam({ name: 'id', description: '执行记录ID' })
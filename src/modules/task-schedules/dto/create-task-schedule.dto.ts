@@ -0,0 +1,78 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import {
+  ScheduleOverlapPolicy,
+  ScheduleOverlapPolicyType,
+} from '../../../common';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+import { IsTaskParameterValues } from '../../tasks/decorators/is-task-parameter-values.decorator';
+
+/**
+ * 创建定时任务DTO
+ * 执行目标中的分组和标签选择器在每次触发时重新解析
+ */
+export class CreateTaskScheduleDto extends ServerTargetDto {
+  @ApiProperty({ description: '定时任务名称' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ description: '任务ID' })
+  @IsInt()
+  @IsPositive()
+  taskId: number;
+
+  @ApiProperty({
+    description: 'Cron表达式，支持5位或6位（含秒）',
+    example: '0 2 * * *',
+  })
+  @IsString()
+  @IsNotEmpty()
+  cronExpression: string;
+
+  @ApiPropertyOptional({
+    description: '时区（IANA名称），不提供时使用服务器本地时区',
+    example: 'Asia/Shanghai',
+  })
+  @IsString()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiPropertyOptional({
+    description: '任务参数值，键为参数名称',
+    example: { version: '1.2.0' },
+  })
+  @IsObject()
+  @IsTaskParameterValues()
+  @IsOptional()
+  params?: Record<string, string | number>;
+
+  @ApiPropertyOptional({ description: '优先级', default: 0 })
+  @IsInt()
+  @IsOptional()
+  priority?: number;
+
+  @ApiPropertyOptional({ description: '是否启用', default: true })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      '重叠策略：skip 上次运行未结束时跳过，queue 入队等待上次运行结束，allow 允许并行',
+    enum: Object.values(ScheduleOverlapPolicy),
+    default: ScheduleOverlapPolicy.SKIP,
+  })
+  @IsIn(Object.values(ScheduleOverlapPolicy))
+  @IsOptional()
+  overlapPolicy?: ScheduleOverlapPolicyType;
+}
@@ -0,0 +1,34 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+
+/**
+ * 定时任务查询参数DTO
+ * 用于接收和验证定时任务查询参数
+ */
+export class TaskScheduleQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '定时任务名称（模糊匹配）' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiPropertyOptional({ description: '任务ID' })
+  @IsOptional()
+  @IsInt()
+  @IsPositive()
+  @Type(() => Number)
+  taskId?: number;
+
+  @ApiPropertyOptional({ description: '是否启用' })
+  @IsOptional()
+  @IsBoolean()
+  @Type(() => Boolean)
+  enabled?: boolean;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateTaskScheduleDto } from './create-task-schedule.dto';
+
+export class UpdateTaskScheduleDto extends PartialType(CreateTaskScheduleDto) {}
@@ -0,0 +1,61 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TaskSchedule } from '@prisma/client';
+import { ScheduleOverlapPolicy } from '../../../common';
+
+export class TaskScheduleEntity
+  implements Omit<TaskSchedule, 'serverIds' | 'params'>
+{
+  @ApiProperty({ description: '定时任务ID' })
+  id: number;
+
+  @ApiProperty({ description: '定时任务名称' })
+  name: string;
+
+  @ApiProperty({ description: '任务ID' })
+  taskId: number;
+
+  @ApiProperty({ description: 'Cron表达式' })
+  cronExpression: string;
+
+  @ApiPropertyOptional({ description: '时区' })
+  timezone: string | null;
+
+  @ApiProperty({ description: '服务器ID列表', type: [Number] })
+  serverIds: number[];
+
+  @ApiPropertyOptional({ description: '服务器分组ID' })
+  groupId: number | null;
+
+  @ApiPropertyOptional({ description: '标签选择器' })
+  tagSelector: string | null;
+
+  @ApiPropertyOptional({ description: '任务参数值' })
+  params: Record<string, string | number> | null;
+
+  @ApiProperty({ description: '优先级' })
+  priority: number;
+
+  @ApiProperty({ description: '是否启用' })
+  enabled: boolean;
+
+  @ApiProperty({
+    description: '重叠策略',
+    enum: Object.values(ScheduleOverlapPolicy),
+  })
+  overlapPolicy: string;
+
+  @ApiPropertyOptional({ description: '上次运行时间' })
+  lastRunAt: Date | null;
+
+  @ApiPropertyOptional({ description: '上次运行对应的队列ID' })
+  lastQueueId: number | null;
+
+  @ApiPropertyOptional({ description: '下次运行时间，未启用时为空' })
+  nextRunAt: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
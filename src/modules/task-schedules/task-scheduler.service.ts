@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob, CronTime } from 'cron';
+import { TaskSchedule } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { QueueManagerService } from '../queue/services/queue-manager.service';
+import { ServersService } from '../servers/servers.service';
+import {
+  parseTaskParameters,
+  resolveTaskParameters,
+} from '../tasks/utils/task-template.util';
+import { ScheduleOverlapPolicy } from '../../common';
+
+/**
+ * 定时任务调度服务
+ *
+ * 为每个启用的定时任务在 SchedulerRegistry 中注册一个 Cron 作业，
+ * 触发时按重叠策略将任务加入执行队列。
+ */
+@Injectable()
+export class TaskSchedulerService implements OnModuleInit {
+  private readonly logger = new Logger(TaskSchedulerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly queueManager: QueueManagerService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly serversService: ServersService,
+  ) {}
+
+  async onModuleInit() {
+    // 启动时注册所有启用的定时任务
+    const schedules = await this.prisma.taskSchedule.findMany({
+      where: { enabled: true },
+    });
+    for (const schedule of schedules) {
+      try {
+        this.register(schedule);
+      } catch (error) {
+        this.logger.error(`注册定时任务 ${schedule.id} 失败: ${error.message}`);
+      }
+    }
+    this.logger.log(`已注册 ${schedules.length} 个定时任务`);
+  }
+
+  /**
+   * 校验Cron表达式和时区
+   * @param cronExpression Cron表达式
+   * @param timezone 时区
+   */
+  validate(cronExpression: string, timezone?: string | null): void {
+    try {
+      new CronTime(cronExpression, timezone ?? undefined);
+    } catch (error) {
+      throw new BadRequestException(`无效的Cron表达式或时区: ${error.message}`);
+    }
+  }
+
+  /**
+   * 注册（或重新注册）定时任务，未启用的定时任务只会被注销
+   * @param schedule 定时任务
+   */
+  register(schedule: TaskSchedule): void {
+    this.unregister(schedule.id);
+    if (!schedule.enabled) {
+      return;
+    }
+
+    const job = CronJob.from({
+      cronTime: schedule.cronExpression,
+      onTick: () => this.runSchedule(schedule.id),
+      start: true,
+      timeZone: schedule.timezone ?? undefined,
+    });
+    this.schedulerRegistry.addCronJob(this.jobName(schedule.id), job);
+    this.logger.log(
+      `定时任务 ${schedule.id} 已注册: ${schedule.cronExpression}`,
+    );
+  }
+
+  /**
+   * 注销定时任务
+   * @param scheduleId 定时任务ID
+   */
+  unregister(scheduleId: number): void {
+    const name = this.jobName(scheduleId);
+    if (this.schedulerRegistry.doesExist('cron', name)) {
+      this.schedulerRegistry.deleteCronJob(name);
+      this.logger.log(`定时任务 ${scheduleId} 已注销`);
+    }
+  }
+
+  /**
+   * 获取下次运行时间
+   * @param scheduleId 定时任务ID
+   * @returns 下次运行时间，未注册时为null
+   */
+  getNextRunAt(scheduleId: number): Date | null {
+    const name = this.jobName(scheduleId);
+    if (!this.schedulerRegistry.doesExist('cron', name)) {
+      return null;
+    }
+    return this.schedulerRegistry.getCronJob(name).nextDate().toJSDate();
+  }
+
+  /**
+   * 触发一次定时任务
+   *
+   * 上一次运行的队列项仍在等待或执行时，skip 策略跳过本次触发，
+   * queue 策略让新队列项等待上一次结束，allow 策略直接入队。
+   *
+   * @param scheduleId 定时任务ID
+   */
+  private async runSchedule(scheduleId: number): Promise<void> {
+    try {
+      const schedule = await this.prisma.taskSchedule.findUnique({
+        where: { id: scheduleId },
+        include: { task: { select: { parameters: true } } },
+      });
+      if (!schedule || !schedule.enabled) {
+        this.unregister(scheduleId);
+        return;
+      }
+
+      let dependsOnQueueId: number | undefined;
+      if (
+        schedule.lastQueueId &&
+        schedule.overlapPolicy !== ScheduleOverlapPolicy.ALLOW
+      ) {
+        const lastQueue = await this.prisma.queue.findUnique({
+          where: { id: schedule.lastQueueId },
+          select: { status: true },
+        });
+        const overlapping =
+          lastQueue?.status === 'waiting' || lastQueue?.status === 'processing';
+
+        if (overlapping) {
+          if (schedule.overlapPolicy === ScheduleOverlapPolicy.SKIP) {
+            this.logger.warn(
+              `定时任务 ${scheduleId} 的上一次运行（队列ID ${schedule.lastQueueId}）尚未结束，跳过本次触发`,
+            );
+            return;
+          }
+          dependsOnQueueId = schedule.lastQueueId;
+        }
+      }
+
+      // 任务的参数定义可能已变更，每次触发时重新校验参数值
+      const params = resolveTaskParameters(
+        parseTaskParameters(schedule.task.parameters),
+        schedule.params ? JSON.parse(schedule.params) : {},
+      );
+
+      // 分组成员和标签可能已变更，每次触发时重新解析执行目标
+      const target = {
+        serverIds: schedule.serverIds?.split(',').map(Number),
+        groupId: schedule.groupId ?? undefined,
+        tagSelector: schedule.tagSelector ?? undefined,
+      };
+      const serverIds =
+        await this.serversService.resolveTargetServerIds(target);
+
+      const queueId = await this.queueManager.enqueue(
+        schedule.taskId,
+        serverIds,
+        schedule.priority,
+        params,
+        { dependsOnQueueId, target: { ...target, scheduleId: schedule.id } },
+      );
+
+      await this.prisma.taskSchedule.update({
+        where: { id: scheduleId },
+        data: { lastRunAt: new Date(), lastQueueId: queueId },
+      });
+      this.logger.log(`定时任务 ${scheduleId} 已触发，队列ID: ${queueId}`);
+    } catch (error) {
+      this.logger.error(`定时任务 ${scheduleId} 触发失败: ${error.message}`);
+    }
+  }
+
+  private jobName(scheduleId: number): string {
+    return `task_schedule_${scheduleId}`;
+  }
+}
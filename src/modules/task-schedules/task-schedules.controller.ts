@@ -0,0 +1,135 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TaskSchedulesService } from './task-schedules.service';
+import { CreateTaskScheduleDto } from './dto/create-task-schedule.dto';
+import { UpdateTaskScheduleDto } from './dto/update-task-schedule.dto';
+import { TaskScheduleQueryDto } from './dto/task-schedule-query.dto';
+import { TaskScheduleEntity } from './entities/task-schedule.entity';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('task-schedules')
+@ApiBearerAuth()
+@Controller('task-schedules')
+export class TaskSchedulesController {
+  constructor(private readonly taskSchedulesService: TaskSchedulesService) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建定时任务' })
+  @ApiResponse({
+    status: 201,
+    description: '定时任务创建成功',
+    type: TaskScheduleEntity,
+  })
+  @ApiResponse({ status: 400, description: 'Cron表达式、时区或参数值无效' })
+  @ApiResponse({ status: 404, description: '任务或服务器不存在' })
+  create(@Body() createTaskScheduleDto: CreateTaskScheduleDto) {
+    return this.taskSchedulesService.create(createTaskScheduleDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页获取定时任务列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的定时任务列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/TaskScheduleEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findByLimit(@Query(ParsePaginationPipe) params: TaskScheduleQueryDto) {
+    return this.taskSchedulesService.findByLimit(params);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取指定定时任务' })
+  @ApiParam({ name: 'id', description: '定时任务ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定定时任务',
+    type: TaskScheduleEntity,
+  })
+  @ApiResponse({ status: 404, description: '定时任务不存在' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.taskSchedulesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新定时任务' })
+  @ApiParam({ name: 'id', description: '定时任务ID' })
+  @ApiResponse({
+    status: 200,
+    description: '定时任务更新成功',
+    type: TaskScheduleEntity,
+  })
+  @ApiResponse({ status: 404, description: '定时任务不存在' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateTaskScheduleDto: UpdateTaskScheduleDto,
+  ) {
+    return this.taskSchedulesService.update(id, updateTaskScheduleDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除定时任务' })
+  @ApiParam({ name: 'id', description: '定时任务ID' })
+  @ApiResponse({
+    status: 200,
+    description: '定时任务删除成功',
+    type: TaskScheduleEntity,
+  })
+  @ApiResponse({ status: 404, description: '定时任务不存在' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.taskSchedulesService.remove(id);
+  }
+
+  @Post(':id/enable')
+  @ApiOperation({ summary: '启用定时任务' })
+  @ApiParam({ name: 'id', description: '定时任务ID' })
+  @ApiResponse({
+    status: 200,
+    description: '定时任务已启用',
+    type: TaskScheduleEntity,
+  })
+  @ApiResponse({ status: 404, description: '定时任务不存在' })
+  enable(@Param('id', ParseIntPipe) id: number) {
+    return this.taskSchedulesService.setEnabled(id, true);
+  }
+
+  @Post(':id/disable')
+  @ApiOperation({ summary: '停用定时任务' })
+  @ApiParam({ name: 'id', description: '定时任务ID' })
+  @ApiResponse({
+    status: 200,
+    description: '定时任务已停用',
+    type: TaskScheduleEntity,
+  })
+  @ApiResponse({ status: 404, description: '定时任务不存在' })
+  disable(@Param('id', ParseIntPipe) id: number) {
+    return this.taskSchedulesService.setEnabled(id, false);
+  }
+}
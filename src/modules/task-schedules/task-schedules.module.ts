@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TaskSchedulesService } from './task-schedules.service';
+import { TaskSchedulerService } from './task-scheduler.service';
+import { TaskSchedulesController } from './task-schedules.controller';
+import { QueueModule } from '../queue/queue.module';
+import { ServersModule } from '../servers/servers.module';
+import { CommonModule } from '../../common';
+
+@Module({
+  imports: [QueueModule, ServersModule, CommonModule],
+  controllers: [TaskSchedulesController],
+  providers: [TaskSchedulesService, TaskSchedulerService],
+  exports: [TaskSchedulesService],
+})
+export class TaskSchedulesModule {}
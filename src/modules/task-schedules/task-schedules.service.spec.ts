@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ValidationPipe } from '@nestjs/common';
+import { TaskSchedule } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginationService, ScheduleOverlapPolicy } from '../../common';
+import { ServersService } from '../servers/servers.service';
+import { TaskSchedulesService } from './task-schedules.service';
+import { TaskSchedulerService } from './task-scheduler.service';
+import { UpdateTaskScheduleDto } from './dto/update-task-schedule.dto';
+
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function createSchedule(overrides: Partial<TaskSchedule> = {}): TaskSchedule {
+  return {
+    id: 1,
+    name: 'nightly-backup',
+    cronExpression: '0 2 * * *',
+    timezone: null,
+    serverIds: '1,2',
+    groupId: null,
+    tagSelector: null,
+    params: null,
+    priority: 5,
+    enabled: false,
+    overlapPolicy: ScheduleOverlapPolicy.QUEUE,
+    lastRunAt: null,
+    lastQueueId: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    taskId: 7,
+    ...overrides,
+  };
+}
+
+describe('TaskSchedulesService', () => {
+  let service: TaskSchedulesService;
+  let prisma: {
+    taskSchedule: Record<string, jest.Mock>;
+    task: { findUnique: jest.Mock };
+  };
+  let scheduler: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    prisma = {
+      taskSchedule: {
+        findUnique: jest.fn().mockResolvedValue(createSchedule()),
+        update: jest
+          .fn()
+          .mockImplementation(({ data }) =>
+            Promise.resolve(createSchedule(data)),
+          ),
+      },
+      task: { findUnique: jest.fn() },
+    };
+    scheduler = {
+      validate: jest.fn(),
+      register: jest.fn(),
+      getNextRunAt: jest.fn().mockReturnValue(null),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskSchedulesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PaginationService, useValue: {} },
+        { provide: TaskSchedulerService, useValue: scheduler },
+        { provide: ServersService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<TaskSchedulesService>(TaskSchedulesService);
+  });
+
+  it('部分更新不应覆盖未提供的启用状态、优先级和重叠策略', async () => {
+    // 与控制器相同的校验和转换流程
+    const dto = (await new ValidationPipe({ transform: true }).transform(
+      { name: 'renamed' },
+      { type: 'body', metatype: UpdateTaskScheduleDto },
+    )) as UpdateTaskScheduleDto;
+
+    const result = await service.update(1, dto);
+
+    expect(prisma.taskSchedule.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { name: 'renamed' },
+    });
+    expect(prisma.task.findUnique).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      name: 'renamed',
+      priority: 5,
+      enabled: false,
+      overlapPolicy: ScheduleOverlapPolicy.QUEUE,
+      serverIds: [1, 2],
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { TaskSchedule } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { PaginationResultDto, PaginationService } from '../../common';
+import { ServersService } from '../servers/servers.service';
+import { ServerTargetDto } from '../servers/dto/server-target.dto';
+import {
+  parseTaskParameters,
+  resolveTaskParameters,
+} from '../tasks/utils/task-template.util';
+import { CreateTaskScheduleDto } from './dto/create-task-schedule.dto';
+import { UpdateTaskScheduleDto } from './dto/update-task-schedule.dto';
+import { TaskScheduleQueryDto } from './dto/task-schedule-query.dto';
+import { TaskScheduleEntity } from './entities/task-schedule.entity';
+import { TaskSchedulerService } from './task-scheduler.service';
+
+@Injectable()
+export class TaskSchedulesService {
+  private readonly logger = new Logger(TaskSchedulesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly taskScheduler: TaskSchedulerService,
+    private readonly serversService: ServersService,
+  ) {}
+
+  async create(
+    createTaskScheduleDto: CreateTaskScheduleDto,
+  ): Promise<TaskScheduleEntity> {
+    const { serverIds, params, ...data } = createTaskScheduleDto;
+    this.taskScheduler.validate(data.cronExpression, data.timezone);
+    await this.validateTargets(
+      data.taskId,
+      { serverIds, groupId: data.groupId, tagSelector: data.tagSelector },
+      params,
+    );
+
+    const schedule = await this.prisma.taskSchedule.create({
+      data: {
+        ...data,
+        serverIds: serverIds?.length ? serverIds.join(',') : null,
+        params: params ? JSON.stringify(params) : null,
+      },
+    });
+    this.taskScheduler.register(schedule);
+    return this.toEntity(schedule);
+  }
+
+  async findByLimit(
+    params: TaskScheduleQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<TaskScheduleEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.name) {
+      where.name = {
+        contains: params.name,
+      };
+    }
+
+    if (params.taskId) {
+      where.taskId = params.taskId;
+    }
+
+    if (params.enabled !== undefined) {
+      where.enabled = params.enabled;
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      TaskSchedule,
+      any
+    >(
+      this.prisma.taskSchedule,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+      {}, // include
+    );
+
+    return {
+      ...result,
+      items: result.items.map((schedule) => this.toEntity(schedule)),
+    };
+  }
+
+  async findOne(id: number): Promise<TaskScheduleEntity> {
+    return this.toEntity(await this.getSchedule(id));
+  }
+
+  async update(
+    id: number,
+    updateTaskScheduleDto: UpdateTaskScheduleDto,
+  ): Promise<TaskScheduleEntity> {
+    const existing = await this.getSchedule(id);
+    const { serverIds, params, ...data } = updateTaskScheduleDto;
+
+    // 结合现有值重新校验调度规则和执行目标
+    this.taskScheduler.validate(
+      data.cronExpression ?? existing.cronExpression,
+      data.timezone !== undefined ? data.timezone : existing.timezone,
+    );
+    if (
+      data.taskId !== undefined ||
+      serverIds !== undefined ||
+      data.groupId !== undefined ||
+      data.tagSelector !== undefined ||
+      params !== undefined
+    ) {
+      const existingTarget = this.toTarget(existing);
+      await this.validateTargets(
+        data.taskId ?? existing.taskId,
+        {
+          serverIds:
+            serverIds !== undefined ? serverIds : existingTarget.serverIds,
+          groupId:
+            data.groupId !== undefined ? data.groupId : existingTarget.groupId,
+          tagSelector:
+            data.tagSelector !== undefined
+              ? data.tagSelector
+              : existingTarget.tagSelector,
+        },
+        params ?? (existing.params ? JSON.parse(existing.params) : undefined),
+      );
+    }
+
+    const schedule = await this.prisma.taskSchedule.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(serverIds !== undefined && {
+          serverIds: serverIds?.length ? serverIds.join(',') : null,
+        }),
+        ...(params !== undefined && { params: JSON.stringify(params) }),
+      },
+    });
+    this.taskScheduler.register(schedule);
+    return this.toEntity(schedule);
+  }
+
+  async remove(id: number): Promise<TaskScheduleEntity> {
+    await this.getSchedule(id);
+    this.taskScheduler.unregister(id);
+    const schedule = await this.prisma.taskSchedule.delete({
+      where: { id },
+    });
+    this.logger.log(`定时任务 ${id} 已删除`);
+    return this.toEntity(schedule);
+  }
+
+  /**
+   * 启用或停用定时任务
+   * @param id 定时任务ID
+   * @param enabled 是否启用
+   */
+  async setEnabled(id: number, enabled: boolean): Promise<TaskScheduleEntity> {
+    return this.update(id, { enabled });
+  }
+
+  private async getSchedule(id: number): Promise<TaskSchedule> {
+    const schedule = await this.prisma.taskSchedule.findUnique({
+      where: { id },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(`定时任务ID ${id} 不存在`);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * 校验任务、执行目标及参数值
+   * @param taskId 任务ID
+   * @param target 执行目标
+   * @param params 参数值
+   */
+  private async validateTargets(
+    taskId: number,
+    target: ServerTargetDto,
+    params?: Record<string, string | number>,
+  ): Promise<void> {
+    const task = await this.prisma.task.findUnique({
+      where: { id: taskId },
+      select: { parameters: true },
+    });
+    if (!task) {
+      throw new NotFoundException(`任务ID ${taskId} 不存在`);
+    }
+
+    await this.serversService.resolveTargetServerIds(target);
+    resolveTaskParameters(parseTaskParameters(task.parameters), params);
+  }
+
+  /**
+   * 从数据库记录中提取执行目标
+   */
+  private toTarget(schedule: TaskSchedule): ServerTargetDto {
+    return {
+      serverIds: schedule.serverIds
+        ? schedule.serverIds.split(',').map(Number)
+        : undefined,
+      groupId: schedule.groupId ?? undefined,
+      tagSelector: schedule.tagSelector ?? undefined,
+    };
+  }
+
+  /**
+   * 将数据库记录转换为实体，附带下次运行时间
+   */
+  private toEntity(schedule: TaskSchedule): TaskScheduleEntity {
+    return {
+      ...schedule,
+      serverIds: this.toTarget(schedule).serverIds ?? [],
+      params: schedule.params ? JSON.parse(schedule.params) : null,
+      nextRunAt: this.taskScheduler.getNextRunAt(schedule.id),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { BadRequestException, ValidationPipe } from '@nestjs/common';
+import { ExecuteTaskDto } from '../dto/execute-task.dto';
+
+describe('IsTaskParameterValues', () => {
+  const pipe = new ValidationPipe({ transform: true });
+  const validate = (params: unknown) =>
+    pipe.transform(
+      { serverIds: [1], params },
+      { type: 'body', metatype: ExecuteTaskDto },
+    );
+
+  it('应接受字符串和数字参数值', async () => {
+    await expect(
+      validate({ version: '1.2.0', port: 8080 }),
+    ).resolves.toMatchObject({ params: { version: '1.2.0', port: 8080 } });
+  });
+
+  it.each([
+    ['嵌套对象', { version: { toString: 'x' } }],
+    ['数组', { hosts: ['a', 'b'] }],
+    ['布尔值', { force: true }],
+    ['null', { version: null }],
+  ])('参数值为%s时应返回400', async (_, params) => {
+    await expect(validate(params)).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
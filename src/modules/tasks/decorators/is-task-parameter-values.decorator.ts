@@ -0,0 +1,26 @@
+import { ValidateBy, ValidationOptions } from 'class-validator';
+
+export const IS_TASK_PARAMETER_VALUES = 'isTaskParameterValues';
+
+/**
+ * 校验任务参数值对象，每个值只能是字符串或有限数字
+ */
+export const IsTaskParameterValues = (validationOptions?: ValidationOptions) =>
+  ValidateBy(
+    {
+      name: IS_TASK_PARAMETER_VALUES,
+      validator: {
+        validate: (value: unknown) =>
+          typeof value === 'object' &&
+          value !== null &&
+          !Array.isArray(value) &&
+          Object.values(value).every(
+            (item) =>
+              typeof item === 'string' ||
+              (typeof item === 'number' && Number.isFinite(item)),
+          ),
+        defaultMessage: () => '$property 的每个值必须是字符串或数字',
+      },
+    },
+    validationOptions,
+  );
@@ -1,5 +1,15 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsString, IsInt, IsOptional, Min, IsNotEmpty } from 'class-validator';
+import {
+  IsString,
+  IsInt,
+  IsOptional,
+  Min,
+  IsNotEmpty,
+  IsArray,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { TaskParameterDto } from './task-parameter.dto';
 
 export class CreateTaskDto {
   @ApiProperty({ description: '任务名称' })
@@ -12,7 +22,10 @@ export class CreateTaskDto {
   @IsOptional()
   description?: string;
 
-  @ApiProperty({ description: '要执行的命令' })
+  @ApiProperty({
+    description:
+      "要执行的命令，可使用 {{参数名}} 引用参数，以及内置变量 {{server.id}}、{{server.name}}、{{server.host}}。字符串值会被转义为单个shell参数（单引号包裹），占位符外不要再加引号，例如 '{{path}}' 会渲染为 ''/tmp''，应写作 {{path}}",
+  })
   @IsString()
   @IsNotEmpty()
   command: string;
@@ -22,4 +35,11 @@ export class CreateTaskDto {
   @Min(1)
   @IsOptional()
   timeout?: number;
+
+  @ApiPropertyOptional({ description: '参数定义', type: [TaskParameterDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TaskParameterDto)
+  @IsOptional()
+  parameters?: TaskParameterDto[];
 }
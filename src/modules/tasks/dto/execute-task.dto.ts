@@ -0,0 +1,31 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsObject, IsOptional, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+import { IsTaskParameterValues } from '../decorators/is-task-parameter-values.decorator';
+import { RolloutStrategyDto } from '../../task-executions/dto/rollout-strategy.dto';
+
+export class ExecuteTaskDto extends ServerTargetDto {
+  @ApiPropertyOptional({ description: '优先级', default: 0 })
+  @IsInt()
+  @IsOptional()
+  priority?: number = 0;
+
+  @ApiPropertyOptional({
+    description: '参数值，键为参数名称',
+    example: { version: '1.2.0', port: 8080 },
+  })
+  @IsObject()
+  @IsTaskParameterValues()
+  @IsOptional()
+  params?: Record<string, string | number>;
+
+  @ApiPropertyOptional({
+    description: '分批执行策略',
+    type: RolloutStrategyDto,
+  })
+  @ValidateNested()
+  @Type(() => RolloutStrategyDto)
+  @IsOptional()
+  rollout?: RolloutStrategyDto;
+}
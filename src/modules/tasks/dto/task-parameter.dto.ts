@@ -0,0 +1,79 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { TaskParameterType, TaskParameterTypeType } from '../../../common';
+
+/**
+ * 任务参数定义DTO
+ * 命令中通过 {{name}} 引用参数，字符串值渲染时转义为单个shell参数
+ */
+export class TaskParameterDto {
+  @ApiProperty({
+    description:
+      "参数名称，命令中通过 {{name}} 引用；字符串值渲染时已转义为单引号包裹的单个shell参数，不要写成 '{{name}}'",
+    example: 'version',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[A-Za-z_][A-Za-z0-9_]*$/, {
+    message: '参数名称只能包含字母、数字和下划线，且不能以数字开头',
+  })
+  name: string;
+
+  @ApiProperty({
+    description: '参数类型',
+    enum: Object.values(TaskParameterType),
+    example: TaskParameterType.STRING,
+  })
+  @IsIn(Object.values(TaskParameterType))
+  type: TaskParameterTypeType;
+
+  @ApiPropertyOptional({ description: '参数描述' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiPropertyOptional({ description: '是否必填', default: true })
+  @IsBoolean()
+  @IsOptional()
+  required?: boolean;
+
+  @ApiPropertyOptional({
+    description: '默认值',
+    oneOf: [{ type: 'string' }, { type: 'number' }],
+  })
+  @IsOptional()
+  default?: string | number;
+
+  @ApiPropertyOptional({
+    description: '可选值列表（enum类型必填）',
+    type: [String],
+  })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  options?: string[];
+
+  @ApiPropertyOptional({ description: '取值校验正则（string类型）' })
+  @IsString()
+  @IsOptional()
+  pattern?: string;
+
+  @ApiPropertyOptional({ description: '最小值（number类型）' })
+  @IsNumber()
+  @IsOptional()
+  min?: number;
+
+  @ApiPropertyOptional({ description: '最大值（number类型）' })
+  @IsNumber()
+  @IsOptional()
+  max?: number;
+}
@@ -1,7 +1,8 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { Task } from '@prisma/client';
+import { TaskParameterDto } from '../dto/task-parameter.dto';
 
-export class TaskEntity implements Task {
+export class TaskEntity implements Omit<Task, 'parameters'> {
   @ApiProperty({ description: '任务ID' })
   id: number;
 
@@ -17,6 +18,9 @@ export class TaskEntity implements Task {
   @ApiPropertyOptional({ description: '超时时间（秒）' })
   timeout: number | null;
 
+  @ApiProperty({ description: '参数定义', type: [TaskParameterDto] })
+  parameters: TaskParameterDto[];
+
   @ApiProperty({ description: '创建时间' })
   createdAt: Date;
 
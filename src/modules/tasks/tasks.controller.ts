@@ -12,6 +12,7 @@ import {
 import { TasksService } from './tasks.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
+import { ExecuteTaskDto } from './dto/execute-task.dto';
 import {
   ApiTags,
   ApiOperation,
@@ -103,10 +104,11 @@ export class TasksController {
   @ApiOperation({ summary: '执行任务' })
   @ApiParam({ name: 'id', description: '任务ID' })
   @ApiResponse({ status: 200, description: '任务已添加到队列' })
+  @ApiResponse({ status: 400, description: '参数值校验失败' })
   @ApiResponse({ status: 404, description: '任务或服务器不存在' })
   async executeTask(
     @Param('id', ParseIntPipe) id: number,
-    @Body() executeDto: { serverIds: number[]; priority?: number },
+    @Body() executeDto: ExecuteTaskDto,
   ) {
     // 验证任务是否存在
     await this.tasksService.findOne(id);
@@ -114,7 +116,11 @@ export class TasksController {
     const createTaskExecutionDto: CreateTaskExecutionDto = {
       taskId: id,
       serverIds: executeDto.serverIds,
+      groupId: executeDto.groupId,
+      tagSelector: executeDto.tagSelector,
       priority: executeDto.priority || 0,
+      params: executeDto.params,
+      rollout: executeDto.rollout,
     };
 
     return this.taskExecutionsService.create(createTaskExecutionDto);
@@ -1,10 +1,20 @@
-import { Injectable, NotFoundException, Logger } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  Logger,
+} from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
 import { TaskEntity } from './entities/task.entity';
 import { PaginationResultDto, PaginationService } from '../../common';
 import { TaskQueryDto } from './dto/task-query.dto';
+import { Task } from '@prisma/client';
+import {
+  parseTaskParameters,
+  validateTaskTemplate,
+} from './utils/task-template.util';
 
 @Injectable()
 export class TasksService {
@@ -16,9 +26,16 @@ export class TasksService {
   ) {}
 
   async create(createTaskDto: CreateTaskDto): Promise<TaskEntity> {
-    return this.prisma.task.create({
-      data: createTaskDto,
+    const { parameters, ...data } = createTaskDto;
+    validateTaskTemplate(data.command, parameters);
+
+    const task = await this.prisma.task.create({
+      data: {
+        ...data,
+        parameters: parameters ? JSON.stringify(parameters) : null,
+      },
     });
+    return this.toEntity(task);
   }
 
   async findByLimit(
@@ -41,13 +58,18 @@ export class TasksService {
     }
 
     // 使用分页服务进行查询
-    return this.paginationService.paginateByLimit<TaskEntity, any>(
+    const result = await this.paginationService.paginateByLimit<Task, any>(
       this.prisma.task,
       params,
       where, // where
       { createdAt: 'desc' }, // orderBy
       {}, // include
     );
+
+    return {
+      ...result,
+      items: result.items.map((task) => this.toEntity(task)),
+    };
   }
 
   /**
@@ -69,15 +91,32 @@ export class TasksService {
       throw new NotFoundException(`任务ID ${id} 不存在`);
     }
 
-    return task;
+    return this.toEntity(task);
   }
 
   async update(id: number, updateTaskDto: UpdateTaskDto): Promise<TaskEntity> {
+    const { parameters, ...data } = updateTaskDto;
+
+    // 命令或参数定义变更时，需要结合现有值重新校验模板
+    if (data.command !== undefined || parameters !== undefined) {
+      const existing = await this.findOne(id);
+      validateTaskTemplate(
+        data.command ?? existing.command,
+        parameters ?? existing.parameters,
+      );
+    }
+
     try {
-      return await this.prisma.task.update({
+      const task = await this.prisma.task.update({
         where: { id },
-        data: updateTaskDto,
+        data: {
+          ...data,
+          ...(parameters !== undefined && {
+            parameters: JSON.stringify(parameters),
+          }),
+        },
       });
+      return this.toEntity(task);
     } catch (error) {
       throw new NotFoundException(`任务ID ${id} 不存在`);
     }
@@ -88,6 +127,16 @@ export class TasksService {
       // 先检查任务是否存在
       await this.findOne(id);
 
+      // 被工作流步骤引用的任务不能删除
+      const workflowSteps = await this.prisma.workflowStep.count({
+        where: { taskId: id },
+      });
+      if (workflowSteps > 0) {
+        throw new ConflictException(
+          `任务ID ${id} 被 ${workflowSteps} 个工作流步骤引用，请先修改相关工作流`,
+        );
+      }
+
       // 使用事务确保原子性操作
       return await this.prisma.$transaction(async (tx) => {
         // 1. 删除与任务相关的所有执行历史记录
@@ -97,16 +146,35 @@ export class TasksService {
 
         this.logger.log(`已删除任务ID ${id} 的 ${count} 条执行历史记录`);
 
-        // 2. 删除任务
-        return await tx.task.delete({
+        // 2. 删除任务的定时调度，已注册的Cron作业会在下次触发时自行注销
+        await tx.taskSchedule.deleteMany({
+          where: { taskId: id },
+        });
+
+        // 3. 删除任务
+        const task = await tx.task.delete({
           where: { id },
         });
+        return this.toEntity(task);
       });
     } catch (error) {
-      if (error instanceof NotFoundException) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
         throw error;
       }
       throw new NotFoundException(`删除任务ID ${id} 失败: ${error.message}`);
     }
   }
+
+  /**
+   * 将数据库记录转换为实体，解析参数定义
+   */
+  private toEntity(task: Task): TaskEntity {
+    return {
+      ...task,
+      parameters: parseTaskParameters(task.parameters),
+    };
+  }
 }
@@ -0,0 +1,106 @@
+import { BadRequestException } from '@nestjs/common';
+import { TaskParameterType } from '../../../common';
+import { TaskParameterDto } from '../dto/task-parameter.dto';
+import {
+  renderTaskCommand,
+  resolveTaskParameters,
+  TemplateServer,
+} from './task-template.util';
+
+const server: TemplateServer = { id: 3, name: 'web 1', host: '10.0.0.1' };
+
+const parameters: TaskParameterDto[] = [
+  { name: 'path', type: TaskParameterType.STRING },
+  {
+    name: 'port',
+    type: TaskParameterType.NUMBER,
+    required: false,
+    min: 1,
+    max: 65535,
+  },
+  {
+    name: 'env',
+    type: TaskParameterType.ENUM,
+    options: ['staging', 'prod'],
+    default: 'staging',
+  },
+  { name: 'tag', type: TaskParameterType.STRING, required: false },
+];
+
+describe('resolveTaskParameters', () => {
+  it('应转换数字参数并填充默认值', () => {
+    expect(
+      resolveTaskParameters(parameters, { path: '/tmp', port: '8080' }),
+    ).toEqual({ path: '/tmp', port: 8080, env: 'staging' });
+  });
+
+  it('可选参数为空时应忽略', () => {
+    expect(
+      resolveTaskParameters(parameters, { path: '/tmp', port: '', tag: '' }),
+    ).toEqual({ path: '/tmp', env: 'staging' });
+  });
+
+  it('缺少必填参数时应抛出异常', () => {
+    expect(() => resolveTaskParameters(parameters, { port: 80 })).toThrow(
+      new BadRequestException('缺少必填参数 path'),
+    );
+  });
+
+  it('应拒绝未定义的参数', () => {
+    expect(() =>
+      resolveTaskParameters(parameters, { path: '/tmp', unknown: 'x' }),
+    ).toThrow(new BadRequestException('未定义的参数: unknown'));
+  });
+
+  it('应校验数字参数的格式和范围', () => {
+    expect(() =>
+      resolveTaskParameters(parameters, { path: '/tmp', port: '80a' }),
+    ).toThrow(new BadRequestException('参数 port 必须是数字'));
+    expect(() =>
+      resolveTaskParameters(parameters, { path: '/tmp', port: 0 }),
+    ).toThrow(new BadRequestException('参数 port 不能小于 1'));
+    expect(() =>
+      resolveTaskParameters(parameters, { path: '/tmp', port: 65536 }),
+    ).toThrow(new BadRequestException('参数 port 不能大于 65535'));
+  });
+
+  it('枚举参数只能取可选值', () => {
+    expect(() =>
+      resolveTaskParameters(parameters, { path: '/tmp', env: 'dev' }),
+    ).toThrow(
+      new BadRequestException('参数 env 必须是以下值之一: staging, prod'),
+    );
+  });
+});
+
+describe('renderTaskCommand', () => {
+  it('字符串参数应转义为单个shell参数，数字参数原样插入', () => {
+    expect(
+      renderTaskCommand(
+        'deploy {{path}} --port {{ port }}',
+        { path: "/srv/it's here; rm -rf ~", port: 8080 },
+        server,
+      ),
+    ).toBe(`deploy '/srv/it'\\''s here; rm -rf ~' --port 8080`);
+  });
+
+  it('应渲染服务器内置变量', () => {
+    expect(
+      renderTaskCommand(
+        'echo {{server.id}} {{server.name}} {{server.host}}',
+        {},
+        server,
+      ),
+    ).toBe(`echo 3 'web 1' '10.0.0.1'`);
+  });
+
+  it('未提供值的可选参数应渲染为空字符串', () => {
+    expect(renderTaskCommand('run {{tag}}', {}, server)).toBe('run ');
+  });
+
+  it('占位符外再加引号时值不再被引号包裹', () => {
+    expect(
+      renderTaskCommand(`ls '{{path}}'`, { path: '/var/www' }, server),
+    ).toBe(`ls ''/var/www''`);
+  });
+});
@@ -0,0 +1,204 @@
+import { BadRequestException } from '@nestjs/common';
+import { Server } from '@prisma/client';
+import { shellQuote, TaskParameterType } from '../../../common';
+import { TaskParameterDto } from '../dto/task-parameter.dto';
+
+/**
+ * 任务参数值类型
+ */
+export type TaskParameterValues = Record<string, string | number>;
+
+/**
+ * 渲染命令时可用的服务器内置变量
+ */
+export type TemplateServer = Pick<Server, 'id' | 'name' | 'host'>;
+
+// 命令中的占位符，例如 {{version}}、{{server.host}}
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_.]*)\s*\}\}/g;
+
+// 内置变量名称
+const BUILTIN_VARIABLES = ['server.id', 'server.name', 'server.host'];
+
+/**
+ * 解析存储在数据库中的参数定义
+ * @param raw 参数定义JSON字符串
+ * @returns 参数定义列表
+ */
+export function parseTaskParameters(
+  raw: string | null | undefined,
+): TaskParameterDto[] {
+  if (!raw) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 提取命令中引用的占位符名称
+ * @param command 命令模板
+ * @returns 去重后的占位符名称列表
+ */
+export function extractPlaceholders(command: string): string[] {
+  const names = new Set<string>();
+  for (const match of command.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * 校验参数定义及命令模板
+ * 检查参数名称是否重复、默认值是否合法、命令中的占位符是否都已定义
+ * @param command 命令模板
+ * @param parameters 参数定义列表
+ */
+export function validateTaskTemplate(
+  command: string,
+  parameters: TaskParameterDto[] = [],
+): void {
+  const names = new Set<string>();
+  for (const param of parameters) {
+    if (names.has(param.name)) {
+      throw new BadRequestException(`参数 ${param.name} 重复定义`);
+    }
+    names.add(param.name);
+
+    if (
+      param.type === TaskParameterType.ENUM &&
+      (!param.options || param.options.length === 0)
+    ) {
+      throw new BadRequestException(`枚举参数 ${param.name} 必须提供可选值`);
+    }
+    if (param.pattern) {
+      try {
+        new RegExp(param.pattern);
+      } catch {
+        throw new BadRequestException(`参数 ${param.name} 的校验正则无效`);
+      }
+    }
+    if (param.default !== undefined && param.default !== null) {
+      coerceParameterValue(param, param.default);
+    }
+  }
+
+  const undefinedNames = extractPlaceholders(command).filter(
+    (name) => !names.has(name) && !BUILTIN_VARIABLES.includes(name),
+  );
+  if (undefinedNames.length > 0) {
+    throw new BadRequestException(
+      `命令中引用了未定义的参数: ${undefinedNames.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * 根据参数定义校验参数值并填充默认值
+ * @param parameters 参数定义列表
+ * @param values 用户提交的参数值
+ * @returns 校验后的参数值
+ */
+export function resolveTaskParameters(
+  parameters: TaskParameterDto[],
+  values: TaskParameterValues = {},
+): TaskParameterValues {
+  const definedNames = parameters.map((param) => param.name);
+  const unknownNames = Object.keys(values).filter(
+    (name) => !definedNames.includes(name),
+  );
+  if (unknownNames.length > 0) {
+    throw new BadRequestException(`未定义的参数: ${unknownNames.join(', ')}`);
+  }
+
+  const resolved: TaskParameterValues = {};
+  for (const param of parameters) {
+    const value = values[param.name] ?? param.default;
+    if (value === undefined || value === null || value === '') {
+      if (param.required !== false) {
+        throw new BadRequestException(`缺少必填参数 ${param.name}`);
+      }
+      continue;
+    }
+    resolved[param.name] = coerceParameterValue(param, value);
+  }
+  return resolved;
+}
+
+/**
+ * 为指定服务器渲染命令
+ * 字符串参数和服务器名称、地址经单引号转义后作为单个shell参数插入，数字参数原样插入；
+ * 未提供值的可选参数渲染为空字符串
+ * @param command 命令模板
+ * @param values 已校验的参数值
+ * @param server 目标服务器
+ * @returns 渲染后的命令
+ */
+export function renderTaskCommand(
+  command: string,
+  values: TaskParameterValues,
+  server: TemplateServer,
+): string {
+  const variables: TaskParameterValues = {
+    ...values,
+    'server.id': server.id,
+    'server.name': server.name,
+    'server.host': server.host,
+  };
+  return command.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      return '';
+    }
+    return typeof value === 'number' ? String(value) : shellQuote(value);
+  });
+}
+
+/**
+ * 按参数类型转换并校验单个参数值
+ */
+function coerceParameterValue(
+  param: TaskParameterDto,
+  value: string | number,
+): string | number {
+  switch (param.type) {
+    case TaskParameterType.NUMBER: {
+      const num = typeof value === 'number' ? value : Number(value);
+      if (String(value).trim() === '' || !Number.isFinite(num)) {
+        throw new BadRequestException(`参数 ${param.name} 必须是数字`);
+      }
+      if (param.min !== undefined && num < param.min) {
+        throw new BadRequestException(
+          `参数 ${param.name} 不能小于 ${param.min}`,
+        );
+      }
+      if (param.max !== undefined && num > param.max) {
+        throw new BadRequestException(
+          `参数 ${param.name} 不能大于 ${param.max}`,
+        );
+      }
+      return num;
+    }
+    case TaskParameterType.ENUM: {
+      const str = String(value);
+      if (!param.options?.includes(str)) {
+        throw new BadRequestException(
+          `参数 ${param.name} 必须是以下值之一: ${param.options?.join(', ')}`,
+        );
+      }
+      return str;
+    }
+    default: {
+      const str = String(value);
+      if (param.pattern && !new RegExp(param.pattern).test(str)) {
+        throw new BadRequestException(
+          `参数 ${param.name} 不符合格式要求: ${param.pattern}`,
+        );
+      }
+      return str;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { WorkflowStepDto } from './workflow-step.dto';
+
+export class CreateWorkflowDto {
+  @ApiProperty({ description: '工作流名称' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional({ description: '工作流描述' })
+  @IsString()
+  @IsOptional()
+  description?: string;
+
+  @ApiProperty({ description: '按顺序执行的步骤', type: [WorkflowStepDto] })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => WorkflowStepDto)
+  steps: WorkflowStepDto[];
+}
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional } from 'class-validator';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+
+/**
+ * 运行工作流DTO
+ * 执行目标作为未指定目标的步骤的默认目标
+ */
+export class RunWorkflowDto extends ServerTargetDto {
+  @ApiPropertyOptional({ description: '各步骤入队时使用的优先级', default: 0 })
+  @IsInt()
+  @IsOptional()
+  priority?: number = 0;
+}
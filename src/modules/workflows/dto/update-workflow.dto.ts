@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateWorkflowDto } from './create-workflow.dto';
+
+/**
+ * 更新工作流DTO
+ * 提供步骤列表时整体替换原有步骤
+ */
+export class UpdateWorkflowDto extends PartialType(CreateWorkflowDto) {}
@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+
+/**
+ * 工作流查询参数DTO
+ * 用于接收和验证工作流查询参数
+ */
+export class WorkflowQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({ description: '工作流名称（模糊匹配）' })
+  @IsOptional()
+  @IsString()
+  name?: string;
+}
@@ -0,0 +1,17 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationParamsDto } from '../../../common/dto/pagination-params.dto';
+import { WorkflowRunStatus, WorkflowRunStatusType } from '../../../common';
+
+/**
+ * 工作流运行记录查询参数DTO
+ */
+export class WorkflowRunQueryDto extends PaginationParamsDto {
+  @ApiPropertyOptional({
+    description: '运行状态',
+    enum: Object.values(WorkflowRunStatus),
+  })
+  @IsOptional()
+  @IsIn(Object.values(WorkflowRunStatus))
+  status?: WorkflowRunStatusType;
+}
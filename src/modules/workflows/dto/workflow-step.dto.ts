@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsPositive,
+  IsString,
+} from 'class-validator';
+import {
+  WorkflowStepCondition,
+  WorkflowStepConditionType,
+} from '../../../common';
+import { ServerTargetDto } from '../../servers/dto/server-target.dto';
+import { IsTaskParameterValues } from '../../tasks/decorators/is-task-parameter-values.decorator';
+
+/**
+ * 工作流步骤DTO
+ * 未指定执行目标的步骤使用运行时提供的默认目标
+ */
+export class WorkflowStepDto extends ServerTargetDto {
+  @ApiPropertyOptional({ description: '步骤名称' })
+  @IsString()
+  @IsOptional()
+  name?: string;
+
+  @ApiProperty({ description: '任务ID' })
+  @IsInt()
+  @IsPositive()
+  taskId: number;
+
+  @ApiPropertyOptional({
+    description:
+      '执行条件：success 之前的步骤全部成功时运行，failure 之前有步骤失败时运行，always 总是运行',
+    enum: Object.values(WorkflowStepCondition),
+    default: WorkflowStepCondition.SUCCESS,
+  })
+  @IsIn(Object.values(WorkflowStepCondition))
+  @IsOptional()
+  condition?: WorkflowStepConditionType = WorkflowStepCondition.SUCCESS;
+
+  @ApiPropertyOptional({
+    description: '任务参数值，键为参数名称',
+    example: { version: '1.2.0' },
+  })
+  @IsObject()
+  @IsTaskParameterValues()
+  @IsOptional()
+  params?: Record<string, string | number>;
+}
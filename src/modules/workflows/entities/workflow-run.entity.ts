@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { WorkflowRun, WorkflowRunStep } from '@prisma/client';
+import { WorkflowRunStatus, WorkflowRunStepStatus } from '../../../common';
+import { TaskExecutionEntity } from '../../task-executions/entities/task-execution.entity';
+
+export class WorkflowRunStepEntity
+  implements Omit<WorkflowRunStep, 'target' | 'params'>
+{
+  @ApiProperty({ description: '运行步骤ID' })
+  id: number;
+
+  @ApiProperty({ description: '运行记录ID' })
+  runId: number;
+
+  @ApiProperty({ description: '步骤顺序，从0开始' })
+  position: number;
+
+  @ApiPropertyOptional({ description: '步骤名称' })
+  name: string | null;
+
+  @ApiProperty({ description: '任务ID' })
+  taskId: number;
+
+  @ApiProperty({ description: '执行条件' })
+  condition: string;
+
+  @ApiPropertyOptional({ description: '执行目标' })
+  target: Record<string, unknown> | null;
+
+  @ApiPropertyOptional({ description: '任务参数值' })
+  params: Record<string, string | number> | null;
+
+  @ApiProperty({
+    description: '步骤状态',
+    enum: Object.values(WorkflowRunStepStatus),
+  })
+  status: string;
+
+  @ApiPropertyOptional({ description: '步骤对应的队列项ID' })
+  queueId: number | null;
+
+  @ApiPropertyOptional({ description: '步骤无法启动时的错误信息' })
+  error: string | null;
+
+  @ApiPropertyOptional({ description: '开始时间' })
+  startedAt: Date | null;
+
+  @ApiPropertyOptional({ description: '完成时间' })
+  completedAt: Date | null;
+
+  @ApiPropertyOptional({
+    description: '步骤产生的执行记录（仅在查询单个运行记录时返回）',
+    type: [TaskExecutionEntity],
+  })
+  executions?: TaskExecutionEntity[];
+}
+
+export class WorkflowRunEntity implements Omit<WorkflowRun, 'target'> {
+  @ApiProperty({ description: '运行记录ID' })
+  id: number;
+
+  @ApiProperty({ description: '工作流ID' })
+  workflowId: number;
+
+  @ApiProperty({
+    description: '运行状态',
+    enum: Object.values(WorkflowRunStatus),
+  })
+  status: string;
+
+  @ApiProperty({ description: '优先级' })
+  priority: number;
+
+  @ApiPropertyOptional({ description: '默认执行目标' })
+  target: Record<string, unknown> | null;
+
+  @ApiProperty({ description: '步骤列表', type: [WorkflowRunStepEntity] })
+  steps: WorkflowRunStepEntity[];
+
+  @ApiProperty({ description: '开始时间' })
+  startedAt: Date;
+
+  @ApiPropertyOptional({ description: '完成时间' })
+  completedAt: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
@@ -0,0 +1,66 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Workflow, WorkflowStep } from '@prisma/client';
+import { WorkflowStepCondition } from '../../../common';
+
+export class WorkflowStepEntity
+  implements Omit<WorkflowStep, 'serverIds' | 'params'>
+{
+  @ApiProperty({ description: '步骤ID' })
+  id: number;
+
+  @ApiProperty({ description: '工作流ID' })
+  workflowId: number;
+
+  @ApiProperty({ description: '步骤顺序，从0开始' })
+  position: number;
+
+  @ApiPropertyOptional({ description: '步骤名称' })
+  name: string | null;
+
+  @ApiProperty({ description: '任务ID' })
+  taskId: number;
+
+  @ApiProperty({
+    description: '执行条件',
+    enum: Object.values(WorkflowStepCondition),
+  })
+  condition: string;
+
+  @ApiPropertyOptional({ description: '服务器ID列表', type: [Number] })
+  serverIds: number[] | null;
+
+  @ApiPropertyOptional({ description: '服务器分组ID' })
+  groupId: number | null;
+
+  @ApiPropertyOptional({ description: '标签选择器' })
+  tagSelector: string | null;
+
+  @ApiPropertyOptional({ description: '任务参数值' })
+  params: Record<string, string | number> | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
+
+export class WorkflowEntity implements Workflow {
+  @ApiProperty({ description: '工作流ID' })
+  id: number;
+
+  @ApiProperty({ description: '工作流名称' })
+  name: string;
+
+  @ApiPropertyOptional({ description: '工作流描述' })
+  description: string | null;
+
+  @ApiProperty({ description: '步骤列表', type: [WorkflowStepEntity] })
+  steps: WorkflowStepEntity[];
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  updatedAt: Date;
+}
@@ -0,0 +1,476 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { WorkflowRun, WorkflowRunStep } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  PaginationResultDto,
+  PaginationService,
+  WorkflowRunStatus,
+  WorkflowRunStepStatus,
+  WorkflowStepCondition,
+} from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import { QueueManagerService } from '../queue/services/queue-manager.service';
+import { ServersService } from '../servers/servers.service';
+import { ServerTargetDto } from '../servers/dto/server-target.dto';
+import {
+  parseTaskParameters,
+  resolveTaskParameters,
+} from '../tasks/utils/task-template.util';
+import { WorkflowsService } from './workflows.service';
+import { RunWorkflowDto } from './dto/run-workflow.dto';
+import { WorkflowRunQueryDto } from './dto/workflow-run-query.dto';
+import {
+  WorkflowRunEntity,
+  WorkflowRunStepEntity,
+} from './entities/workflow-run.entity';
+
+// 推进运行中工作流的轮询间隔（毫秒）
+const ADVANCE_INTERVAL_MS = 3000;
+
+const RUN_STEPS_INCLUDE = { steps: { orderBy: { position: 'asc' } } } as const;
+
+type WorkflowRunWithSteps = WorkflowRun & { steps: WorkflowRunStep[] };
+
+// 步骤所在队列项的执行结果
+type StepOutcome = 'running' | 'completed' | 'failed';
+
+/**
+ * 工作流运行服务
+ *
+ * 运行工作流时保存步骤快照，之后定时推进运行中的记录：
+ * 当前步骤的队列项结束后，按执行条件决定运行或跳过后续步骤，
+ * 每个步骤通过执行队列产生任务执行记录。
+ */
+@Injectable()
+export class WorkflowRunnerService {
+  private readonly logger = new Logger(WorkflowRunnerService.name);
+  private isAdvancing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly queueManager: QueueManagerService,
+    private readonly serversService: ServersService,
+    private readonly workflowsService: WorkflowsService,
+  ) {}
+
+  /**
+   * 运行工作流
+   * @param workflowId 工作流ID
+   * @param runWorkflowDto 默认执行目标及优先级
+   * @returns 运行记录
+   */
+  async run(
+    workflowId: number,
+    runWorkflowDto: RunWorkflowDto,
+  ): Promise<WorkflowRunEntity> {
+    const workflow = await this.workflowsService.getWorkflow(workflowId);
+    const { priority, ...defaultTarget } = runWorkflowDto;
+    const hasDefaultTarget = this.hasTarget(defaultTarget);
+
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: workflow.steps.map((step) => step.taskId) } },
+      select: { id: true, parameters: true },
+    });
+    const taskMap = new Map(tasks.map((task) => [task.id, task]));
+
+    // 启动前校验每个步骤都有执行目标，并解析参数值
+    const stepData = workflow.steps.map((step) => {
+      const task = taskMap.get(step.taskId);
+      if (!task) {
+        throw new NotFoundException(`任务ID ${step.taskId} 不存在`);
+      }
+      const stepTarget: ServerTargetDto = {
+        serverIds: step.serverIds?.split(',').map(Number),
+        groupId: step.groupId ?? undefined,
+        tagSelector: step.tagSelector ?? undefined,
+      };
+      const target = this.hasTarget(stepTarget) ? stepTarget : defaultTarget;
+      if (!this.hasTarget(target)) {
+        throw new BadRequestException(
+          `步骤 ${step.position + 1} 未指定执行目标，运行时必须提供默认目标`,
+        );
+      }
+      const params = resolveTaskParameters(
+        parseTaskParameters(task.parameters),
+        step.params ? JSON.parse(step.params) : {},
+      );
+      return {
+        position: step.position,
+        name: step.name,
+        taskId: step.taskId,
+        condition: step.condition,
+        target: JSON.stringify(target),
+        params: JSON.stringify(params),
+      };
+    });
+
+    if (hasDefaultTarget) {
+      await this.serversService.resolveTargetServerIds(defaultTarget);
+    }
+
+    const run = await this.prisma.workflowRun.create({
+      data: {
+        workflowId,
+        status: WorkflowRunStatus.RUNNING,
+        priority: priority ?? 0,
+        target: hasDefaultTarget ? JSON.stringify(defaultTarget) : null,
+        steps: { create: stepData },
+      },
+    });
+    this.logger.log(`工作流 ${workflowId} 开始运行，运行记录ID: ${run.id}`);
+
+    // 立即推进一次以启动第一个步骤，不必等待下一次轮询
+    await this.advanceRuns();
+    return this.findRun(run.id);
+  }
+
+  /**
+   * 中止运行中的工作流
+   * 当前步骤的队列项被取消，未开始的步骤标记为已取消
+   * @param runId 运行记录ID
+   */
+  async abort(runId: number): Promise<WorkflowRunEntity> {
+    const run = await this.getRun(runId);
+    if (run.status !== WorkflowRunStatus.RUNNING) {
+      throw new BadRequestException(
+        `无法中止状态为 ${run.status} 的工作流运行记录`,
+      );
+    }
+
+    const { count } = await this.prisma.workflowRun.updateMany({
+      where: { id: runId, status: WorkflowRunStatus.RUNNING },
+      data: { status: WorkflowRunStatus.CANCELLED, completedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException(`工作流运行记录 ${runId} 已结束`);
+    }
+
+    for (const step of run.steps) {
+      if (step.status === WorkflowRunStepStatus.RUNNING && step.queueId) {
+        try {
+          await this.queueManager.cancel(step.queueId);
+        } catch (error) {
+          // 队列项可能刚好结束
+          this.logger.warn(
+            `取消工作流步骤的队列项 ${step.queueId} 失败: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    await this.prisma.workflowRunStep.updateMany({
+      where: {
+        runId,
+        status: {
+          in: [WorkflowRunStepStatus.PENDING, WorkflowRunStepStatus.RUNNING],
+        },
+      },
+      data: {
+        status: WorkflowRunStepStatus.CANCELLED,
+        completedAt: new Date(),
+      },
+    });
+
+    this.logger.log(`工作流运行记录 ${runId} 已中止`);
+    return this.findRun(runId);
+  }
+
+  /**
+   * 获取运行记录详情，包括每个步骤产生的任务执行记录
+   * @param runId 运行记录ID
+   */
+  async findRun(runId: number): Promise<WorkflowRunEntity> {
+    const run = await this.getRun(runId);
+    const queueIds = run.steps
+      .map((step) => step.queueId)
+      .filter((queueId): queueId is number => queueId !== null);
+    const executions = await this.prisma.taskExecution.findMany({
+      where: { queueId: { in: queueIds } },
+      orderBy: { id: 'asc' },
+    });
+
+    const entity = this.toEntity(run);
+    entity.steps.forEach((step) => {
+      step.executions = executions.filter(
+        (execution) => step.queueId && execution.queueId === step.queueId,
+      );
+    });
+    return entity;
+  }
+
+  /**
+   * 分页获取工作流的运行记录
+   * @param workflowId 工作流ID
+   * @param params 查询参数
+   */
+  async findRuns(
+    workflowId: number,
+    params: WorkflowRunQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<WorkflowRunEntity>> {
+    await this.workflowsService.getWorkflow(workflowId);
+
+    const where: any = { workflowId };
+    if (params.status) {
+      where.status = params.status;
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      WorkflowRunWithSteps,
+      any
+    >(
+      this.prisma.workflowRun as unknown as PrismaModel<WorkflowRunWithSteps>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+      RUN_STEPS_INCLUDE as any, // include
+    );
+
+    return {
+      ...result,
+      items: result.items.map((run) => this.toEntity(run)),
+    };
+  }
+
+  /**
+   * 定时推进所有运行中的工作流
+   */
+  @Interval(ADVANCE_INTERVAL_MS)
+  async advanceRuns(): Promise<void> {
+    if (this.isAdvancing) {
+      return;
+    }
+    this.isAdvancing = true;
+
+    try {
+      const runs = await this.prisma.workflowRun.findMany({
+        where: { status: WorkflowRunStatus.RUNNING },
+        include: RUN_STEPS_INCLUDE,
+        orderBy: { id: 'asc' },
+      });
+      for (const run of runs) {
+        try {
+          await this.advanceRun(run);
+        } catch (error) {
+          this.logger.error(
+            `推进工作流运行记录 ${run.id} 失败: ${error.message}`,
+          );
+        }
+      }
+    } finally {
+      this.isAdvancing = false;
+    }
+  }
+
+  /**
+   * 推进单个运行记录
+   *
+   * 当前步骤仍在执行时不做处理；否则记录其结果，
+   * 依次评估后续步骤的执行条件，启动第一个满足条件的步骤，
+   * 没有剩余步骤时结束整个运行记录。
+   */
+  private async advanceRun(run: WorkflowRunWithSteps): Promise<void> {
+    let anyFailed = run.steps.some(
+      (step) => step.status === WorkflowRunStepStatus.FAILED,
+    );
+
+    const runningStep = run.steps.find(
+      (step) => step.status === WorkflowRunStepStatus.RUNNING,
+    );
+    if (runningStep) {
+      const outcome = await this.getStepOutcome(runningStep);
+      if (outcome === 'running') {
+        return;
+      }
+      const status =
+        outcome === 'completed'
+          ? WorkflowRunStepStatus.COMPLETED
+          : WorkflowRunStepStatus.FAILED;
+      await this.updateStep(runningStep.id, WorkflowRunStepStatus.RUNNING, {
+        status,
+        completedAt: new Date(),
+      });
+      anyFailed = anyFailed || status === WorkflowRunStepStatus.FAILED;
+    }
+
+    for (const step of run.steps) {
+      if (step.status !== WorkflowRunStepStatus.PENDING) {
+        continue;
+      }
+
+      if (!this.shouldRun(step.condition, anyFailed)) {
+        await this.updateStep(step.id, WorkflowRunStepStatus.PENDING, {
+          status: WorkflowRunStepStatus.SKIPPED,
+          completedAt: new Date(),
+        });
+        continue;
+      }
+
+      if (await this.startStep(run, step)) {
+        return;
+      }
+      anyFailed = true;
+    }
+
+    const status = anyFailed
+      ? WorkflowRunStatus.FAILED
+      : WorkflowRunStatus.COMPLETED;
+    await this.prisma.workflowRun.updateMany({
+      where: { id: run.id, status: WorkflowRunStatus.RUNNING },
+      data: { status, completedAt: new Date() },
+    });
+    this.logger.log(`工作流运行记录 ${run.id} 已结束，状态: ${status}`);
+  }
+
+  /**
+   * 启动步骤：解析执行目标并加入执行队列
+   * @returns 是否成功启动，失败时步骤标记为失败并记录原因
+   */
+  private async startStep(
+    run: WorkflowRun,
+    step: WorkflowRunStep,
+  ): Promise<boolean> {
+    try {
+      // 分组成员和标签可能已变更，启动步骤时重新解析执行目标
+      const target: ServerTargetDto = JSON.parse(step.target ?? '{}');
+      const serverIds =
+        await this.serversService.resolveTargetServerIds(target);
+
+      // 运行记录可能在解析目标期间被中止
+      const current = await this.prisma.workflowRun.findUnique({
+        where: { id: run.id },
+        select: { status: true },
+      });
+      if (current?.status !== WorkflowRunStatus.RUNNING) {
+        return true;
+      }
+
+      const queueId = await this.queueManager.enqueue(
+        step.taskId,
+        serverIds,
+        run.priority,
+        step.params ? JSON.parse(step.params) : undefined,
+        { target: { ...target, workflowRunId: run.id } },
+      );
+      await this.updateStep(step.id, WorkflowRunStepStatus.PENDING, {
+        status: WorkflowRunStepStatus.RUNNING,
+        queueId,
+        startedAt: new Date(),
+      });
+      this.logger.log(
+        `工作流运行记录 ${run.id} 的步骤 ${step.position + 1} 已入队，队列ID: ${queueId}`,
+      );
+      return true;
+    } catch (error) {
+      this.logger.warn(
+        `工作流运行记录 ${run.id} 的步骤 ${step.position + 1} 启动失败: ${error.message}`,
+      );
+      await this.updateStep(step.id, WorkflowRunStepStatus.PENDING, {
+        status: WorkflowRunStepStatus.FAILED,
+        error: error.message,
+        completedAt: new Date(),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * 根据队列项及其执行记录判断步骤结果
+   * 队列项完成且所有执行记录都成功时步骤才算成功
+   */
+  private async getStepOutcome(step: WorkflowRunStep): Promise<StepOutcome> {
+    if (!step.queueId) {
+      return 'failed';
+    }
+
+    const queue = await this.prisma.queue.findUnique({
+      where: { id: step.queueId },
+      select: { status: true },
+    });
+    if (queue?.status === 'waiting' || queue?.status === 'processing') {
+      return 'running';
+    }
+    if (queue?.status !== 'completed') {
+      return 'failed';
+    }
+
+    const unsuccessful = await this.prisma.taskExecution.count({
+      where: { queueId: step.queueId, status: { not: 'completed' } },
+    });
+    return unsuccessful === 0 ? 'completed' : 'failed';
+  }
+
+  /**
+   * 判断步骤的执行条件是否满足
+   * @param condition 执行条件
+   * @param anyFailed 之前是否有步骤失败
+   */
+  private shouldRun(condition: string, anyFailed: boolean): boolean {
+    switch (condition) {
+      case WorkflowStepCondition.ALWAYS:
+        return true;
+      case WorkflowStepCondition.FAILURE:
+        return anyFailed;
+      default:
+        return !anyFailed;
+    }
+  }
+
+  /**
+   * 仅在步骤仍处于预期状态时更新，避免覆盖中止操作
+   */
+  private async updateStep(
+    stepId: number,
+    expectedStatus: string,
+    data: Partial<WorkflowRunStep>,
+  ): Promise<void> {
+    await this.prisma.workflowRunStep.updateMany({
+      where: { id: stepId, status: expectedStatus },
+      data,
+    });
+  }
+
+  private hasTarget(target: ServerTargetDto): boolean {
+    return (
+      !!target.serverIds?.length ||
+      target.groupId !== undefined ||
+      target.tagSelector !== undefined
+    );
+  }
+
+  private async getRun(runId: number): Promise<WorkflowRunWithSteps> {
+    const run = await this.prisma.workflowRun.findUnique({
+      where: { id: runId },
+      include: RUN_STEPS_INCLUDE,
+    });
+
+    if (!run) {
+      throw new NotFoundException(`工作流运行记录ID ${runId} 不存在`);
+    }
+
+    return run;
+  }
+
+  /**
+   * 将数据库记录转换为实体
+   */
+  private toEntity(run: WorkflowRunWithSteps): WorkflowRunEntity {
+    return {
+      ...run,
+      target: run.target ? JSON.parse(run.target) : null,
+      steps: run.steps.map(
+        (step): WorkflowRunStepEntity => ({
+          ...step,
+          target: step.target ? JSON.parse(step.target) : null,
+          params: step.params ? JSON.parse(step.params) : null,
+        }),
+      ),
+    };
+  }
+}
@@ -0,0 +1,189 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseIntPipe,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { CreateWorkflowDto } from './dto/create-workflow.dto';
+import { UpdateWorkflowDto } from './dto/update-workflow.dto';
+import { WorkflowQueryDto } from './dto/workflow-query.dto';
+import { RunWorkflowDto } from './dto/run-workflow.dto';
+import { WorkflowRunQueryDto } from './dto/workflow-run-query.dto';
+import { WorkflowEntity } from './entities/workflow.entity';
+import { WorkflowRunEntity } from './entities/workflow-run.entity';
+import { ParsePaginationPipe } from '../../common';
+
+@ApiTags('workflows')
+@ApiBearerAuth()
+@Controller('workflows')
+export class WorkflowsController {
+  constructor(
+    private readonly workflowsService: WorkflowsService,
+    private readonly workflowRunner: WorkflowRunnerService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: '创建工作流' })
+  @ApiResponse({
+    status: 201,
+    description: '工作流创建成功',
+    type: WorkflowEntity,
+  })
+  @ApiResponse({ status: 400, description: '步骤参数值或执行目标无效' })
+  @ApiResponse({ status: 404, description: '任务、服务器或分组不存在' })
+  create(@Body() createWorkflowDto: CreateWorkflowDto) {
+    return this.workflowsService.create(createWorkflowDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: '分页获取工作流列表' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的工作流列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/WorkflowEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  findByLimit(@Query(ParsePaginationPipe) params: WorkflowQueryDto) {
+    return this.workflowsService.findByLimit(params);
+  }
+
+  @Get('runs/:runId')
+  @ApiOperation({ summary: '获取工作流运行记录详情' })
+  @ApiParam({ name: 'runId', description: '运行记录ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回运行记录及各步骤产生的执行记录',
+    type: WorkflowRunEntity,
+  })
+  @ApiResponse({ status: 404, description: '运行记录不存在' })
+  findRun(@Param('runId', ParseIntPipe) runId: number) {
+    return this.workflowRunner.findRun(runId);
+  }
+
+  @Post('runs/:runId/abort')
+  @ApiOperation({ summary: '中止工作流运行' })
+  @ApiParam({ name: 'runId', description: '运行记录ID' })
+  @ApiResponse({
+    status: 201,
+    description: '工作流运行已中止',
+    type: WorkflowRunEntity,
+  })
+  @ApiResponse({ status: 400, description: '运行记录已结束' })
+  @ApiResponse({ status: 404, description: '运行记录不存在' })
+  abort(@Param('runId', ParseIntPipe) runId: number) {
+    return this.workflowRunner.abort(runId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '获取指定工作流' })
+  @ApiParam({ name: 'id', description: '工作流ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回指定工作流',
+    type: WorkflowEntity,
+  })
+  @ApiResponse({ status: 404, description: '工作流不存在' })
+  findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.workflowsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: '更新工作流' })
+  @ApiParam({ name: 'id', description: '工作流ID' })
+  @ApiResponse({
+    status: 200,
+    description: '工作流更新成功',
+    type: WorkflowEntity,
+  })
+  @ApiResponse({ status: 404, description: '工作流不存在' })
+  update(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() updateWorkflowDto: UpdateWorkflowDto,
+  ) {
+    return this.workflowsService.update(id, updateWorkflowDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: '删除工作流' })
+  @ApiParam({ name: 'id', description: '工作流ID' })
+  @ApiResponse({
+    status: 200,
+    description: '工作流删除成功',
+    type: WorkflowEntity,
+  })
+  @ApiResponse({ status: 404, description: '工作流不存在' })
+  @ApiResponse({ status: 409, description: '工作流仍有运行中的记录' })
+  remove(@Param('id', ParseIntPipe) id: number) {
+    return this.workflowsService.remove(id);
+  }
+
+  @Post(':id/run')
+  @ApiOperation({ summary: '运行工作流' })
+  @ApiParam({ name: 'id', description: '工作流ID' })
+  @ApiResponse({
+    status: 201,
+    description: '工作流已开始运行',
+    type: WorkflowRunEntity,
+  })
+  @ApiResponse({ status: 400, description: '步骤缺少执行目标或参数值无效' })
+  @ApiResponse({ status: 404, description: '工作流、任务或服务器不存在' })
+  run(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() runWorkflowDto: RunWorkflowDto,
+  ) {
+    return this.workflowRunner.run(id, runWorkflowDto);
+  }
+
+  @Get(':id/runs')
+  @ApiOperation({ summary: '分页获取工作流的运行记录' })
+  @ApiParam({ name: 'id', description: '工作流ID' })
+  @ApiResponse({
+    status: 200,
+    description: '返回分页的运行记录列表',
+    schema: {
+      allOf: [
+        { $ref: '#/components/schemas/PaginationResultDto' },
+        {
+          properties: {
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/WorkflowRunEntity' },
+            },
+          },
+        },
+      ],
+    },
+  })
+  @ApiResponse({ status: 404, description: '工作流不存在' })
+  findRuns(
+    @Param('id', ParseIntPipe) id: number,
+    @Query(ParsePaginationPipe) params: WorkflowRunQueryDto,
+  ) {
+    return this.workflowRunner.findRuns(id, params);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { WorkflowsService } from './workflows.service';
+import { WorkflowRunnerService } from './workflow-runner.service';
+import { WorkflowsController } from './workflows.controller';
+import { QueueModule } from '../queue/queue.module';
+import { ServersModule } from '../servers/servers.module';
+import { CommonModule } from '../../common';
+
+@Module({
+  imports: [QueueModule, ServersModule, CommonModule],
+  controllers: [WorkflowsController],
+  providers: [WorkflowsService, WorkflowRunnerService],
+  exports: [WorkflowsService],
+})
+export class WorkflowsModule {}
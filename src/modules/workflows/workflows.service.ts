@@ -0,0 +1,216 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Workflow, WorkflowStep } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  PaginationResultDto,
+  PaginationService,
+  WorkflowRunStatus,
+  WorkflowStepCondition,
+} from '../../common';
+import { PrismaModel } from '../../common/types/utility-types';
+import { ServersService } from '../servers/servers.service';
+import {
+  parseTaskParameters,
+  resolveTaskParameters,
+} from '../tasks/utils/task-template.util';
+import { CreateWorkflowDto } from './dto/create-workflow.dto';
+import { UpdateWorkflowDto } from './dto/update-workflow.dto';
+import { WorkflowQueryDto } from './dto/workflow-query.dto';
+import { WorkflowStepDto } from './dto/workflow-step.dto';
+import { WorkflowEntity, WorkflowStepEntity } from './entities/workflow.entity';
+
+const STEPS_INCLUDE = { steps: { orderBy: { position: 'asc' } } } as const;
+
+type WorkflowWithSteps = Workflow & { steps: WorkflowStep[] };
+
+@Injectable()
+export class WorkflowsService {
+  private readonly logger = new Logger(WorkflowsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paginationService: PaginationService,
+    private readonly serversService: ServersService,
+  ) {}
+
+  async create(createWorkflowDto: CreateWorkflowDto): Promise<WorkflowEntity> {
+    const { steps, ...data } = createWorkflowDto;
+    await this.validateSteps(steps);
+
+    const workflow = await this.prisma.workflow.create({
+      data: {
+        ...data,
+        steps: {
+          create: steps.map((step, index) => this.toStepData(step, index)),
+        },
+      },
+      include: STEPS_INCLUDE,
+    });
+    return this.toEntity(workflow);
+  }
+
+  async findByLimit(
+    params: WorkflowQueryDto = { page: 1, pageSize: 10 },
+  ): Promise<PaginationResultDto<WorkflowEntity>> {
+    // 构建查询条件
+    const where: any = {};
+
+    if (params.name) {
+      where.name = {
+        contains: params.name,
+      };
+    }
+
+    const result = await this.paginationService.paginateByLimit<
+      WorkflowWithSteps,
+      any
+    >(
+      this.prisma.workflow as unknown as PrismaModel<WorkflowWithSteps>,
+      params,
+      where, // where
+      { createdAt: 'desc' }, // orderBy
+      STEPS_INCLUDE as any, // include
+    );
+
+    return {
+      ...result,
+      items: result.items.map((workflow) => this.toEntity(workflow)),
+    };
+  }
+
+  async findOne(id: number): Promise<WorkflowEntity> {
+    return this.toEntity(await this.getWorkflow(id));
+  }
+
+  async update(
+    id: number,
+    updateWorkflowDto: UpdateWorkflowDto,
+  ): Promise<WorkflowEntity> {
+    await this.getWorkflow(id);
+    const { steps, ...data } = updateWorkflowDto;
+    if (steps) {
+      await this.validateSteps(steps);
+    }
+
+    // 提供步骤列表时整体替换，已有运行记录保存的是步骤快照，不受影响
+    const workflow = await this.prisma.$transaction(async (tx) => {
+      if (steps) {
+        await tx.workflowStep.deleteMany({ where: { workflowId: id } });
+      }
+      return tx.workflow.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(steps && {
+            steps: {
+              create: steps.map((step, index) => this.toStepData(step, index)),
+            },
+          }),
+        },
+        include: STEPS_INCLUDE,
+      });
+    });
+    return this.toEntity(workflow);
+  }
+
+  async remove(id: number): Promise<WorkflowEntity> {
+    const workflow = await this.getWorkflow(id);
+
+    const runningRuns = await this.prisma.workflowRun.count({
+      where: { workflowId: id, status: WorkflowRunStatus.RUNNING },
+    });
+    if (runningRuns > 0) {
+      throw new ConflictException(`工作流ID ${id} 仍有运行中的记录，请先中止`);
+    }
+
+    await this.prisma.workflow.delete({ where: { id } });
+    this.logger.log(`工作流 ${id} 已删除`);
+    return this.toEntity(workflow);
+  }
+
+  /**
+   * 获取工作流及其有序步骤
+   * @param id 工作流ID
+   */
+  async getWorkflow(id: number): Promise<WorkflowWithSteps> {
+    const workflow = await this.prisma.workflow.findUnique({
+      where: { id },
+      include: STEPS_INCLUDE,
+    });
+
+    if (!workflow) {
+      throw new NotFoundException(`工作流ID ${id} 不存在`);
+    }
+
+    return workflow;
+  }
+
+  /**
+   * 校验步骤引用的任务、参数值及显式指定的执行目标
+   * 未指定目标的步骤在运行时使用默认目标
+   * @param steps 步骤列表
+   */
+  private async validateSteps(steps: WorkflowStepDto[]): Promise<void> {
+    const taskIds = [...new Set(steps.map((step) => step.taskId))];
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: taskIds } },
+      select: { id: true, parameters: true },
+    });
+    const taskMap = new Map(tasks.map((task) => [task.id, task]));
+
+    for (const step of steps) {
+      const task = taskMap.get(step.taskId);
+      if (!task) {
+        throw new NotFoundException(`任务ID ${step.taskId} 不存在`);
+      }
+      resolveTaskParameters(parseTaskParameters(task.parameters), step.params);
+      if (this.hasTarget(step)) {
+        await this.serversService.resolveTargetServerIds(step);
+      }
+    }
+  }
+
+  private hasTarget(step: WorkflowStepDto): boolean {
+    return (
+      !!step.serverIds?.length ||
+      step.groupId !== undefined ||
+      step.tagSelector !== undefined
+    );
+  }
+
+  private toStepData(step: WorkflowStepDto, position: number) {
+    return {
+      position,
+      name: step.name,
+      taskId: step.taskId,
+      condition: step.condition ?? WorkflowStepCondition.SUCCESS,
+      serverIds: step.serverIds?.length ? step.serverIds.join(',') : null,
+      groupId: step.groupId ?? null,
+      tagSelector: step.tagSelector ?? null,
+      params: step.params ? JSON.stringify(step.params) : null,
+    };
+  }
+
+  /**
+   * 将数据库记录转换为实体
+   */
+  private toEntity(workflow: WorkflowWithSteps): WorkflowEntity {
+    return {
+      ...workflow,
+      steps: workflow.steps.map(
+        (step): WorkflowStepEntity => ({
+          ...step,
+          serverIds: step.serverIds
+            ? step.serverIds.split(',').map(Number)
+            : null,
+          params: step.params ? JSON.parse(step.params) : null,
+        }),
+      ),
+    };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * 主密钥轮换命令
+ *
+ * 使用方法：将新主密钥设置为 CREDENTIAL_MASTER_KEY，旧主密钥设置为
+ * CREDENTIAL_PREVIOUS_MASTER_KEYS，然后执行 pnpm credentials:rotate-key。
+ * 所有服务器凭据和通知渠道密钥会使用新主密钥和新的数据密钥重新加密，完成后即可移除旧主密钥。
+ */
+import { Logger, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { NestFactory } from '@nestjs/core';
+import { PrismaModule } from '../prisma/prisma.module';
+import { EncryptionModule } from '../modules/encryption/encryption.module';
+import { ServerCredentialsService } from '../modules/servers/server-credentials.service';
+
+@Module({
+  imports: [
+    ConfigModule.forRoot({ isGlobal: true }),
+    PrismaModule,
+    EncryptionModule,
+  ],
+  providers: [ServerCredentialsService],
+})
+class CredentialKeyRotationModule {}
+
+async function bootstrap() {
+  const logger = new Logger('RotateCredentialKey');
+  const app = await NestFactory.createApplicationContext(
+    CredentialKeyRotationModule,
+    { logger: ['error', 'warn', 'log'] },
+  );
+
+  try {
+    const count = await app.get(ServerCredentialsService).reencryptAll();
+    logger.log(`主密钥轮换完成，已重新加密 ${count} 条凭据记录`);
+  } finally {
+    await app.close();
+  }
+}
+
+bootstrap().catch((error) => {
+  console.error(`主密钥轮换失败: ${error.message}`);
+  process.exit(1);
+});